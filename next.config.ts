@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Loaded at runtime by the code static analyzer, not bundled (large, uses its own lib files)
+  serverExternalPackages: ["typescript"],
 };
 
 export default nextConfig;
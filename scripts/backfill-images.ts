@@ -0,0 +1,168 @@
+/**
+ * Backfill: Move Generated Images to Supabase Storage
+ *
+ * DESCRIPTION:
+ * Outputs generated before images were stored in our bucket point at
+ * provider URLs (fal.ai, Replicate, Gemini), which expire, or embed data
+ * URLs (Hugging Face). This script downloads each of those images, stores it
+ * in the `images` bucket under the output owner's folder
+ * ({userId}/{sha256}.{ext}, so a repeated image is stored once) and rewrites
+ * the output's content: image cells and slides, the `images` list (with the
+ * image's real width and height), the social post image, and the rendered
+ * markdown / HTML. A published public blog post (blog_posts) is rewritten
+ * too.
+ *
+ * Images already in the bucket are skipped, so the script can be re-run.
+ * An image whose provider URL has already expired can't be recovered: it is
+ * reported and left as it is.
+ *
+ * USAGE:
+ *   npm run images:backfill -- [--dry-run] [--user <userId>] [--limit <n>]
+ *
+ * OPTIONS:
+ *   --dry-run        List the outputs and images that would be moved, change nothing
+ *   --user <userId>  Only this user's outputs
+ *   --limit <n>      Stop after n outputs with images to move
+ *
+ * PREREQUISITES:
+ *   - .env.local with NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY
+ *   - scripts/setup-db.sql applied (creates the `images` bucket)
+ */
+
+import * as dotenv from 'dotenv';
+import * as path from 'path';
+
+// Load environment variables BEFORE importing modules that read them
+dotenv.config({ path: path.resolve(__dirname, '../.env.local') });
+
+const PAGE_SIZE = 50;
+
+interface Options {
+  dryRun: boolean;
+  userId: string | null;
+  limit: number;
+}
+
+function parseArgs(args: string[]): Options {
+  const options: Options = { dryRun: false, userId: null, limit: Infinity };
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--user':
+        options.userId = args[++i] ?? null;
+        if (!options.userId) throw new Error('--user needs a user id');
+        break;
+      case '--limit':
+        options.limit = Number(args[++i]);
+        if (!Number.isInteger(options.limit) || options.limit < 1) throw new Error('--limit needs a positive integer');
+        break;
+      default:
+        throw new Error(`Unknown option: ${args[i]}`);
+    }
+  }
+
+  return options;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  const { supabaseAdmin } = await import('../src/lib/db/supabase');
+  const { findImagesToStore, rehostContentImages, replaceImageUrls } = await import(
+    '../src/lib/agents/creators/image-storage'
+  );
+
+  console.log(`🖼️  Backfilling generated images${options.dryRun ? ' (dry run)' : ''}...`);
+  if (options.userId) console.log(`   User: ${options.userId}`);
+
+  const totals = { scanned: 0, outputs: 0, stored: 0, failed: 0 };
+
+  // Pages are read by created_at; rewritten outputs stay in place, so the
+  // offset is stable
+  for (let from = 0; totals.outputs < options.limit; from += PAGE_SIZE) {
+    let query = supabaseAdmin
+      .from('outputs')
+      .select('id, user_id, format, content')
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (options.userId) query = query.eq('user_id', options.userId);
+
+    const { data: outputs, error } = await query;
+    if (error) throw new Error(`Failed to load outputs: ${error.message}`);
+    if (!outputs || outputs.length === 0) break;
+
+    for (const output of outputs) {
+      totals.scanned++;
+
+      const sources = findImagesToStore(output.content);
+      if (sources.length === 0) continue;
+      if (totals.outputs >= options.limit) break;
+      totals.outputs++;
+
+      console.log(`\n📄 ${output.id} (${output.format}): ${sources.length} image(s)`);
+      if (options.dryRun) {
+        sources.forEach((source) => console.log(`   - ${source.startsWith('data:') ? 'data URL' : source}`));
+        continue;
+      }
+
+      const { content, stored, failed } = await rehostContentImages(output.user_id, output.content);
+      totals.stored += stored.size;
+      totals.failed += failed.length;
+
+      for (const image of stored.values()) {
+        console.log(`   ✅ ${image.path} (${image.width}x${image.height}, ${image.bytes} bytes)`);
+      }
+      for (const { source, reason } of failed) {
+        console.log(`   ❌ ${source}: ${reason}`);
+      }
+      if (stored.size === 0) continue;
+
+      const { error: updateError } = await supabaseAdmin
+        .from('outputs')
+        .update({ content })
+        .eq('id', output.id);
+      if (updateError) {
+        console.error(`   ❌ Failed to update output: ${updateError.message}`);
+        continue;
+      }
+
+      // The public blog keeps its own rendered copy
+      const { data: blogPost } = await supabaseAdmin
+        .from('blog_posts')
+        .select('id, markdown_content, html_content')
+        .eq('output_id', output.id)
+        .maybeSingle();
+      if (blogPost) {
+        const { error: blogError } = await supabaseAdmin
+          .from('blog_posts')
+          .update({
+            markdown_content: replaceImageUrls(blogPost.markdown_content, stored),
+            html_content: replaceImageUrls(blogPost.html_content, stored),
+          })
+          .eq('id', blogPost.id);
+        if (blogError) {
+          console.error(`   ❌ Failed to update public blog post: ${blogError.message}`);
+        } else {
+          console.log('   🌐 Public blog post updated');
+        }
+      }
+    }
+  }
+
+  console.log('\n📊 Summary');
+  console.log(`   Outputs scanned: ${totals.scanned}`);
+  console.log(`   Outputs with images to move: ${totals.outputs}`);
+  if (!options.dryRun) {
+    console.log(`   Images stored: ${totals.stored}`);
+    console.log(`   Images that couldn't be stored: ${totals.failed}`);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Backfill failed:', error);
+  process.exit(1);
+});
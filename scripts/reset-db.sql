@@ -25,6 +25,7 @@
 -- Drop triggers first (they depend on functions and tables)
 DROP TRIGGER IF EXISTS trigger_init_user_usage ON users;
 DROP TRIGGER IF EXISTS trigger_update_usage_tracking_timestamp ON usage_tracking;
+DROP TRIGGER IF EXISTS update_social_posts_updated_at ON social_posts;
 DROP TRIGGER IF EXISTS update_blog_posts_updated_at ON blog_posts;
 DROP TRIGGER IF EXISTS update_credentials_updated_at ON credentials;
 DROP TRIGGER IF EXISTS update_ideas_updated_at ON ideas;
@@ -36,11 +37,18 @@ DROP FUNCTION IF EXISTS update_updated_at_column CASCADE;
 DROP FUNCTION IF EXISTS check_user_has_credits CASCADE;
 DROP FUNCTION IF EXISTS consume_expansion_credit CASCADE;
 DROP FUNCTION IF EXISTS add_paid_credits CASCADE;
+DROP FUNCTION IF EXISTS claim_next_execution CASCADE;
+DROP FUNCTION IF EXISTS recover_orphaned_executions CASCADE;
+DROP FUNCTION IF EXISTS claim_due_social_posts CASCADE;
 
 -- Drop tables last (CASCADE handles FK dependencies automatically)
 DROP TABLE IF EXISTS payment_receipts CASCADE;
+DROP TABLE IF EXISTS social_posts CASCADE;
 DROP TABLE IF EXISTS blog_posts CASCADE;
 DROP TABLE IF EXISTS outputs CASCADE;
+DROP TABLE IF EXISTS execution_events CASCADE;
+DROP TABLE IF EXISTS execution_logs CASCADE;
+DROP TABLE IF EXISTS execution_checkpoints CASCADE;
 DROP TABLE IF EXISTS executions CASCADE;
 DROP TABLE IF EXISTS usage_tracking CASCADE;
 DROP TABLE IF EXISTS credentials CASCADE;
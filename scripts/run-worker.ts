@@ -0,0 +1,55 @@
+/**
+ * Standalone Expansion Worker
+ *
+ * DESCRIPTION:
+ * Runs the expansion job worker and the social post scheduler outside the
+ * Next.js server. Use this with JOB_DRIVER=external so web requests only
+ * enqueue and this process does the (long-running) agent work.
+ *
+ * USAGE:
+ *   npm run worker
+ *
+ * PREREQUISITES:
+ *   - .env.local with Supabase and model API keys
+ *   - scripts/setup-db.sql applied (claim_next_execution, recover_orphaned_executions,
+ *     claim_due_social_posts)
+ *
+ * Stops gracefully on SIGINT/SIGTERM: no new jobs are claimed and running
+ * jobs (and social posts being sent) are allowed to finish.
+ */
+
+import * as dotenv from 'dotenv';
+import * as path from 'path';
+
+// Load environment variables BEFORE importing modules that read them
+dotenv.config({ path: path.resolve(__dirname, '../.env.local') });
+
+async function main() {
+  const { recoverOrphanedJobs } = await import('../src/lib/jobs/job-queue');
+  const { JobWorker } = await import('../src/lib/jobs/worker');
+  const { SocialScheduler } = await import('../src/lib/jobs/social-scheduler');
+
+  console.log('♻️  Recovering orphaned executions...');
+  const recovered = await recoverOrphanedJobs();
+  console.log(`   Requeued: ${recovered.requeued}, failed: ${recovered.failed}`);
+
+  const worker = new JobWorker('external');
+  worker.start();
+
+  const scheduler = new SocialScheduler('external');
+  scheduler.start();
+
+  const shutdown = async (signal: string) => {
+    console.log(`\n🛑 ${signal} received, waiting for running jobs...`);
+    await Promise.all([worker.stop(), scheduler.stop()]);
+    process.exit(0);
+  };
+
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+}
+
+main().catch((error) => {
+  console.error('❌ Worker crashed:', error);
+  process.exit(1);
+});
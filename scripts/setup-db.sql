@@ -56,6 +56,7 @@ CREATE TABLE IF NOT EXISTS users (
   email TEXT NOT NULL UNIQUE,
   name TEXT,
   timezone TEXT DEFAULT 'UTC',
+  quality_policy JSONB NOT NULL DEFAULT '{}'::jsonb, -- Quality policy overrides (see src/lib/quality)
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
@@ -95,7 +96,7 @@ CREATE INDEX IF NOT EXISTS idx_ideas_summary ON ideas(summary);
 CREATE TABLE IF NOT EXISTS credentials (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-  provider TEXT NOT NULL CHECK (provider IN ('openai', 'anthropic', 'github', 'twitter', 'replicate')),
+  provider TEXT NOT NULL CHECK (provider IN ('openai', 'anthropic', 'github', 'twitter', 'replicate', 'devto', 'ghost', 'wordpress', 'medium', 'x', 'linkedin', 'mastodon', 'bluesky')),
   encrypted_value TEXT NOT NULL,
   is_active BOOLEAN DEFAULT true,
   validation_status TEXT DEFAULT 'not_checked' CHECK (validation_status IN ('valid', 'invalid', 'not_checked')),
@@ -116,19 +117,88 @@ CREATE TABLE IF NOT EXISTS executions (
   selected_idea_id UUID REFERENCES ideas(id) ON DELETE SET NULL,
   judge_reasoning TEXT,
   judge_score INTEGER CHECK (judge_score >= 0 AND judge_score <= 100),
-  format_chosen TEXT CHECK (format_chosen IN ('blog_post', 'twitter_thread', 'github_repo', 'image')),
+  format_chosen TEXT, -- Registered output format id (validated by src/lib/agents/formats)
   format_reasoning TEXT,
-  status TEXT DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed', 'partial')),
+  status TEXT DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed', 'partial', 'cancelled')),
   error_message TEXT,
   error_step TEXT,
   tokens_used INTEGER DEFAULT 0,
   duration_seconds INTEGER,
+  -- Job queue columns (see src/lib/jobs/job-queue.ts)
+  job_payload JSONB DEFAULT '{}'::jsonb,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  lease_owner TEXT,
+  lease_expires_at TIMESTAMPTZ,
+  heartbeat_at TIMESTAMPTZ,
+  cancel_requested_at TIMESTAMPTZ, -- Set by POST /api/expand/cancel; the worker stops the job
+  queued_at TIMESTAMPTZ DEFAULT NOW(),
+  -- Latest progress (mirrors the newest execution_events row)
+  current_stage TEXT,
+  progress INTEGER DEFAULT 0 CHECK (progress >= 0 AND progress <= 100),
+  -- Set once a credit is charged, so resumed/retried runs never charge twice
+  credit_consumed BOOLEAN NOT NULL DEFAULT FALSE,
   started_at TIMESTAMPTZ DEFAULT NOW(),
   completed_at TIMESTAMPTZ
 );
 
 CREATE INDEX IF NOT EXISTS idx_executions_user_date ON executions(user_id, started_at DESC);
 CREATE INDEX IF NOT EXISTS idx_executions_status ON executions(status);
+CREATE INDEX IF NOT EXISTS idx_executions_queue ON executions(status, queued_at) WHERE status IN ('queued', 'running');
+
+-- ============================================================
+-- EXECUTION EVENTS TABLE (stage-level progress)
+-- ============================================================
+-- One row per stage transition (started/completed/failed).
+-- Written by src/lib/progress/progress-reporter.ts
+
+CREATE TABLE IF NOT EXISTS execution_events (
+  id BIGSERIAL PRIMARY KEY,
+  execution_id UUID NOT NULL REFERENCES executions(id) ON DELETE CASCADE,
+  stage TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('started', 'completed', 'failed')),
+  attempt INTEGER NOT NULL DEFAULT 1,
+  percent INTEGER NOT NULL DEFAULT 0 CHECK (percent >= 0 AND percent <= 100),
+  message TEXT,
+  data JSONB DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_execution_events_execution ON execution_events(execution_id, id);
+
+-- ============================================================
+-- EXECUTION LOGS TABLE (live log stream)
+-- ============================================================
+-- Logger output captured while a job runs, tailed by GET /api/expand/stream.
+-- Written by src/lib/logging/execution-logs.ts
+
+CREATE TABLE IF NOT EXISTS execution_logs (
+  id BIGSERIAL PRIMARY KEY,
+  execution_id UUID NOT NULL REFERENCES executions(id) ON DELETE CASCADE,
+  level TEXT NOT NULL CHECK (level IN ('DEBUG', 'INFO', 'WARN', 'ERROR')),
+  stage TEXT,
+  message TEXT NOT NULL,
+  data JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_execution_logs_execution ON execution_logs(execution_id, id);
+
+-- ============================================================
+-- EXECUTION CHECKPOINTS TABLE (resumable pipeline)
+-- ============================================================
+-- One row per completed stage (router, creator.code.plan, creator.code.review.2, ...).
+-- Written by src/lib/checkpoints/checkpoint-store.ts, read on resume.
+
+CREATE TABLE IF NOT EXISTS execution_checkpoints (
+  id BIGSERIAL PRIMARY KEY,
+  execution_id UUID NOT NULL REFERENCES executions(id) ON DELETE CASCADE,
+  stage TEXT NOT NULL,
+  data JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(execution_id, stage)
+);
 
 -- ============================================================
 -- OUTPUTS TABLE (generated content)
@@ -139,8 +209,9 @@ CREATE TABLE IF NOT EXISTS outputs (
   execution_id UUID NOT NULL REFERENCES executions(id) ON DELETE CASCADE,
   user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
   idea_id UUID REFERENCES ideas(id) ON DELETE SET NULL,
-  format TEXT NOT NULL CHECK (format IN ('blog_post', 'twitter_thread', 'github_repo', 'image')),
+  format TEXT NOT NULL, -- Registered output format id (validated by src/lib/agents/formats)
   content JSONB NOT NULL,
+  parent_output_id UUID REFERENCES outputs(id) ON DELETE SET NULL, -- Bundle: companion post → its repo output
   published BOOLEAN DEFAULT false,
   publication_url TEXT,
   publication_metadata JSONB DEFAULT '{}'::jsonb,
@@ -151,6 +222,7 @@ CREATE TABLE IF NOT EXISTS outputs (
 CREATE INDEX IF NOT EXISTS idx_outputs_user_date ON outputs(user_id, created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_outputs_execution ON outputs(execution_id);
 CREATE INDEX IF NOT EXISTS idx_outputs_format ON outputs(format);
+CREATE INDEX IF NOT EXISTS idx_outputs_parent ON outputs(parent_output_id);
 
 -- ============================================================
 -- BLOG_POSTS TABLE
@@ -177,6 +249,33 @@ CREATE INDEX IF NOT EXISTS idx_blog_posts_slug ON blog_posts(slug);
 CREATE INDEX IF NOT EXISTS idx_blog_posts_public ON blog_posts(is_public, published_at DESC);
 CREATE INDEX IF NOT EXISTS idx_blog_posts_user ON blog_posts(user_id, created_at DESC);
 
+-- ============================================================
+-- SOCIAL_POSTS TABLE (per-network share posts for a blog output)
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS social_posts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  output_id UUID NOT NULL REFERENCES outputs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  network TEXT NOT NULL CHECK (network IN ('x', 'linkedin', 'mastodon', 'bluesky')),
+  posts TEXT[] NOT NULL, -- One per post (an X thread has several); the last contains [BLOG_URL]
+  hashtags TEXT[] DEFAULT ARRAY[]::TEXT[], -- Without "#", appended to the last post when sent
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'scheduled', 'posting', 'posted', 'failed', 'cancelled')),
+  scheduled_for TIMESTAMPTZ,
+  attempts INT NOT NULL DEFAULT 0,
+  lease_expires_at TIMESTAMPTZ, -- While posting; an expired lease means the scheduler died mid-post
+  post_url TEXT, -- The first post on the network
+  remote_ids TEXT[] DEFAULT ARRAY[]::TEXT[], -- The network's ids of the posts sent
+  error_message TEXT,
+  posted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(output_id, network)
+);
+
+CREATE INDEX IF NOT EXISTS idx_social_posts_output ON social_posts(output_id);
+CREATE INDEX IF NOT EXISTS idx_social_posts_due ON social_posts(status, scheduled_for);
+
 -- ============================================================
 -- USAGE TRACKING TABLE (Credit System)
 -- ============================================================
@@ -224,8 +323,12 @@ ALTER TABLE users ENABLE ROW LEVEL SECURITY;
 ALTER TABLE ideas ENABLE ROW LEVEL SECURITY;
 ALTER TABLE credentials ENABLE ROW LEVEL SECURITY;
 ALTER TABLE executions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE execution_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE execution_logs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE execution_checkpoints ENABLE ROW LEVEL SECURITY;
 ALTER TABLE outputs ENABLE ROW LEVEL SECURITY;
 ALTER TABLE blog_posts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE social_posts ENABLE ROW LEVEL SECURITY;
 ALTER TABLE usage_tracking ENABLE ROW LEVEL SECURITY;
 ALTER TABLE payment_receipts ENABLE ROW LEVEL SECURITY;
 
@@ -241,11 +344,14 @@ DROP POLICY IF EXISTS "Users can insert own credentials" ON credentials;
 DROP POLICY IF EXISTS "Users can update own credentials" ON credentials;
 DROP POLICY IF EXISTS "Users can delete own credentials" ON credentials;
 DROP POLICY IF EXISTS "Users can view own executions" ON executions;
+DROP POLICY IF EXISTS "Users can view own execution events" ON execution_events;
+DROP POLICY IF EXISTS "Users can view own execution logs" ON execution_logs;
 DROP POLICY IF EXISTS "Users can view own outputs" ON outputs;
 DROP POLICY IF EXISTS "Users can view own blog posts" ON blog_posts;
 DROP POLICY IF EXISTS "Users can insert own blog posts" ON blog_posts;
 DROP POLICY IF EXISTS "Users can update own blog posts" ON blog_posts;
 DROP POLICY IF EXISTS "Users can delete own blog posts" ON blog_posts;
+DROP POLICY IF EXISTS "Users can view own social posts" ON social_posts;
 DROP POLICY IF EXISTS "Users can view own usage" ON usage_tracking;
 DROP POLICY IF EXISTS "Users can view own receipts" ON payment_receipts;
 
@@ -268,6 +374,16 @@ CREATE POLICY "Users can delete own credentials" ON credentials FOR DELETE USING
 -- Executions table
 CREATE POLICY "Users can view own executions" ON executions FOR SELECT USING (user_id::text = auth.jwt() ->> 'sub');
 
+-- Execution events table (ownership via parent execution)
+CREATE POLICY "Users can view own execution events" ON execution_events FOR SELECT USING (
+  EXISTS (SELECT 1 FROM executions e WHERE e.id = execution_id AND e.user_id::text = auth.jwt() ->> 'sub')
+);
+
+-- Execution logs table (ownership via parent execution)
+CREATE POLICY "Users can view own execution logs" ON execution_logs FOR SELECT USING (
+  EXISTS (SELECT 1 FROM executions e WHERE e.id = execution_id AND e.user_id::text = auth.jwt() ->> 'sub')
+);
+
 -- Outputs table
 CREATE POLICY "Users can view own outputs" ON outputs FOR SELECT USING (user_id::text = auth.jwt() ->> 'sub');
 
@@ -277,6 +393,9 @@ CREATE POLICY "Users can insert own blog posts" ON blog_posts FOR INSERT WITH CH
 CREATE POLICY "Users can update own blog posts" ON blog_posts FOR UPDATE USING (user_id::text = auth.jwt() ->> 'sub');
 CREATE POLICY "Users can delete own blog posts" ON blog_posts FOR DELETE USING (user_id::text = auth.jwt() ->> 'sub');
 
+-- Social posts table
+CREATE POLICY "Users can view own social posts" ON social_posts FOR SELECT USING (user_id::text = auth.jwt() ->> 'sub');
+
 -- Usage tracking table
 CREATE POLICY "Users can view own usage" ON usage_tracking FOR SELECT USING (user_id::text = auth.jwt() ->> 'sub');
 
@@ -307,6 +426,9 @@ CREATE TRIGGER update_credentials_updated_at BEFORE UPDATE ON credentials FOR EA
 DROP TRIGGER IF EXISTS update_blog_posts_updated_at ON blog_posts;
 CREATE TRIGGER update_blog_posts_updated_at BEFORE UPDATE ON blog_posts FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+DROP TRIGGER IF EXISTS update_social_posts_updated_at ON social_posts;
+CREATE TRIGGER update_social_posts_updated_at BEFORE UPDATE ON social_posts FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 DROP TRIGGER IF EXISTS trigger_update_usage_tracking_timestamp ON usage_tracking;
 CREATE TRIGGER trigger_update_usage_tracking_timestamp BEFORE UPDATE ON usage_tracking FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
@@ -344,38 +466,42 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
-CREATE OR REPLACE FUNCTION consume_expansion_credit(p_user_id UUID)
+-- p_credits: most expansions cost 1, a bundle costs more (BUNDLE_CREDIT_COST)
+-- Free credits are used first; returns 'paid' if any paid credit was used
+DROP FUNCTION IF EXISTS consume_expansion_credit(UUID);
+
+CREATE OR REPLACE FUNCTION consume_expansion_credit(p_user_id UUID, p_credits INT DEFAULT 1)
 RETURNS TEXT AS $$
 DECLARE
   v_free_remaining INT;
   v_paid_remaining INT;
-  v_credit_type TEXT;
+  v_free_used INT;
+  v_paid_used INT;
 BEGIN
   SELECT free_expansions_remaining, paid_credits_remaining
   INTO v_free_remaining, v_paid_remaining
-  FROM usage_tracking WHERE user_id = p_user_id;
+  FROM usage_tracking WHERE user_id = p_user_id
+  FOR UPDATE;
 
-  IF v_free_remaining <= 0 AND v_paid_remaining <= 0 THEN
+  IF v_free_remaining + v_paid_remaining < p_credits THEN
     RAISE EXCEPTION 'No credits remaining for user %', p_user_id;
   END IF;
 
-  IF v_free_remaining > 0 THEN
-    UPDATE usage_tracking
-    SET free_expansions_remaining = free_expansions_remaining - 1,
-        total_expansions_used = total_expansions_used + 1,
-        total_free_used = total_free_used + 1
-    WHERE user_id = p_user_id;
-    v_credit_type := 'free';
-  ELSE
-    UPDATE usage_tracking
-    SET paid_credits_remaining = paid_credits_remaining - 1,
-        total_expansions_used = total_expansions_used + 1,
-        total_paid_used = total_paid_used + 1
-    WHERE user_id = p_user_id;
-    v_credit_type := 'paid';
-  END IF;
+  v_free_used := LEAST(v_free_remaining, p_credits);
+  v_paid_used := p_credits - v_free_used;
 
-  RETURN v_credit_type;
+  UPDATE usage_tracking
+  SET free_expansions_remaining = free_expansions_remaining - v_free_used,
+      paid_credits_remaining = paid_credits_remaining - v_paid_used,
+      total_expansions_used = total_expansions_used + 1,
+      total_free_used = total_free_used + v_free_used,
+      total_paid_used = total_paid_used + v_paid_used
+  WHERE user_id = p_user_id;
+
+  IF v_paid_used > 0 THEN
+    RETURN 'paid';
+  END IF;
+  RETURN 'free';
 END;
 $$ LANGUAGE plpgsql;
 
@@ -401,6 +527,140 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
+-- ============================================================
+-- JOB QUEUE FUNCTIONS (executions as a durable queue)
+-- ============================================================
+-- Workers claim jobs with FOR UPDATE SKIP LOCKED so multiple workers never
+-- pick up the same execution. A claimed job holds a lease that the worker
+-- extends with heartbeats; a lease that runs out means the worker died.
+
+CREATE OR REPLACE FUNCTION claim_next_execution(p_worker_id TEXT, p_lease_seconds INT)
+RETURNS SETOF executions AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  -- Expired leases that can't be claimed again are settled here, not left
+  -- running until the next recover_orphaned_executions at worker start
+  UPDATE executions
+  SET status = 'cancelled',
+      completed_at = NOW(),
+      lease_owner = NULL,
+      lease_expires_at = NULL
+  WHERE status = 'running'
+    AND cancel_requested_at IS NOT NULL
+    AND lease_expires_at < NOW();
+
+  UPDATE executions
+  SET status = 'failed',
+      error_message = 'Worker stopped before the expansion finished',
+      completed_at = NOW(),
+      lease_owner = NULL,
+      lease_expires_at = NULL
+  WHERE status = 'running'
+    AND lease_expires_at < NOW()
+    AND attempts >= max_attempts;
+
+  SELECT id INTO v_id
+  FROM executions
+  WHERE (status = 'queued' OR (status = 'running' AND lease_expires_at < NOW()))
+    AND attempts < max_attempts
+    AND cancel_requested_at IS NULL
+  ORDER BY queued_at ASC
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF v_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  UPDATE executions
+  SET status = 'running',
+      attempts = attempts + 1,
+      lease_owner = p_worker_id,
+      lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+      heartbeat_at = NOW(),
+      started_at = NOW()
+  WHERE id = v_id
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION recover_orphaned_executions()
+RETURNS TABLE (requeued INT, failed INT) AS $$
+DECLARE
+  v_requeued INT;
+  v_failed INT;
+BEGIN
+  -- Cancelled while their worker was gone: finish the cancellation
+  UPDATE executions
+  SET status = 'cancelled',
+      completed_at = NOW(),
+      lease_owner = NULL,
+      lease_expires_at = NULL
+  WHERE status = 'running'
+    AND cancel_requested_at IS NOT NULL
+    AND (lease_expires_at IS NULL OR lease_expires_at < NOW());
+
+  -- Rows with no lease predate the job queue (fire-and-forget runs): they can never finish
+  UPDATE executions
+  SET status = 'failed',
+      error_message = 'Worker stopped before the expansion finished',
+      completed_at = NOW(),
+      lease_owner = NULL,
+      lease_expires_at = NULL
+  WHERE status = 'running'
+    AND (lease_expires_at IS NULL OR (lease_expires_at < NOW() AND attempts >= max_attempts));
+  GET DIAGNOSTICS v_failed = ROW_COUNT;
+
+  UPDATE executions
+  SET status = 'queued',
+      lease_owner = NULL,
+      lease_expires_at = NULL
+  WHERE status = 'running'
+    AND lease_expires_at < NOW()
+    AND attempts < max_attempts;
+  GET DIAGNOSTICS v_requeued = ROW_COUNT;
+
+  RETURN QUERY SELECT v_requeued, v_failed;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================
+-- SOCIAL POST SCHEDULING FUNCTIONS
+-- ============================================================
+-- The social scheduler claims due posts with FOR UPDATE SKIP LOCKED, like
+-- the job queue. A post whose lease ran out is failed, not retried: part of
+-- a thread may already be on the network.
+
+CREATE OR REPLACE FUNCTION claim_due_social_posts(p_limit INT, p_lease_seconds INT)
+RETURNS SETOF social_posts AS $$
+BEGIN
+  UPDATE social_posts
+  SET status = 'failed',
+      lease_expires_at = NULL,
+      error_message = 'Interrupted while posting - check the network before scheduling it again'
+  WHERE status = 'posting'
+    AND lease_expires_at < NOW();
+
+  RETURN QUERY
+  UPDATE social_posts
+  SET status = 'posting',
+      attempts = attempts + 1,
+      lease_expires_at = NOW() + make_interval(secs => p_lease_seconds)
+  WHERE id IN (
+    SELECT id
+    FROM social_posts
+    WHERE status = 'scheduled'
+      AND scheduled_for <= NOW()
+    ORDER BY scheduled_for ASC
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
 -- ============================================================
 -- STORAGE BUCKET
 -- ============================================================
@@ -421,6 +681,6 @@ CREATE POLICY "Anyone can view images" ON storage.objects FOR SELECT USING (buck
 -- ============================================================================
 
 SELECT '✅ Database schema created successfully!' AS status;
-SELECT 'Tables: users, ideas, credentials, executions, outputs, blog_posts, usage_tracking, payment_receipts, config' AS tables_created;
+SELECT 'Tables: users, ideas, credentials, executions, execution_events, execution_logs, execution_checkpoints, outputs, blog_posts, social_posts, usage_tracking, payment_receipts, config' AS tables_created;
 SELECT 'Features: RLS policies, triggers, functions, storage bucket, database_version epoch system' AS features_enabled;
 SELECT 'Next step: Run scripts/seed-admin.sql to create admin user' AS next_step;
@@ -0,0 +1,129 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { supabaseAdmin } from '@/lib/db/supabase';
+import { createLogger } from '@/lib/logging/logger';
+import { cancelJob } from '@/lib/jobs/job-queue';
+
+/**
+ * POST /api/expand/cancel
+ *
+ * Cancel a queued or running expansion
+ *
+ * - queued:  cancelled immediately
+ * - running: the worker is asked to stop; in-flight LLM, image and GitHub
+ *            calls are aborted and the execution ends as 'cancelled'
+ *
+ * A cancelled expansion never consumes a credit.
+ *
+ * REQUIRES AUTHENTICATION
+ *
+ * Body:
+ * - executionId (required): The execution to cancel
+ *
+ * Returns:
+ * - 401: Not authenticated
+ * - 403: Execution belongs to another user
+ * - 404: Execution not found
+ * - 409: Execution already finished
+ * - 200: { status: 'cancelled' | 'cancelling' }
+ */
+export async function POST(request: Request) {
+  try {
+    // 1. CHECK AUTHENTICATION
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        },
+        { status: 401 }
+      );
+    }
+
+    const userId = session.user.id;
+
+    // 2. PARSE REQUEST
+    const body = await request.json();
+    const { executionId } = body;
+
+    if (!executionId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'executionId is required',
+        },
+        { status: 400 }
+      );
+    }
+
+    // 3. FETCH EXECUTION FROM DATABASE
+    const { data: execution, error: executionError } = await supabaseAdmin
+      .from('executions')
+      .select('id, user_id, status')
+      .eq('id', executionId)
+      .single();
+
+    if (executionError || !execution) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Execution not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    // 4. VERIFY USER OWNS THIS EXECUTION
+    if (execution.user_id !== userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Access denied',
+        },
+        { status: 403 }
+      );
+    }
+
+    // 5. CANCEL
+    const outcome = await cancelJob(executionId);
+
+    if (!outcome) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Expansion already finished (status: ${execution.status})`,
+        },
+        { status: 409 }
+      );
+    }
+
+    const logger = createLogger({
+      executionId,
+      userId,
+      stage: 'api-endpoint',
+    });
+    logger.info('🛑 Cancel requested', { outcome });
+
+    return NextResponse.json({
+      success: true,
+      executionId,
+      status: outcome,
+    });
+  } catch (error) {
+    const errorLogger = createLogger({ stage: 'api-endpoint' });
+    errorLogger.error('Cancel failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to cancel expansion',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,169 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { supabaseAdmin } from '@/lib/db/supabase';
+import { createLogger } from '@/lib/logging/logger';
+import { checkUsageLimit } from '@/lib/usage/check-usage';
+import { resumeJob, ExpansionPayloadSchema } from '@/lib/jobs/job-queue';
+import { getJobDriver } from '@/lib/jobs/job-driver';
+import { getCreditCost } from '@/lib/config/credits';
+
+/**
+ * POST /api/expand/resume
+ *
+ * Restart a failed or partial expansion from its last good stage
+ *
+ * The execution is requeued as-is: the worker loads its checkpoints
+ * (router result, code plan, generated code, reviews, fixes, blog stages)
+ * and only re-runs the stages that didn't finish. A credit is charged at
+ * most once per execution, so resuming never costs a second credit.
+ *
+ * REQUIRES AUTHENTICATION
+ *
+ * Body:
+ * - executionId (required): The execution to resume
+ *
+ * Returns:
+ * - 401: Not authenticated
+ * - 402: No credits remaining (only if this execution hasn't been charged yet)
+ * - 403: Execution belongs to another user
+ * - 404: Execution not found
+ * - 409: Execution is not failed/partial
+ * - 200: Execution requeued (poll /api/expand/status as usual)
+ */
+export async function POST(request: Request) {
+  try {
+    // 1. CHECK AUTHENTICATION
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        },
+        { status: 401 }
+      );
+    }
+
+    const userId = session.user.id;
+
+    // 2. PARSE REQUEST
+    const body = await request.json();
+    const { executionId } = body;
+
+    if (!executionId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'executionId is required',
+        },
+        { status: 400 }
+      );
+    }
+
+    // 3. FETCH EXECUTION FROM DATABASE
+    const { data: execution, error: executionError } = await supabaseAdmin
+      .from('executions')
+      .select('id, user_id, status, credit_consumed, job_payload')
+      .eq('id', executionId)
+      .single();
+
+    if (executionError || !execution) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Execution not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    // 4. VERIFY USER OWNS THIS EXECUTION
+    if (execution.user_id !== userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Access denied',
+        },
+        { status: 403 }
+      );
+    }
+
+    if (execution.status !== 'failed' && execution.status !== 'partial') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Only failed or partial expansions can be resumed (status: ${execution.status})`,
+        },
+        { status: 409 }
+      );
+    }
+
+    // 5. CHECK USAGE LIMIT (a finished resume charges this execution's first credit)
+    if (!execution.credit_consumed) {
+      const payload = ExpansionPayloadSchema.safeParse(execution.job_payload);
+      const usageStatus = await checkUsageLimit(userId, getCreditCost(payload.data?.mode));
+
+      if (!usageStatus.allowed) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'No credits remaining',
+            message: usageStatus.reason,
+          },
+          { status: 402 }
+        );
+      }
+    }
+
+    const logger = createLogger({
+      executionId,
+      userId,
+      stage: 'api-endpoint',
+    });
+
+    // 6. REQUEUE
+    // Guarded on status, so two concurrent resume requests can't both requeue
+    const resumed = await resumeJob(executionId);
+
+    if (!resumed) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Execution is no longer resumable',
+        },
+        { status: 409 }
+      );
+    }
+
+    const driver = getJobDriver();
+    await driver.start();
+    driver.notify();
+
+    logger.info('🔁 Expansion resumed', {
+      previousStatus: execution.status,
+      driver: driver.name,
+    });
+
+    return NextResponse.json({
+      success: true,
+      executionId,
+      status: 'queued',
+      message: 'Expansion resumed. Poll /api/expand/status?executionId=XXX to check progress.',
+    });
+  } catch (error) {
+    const errorLogger = createLogger({ stage: 'api-endpoint' });
+    errorLogger.error('Resume failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to resume expansion',
+      },
+      { status: 500 }
+    );
+  }
+}
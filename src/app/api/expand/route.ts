@@ -1,29 +1,49 @@
 import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
-import { runAgentPipeline } from '@/lib/agents/graph';
-import { getIdeaById } from '@/lib/db/queries';
-import { supabaseAdmin } from '@/lib/db/supabase';
+import { getIdeaById, getUserQualityPolicy } from '@/lib/db/queries';
 import { createLogger } from '@/lib/logging/logger';
-import { checkUsageLimit, consumeExpansion } from '@/lib/usage/check-usage';
+import { checkUsageLimit } from '@/lib/usage/check-usage';
+import { enqueueExpansion } from '@/lib/jobs/job-queue';
+import { getJobDriver } from '@/lib/jobs/job-driver';
+import { getFormat, getFormatIds } from '@/lib/agents/formats';
+import { ExpansionConstraintsSchema, ExpansionModeSchema } from '@/lib/agents/types';
+import { getCreditCost } from '@/lib/config/credits';
+import { QualityPolicyOverridesSchema, resolveQualityPolicy } from '@/lib/quality/quality-policy';
 import crypto from 'crypto';
 
 /**
  * POST /api/expand
  *
- * Trigger the AI agent pipeline to expand an idea
+ * Queue the AI agent pipeline to expand an idea
+ *
+ * The expansion runs in a job worker (see src/lib/jobs), not in this request,
+ * so it survives server restarts.
  *
  * REQUIRES AUTHENTICATION
  * REQUIRES AVAILABLE CREDITS (5 free + any purchased)
  *
  * Body:
  * - ideaId (required): The idea to expand (user-selected)
+ * - format (optional): Force an output format (e.g. "github_repo"); skips the router
+ * - constraints (optional): Preferences for the creators, all fields optional:
+ *   - language: "python" | "javascript" | "typescript" | "rust" (code)
+ *   - outputType: "notebook" | "cli-app" | "web-app" | "library" | "demo-script" (code)
+ *   - tone: e.g. "casual" (blog)
+ *   - targetWordCount: 300-5000 (blog)
+ *   - allowImages: false to skip image generation (blog, slides)
+ * - mode (optional): "single" (default) or "bundle" - a GitHub repo plus a
+ *   companion blog post that explains it, made in parallel and saved as two
+ *   linked outputs. Costs BUNDLE_CREDIT_COST credits; can't be combined with format
+ * - qualityPolicy (optional): Quality policy overrides for this expansion, applied
+ *   on top of the user's settings (same fields as PUT /api/settings)
  *
  * Returns:
+ * - 400: Missing ideaId, unknown format or mode, or invalid constraints or quality policy
  * - 401: Not authenticated
  * - 402: No credits remaining (payment required)
  * - 404: Idea not found
- * - 200: Expansion successful
+ * - 200: Expansion queued (returns executionId)
  */
 export async function POST(request: Request) {
   try {
@@ -45,7 +65,7 @@ export async function POST(request: Request) {
 
     // 2. PARSE REQUEST
     const body = await request.json();
-    const { ideaId } = body;
+    const { ideaId, format } = body;
 
     if (!ideaId) {
       return NextResponse.json(
@@ -57,8 +77,90 @@ export async function POST(request: Request) {
       );
     }
 
+    if (format !== undefined && (typeof format !== 'string' || !getFormat(format))) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Unknown format: ${format}`,
+          formats: getFormatIds(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const constraintsResult = ExpansionConstraintsSchema.safeParse(body.constraints ?? {});
+
+    if (!constraintsResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid constraints',
+          details: constraintsResult.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+        },
+        { status: 400 }
+      );
+    }
+
+    const constraints = constraintsResult.data;
+
+    const modeResult = ExpansionModeSchema.safeParse(body.mode ?? 'single');
+
+    if (!modeResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Unknown mode: ${body.mode}`,
+          modes: ExpansionModeSchema.options,
+        },
+        { status: 400 }
+      );
+    }
+
+    const mode = modeResult.data;
+
+    if (mode === 'bundle' && format !== undefined) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'format cannot be combined with bundle mode',
+        },
+        { status: 400 }
+      );
+    }
+
+    const qualityPolicyResult = QualityPolicyOverridesSchema.safeParse(body.qualityPolicy ?? {});
+
+    if (!qualityPolicyResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid quality policy',
+          details: qualityPolicyResult.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+        },
+        { status: 400 }
+      );
+    }
+
+    // defaults ← user settings ← this request
+    const resolvedPolicy = resolveQualityPolicy(await getUserQualityPolicy(userId), qualityPolicyResult.data);
+
+    if (!resolvedPolicy.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid quality policy',
+          details: resolvedPolicy.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+        },
+        { status: 400 }
+      );
+    }
+
+    const qualityPolicy = resolvedPolicy.data;
+
+    const creditCost = getCreditCost(mode);
+
     // 3. CHECK USAGE LIMIT (BEFORE running expensive pipeline!)
-    const usageStatus = await checkUsageLimit(userId);
+    const usageStatus = await checkUsageLimit(userId, creditCost);
 
     if (!usageStatus.allowed) {
       return NextResponse.json(
@@ -70,15 +172,27 @@ export async function POST(request: Request) {
             freeRemaining: usageStatus.freeRemaining,
             paidRemaining: usageStatus.paidRemaining,
             totalUsed: usageStatus.totalUsed,
+            creditCost,
           },
         },
         { status: 402 } // Payment Required
       );
     }
 
-    // 4. SETUP EXECUTION
+    // 4. GET IDEA
+    const selectedIdea = await getIdeaById(ideaId, userId);
+    if (!selectedIdea) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Idea not found: ${ideaId}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    // 5. SETUP EXECUTION
     const executionId = crypto.randomUUID();
-    const startTime = new Date();
 
     const logger = createLogger({
       executionId,
@@ -91,162 +205,44 @@ export async function POST(request: Request) {
       userId,
       email: session.user.email,
       ideaId,
+      ideaTitle: selectedIdea.title,
       freeRemaining: usageStatus.freeRemaining,
       paidRemaining: usageStatus.paidRemaining,
-      timestamp: startTime.toISOString(),
+      format,
+      constraints,
+      mode,
+      qualityPolicy,
+      creditCost,
     });
 
-    // Create execution record
-    await supabaseAdmin.from('executions').insert({
-      id: executionId,
-      user_id: userId,
-      status: 'running',
-      started_at: startTime.toISOString(),
-    });
-
-    // 5. GET IDEA
-    const selectedIdea = await getIdeaById(ideaId, userId);
-    if (!selectedIdea) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: `Idea not found: ${ideaId}`,
-        },
-        { status: 404 }
-      );
-    }
-
-    logger.info('📊 Idea fetched', {
+    // 6. ENQUEUE JOB
+    // The execution row is the job: a worker claims it, runs the pipeline,
+    // consumes the credit and saves the output (see src/lib/jobs)
+    await enqueueExpansion({
+      executionId,
+      userId,
       ideaId: selectedIdea.id,
-      title: selectedIdea.title,
-      status: selectedIdea.status,
+      payload: { format, constraints, mode, qualityPolicy },
     });
 
-    // 6. START AGENT PIPELINE IN BACKGROUND
-    logger.info('🚀 Starting agent pipeline (background)', {
+    // start() is a no-op if instrumentation already started the driver
+    const driver = getJobDriver();
+    await driver.start();
+    driver.notify();
+
+    logger.info('📬 Expansion queued', {
       ideaId: selectedIdea.id,
-      ideaTitle: selectedIdea.title,
+      driver: driver.name,
     });
 
-    // Run pipeline in background without awaiting
-    // This allows us to return immediately while work continues
-    runAgentPipeline({
-      userId,
-      selectedIdea,
-      executionId,
-      logger,
-    })
-      .then(async (result) => {
-        // Calculate duration
-        const endTime = new Date();
-        const durationSeconds = Math.floor(
-          (endTime.getTime() - startTime.getTime()) / 1000
-        );
-
-        // Determine status
-        const hasErrors = result.errors.length > 0;
-        const hasContent = !!result.generatedContent;
-        const status = hasErrors ? (hasContent ? 'partial' : 'failed') : 'completed';
-
-        // CONSUME CREDIT (only if pipeline succeeded)
-        let creditType: 'free' | 'paid' | null = null;
-
-        if (status === 'completed' && hasContent) {
-          try {
-            creditType = await consumeExpansion(userId);
-            logger.info('💳 Credit consumed', {
-              creditType,
-              freeRemaining: usageStatus.freeRemaining - (creditType === 'free' ? 1 : 0),
-              paidRemaining: usageStatus.paidRemaining - (creditType === 'paid' ? 1 : 0),
-            });
-          } catch (error) {
-            logger.error('❌ Failed to consume credit', { error });
-            // Don't fail the whole request if credit consumption fails
-            // Admin can manually adjust later
-          }
-        }
-
-        // SAVE RESULTS
-        await supabaseAdmin
-          .from('executions')
-          .update({
-            selected_idea_id: result.selectedIdea?.id || null,
-            format_chosen: result.chosenFormat,
-            format_reasoning: result.formatReasoning,
-            status,
-            error_message: result.errors.join('; ') || null,
-            duration_seconds: durationSeconds,
-            completed_at: endTime.toISOString(),
-          })
-          .eq('id', executionId);
-
-        // If content was generated, save it
-        let outputId: string | null = null;
-        if (result.generatedContent && result.selectedIdea) {
-          outputId = crypto.randomUUID();
-
-          const { data: outputData, error: outputError } = await supabaseAdmin
-            .from('outputs')
-            .insert({
-              id: outputId,
-              execution_id: executionId,
-              user_id: userId,
-              idea_id: result.selectedIdea.id,
-              format: result.chosenFormat!,
-              content: result.generatedContent,
-              published: false,
-            })
-            .select()
-            .single();
-
-          if (outputError) {
-            logger.error('❌ Failed to save output', { error: outputError });
-          } else {
-            logger.info('💾 Output saved', {
-              outputId,
-              format: result.chosenFormat,
-              ideaId: result.selectedIdea.id,
-            });
-          }
-
-          // Mark idea as expanded
-          await supabaseAdmin
-            .from('ideas')
-            .update({ status: 'expanded' })
-            .eq('id', result.selectedIdea.id);
-        }
-
-        // LOG COMPLETION
-        logger.info('✅ Expansion complete', {
-          status,
-          selectedIdea: result.selectedIdea?.title,
-          chosenFormat: result.chosenFormat,
-          durationSeconds,
-          outputId,
-          creditType,
-        });
-      })
-      .catch((error) => {
-        // Handle pipeline errors
-        logger.error('Pipeline failed', { error: error.message });
-
-        // Update execution with error
-        supabaseAdmin
-          .from('executions')
-          .update({
-            status: 'failed',
-            error_message: error.message || 'Pipeline execution failed',
-            completed_at: new Date().toISOString(),
-          })
-          .eq('id', executionId);
-      });
-
     // 7. RETURN IMMEDIATELY with execution ID
     // Client will poll /api/expand/status to check progress
     return NextResponse.json({
       success: true,
       executionId,
       status: 'queued',
+      mode,
+      creditCost,
       message: 'Expansion started. Poll /api/expand/status?executionId=XXX to check progress.',
       durationSoFar: 0,
     });
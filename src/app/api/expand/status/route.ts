@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
 import { supabaseAdmin } from '@/lib/db/supabase';
+import { getProgressEvents } from '@/lib/progress/progress-reporter';
 
 /**
  * GET /api/expand/status?executionId=xxx
@@ -12,9 +13,12 @@ import { supabaseAdmin } from '@/lib/db/supabase';
  * - executionId: The execution ID to check
  *
  * Returns:
- * - status: 'running' | 'completed' | 'failed' | 'partial'
- * - progress: Estimated progress percentage (0-100)
- * - outputId: Only present when status is 'completed'
+ * - status: 'queued' | 'running' | 'completed' | 'failed' | 'partial' | 'cancelled'
+ * - progress: Progress percentage (0-100) reported by the pipeline stages
+ * - currentStage: Most recent stage, e.g. "creator.code.review" (null while queued)
+ * - stages: Stage events so far (stage, status, attempt, percent, message, at)
+ * - outputId: Only present when status is 'completed' (for a bundle: the repo output)
+ * - outputIds: Every output of the execution (two for a bundle)
  * - durationSoFar: Seconds elapsed since start
  */
 export async function GET(request: Request) {
@@ -51,7 +55,7 @@ export async function GET(request: Request) {
     // 3. FETCH EXECUTION FROM DATABASE
     const { data: execution, error: executionError } = await supabaseAdmin
       .from('executions')
-      .select('id, user_id, status, started_at, completed_at, duration_seconds, error_message')
+      .select('id, user_id, status, current_stage, progress, started_at, completed_at, duration_seconds, error_message')
       .eq('id', executionId)
       .single();
 
@@ -76,48 +80,36 @@ export async function GET(request: Request) {
       );
     }
 
-    // 5. CALCULATE PROGRESS
+    // 5. LOAD PROGRESS
     const now = new Date();
     const startTime = new Date(execution.started_at);
     const durationSoFar = Math.floor((now.getTime() - startTime.getTime()) / 1000);
 
-    let progress = 0;
-
-    if (execution.status === 'running') {
-      // Estimate progress based on typical duration
-      // Typical expansion takes 60-300 seconds
-      // Use a logarithmic curve so progress moves faster initially then slows
-      const TYPICAL_DURATION = 180; // 3 minutes average
-      const MAX_PROGRESS_WHILE_RUNNING = 95; // Don't show 100% until actually done
-
-      if (durationSoFar < TYPICAL_DURATION) {
-        // Linear progression up to typical duration
-        progress = Math.floor((durationSoFar / TYPICAL_DURATION) * MAX_PROGRESS_WHILE_RUNNING);
-      } else {
-        // If taking longer than typical, slowly approach max but never reach it
-        const overtime = durationSoFar - TYPICAL_DURATION;
-        progress = MAX_PROGRESS_WHILE_RUNNING + Math.floor(Math.min(overtime / 60, 4)); // +1% per minute, max 99%
-      }
-    } else if (execution.status === 'completed') {
-      progress = 100;
-    } else if (execution.status === 'failed' || execution.status === 'partial') {
-      // For failed/partial, show where it got to
-      progress = execution.duration_seconds
-        ? Math.min(Math.floor((execution.duration_seconds / 180) * 100), 99)
-        : 50;
-    }
+    // Percent is written by the pipeline (src/lib/progress/progress-reporter.ts)
+    const progress = execution.status === 'completed' ? 100 : execution.progress ?? 0;
+    const events = await getProgressEvents(executionId);
+    const stages = events.map((event) => ({
+      stage: event.stage,
+      status: event.status,
+      attempt: event.attempt,
+      percent: event.percent,
+      message: event.message,
+      at: event.createdAt,
+    }));
 
     // 6. GET OUTPUT ID IF COMPLETED
+    // A bundle has two outputs; the primary one is the one without a parent
     let outputId: string | null = null;
+    let outputIds: string[] = [];
 
     if (execution.status === 'completed') {
-      const { data: output } = await supabaseAdmin
+      const { data: outputs } = await supabaseAdmin
         .from('outputs')
-        .select('id')
-        .eq('execution_id', executionId)
-        .single();
+        .select('id, parent_output_id')
+        .eq('execution_id', executionId);
 
-      outputId = output?.id || null;
+      outputIds = (outputs || []).map((output) => output.id);
+      outputId = outputs?.find((output) => !output.parent_output_id)?.id || outputIds[0] || null;
     }
 
     // 7. RETURN STATUS
@@ -125,8 +117,11 @@ export async function GET(request: Request) {
       success: true,
       status: execution.status,
       progress,
+      currentStage: execution.current_stage || null,
+      stages,
       durationSoFar,
       outputId,
+      outputIds,
       errorMessage: execution.error_message || undefined,
     });
 
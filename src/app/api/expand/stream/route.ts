@@ -0,0 +1,232 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { supabaseAdmin } from '@/lib/db/supabase';
+import { getExecutionLogs } from '@/lib/logging/execution-logs';
+
+/**
+ * GET /api/expand/stream?executionId=xxx
+ *
+ * Server-Sent Events stream of an expansion's live logs
+ *
+ * Query params:
+ * - executionId: The execution ID to stream
+ *
+ * Events:
+ * - log:    { level, stage, message, data, timestamp } (SSE id = log line id)
+ * - status: { status, progress, currentStage } whenever it changes
+ * - done:   { status } once the execution finishes (stream then closes)
+ * - stream_error: { error } if polling fails (stream then closes)
+ *
+ * Reconnecting clients send Last-Event-ID and only get newer log lines.
+ * Works with both job drivers: logs are tailed from `execution_logs`.
+ */
+
+const POLL_INTERVAL_MS = 1000;
+const KEEP_ALIVE_MS = 15000;
+const MAX_STREAM_MS = 30 * 60 * 1000; // Clients reconnect after this
+
+const TERMINAL_STATUSES = ['completed', 'failed', 'partial', 'cancelled'];
+
+export async function GET(request: Request) {
+  try {
+    // 1. CHECK AUTHENTICATION
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        },
+        { status: 401 }
+      );
+    }
+
+    const userId = session.user.id;
+
+    // 2. GET EXECUTION ID FROM QUERY PARAMS
+    const { searchParams } = new URL(request.url);
+    const executionId = searchParams.get('executionId');
+
+    if (!executionId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'executionId is required',
+        },
+        { status: 400 }
+      );
+    }
+
+    // 3. FETCH EXECUTION FROM DATABASE
+    const { data: execution, error: executionError } = await supabaseAdmin
+      .from('executions')
+      .select('id, user_id')
+      .eq('id', executionId)
+      .single();
+
+    if (executionError || !execution) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Execution not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    // 4. VERIFY USER OWNS THIS EXECUTION
+    if (execution.user_id !== userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Access denied',
+        },
+        { status: 403 }
+      );
+    }
+
+    // 5. STREAM
+    const lastEventId = Number(request.headers.get('last-event-id')) || 0;
+    const stream = createLogStream(executionId, lastEventId, request.signal);
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no', // Disable proxy buffering (nginx)
+      },
+    });
+
+  } catch (error) {
+    console.error('❌ Stream setup failed:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to open stream',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Poll logs and status until the execution finishes or the client leaves
+ */
+function createLogStream(
+  executionId: string,
+  afterId: number,
+  signal: AbortSignal
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  return new ReadableStream({
+    async start(controller) {
+      let lastLogId = afterId;
+      let lastStatusKey = '';
+      let lastWriteAt = Date.now();
+      const openedAt = Date.now();
+
+      const send = (event: string, data: unknown, id?: number) => {
+        if (closed) return;
+        const lines = [`event: ${event}`, `data: ${JSON.stringify(data)}`];
+        if (id !== undefined) lines.unshift(`id: ${id}`);
+        controller.enqueue(encoder.encode(`${lines.join('\n')}\n\n`));
+        lastWriteAt = Date.now();
+      };
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+
+      signal.addEventListener('abort', close);
+
+      // Drain all log lines written so far
+      const drainLogs = async () => {
+        let batch;
+        do {
+          batch = await getExecutionLogs(executionId, lastLogId);
+          for (const line of batch) {
+            send(
+              'log',
+              {
+                level: line.level,
+                stage: line.stage,
+                message: line.message,
+                data: line.data,
+                timestamp: line.timestamp,
+              },
+              line.id
+            );
+            lastLogId = line.id;
+          }
+        } while (batch.length > 0 && !closed);
+      };
+
+      try {
+        while (!closed) {
+          const { data: execution } = await supabaseAdmin
+            .from('executions')
+            .select('status, current_stage, progress')
+            .eq('id', executionId)
+            .single();
+
+          await drainLogs();
+
+          if (execution) {
+            const statusKey = `${execution.status}:${execution.current_stage}:${execution.progress}`;
+            if (statusKey !== lastStatusKey) {
+              lastStatusKey = statusKey;
+              send('status', {
+                status: execution.status,
+                progress: execution.status === 'completed' ? 100 : execution.progress ?? 0,
+                currentStage: execution.current_stage || null,
+              });
+            }
+
+            if (TERMINAL_STATUSES.includes(execution.status)) {
+              // The worker flushes its last lines just after the status changes
+              await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+              await drainLogs();
+              send('done', { status: execution.status });
+              break;
+            }
+          }
+
+          if (Date.now() - openedAt > MAX_STREAM_MS) {
+            break;
+          }
+
+          if (Date.now() - lastWriteAt > KEEP_ALIVE_MS && !closed) {
+            controller.enqueue(encoder.encode(': keep-alive\n\n'));
+            lastWriteAt = Date.now();
+          }
+
+          await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+        }
+      } catch (error) {
+        send('stream_error', {
+          error: error instanceof Error ? error.message : 'Stream failed',
+        });
+      } finally {
+        signal.removeEventListener('abort', close);
+        close();
+      }
+    },
+
+    cancel() {
+      // Client disconnected
+      closed = true;
+    },
+  });
+}
@@ -0,0 +1,97 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { getOutputById } from '@/lib/db/queries';
+import {
+  exportBlogToStaticSite,
+  isStaticSiteTarget,
+  STATIC_SITE_TARGETS,
+} from '@/lib/agents/publishers/static-site-export';
+
+/**
+ * GET /api/outputs/[id]/export?target=hugo|jekyll|astro
+ * Download a blog_post output as a static-site bundle (.tar.gz)
+ *
+ * The bundle holds the post with the target's front-matter, its images in an
+ * assets/ folder and manifest.json (see publishers/static-site-export.ts).
+ *
+ * REQUIRES AUTHENTICATION
+ *
+ * Returns:
+ * - 400: Not a blog post, or unknown target
+ * - 401: Not authenticated
+ * - 404: Output not found
+ * - 200: application/gzip attachment
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        },
+        { status: 401 }
+      );
+    }
+
+    const target = new URL(request.url).searchParams.get('target') ?? '';
+
+    if (!isStaticSiteTarget(target)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `target must be one of: ${STATIC_SITE_TARGETS.join(', ')}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const output = await getOutputById(id, session.user.id);
+
+    if (!output) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Output not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    if (output.format !== 'blog_post') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Only blog posts can be exported to a static site (this output is ${output.format})`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const bundle = await exportBlogToStaticSite(output, target);
+    console.log(
+      `📦 Static-site export (${target}): ${bundle.manifest.images.length} images, ${bundle.manifest.skippedImages.length} skipped`
+    );
+
+    return new NextResponse(new Uint8Array(bundle.archive), {
+      headers: {
+        'Content-Type': 'application/gzip',
+        'Content-Disposition': `attachment; filename="${bundle.filename}"`,
+        'Content-Length': String(bundle.archive.length),
+      },
+    });
+  } catch (error) {
+    console.error('GET /api/outputs/[id]/export error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to export output',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { getOutputById } from '@/lib/db/queries';
+import { isBlogPlatform, PublisherError, BLOG_PLATFORMS } from '@/lib/agents/publishers/platforms';
+import {
+  dryRunPlatform,
+  publishToPlatform,
+  unpublishFromPlatform,
+} from '@/lib/agents/publishers/platform-publisher';
+
+/**
+ * /api/outputs/[id]/platforms/[platform]
+ *
+ * Publish a blog_post output to Dev.to, Ghost, WordPress or Medium with the
+ * user's credentials (PUT /api/settings/publishers)
+ *
+ * - POST: Publish, or update the post if already published there
+ *   Body (optional): { draft?: boolean, dryRun?: boolean }
+ *   dryRun returns what would be sent ({ dryRun: { request, warnings } })
+ * - DELETE: Take the post down (Dev.to / Ghost: back to draft, WordPress:
+ *   trash, Medium: unsupported)
+ *
+ * REQUIRES AUTHENTICATION
+ *
+ * Returns:
+ * - 400: Unknown platform, not a blog post, platform not connected,
+ *   credentials rejected, or unsupported by the platform
+ * - 401: Not authenticated
+ * - 404: Output not found
+ * - 502: The platform failed
+ */
+
+type RouteContext = { params: Promise<{ id: string; platform: string }> };
+
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) return unauthorized();
+
+    const { id, platform } = await params;
+    if (!isBlogPlatform(platform)) return unknownPlatform();
+
+    const body = await request.json().catch(() => ({}));
+    if (
+      (body.draft !== undefined && typeof body.draft !== 'boolean') ||
+      (body.dryRun !== undefined && typeof body.dryRun !== 'boolean')
+    ) {
+      return NextResponse.json({ success: false, error: 'draft and dryRun must be booleans' }, { status: 400 });
+    }
+
+    const output = await getOutputById(id, session.user.id);
+    if (!output) return notFound();
+
+    if (body.dryRun) {
+      const dryRun = await dryRunPlatform(output, platform, { draft: body.draft });
+      return NextResponse.json({ success: true, dryRun });
+    }
+
+    const publication = await publishToPlatform(output, platform, { draft: body.draft });
+    console.log(`📰 Published to ${platform}: ${publication.url}`);
+
+    return NextResponse.json({ success: true, publication });
+  } catch (error) {
+    return failure('POST', error);
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) return unauthorized();
+
+    const { id, platform } = await params;
+    if (!isBlogPlatform(platform)) return unknownPlatform();
+
+    const output = await getOutputById(id, session.user.id);
+    if (!output) return notFound();
+
+    await unpublishFromPlatform(output, platform);
+    console.log(`📰 Unpublished from ${platform}: ${id}`);
+
+    return NextResponse.json({ success: true, publication: null });
+  } catch (error) {
+    return failure('DELETE', error);
+  }
+}
+
+function unauthorized() {
+  return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+}
+
+function unknownPlatform() {
+  return NextResponse.json(
+    { success: false, error: `platform must be one of: ${BLOG_PLATFORMS.join(', ')}` },
+    { status: 400 }
+  );
+}
+
+function notFound() {
+  return NextResponse.json({ success: false, error: 'Output not found' }, { status: 404 });
+}
+
+function failure(method: string, error: unknown) {
+  if (error instanceof PublisherError && error.kind !== 'fixture') {
+    const status = error.kind === 'platform' ? 502 : 400;
+    return NextResponse.json({ success: false, error: error.message }, { status });
+  }
+
+  console.error(`${method} /api/outputs/[id]/platforms/[platform] error:`, error);
+  return NextResponse.json(
+    {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update platform publication',
+    },
+    { status: 500 }
+  );
+}
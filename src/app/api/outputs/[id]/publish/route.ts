@@ -0,0 +1,160 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { getBlogPostByOutputId, getOutputById } from '@/lib/db/queries';
+import type { BlogPost } from '@/lib/db/types';
+import {
+  getBlogPostUrl,
+  publishBlogPost,
+  setBlogPostVisibility,
+  unpublishBlogPost,
+} from '@/lib/agents/publishers/blog-publisher';
+
+/**
+ * /api/outputs/[id]/publish
+ *
+ * Publish a blog_post output to the public blog (see publishers/blog-publisher.ts)
+ *
+ * - GET: Publication status ({ blogPost: null } if not published)
+ * - POST: Publish, or republish after the output changed (keeps the slug)
+ *   Body (optional): { isPublic?: boolean }
+ * - PATCH: Show or hide the post. Body: { isPublic: boolean }
+ * - DELETE: Remove the post from the blog
+ *
+ * REQUIRES AUTHENTICATION
+ *
+ * Returns:
+ * - 400: Not a blog post, or invalid isPublic
+ * - 401: Not authenticated
+ * - 404: Output not found (PATCH: not published)
+ */
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const userId = await getUserId();
+    if (!userId) return unauthorized();
+
+    const { id } = await params;
+    const post = await getBlogPostByOutputId(id, userId);
+
+    return NextResponse.json({
+      success: true,
+      blogPost: post && toStatus(post),
+    });
+  } catch (error) {
+    return failure('GET', error);
+  }
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const userId = await getUserId();
+    if (!userId) return unauthorized();
+
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+
+    if (body.isPublic !== undefined && typeof body.isPublic !== 'boolean') {
+      return badRequest('isPublic must be a boolean');
+    }
+
+    const output = await getOutputById(id, userId);
+    if (!output) return notFound('Output not found');
+
+    if (output.format !== 'blog_post') {
+      return badRequest(`Only blog posts can be published to the blog (this output is ${output.format})`);
+    }
+
+    const result = await publishBlogPost(output, { isPublic: body.isPublic });
+    console.log(`📰 Blog post published: ${result.url}`);
+
+    return NextResponse.json({ success: true, blogPost: result });
+  } catch (error) {
+    return failure('POST', error);
+  }
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const userId = await getUserId();
+    if (!userId) return unauthorized();
+
+    const { id } = await params;
+    const body = await request.json();
+
+    if (typeof body.isPublic !== 'boolean') {
+      return badRequest('isPublic must be a boolean');
+    }
+
+    const output = await getOutputById(id, userId);
+    if (!output) return notFound('Output not found');
+
+    const post = await setBlogPostVisibility(output, body.isPublic);
+    if (!post) return notFound('Output is not published');
+
+    return NextResponse.json({
+      success: true,
+      blogPost: toStatus(post),
+    });
+  } catch (error) {
+    return failure('PATCH', error);
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const userId = await getUserId();
+    if (!userId) return unauthorized();
+
+    const { id } = await params;
+    const output = await getOutputById(id, userId);
+    if (!output) return notFound('Output not found');
+
+    await unpublishBlogPost(output);
+    console.log(`📰 Blog post unpublished: ${id}`);
+
+    return NextResponse.json({ success: true, blogPost: null });
+  } catch (error) {
+    return failure('DELETE', error);
+  }
+}
+
+function toStatus(post: BlogPost) {
+  return {
+    slug: post.slug,
+    url: getBlogPostUrl(post.user_id, post.slug),
+    isPublic: post.is_public,
+    publishedAt: post.published_at,
+    updatedAt: post.updated_at,
+  };
+}
+
+async function getUserId(): Promise<string | null> {
+  const session = await getServerSession(authOptions);
+  return session?.user?.id ?? null;
+}
+
+function unauthorized() {
+  return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+}
+
+function badRequest(error: string) {
+  return NextResponse.json({ success: false, error }, { status: 400 });
+}
+
+function notFound(error: string) {
+  return NextResponse.json({ success: false, error }, { status: 404 });
+}
+
+function failure(method: string, error: unknown) {
+  console.error(`${method} /api/outputs/[id]/publish error:`, error);
+  return NextResponse.json(
+    {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update blog publication',
+    },
+    { status: 500 }
+  );
+}
@@ -2,11 +2,15 @@ import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
 import { supabaseAdmin } from '@/lib/db/supabase';
+import { getFormatDisplay } from '@/lib/agents/formats';
 
 /**
  * GET /api/outputs/[id]
  * Fetch a single output by ID
  *
+ * Includes the format's display label and viewer hint (blog | code | slides | document | json),
+ * and linkedOutputs: the other outputs of the same execution (a bundle's repo ↔ blog post)
+ *
  * REQUIRES AUTHENTICATION
  */
 export async function GET(
@@ -49,9 +53,24 @@ export async function GET(
       throw error;
     }
 
+    const { data: linked } = await supabaseAdmin
+      .from('outputs')
+      .select('id, format, parent_output_id')
+      .eq('execution_id', data.execution_id)
+      .eq('user_id', session.user.id)
+      .neq('id', data.id);
+
+    const linkedOutputs = (linked || []).map((output) => ({
+      id: output.id,
+      format: output.format,
+      label: getFormatDisplay(output.format).label,
+      // 'parent': this output explains the linked one | 'companion': the linked one explains this
+      relation: output.id === data.parent_output_id ? 'parent' : 'companion',
+    }));
+
     return NextResponse.json({
       success: true,
-      output: data,
+      output: { ...data, ...getFormatDisplay(data.format), linkedOutputs },
     });
   } catch (error: any) {
     console.error(`GET /api/outputs/[id] error:`, error);
@@ -0,0 +1,136 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { deleteSocialPost, getOutputById, getSocialPostById } from '@/lib/db/queries';
+import { PublisherError } from '@/lib/agents/publishers/platforms';
+import {
+  cancelSocialPost,
+  editSocialPost,
+  scheduleSocialPost,
+} from '@/lib/agents/publishers/social-publisher';
+import { getJobDriver } from '@/lib/jobs/job-driver';
+
+/**
+ * /api/outputs/[id]/social/[postId]
+ *
+ * One network's social post (see /api/outputs/[id]/social)
+ *
+ * - PATCH: one of
+ *   - { posts: string[], hashtags: string[] }  Edit the text (fitted to the
+ *     network's rules again; keep [BLOG_URL] in the last post)
+ *   - { scheduledFor: ISO date }  Schedule it (the blog post must be
+ *     published; a past date sends it right away)
+ *   - { action: 'cancel' }  Cancel a scheduled post
+ * - DELETE: Remove it (not while it is being posted)
+ *
+ * REQUIRES AUTHENTICATION
+ *
+ * Returns:
+ * - 400: Invalid body, or the blog post isn't published (schedule)
+ * - 401: Not authenticated
+ * - 404: Output or post not found
+ * - 409: The post is being posted or already posted (or, cancel: not scheduled)
+ * - 200: { post }
+ */
+
+type RouteContext = { params: Promise<{ id: string; postId: string }> };
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) return unauthorized();
+
+    const { id, postId } = await params;
+    const body = await request.json().catch(() => ({}));
+
+    const output = await getOutputById(id, session.user.id);
+    const post = output && (await getSocialPostById(postId, session.user.id));
+    if (!output || !post || post.output_id !== output.id) return notFound();
+
+    if (body.action === 'cancel') {
+      const cancelled = await cancelSocialPost(output, post);
+      return cancelled ? ok(cancelled) : conflict(`A ${post.status} post can't be cancelled`);
+    }
+
+    if (body.scheduledFor !== undefined) {
+      const scheduledFor = new Date(body.scheduledFor);
+      if (typeof body.scheduledFor !== 'string' || Number.isNaN(scheduledFor.getTime())) {
+        return badRequest('scheduledFor must be an ISO date');
+      }
+
+      const scheduled = await scheduleSocialPost(output, post, scheduledFor);
+      if (!scheduled) return conflict(`A ${post.status} post can't be scheduled`);
+
+      getJobDriver().notify();
+      console.log(`📣 Social post ${postId} (${post.network}) scheduled for ${scheduledFor.toISOString()}`);
+      return ok(scheduled);
+    }
+
+    if (isStringList(body.posts) && isStringList(body.hashtags) && body.posts.length > 0) {
+      const edited = await editSocialPost(output, post, { posts: body.posts, hashtags: body.hashtags });
+      return edited ? ok(edited) : conflict(`A ${post.status} post can't be edited`);
+    }
+
+    return badRequest('Expected { posts, hashtags }, { scheduledFor } or { action: "cancel" }');
+  } catch (error) {
+    return failure('PATCH', error);
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) return unauthorized();
+
+    const { id, postId } = await params;
+    const post = await getSocialPostById(postId, session.user.id);
+    if (!post || post.output_id !== id) return notFound();
+
+    if (!(await deleteSocialPost(postId, session.user.id))) {
+      return conflict('The post is being posted');
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return failure('DELETE', error);
+  }
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+function ok(post: unknown) {
+  return NextResponse.json({ success: true, post });
+}
+
+function unauthorized() {
+  return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+}
+
+function badRequest(error: string) {
+  return NextResponse.json({ success: false, error }, { status: 400 });
+}
+
+function notFound() {
+  return NextResponse.json({ success: false, error: 'Social post not found' }, { status: 404 });
+}
+
+function conflict(error: string) {
+  return NextResponse.json({ success: false, error }, { status: 409 });
+}
+
+function failure(method: string, error: unknown) {
+  if (error instanceof PublisherError) {
+    return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+  }
+
+  console.error(`${method} /api/outputs/[id]/social/[postId] error:`, error);
+  return NextResponse.json(
+    {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update social post',
+    },
+    { status: 500 }
+  );
+}
@@ -0,0 +1,111 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { getOutputById, getSocialPosts } from '@/lib/db/queries';
+import { PublisherError } from '@/lib/agents/publishers/platforms';
+import { isSocialNetwork, SOCIAL_NETWORKS } from '@/lib/agents/publishers/social';
+import { generateSocialPosts, getShareUrl, toView } from '@/lib/agents/publishers/social-publisher';
+import { createLogger } from '@/lib/logging/logger';
+
+/**
+ * /api/outputs/[id]/social
+ *
+ * Share posts for a blog_post output, one per network (X thread, LinkedIn,
+ * Mastodon, Bluesky - see publishers/social-publisher.ts)
+ *
+ * - GET: The output's social posts
+ * - POST: Write drafts (replaces existing drafts; scheduled or posted
+ *   networks are skipped)
+ *   Body (optional): { networks?: ('x' | 'linkedin' | 'mastodon' | 'bluesky')[] } (default: all)
+ *
+ * Each post carries `preview`: the texts as they will be sent, with the
+ * published URL substituted ([BLOG_URL] until the blog post is published).
+ * Edit, schedule or cancel a post with /api/outputs/[id]/social/[postId].
+ *
+ * REQUIRES AUTHENTICATION
+ *
+ * Returns:
+ * - 400: Not a blog post, or unknown network
+ * - 401: Not authenticated
+ * - 404: Output not found
+ * - 200: { shareUrl, posts, skipped? }
+ */
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) return unauthorized();
+
+    const { id } = await params;
+    const output = await getOutputById(id, session.user.id);
+    if (!output) return notFound();
+
+    const posts = await getSocialPosts(id, session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      shareUrl: getShareUrl(output),
+      posts: posts.map((post) => toView(post, output, [])),
+    });
+  } catch (error) {
+    return failure('GET', error);
+  }
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) return unauthorized();
+
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+
+    const networks: unknown = body.networks ?? [...SOCIAL_NETWORKS];
+    if (
+      !Array.isArray(networks) ||
+      networks.length === 0 ||
+      !networks.every((network) => typeof network === 'string' && isSocialNetwork(network))
+    ) {
+      return NextResponse.json(
+        { success: false, error: `networks must be a list of: ${SOCIAL_NETWORKS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const output = await getOutputById(id, session.user.id);
+    if (!output) return notFound();
+
+    const logger = createLogger({ stage: 'social', userId: session.user.id });
+    const { posts, skipped } = await generateSocialPosts(output, Array.from(new Set(networks)), logger);
+    console.log(`📣 Social drafts written for ${id}${skipped.length > 0 ? ` (skipped ${skipped.join(', ')})` : ''}`);
+
+    return NextResponse.json({ success: true, shareUrl: getShareUrl(output), posts, skipped });
+  } catch (error) {
+    return failure('POST', error);
+  }
+}
+
+function unauthorized() {
+  return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+}
+
+function notFound() {
+  return NextResponse.json({ success: false, error: 'Output not found' }, { status: 404 });
+}
+
+function failure(method: string, error: unknown) {
+  if (error instanceof PublisherError) {
+    return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+  }
+
+  console.error(`${method} /api/outputs/[id]/social error:`, error);
+  return NextResponse.json(
+    {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update social posts',
+    },
+    { status: 500 }
+  );
+}
@@ -2,11 +2,14 @@ import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
 import { supabaseAdmin } from '@/lib/db/supabase';
+import { getFormatDisplay } from '@/lib/agents/formats';
 
 /**
  * GET /api/outputs
  * Fetch all outputs for the authenticated user
  *
+ * Each output includes its format's display label and viewer hint
+ *
  * REQUIRES AUTHENTICATION
  */
 export async function GET() {
@@ -36,7 +39,7 @@ export async function GET() {
 
     return NextResponse.json({
       success: true,
-      outputs: data || [],
+      outputs: (data || []).map((output) => ({ ...output, ...getFormatDisplay(output.format) })),
     });
   } catch (error: any) {
     console.error('GET /api/outputs error:', error);
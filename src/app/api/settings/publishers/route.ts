@@ -0,0 +1,106 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { deleteCredential, getCredentialStatuses } from '@/lib/db/queries';
+import { BLOG_PLATFORMS, getPublisher, isBlogPlatform, PublisherError } from '@/lib/agents/publishers/platforms';
+import { savePlatformCredentials } from '@/lib/agents/publishers/platform-publisher';
+
+/**
+ * /api/settings/publishers
+ *
+ * Connect blog platforms (Dev.to, Ghost, WordPress, Medium). Credentials are
+ * stored encrypted in `credentials` and never returned.
+ *
+ * - GET: Each platform's connection status
+ * - PUT: Connect (or replace) a platform
+ *   Body: { platform, credentials }
+ *   - devto: { apiKey }
+ *   - ghost: { siteUrl, adminApiKey } (Admin API key, "id:secret")
+ *   - wordpress: { siteUrl, username, applicationPassword }
+ *   - medium: { integrationToken }
+ * - DELETE ?platform=devto: Disconnect a platform
+ *
+ * REQUIRES AUTHENTICATION
+ *
+ * Returns:
+ * - 400: Unknown platform or invalid credentials
+ * - 401: Not authenticated
+ * - 200: { platforms: [{ platform, label, connected, validationStatus, updatedAt }] }
+ */
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) return unauthorized();
+
+    return NextResponse.json({ success: true, platforms: await getPlatformStatuses(session.user.id) });
+  } catch (error) {
+    return failure('GET', error);
+  }
+}
+
+export async function PUT(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) return unauthorized();
+
+    const body = await request.json();
+    if (typeof body.platform !== 'string' || !isBlogPlatform(body.platform)) return unknownPlatform();
+
+    await savePlatformCredentials(session.user.id, body.platform, body.credentials);
+
+    return NextResponse.json({ success: true, platforms: await getPlatformStatuses(session.user.id) });
+  } catch (error) {
+    if (error instanceof PublisherError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    return failure('PUT', error);
+  }
+}
+
+export async function DELETE(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) return unauthorized();
+
+    const platform = new URL(request.url).searchParams.get('platform') ?? '';
+    if (!isBlogPlatform(platform)) return unknownPlatform();
+
+    await deleteCredential(session.user.id, platform);
+
+    return NextResponse.json({ success: true, platforms: await getPlatformStatuses(session.user.id) });
+  } catch (error) {
+    return failure('DELETE', error);
+  }
+}
+
+async function getPlatformStatuses(userId: string) {
+  const credentials = await getCredentialStatuses(userId);
+
+  return BLOG_PLATFORMS.map((platform) => {
+    const credential = credentials.find((entry) => entry.provider === platform);
+    return {
+      platform,
+      label: getPublisher(platform).label,
+      connected: !!credential?.is_active,
+      validationStatus: credential?.validation_status ?? null,
+      updatedAt: credential?.updated_at ?? null,
+    };
+  });
+}
+
+function unauthorized() {
+  return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+}
+
+function unknownPlatform() {
+  return NextResponse.json(
+    { success: false, error: `platform must be one of: ${BLOG_PLATFORMS.join(', ')}` },
+    { status: 400 }
+  );
+}
+
+function failure(method: string, error: unknown) {
+  console.error(`${method} /api/settings/publishers error:`, error);
+  return NextResponse.json({ success: false, error: 'Failed to update blog platforms' }, { status: 500 });
+}
@@ -0,0 +1,130 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { getUserQualityPolicy, updateUserQualityPolicy } from '@/lib/db/queries';
+import { QualityPolicyOverridesSchema, resolveQualityPolicy } from '@/lib/quality/quality-policy';
+
+/**
+ * GET /api/settings
+ * Get the current user's settings
+ *
+ * REQUIRES AUTHENTICATION
+ *
+ * Returns:
+ * - 401: Not authenticated
+ * - 200: { qualityPolicy: the user's overrides, effectiveQualityPolicy: defaults + overrides }
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        },
+        { status: 401 }
+      );
+    }
+
+    const qualityPolicy = await getUserQualityPolicy(session.user.id);
+    const effective = resolveQualityPolicy(qualityPolicy);
+
+    return NextResponse.json({
+      success: true,
+      qualityPolicy,
+      effectiveQualityPolicy: effective.success ? effective.data : null,
+    });
+  } catch (error) {
+    console.error('GET /api/settings error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch settings',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/settings
+ * Replace the current user's settings
+ *
+ * REQUIRES AUTHENTICATION
+ *
+ * Body:
+ * - qualityPolicy: overrides on the default quality policy, all fields optional
+ *   (an expand request can still override them per expansion):
+ *   - approveThreshold: 0-100 (default 75)
+ *   - regenerateThreshold: 0-100, not above approveThreshold (default 60)
+ *   - maxIterations: 0-5 fix / revise rounds (default 3)
+ *   - categoryMinimums: e.g. { "security": 80 }
+ *   - costCeilings: { maxCandidates: 1-5, maxRegenerations: 0-5, maxImages: 0-10 }
+ *
+ * Returns:
+ * - 400: Invalid quality policy
+ * - 401: Not authenticated
+ * - 200: Saved settings (same shape as GET)
+ */
+export async function PUT(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const overridesResult = QualityPolicyOverridesSchema.safeParse(body.qualityPolicy ?? {});
+
+    if (!overridesResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid quality policy',
+          details: overridesResult.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+        },
+        { status: 400 }
+      );
+    }
+
+    // Overrides can be valid one by one but not together (e.g. thresholds crossed)
+    const effective = resolveQualityPolicy(overridesResult.data);
+
+    if (!effective.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid quality policy',
+          details: effective.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+        },
+        { status: 400 }
+      );
+    }
+
+    await updateUserQualityPolicy(session.user.id, overridesResult.data);
+
+    return NextResponse.json({
+      success: true,
+      qualityPolicy: overridesResult.data,
+      effectiveQualityPolicy: effective.data,
+    });
+  } catch (error) {
+    console.error('PUT /api/settings error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to update settings',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,108 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { deleteCredential, getCredentialStatuses } from '@/lib/db/queries';
+import { PublisherError } from '@/lib/agents/publishers/platforms';
+import { getSocialClient, isSocialNetwork, SOCIAL_NETWORKS } from '@/lib/agents/publishers/social';
+import { saveSocialCredentials } from '@/lib/agents/publishers/social-publisher';
+
+/**
+ * /api/settings/social
+ *
+ * Connect social networks (X, LinkedIn, Mastodon, Bluesky) for scheduled
+ * share posts. Credentials are stored encrypted in `credentials` and never
+ * returned.
+ *
+ * - GET: Each network's connection status
+ * - PUT: Connect (or replace) a network
+ *   Body: { network, credentials }
+ *   - x: { accessToken } (OAuth 2.0 user token with tweet.write)
+ *   - linkedin: { accessToken } (member token with w_member_social)
+ *   - mastodon: { instanceUrl, accessToken }
+ *   - bluesky: { handle, appPassword, serviceUrl? }
+ * - DELETE ?network=x: Disconnect a network
+ *
+ * REQUIRES AUTHENTICATION
+ *
+ * Returns:
+ * - 400: Unknown network or invalid credentials
+ * - 401: Not authenticated
+ * - 200: { networks: [{ network, label, connected, validationStatus, updatedAt }] }
+ */
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) return unauthorized();
+
+    return NextResponse.json({ success: true, networks: await getNetworkStatuses(session.user.id) });
+  } catch (error) {
+    return failure('GET', error);
+  }
+}
+
+export async function PUT(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) return unauthorized();
+
+    const body = await request.json();
+    if (typeof body.network !== 'string' || !isSocialNetwork(body.network)) return unknownNetwork();
+
+    await saveSocialCredentials(session.user.id, body.network, body.credentials);
+
+    return NextResponse.json({ success: true, networks: await getNetworkStatuses(session.user.id) });
+  } catch (error) {
+    if (error instanceof PublisherError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    return failure('PUT', error);
+  }
+}
+
+export async function DELETE(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) return unauthorized();
+
+    const network = new URL(request.url).searchParams.get('network') ?? '';
+    if (!isSocialNetwork(network)) return unknownNetwork();
+
+    await deleteCredential(session.user.id, network);
+
+    return NextResponse.json({ success: true, networks: await getNetworkStatuses(session.user.id) });
+  } catch (error) {
+    return failure('DELETE', error);
+  }
+}
+
+async function getNetworkStatuses(userId: string) {
+  const credentials = await getCredentialStatuses(userId);
+
+  return SOCIAL_NETWORKS.map((network) => {
+    const credential = credentials.find((entry) => entry.provider === network);
+    return {
+      network,
+      label: getSocialClient(network).label,
+      connected: !!credential?.is_active,
+      validationStatus: credential?.validation_status ?? null,
+      updatedAt: credential?.updated_at ?? null,
+    };
+  });
+}
+
+function unauthorized() {
+  return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+}
+
+function unknownNetwork() {
+  return NextResponse.json(
+    { success: false, error: `network must be one of: ${SOCIAL_NETWORKS.join(', ')}` },
+    { status: 400 }
+  );
+}
+
+function failure(method: string, error: unknown) {
+  console.error(`${method} /api/settings/social error:`, error);
+  return NextResponse.json({ success: false, error: 'Failed to update social networks' }, { status: 500 });
+}
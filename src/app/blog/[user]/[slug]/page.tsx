@@ -0,0 +1,78 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { getBlogAuthor, getPublicBlogPost } from '@/lib/db/queries';
+import { getBlogPostUrl, isBlogAuthorId } from '@/lib/agents/publishers/blog-publisher';
+
+/**
+ * Public blog post (/blog/[user]/[slug])
+ *
+ * PUBLIC - no authentication. Only posts with is_public = true are served;
+ * hiding a post takes effect on the next request.
+ */
+
+export const dynamic = 'force-dynamic';
+
+type PageProps = { params: Promise<{ user: string; slug: string }> };
+
+async function loadPost(user: string, slug: string) {
+  return isBlogAuthorId(user) ? getPublicBlogPost(user, slug) : null;
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { user, slug } = await params;
+  const post = await loadPost(user, slug);
+  if (!post) return { title: 'Post not found' };
+
+  return {
+    title: post.title,
+    description: post.meta_description ?? undefined,
+    keywords: post.tags,
+    alternates: {
+      canonical: getBlogPostUrl(post.user_id, post.slug),
+      types: { 'application/atom+xml': `/blog/${post.user_id}/feed.xml` },
+    },
+  };
+}
+
+export default async function BlogPostPage({ params }: PageProps) {
+  const { user, slug } = await params;
+  const post = await loadPost(user, slug);
+  if (!post) notFound();
+
+  const author = await getBlogAuthor(post.user_id);
+
+  return (
+    <div style={{ padding: '20px', maxWidth: '800px', margin: '0 auto' }}>
+      <Link
+        href={`/blog/${post.user_id}`}
+        style={{ display: 'inline-block', marginBottom: '20px', fontSize: '14px', color: '#0369a1' }}
+      >
+        ← More from {author?.name || 'this author'}
+      </Link>
+
+      <article
+        style={{
+          backgroundColor: 'white',
+          padding: '40px',
+          borderRadius: '8px',
+          border: '1px solid #e5e7eb',
+        }}
+      >
+        <header style={{ marginBottom: '30px', paddingBottom: '20px', borderBottom: '2px solid #e5e7eb' }}>
+          <h1 style={{ fontSize: '36px', margin: '0 0 15px 0', lineHeight: '1.2' }}>{post.title}</h1>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '20px', fontSize: '14px', color: '#666' }}>
+            {author?.name && <span>✍️ {author.name}</span>}
+            {post.published_at && <span>📅 {new Date(post.published_at).toLocaleDateString()}</span>}
+            {post.tags.map((tag) => (
+              <span key={tag} style={{ color: '#1d9bf0' }}>#{tag}</span>
+            ))}
+          </div>
+        </header>
+
+        {/* html_content is rendered from the post's cells with every text escaped (renderBlogToHtml) */}
+        <div className="blog-content" dangerouslySetInnerHTML={{ __html: post.html_content }} />
+      </article>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { getBlogAuthor, getPublicBlogPosts } from '@/lib/db/queries';
+import { isBlogAuthorId } from '@/lib/agents/publishers/blog-publisher';
+import { buildAtomFeed } from '@/lib/agents/publishers/blog-feed';
+import { BLOG_CONFIG } from '@/lib/config/blog';
+
+/**
+ * GET /blog/[user]/feed.xml
+ *
+ * Atom feed of an author's public blog posts (newest first)
+ *
+ * PUBLIC - no authentication; private posts are never listed
+ *
+ * Returns:
+ * - 404: Unknown author
+ * - 200: application/atom+xml
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ user: string }> }
+) {
+  try {
+    const { user } = await params;
+    const author = isBlogAuthorId(user) ? await getBlogAuthor(user) : null;
+
+    if (!author) {
+      return NextResponse.json({ success: false, error: 'Blog not found' }, { status: 404 });
+    }
+
+    const posts = await getPublicBlogPosts(author.id, BLOG_CONFIG.pageSize);
+
+    return new Response(buildAtomFeed(author, posts), {
+      headers: {
+        'Content-Type': 'application/atom+xml; charset=utf-8',
+        'Cache-Control': 'public, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('GET /blog/[user]/feed.xml error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to build feed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,77 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { getBlogAuthor, getPublicBlogPosts } from '@/lib/db/queries';
+import { isBlogAuthorId } from '@/lib/agents/publishers/blog-publisher';
+import { BLOG_CONFIG } from '@/lib/config/blog';
+
+/**
+ * Public blog index (/blog/[user]) - an author's public posts, newest first
+ *
+ * PUBLIC - no authentication; private posts are never listed
+ */
+
+export const dynamic = 'force-dynamic';
+
+type PageProps = { params: Promise<{ user: string }> };
+
+async function loadAuthor(user: string) {
+  return isBlogAuthorId(user) ? getBlogAuthor(user) : null;
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { user } = await params;
+  const author = await loadAuthor(user);
+  if (!author) return { title: 'Blog not found' };
+
+  return {
+    title: `${author.name || 'Anonymous'}'s blog`,
+    alternates: { types: { 'application/atom+xml': `/blog/${author.id}/feed.xml` } },
+  };
+}
+
+export default async function BlogIndexPage({ params }: PageProps) {
+  const { user } = await params;
+  const author = await loadAuthor(user);
+  if (!author) notFound();
+
+  const posts = await getPublicBlogPosts(author.id, BLOG_CONFIG.pageSize);
+
+  return (
+    <div style={{ padding: '20px', maxWidth: '800px', margin: '0 auto' }}>
+      <div style={{ marginBottom: '30px', display: 'flex', justifyContent: 'space-between', alignItems: 'baseline' }}>
+        <h1 style={{ fontSize: '32px', margin: 0 }}>{author.name || 'Anonymous'}&apos;s blog</h1>
+        <a href={`/blog/${author.id}/feed.xml`} style={{ fontSize: '14px', color: '#ea580c' }}>
+          📡 Atom feed
+        </a>
+      </div>
+
+      {posts.length === 0 && <p style={{ color: '#666' }}>No posts yet.</p>}
+
+      {posts.map((post) => (
+        <Link
+          key={post.id}
+          href={`/blog/${post.user_id}/${post.slug}`}
+          style={{
+            display: 'block',
+            marginBottom: '16px',
+            padding: '20px',
+            backgroundColor: 'white',
+            border: '1px solid #e5e7eb',
+            borderRadius: '8px',
+            color: 'inherit',
+            textDecoration: 'none',
+          }}
+        >
+          <h2 style={{ fontSize: '22px', margin: '0 0 8px 0' }}>{post.title}</h2>
+          {post.meta_description && (
+            <p style={{ margin: '0 0 8px 0', color: '#4b5563', lineHeight: '1.6' }}>{post.meta_description}</p>
+          )}
+          <span style={{ fontSize: '14px', color: '#999' }}>
+            {post.published_at && new Date(post.published_at).toLocaleDateString()}
+          </span>
+        </Link>
+      ))}
+    </div>
+  );
+}
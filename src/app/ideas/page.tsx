@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { NoCreditsWarning } from '@/components/credits/buy-credits-button';
+import { LiveLogPanel } from '@/components/expansion/live-log-panel';
 
 interface Idea {
   id: string;
@@ -40,6 +41,7 @@ export default function IdeasPage() {
   const [expandProgress, setExpandProgress] = useState(0);
   const [expandExecutionId, setExpandExecutionId] = useState<string | null>(null);
   const [pollIntervalId, setPollIntervalId] = useState<NodeJS.Timeout | null>(null);
+  const [cancelling, setCancelling] = useState(false);
 
   // Usage state
   const [usage, setUsage] = useState<Usage | null>(null);
@@ -143,7 +145,32 @@ export default function IdeasPage() {
     }
   };
 
+  const handleCancel = async () => {
+    if (!expandExecutionId) return;
+    setCancelling(true);
+
+    try {
+      const response = await fetch('/api/expand/cancel', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ executionId: expandExecutionId }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        setError(data.error || 'Failed to cancel expansion');
+        setCancelling(false);
+      }
+      // On success, polling picks up the 'cancelled' status
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel expansion');
+      setCancelling(false);
+    }
+  };
+
   const handleExpand = async (specificIdeaId?: string) => {
+    setCancelling(false);
     setExpanding(true);
     setExpandingId(specificIdeaId || null);
     setExpandProgress(0);
@@ -248,6 +275,15 @@ export default function IdeasPage() {
                 window.location.href = `/outputs/${statusData.outputId}`;
               }, 1500);
             }
+          } else if (statusData.status === 'cancelled') {
+            clearInterval(pollInterval);
+            setPollIntervalId(null);
+            setSuccess('Expansion cancelled. No credit was used.');
+            setExpanding(false);
+            setExpandingId(null);
+            setExpandExecutionId(null);
+            setCancelling(false);
+            fetchIdeas();
           }
         } catch (pollError: any) {
           // Don't stop polling on individual errors - network might be flaky
@@ -332,6 +368,15 @@ export default function IdeasPage() {
         </div>
       )}
 
+      {/* Live Log Panel (while an idea expands) */}
+      {expanding && expandExecutionId && (
+        <LiveLogPanel
+          key={expandExecutionId}
+          executionId={expandExecutionId}
+          onProgress={setExpandProgress}
+        />
+      )}
+
       {/* Simple Create Form - Just One Text Box! */}
       <div style={{ marginBottom: '40px', padding: '20px', border: '2px solid #0070f3', borderRadius: '8px', backgroundColor: '#f0f9ff' }}>
         <h2 style={{ fontSize: '20px', marginBottom: '15px' }}>➕ Add New Idea</h2>
@@ -455,7 +500,9 @@ export default function IdeasPage() {
                             • Format: {
                               idea.output_format === 'blog_post' ? '📝 Blog' :
                               idea.output_format === 'twitter_thread' ? '🦣 Twitter Thread' :
-                              idea.output_format === 'github_repo' ? '💻 Code' : idea.output_format
+                              idea.output_format === 'github_repo' ? '💻 Code' :
+                              idea.output_format === 'slide_deck' ? '🎤 Slides' :
+                              idea.output_format === 'research_brief' ? '🔬 Research Brief' : idea.output_format
                             }
                           </span>
                         )}
@@ -573,6 +620,23 @@ export default function IdeasPage() {
                             ? `⏳ Expanding... ${expandProgress}%`
                             : '✨ Expand This'}
                         </button>
+                        {expanding && expandingId === idea.id && expandExecutionId && (
+                          <button
+                            onClick={handleCancel}
+                            disabled={cancelling}
+                            style={{
+                              padding: '6px 12px',
+                              fontSize: '14px',
+                              backgroundColor: 'white',
+                              color: '#c00',
+                              border: '1px solid #fcc',
+                              borderRadius: '4px',
+                              cursor: cancelling ? 'not-allowed' : 'pointer',
+                            }}
+                          >
+                            {cancelling ? 'Cancelling...' : '🛑 Cancel'}
+                          </button>
+                        )}
                         <button
                           onClick={() => handleDelete(idea.id)}
                           style={{
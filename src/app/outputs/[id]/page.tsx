@@ -3,12 +3,19 @@
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { use } from 'react';
+import type { CodeCandidate, CodeIteration, FileChange, FixRound } from '@/lib/agents/creators/code/types';
+import type { SlideDeckContent } from '@/lib/agents/formats/slide-deck';
+import type { ResearchBriefContent } from '@/lib/agents/formats/research-brief';
 
 interface Output {
   id: string;
-  format: 'blog_post' | 'github_repo';
+  format: string;
+  label: string;
+  viewer: 'blog' | 'code' | 'slides' | 'document' | 'json'; // Viewer hint from the format registry
   content: any;
   created_at: string;
+  publication_metadata: Record<string, PlatformPublication | undefined> | null; // Per destination (blog, devto, ...)
+  linkedOutputs: { id: string; format: string; label: string; relation: 'parent' | 'companion' }[]; // Bundle
 }
 
 export default function OutputViewerPage({ params }: { params: Promise<{ id: string }> }) {
@@ -138,118 +145,563 @@ export default function OutputViewerPage({ params }: { params: Promise<{ id: str
         </div>
       </div>
 
+      {/* Bundle: the repo and its companion blog post link to each other */}
+      {output.linkedOutputs?.length > 0 && (
+        <div
+          style={{
+            marginBottom: '20px',
+            padding: '12px 16px',
+            backgroundColor: '#f0f9ff',
+            border: '1px solid #bae6fd',
+            borderRadius: '8px',
+            fontSize: '14px',
+            color: '#0c4a6e',
+          }}
+        >
+          📦 Part of a bundle:{' '}
+          {output.linkedOutputs.map((linked, i) => (
+            <span key={linked.id}>
+              {i > 0 && ', '}
+              <Link href={`/outputs/${linked.id}`} style={{ color: '#0369a1', fontWeight: 600 }}>
+                {linked.relation === 'parent' ? `${linked.label} this post explains` : `Companion ${linked.label}`}
+              </Link>
+            </span>
+          ))}
+        </div>
+      )}
+
       {/* Format-specific viewer */}
-      {output.format === 'blog_post' && <BlogViewer content={output.content} />}
-      {output.format === 'github_repo' && <CodeViewer content={output.content} />}
+      {output.viewer === 'blog' && (
+        <BlogViewer outputId={output.id} content={output.content} publications={output.publication_metadata ?? {}} />
+      )}
+      {output.viewer === 'code' && <CodeViewer content={output.content} />}
+      {output.viewer === 'slides' && <SlideViewer content={output.content} />}
+      {output.viewer === 'document' && <DocumentViewer content={output.content} />}
+      {output.viewer === 'json' && <JsonViewer label={output.label} content={output.content} />}
     </div>
   );
 }
 
+// Blog publication status (GET /api/outputs/[id]/publish)
+interface BlogPublication {
+  slug: string;
+  url: string;
+  isPublic: boolean;
+  publishedAt: string;
+}
+
+// A blog platform publication (publication_metadata[platform])
+interface PlatformPublication {
+  url: string;
+  status?: 'published' | 'draft';
+}
+
+// A network's share post (GET /api/outputs/[id]/social)
+interface SocialPostView {
+  id: string;
+  network: 'x' | 'linkedin' | 'mastodon' | 'bluesky';
+  status: 'draft' | 'scheduled' | 'posting' | 'posted' | 'failed' | 'cancelled';
+  preview: string[]; // The texts as they will be sent
+  warnings: string[];
+  scheduled_for: string | null;
+  post_url: string | null;
+  error_message: string | null;
+}
+
+const SOCIAL_NETWORK_LABELS: Record<SocialPostView['network'], string> = {
+  x: '𝕏 thread',
+  linkedin: 'LinkedIn',
+  mastodon: 'Mastodon',
+  bluesky: 'Bluesky',
+};
+
+const SOCIAL_STATUS_COLORS: Record<SocialPostView['status'], string> = {
+  draft: '#6b7280',
+  scheduled: '#0369a1',
+  posting: '#d97706',
+  posted: '#16a34a',
+  failed: '#dc2626',
+  cancelled: '#6b7280',
+};
+
+// GET /api/settings/publishers
+interface BlogPlatformStatus {
+  platform: string;
+  label: string;
+  connected: boolean;
+  validationStatus: 'valid' | 'invalid' | 'not_checked' | null;
+}
+
 // Blog Post Viewer
-function BlogViewer({ content }: { content: any }) {
+function BlogViewer({
+  outputId,
+  content,
+  publications,
+}: {
+  outputId: string;
+  content: any;
+  publications: Record<string, PlatformPublication | undefined>;
+}) {
+  const [publication, setPublication] = useState<BlogPublication | null>(null);
+
   return (
-    <article
+    <>
+      <BlogPublishPanel outputId={outputId} publication={publication} onChange={setPublication} />
+      <BlogPlatformsPanel outputId={outputId} initialPublications={publications} />
+      <article
+        style={{
+          backgroundColor: 'white',
+          padding: '40px',
+          borderRadius: '8px',
+          border: '1px solid #e5e7eb',
+        }}
+      >
+        <div style={{ marginBottom: '30px', paddingBottom: '20px', borderBottom: '2px solid #e5e7eb' }}>
+          <h1 style={{ fontSize: '36px', margin: '0 0 15px 0', lineHeight: '1.2' }}>{content.title}</h1>
+          <div style={{ display: 'flex', gap: '20px', fontSize: '14px', color: '#666' }}>
+            <span>📝 Blog Post</span>
+            <span>📊 {content.wordCount} words</span>
+            <span>⏱️ {content.readingTimeMinutes} min read</span>
+          </div>
+        </div>
+
+        {/* Cell-Based Rendering */}
+        <div style={{
+          fontSize: '18px',
+          lineHeight: '1.8',
+          color: '#374151',
+        }}>
+          {content.cells.map((cell: any, index: number) => renderBlogCell(cell, index))}
+        </div>
+
+        {/* Social Media Share Section */}
+        <SocialSharePanel outputId={outputId} publicationUrl={publication?.url ?? null} />
+      </article>
+    </>
+  );
+}
+
+// Publish / unpublish a blog post on the public blog, or export it for a static site
+function BlogPublishPanel({
+  outputId,
+  publication,
+  onChange,
+}: {
+  outputId: string;
+  publication: BlogPublication | null;
+  onChange: (publication: BlogPublication | null) => void;
+}) {
+  const [busy, setBusy] = useState(true);
+
+  useEffect(() => {
+    fetch(`/api/outputs/${outputId}/publish`)
+      .then((response) => response.json())
+      .then((data) => {
+        if (data.success) onChange(data.blogPost);
+      })
+      .catch((err) => console.error('Failed to fetch publication status:', err))
+      .finally(() => setBusy(false));
+  }, [outputId, onChange]);
+
+  const request = async (method: 'POST' | 'PATCH' | 'DELETE', body?: { isPublic: boolean }) => {
+    setBusy(true);
+    try {
+      const response = await fetch(`/api/outputs/${outputId}/publish`, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body && JSON.stringify(body),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        onChange(data.blogPost);
+      } else {
+        alert(data.error || 'Failed to update blog publication');
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update blog publication');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const buttonStyle = (backgroundColor: string) => ({
+    padding: '8px 16px',
+    backgroundColor,
+    color: 'white',
+    border: 'none',
+    borderRadius: '6px',
+    cursor: busy ? 'wait' : 'pointer',
+    fontSize: '14px',
+    opacity: busy ? 0.6 : 1,
+  });
+
+  return (
+    <div
       style={{
-        backgroundColor: 'white',
-        padding: '40px',
+        marginBottom: '20px',
+        padding: '16px 20px',
+        backgroundColor: '#f0f9ff',
+        border: '1px solid #bae6fd',
         borderRadius: '8px',
-        border: '1px solid #e5e7eb',
+        display: 'flex',
+        flexWrap: 'wrap',
+        gap: '12px',
+        alignItems: 'center',
+        justifyContent: 'space-between',
       }}
     >
-      <div style={{ marginBottom: '30px', paddingBottom: '20px', borderBottom: '2px solid #e5e7eb' }}>
-        <h1 style={{ fontSize: '36px', margin: '0 0 15px 0', lineHeight: '1.2' }}>{content.title}</h1>
-        <div style={{ display: 'flex', gap: '20px', fontSize: '14px', color: '#666' }}>
-          <span>📝 Blog Post</span>
-          <span>📊 {content.wordCount} words</span>
-          <span>⏱️ {content.readingTimeMinutes} min read</span>
-        </div>
+      <div style={{ fontSize: '14px', color: '#0c4a6e' }}>
+        {publication ? (
+          <>
+            📰 {publication.isPublic ? 'Published' : 'Published (private)'}:{' '}
+            <a href={publication.url} target="_blank" rel="noopener noreferrer" style={{ color: '#0369a1' }}>
+              {publication.url}
+            </a>
+          </>
+        ) : (
+          <>📰 Not published on your blog</>
+        )}
       </div>
+      <div style={{ display: 'flex', gap: '8px' }}>
+        <button disabled={busy} onClick={() => request('POST')} style={buttonStyle('#0070f3')}>
+          {publication ? 'Republish' : 'Publish'}
+        </button>
+        {publication && (
+          <>
+            <button
+              disabled={busy}
+              onClick={() => request('PATCH', { isPublic: !publication.isPublic })}
+              style={buttonStyle('#6b7280')}
+            >
+              {publication.isPublic ? 'Make Private' : 'Make Public'}
+            </button>
+            <button
+              disabled={busy}
+              onClick={() => confirm('Remove this post from your blog?') && request('DELETE')}
+              style={buttonStyle('#dc2626')}
+            >
+              Unpublish
+            </button>
+          </>
+        )}
+      </div>
+      <div style={{ width: '100%', fontSize: '13px', color: '#0c4a6e' }}>
+        📦 Export for a static site:{' '}
+        {[
+          ['hugo', 'Hugo'],
+          ['jekyll', 'Jekyll'],
+          ['astro', 'Astro'],
+        ].map(([target, label], index) => (
+          <span key={target}>
+            {index > 0 && ' · '}
+            <a href={`/api/outputs/${outputId}/export?target=${target}`} download style={{ color: '#0369a1' }}>
+              {label}
+            </a>
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
 
-      {/* Cell-Based Rendering */}
-      <div style={{
-        fontSize: '18px',
-        lineHeight: '1.8',
-        color: '#374151',
-      }}>
-        {content.cells.map((cell: any, index: number) => renderBlogCell(cell, index))}
+// Publish a blog post to the user's connected blog platforms (Dev.to, Ghost, ...)
+function BlogPlatformsPanel({
+  outputId,
+  initialPublications,
+}: {
+  outputId: string;
+  initialPublications: Record<string, PlatformPublication | undefined>;
+}) {
+  const [platforms, setPlatforms] = useState<BlogPlatformStatus[]>([]);
+  const [publications, setPublications] = useState(initialPublications);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/settings/publishers')
+      .then((response) => response.json())
+      .then((data) => {
+        if (data.success) setPlatforms(data.platforms);
+      })
+      .catch((err) => console.error('Failed to fetch blog platforms:', err));
+  }, []);
+
+  const connected = platforms.filter((platform) => platform.connected);
+  if (connected.length === 0) return null;
+
+  const request = async (platform: string, method: 'POST' | 'DELETE') => {
+    setBusy(platform);
+    try {
+      const response = await fetch(`/api/outputs/${outputId}/platforms/${platform}`, { method });
+      const data = await response.json();
+
+      if (data.success) {
+        setPublications((current) => ({ ...current, [platform]: data.publication ?? undefined }));
+      } else {
+        alert(data.error || 'Failed to update platform publication');
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update platform publication');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const buttonStyle = (backgroundColor: string) => ({
+    padding: '6px 12px',
+    backgroundColor,
+    color: 'white',
+    border: 'none',
+    borderRadius: '6px',
+    cursor: busy ? 'wait' : 'pointer',
+    fontSize: '13px',
+    opacity: busy ? 0.6 : 1,
+  });
+
+  return (
+    <div
+      style={{
+        marginBottom: '20px',
+        padding: '16px 20px',
+        backgroundColor: '#f9fafb',
+        border: '1px solid #e5e7eb',
+        borderRadius: '8px',
+      }}
+    >
+      <div style={{ fontSize: '14px', fontWeight: '600', marginBottom: '10px' }}>🌐 Blog platforms</div>
+      {connected.map(({ platform, label, validationStatus }) => {
+        const publication = publications[platform];
+        return (
+          <div
+            key={platform}
+            style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '12px', padding: '6px 0' }}
+          >
+            <span style={{ fontSize: '14px' }}>
+              {label}
+              {validationStatus === 'invalid' && <span style={{ color: '#dc2626' }}> (credentials rejected)</span>}
+              {publication && (
+                <>
+                  {' - '}
+                  <a href={publication.url} target="_blank" rel="noopener noreferrer" style={{ color: '#0369a1' }}>
+                    {publication.status === 'draft' ? 'draft' : 'published'}
+                  </a>
+                </>
+              )}
+            </span>
+            <div style={{ display: 'flex', gap: '8px' }}>
+              <button disabled={!!busy} onClick={() => request(platform, 'POST')} style={buttonStyle('#0070f3')}>
+                {busy === platform ? '...' : publication ? 'Update' : 'Publish'}
+              </button>
+              {publication && (
+                <button
+                  disabled={!!busy}
+                  onClick={() => confirm(`Take this post down from ${label}?`) && request(platform, 'DELETE')}
+                  style={buttonStyle('#dc2626')}
+                >
+                  Take Down
+                </button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// Per-network share posts: write them, then schedule or copy them
+function SocialSharePanel({ outputId, publicationUrl }: { outputId: string; publicationUrl: string | null }) {
+  const [posts, setPosts] = useState<SocialPostView[]>([]);
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+  const [times, setTimes] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState<string | null>(null);
+
+  // Refetch when the blog post is (un)published - the previews link to it
+  useEffect(() => {
+    fetch(`/api/outputs/${outputId}/social`)
+      .then((response) => response.json())
+      .then((data) => {
+        if (data.success) {
+          setPosts(data.posts);
+          setShareUrl(data.shareUrl);
+        }
+      })
+      .catch((err) => console.error('Failed to fetch social posts:', err));
+  }, [outputId, publicationUrl]);
+
+  const write = async () => {
+    setBusy('write');
+    try {
+      const response = await fetch(`/api/outputs/${outputId}/social`, { method: 'POST' });
+      const data = await response.json();
+
+      if (data.success) {
+        setPosts(data.posts);
+        setShareUrl(data.shareUrl);
+      } else {
+        alert(data.error || 'Failed to write social posts');
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to write social posts');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const update = async (post: SocialPostView, body: Record<string, unknown>) => {
+    setBusy(post.id);
+    try {
+      const response = await fetch(`/api/outputs/${outputId}/social/${post.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setPosts((current) => current.map((entry) => (entry.id === post.id ? data.post : entry)));
+      } else {
+        alert(data.error || 'Failed to update social post');
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update social post');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const buttonStyle = (backgroundColor: string) => ({
+    padding: '6px 12px',
+    backgroundColor,
+    color: 'white',
+    border: 'none',
+    borderRadius: '6px',
+    cursor: busy ? 'wait' : 'pointer',
+    fontSize: '13px',
+    opacity: busy ? 0.6 : 1,
+  });
+
+  return (
+    <div style={{
+      marginTop: '40px',
+      padding: '20px',
+      backgroundColor: '#f9fafb',
+      borderRadius: '12px',
+      border: '1px solid #e5e7eb'
+    }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '12px' }}>
+        <h3 style={{ margin: 0, fontSize: '18px', fontWeight: '600' }}>
+          📱 Share on Social Media
+        </h3>
+        <button disabled={!!busy} onClick={write} style={buttonStyle('#1d9bf0')}>
+          {busy === 'write' ? 'Writing...' : posts.length > 0 ? '✨ Rewrite Drafts' : '✨ Write Posts'}
+        </button>
       </div>
 
-      {/* Social Media Share Section */}
-      {content.socialPost && (() => {
-        // Replace [BLOG_URL] placeholder with actual URL
-        const blogUrl = typeof window !== 'undefined' ? window.location.href : '';
-        const tweetText = content.socialPost.content.replace('[BLOG_URL]', blogUrl);
-        const fullTweetText = `${tweetText}\n\n${content.socialPost.hashtags.map((t: string) => `#${t}`).join(' ')}`;
+      {posts.length === 0 && (
+        <p style={{ margin: 0, fontSize: '14px', color: '#666' }}>
+          Write an 𝕏 thread and posts for LinkedIn, Mastodon and Bluesky from this blog post.
+        </p>
+      )}
+      {posts.length > 0 && !shareUrl && (
+        <p style={{ margin: '0 0 12px 0', fontSize: '13px', color: '#92400e' }}>
+          Publish the blog post to schedule these - [BLOG_URL] becomes its link.
+        </p>
+      )}
 
+      {posts.map((post) => {
+        const editable = ['draft', 'scheduled', 'failed', 'cancelled'].includes(post.status);
         return (
-          <div style={{
-            marginTop: '40px',
-            padding: '20px',
-            backgroundColor: '#f9fafb',
-            borderRadius: '12px',
-            border: '1px solid #e5e7eb'
-          }}>
-            <h3 style={{ margin: '0 0 12px 0', fontSize: '18px', fontWeight: '600' }}>
-              📱 Share on Social Media
-            </h3>
-            <div style={{
+          <div
+            key={post.id}
+            style={{
               padding: '16px',
               backgroundColor: 'white',
               borderRadius: '8px',
               marginBottom: '12px',
               border: '1px solid #e5e7eb'
-            }}>
-              <p style={{ margin: 0, fontSize: '15px', lineHeight: '1.5', whiteSpace: 'pre-wrap' }}>
-                {tweetText}
-              </p>
-              <div style={{ marginTop: '8px' }}>
-                {content.socialPost.hashtags.map((tag: string) => (
-                  <span key={tag} style={{
-                    display: 'inline-block',
-                    marginRight: '8px',
-                    color: '#1d9bf0',
-                    fontSize: '14px'
-                  }}>
-                    #{tag}
-                  </span>
-                ))}
-              </div>
+            }}
+          >
+            <div style={{ display: 'flex', alignItems: 'center', gap: '10px', marginBottom: '10px', fontSize: '14px' }}>
+              <strong>{SOCIAL_NETWORK_LABELS[post.network]}</strong>
+              <span style={{ color: SOCIAL_STATUS_COLORS[post.status], fontWeight: '600' }}>{post.status}</span>
+              {post.status === 'scheduled' && post.scheduled_for && (
+                <span style={{ color: '#666' }}>{new Date(post.scheduled_for).toLocaleString()}</span>
+              )}
+              {post.post_url && (
+                <a href={post.post_url} target="_blank" rel="noopener noreferrer" style={{ color: '#0369a1' }}>
+                  View post
+                </a>
+              )}
             </div>
-            {content.socialPost.imageUrl && (
-              <img
-                src={content.socialPost.imageUrl}
-                alt={content.socialPost.imageCaption || 'Social media image'}
+
+            {post.preview.map((text, index) => (
+              <p
+                key={index}
                 style={{
-                  width: '100%',
-                  maxWidth: '500px',
-                  height: 'auto',
-                  borderRadius: '8px',
-                  marginBottom: '12px'
+                  margin: '0 0 8px 0',
+                  paddingLeft: post.preview.length > 1 ? '10px' : 0,
+                  borderLeft: post.preview.length > 1 ? '3px solid #e5e7eb' : 'none',
+                  fontSize: '15px',
+                  lineHeight: '1.5',
+                  whiteSpace: 'pre-wrap'
                 }}
-              />
+              >
+                {text}
+              </p>
+            ))}
+
+            {post.error_message && (
+              <div style={{ fontSize: '13px', color: '#dc2626', marginBottom: '8px' }}>{post.error_message}</div>
             )}
-            <button
-              onClick={() => {
-                navigator.clipboard.writeText(fullTweetText);
-                alert('Copied to clipboard!');
-              }}
-              style={{
-                padding: '10px 20px',
-                backgroundColor: '#1d9bf0',
-                color: 'white',
-                border: 'none',
-                borderRadius: '8px',
-                cursor: 'pointer',
-                fontSize: '14px',
-                fontWeight: '600'
-              }}
-            >
-              📋 Copy Tweet
-            </button>
+            {post.warnings.map((warning) => (
+              <div key={warning} style={{ fontSize: '13px', color: '#92400e', marginBottom: '4px' }}>⚠️ {warning}</div>
+            ))}
+
+            <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '8px', marginTop: '10px' }}>
+              <button
+                onClick={() => {
+                  navigator.clipboard.writeText(post.preview.join('\n\n'));
+                  alert('Copied to clipboard!');
+                }}
+                style={buttonStyle('#6b7280')}
+              >
+                📋 Copy
+              </button>
+              {editable && shareUrl && (
+                <>
+                  <input
+                    type="datetime-local"
+                    value={times[post.id] ?? ''}
+                    onChange={(e) => setTimes((current) => ({ ...current, [post.id]: e.target.value }))}
+                    style={{ padding: '5px 8px', border: '1px solid #d1d5db', borderRadius: '6px', fontSize: '13px' }}
+                  />
+                  <button
+                    disabled={!!busy || !times[post.id]}
+                    onClick={() => update(post, { scheduledFor: new Date(times[post.id]).toISOString() })}
+                    style={buttonStyle('#0369a1')}
+                  >
+                    Schedule
+                  </button>
+                  <button
+                    disabled={!!busy}
+                    onClick={() => update(post, { scheduledFor: new Date().toISOString() })}
+                    style={buttonStyle('#1d9bf0')}
+                  >
+                    {busy === post.id ? '...' : 'Post Now'}
+                  </button>
+                </>
+              )}
+              {post.status === 'scheduled' && (
+                <button disabled={!!busy} onClick={() => update(post, { action: 'cancel' })} style={buttonStyle('#dc2626')}>
+                  Cancel
+                </button>
+              )}
+            </div>
           </div>
         );
-      })()}
-    </article>
+      })}
+    </div>
   );
 }
 
@@ -343,6 +795,496 @@ function CodeViewer({ content }: { content: any }) {
           </div>
         ))}
       </div>
+
+      {content._candidates?.length > 0 && (
+        <div style={{ marginTop: '40px' }}>
+          <h2 style={{ fontSize: '22px', marginBottom: '16px' }}>🏁 Candidates</h2>
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '14px', backgroundColor: 'white' }}>
+            <thead>
+              <tr style={{ backgroundColor: '#f9fafb', textAlign: 'left' }}>
+                {['#', 'Model', 'Score', 'Run', 'Static errors', 'Files'].map((heading) => (
+                  <th key={heading} style={{ padding: '8px 12px', borderBottom: '1px solid #e5e7eb' }}>{heading}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {content._candidates.map((candidate: CodeCandidate) => (
+                <tr
+                  key={candidate.index}
+                  style={{ backgroundColor: candidate.selected ? '#f0fdf4' : undefined, borderBottom: '1px solid #e5e7eb' }}
+                >
+                  <td style={{ padding: '8px 12px' }}>
+                    {candidate.index + 1}
+                    {candidate.selected && ' ✅'}
+                  </td>
+                  <td style={{ padding: '8px 12px', fontFamily: 'monospace' }}>{candidate.model}</td>
+                  <td style={{ padding: '8px 12px', fontWeight: 'bold' }}>
+                    {candidate.score ?? <span style={{ color: '#dc2626', fontWeight: 'normal' }} title={candidate.error}>failed</span>}
+                  </td>
+                  <td style={{ padding: '8px 12px' }}>{candidate.execution ?? '—'}</td>
+                  <td style={{ padding: '8px 12px' }}>{candidate.staticErrors ?? '—'}</td>
+                  <td style={{ padding: '8px 12px' }}>{candidate.files}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {content._iterations?.length > 1 && (
+        <div style={{ marginTop: '40px' }}>
+          <h2 style={{ fontSize: '22px', marginBottom: '16px' }}>📈 Iterations</h2>
+          <div style={{ display: 'grid', gap: '10px' }}>
+            {content._iterations.map((iteration: CodeIteration) => (
+              <div
+                key={iteration.attempt}
+                style={{
+                  padding: '12px 16px',
+                  backgroundColor: iteration.selected ? '#f0fdf4' : 'white',
+                  border: `1px solid ${iteration.selected ? '#86efac' : '#e5e7eb'}`,
+                  borderRadius: '8px',
+                  fontSize: '14px',
+                }}
+              >
+                <div style={{ display: 'flex', gap: '16px', alignItems: 'baseline', flexWrap: 'wrap' }}>
+                  <strong>
+                    {iteration.attempt === 0 ? 'Initial' : `Attempt ${iteration.attempt}`}
+                    {iteration.kind !== 'initial' && ` (${iteration.kind})`}
+                  </strong>
+                  <span>Score {iteration.score}</span>
+                  <span style={{ color: '#666' }}>{iteration.recommendation}</span>
+                  <span style={{ color: '#666' }}>{iteration.issuesCount} issues</span>
+                  {iteration.selected && <span style={{ color: '#16a34a', fontWeight: 'bold' }}>✅ returned</span>}
+                </div>
+                {iteration.filesChanged.length > 0 && (
+                  <div style={{ marginTop: '6px', color: '#666', fontFamily: 'monospace', fontSize: '13px' }}>
+                    Changed: {iteration.filesChanged.join(', ')}
+                  </div>
+                )}
+                {iteration.issuesFixed.map((issue, issueIndex) => (
+                  <div key={`fixed-${issueIndex}`} style={{ marginTop: '4px', color: '#16a34a', fontSize: '13px' }}>
+                    ✓ {issue}
+                  </div>
+                ))}
+                {iteration.newIssues.map((issue, issueIndex) => (
+                  <div key={`new-${issueIndex}`} style={{ marginTop: '4px', color: '#dc2626', fontSize: '13px' }}>
+                    + {issue}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {content._fixHistory?.length > 0 && (
+        <div style={{ marginTop: '40px' }}>
+          <h2 style={{ fontSize: '22px', marginBottom: '16px' }}>🔧 Fix History</h2>
+          <div style={{ display: 'grid', gap: '20px' }}>
+            {content._fixHistory.map((round: FixRound) => (
+              <div key={round.attempt}>
+                <div style={{ fontSize: '15px', fontWeight: 'bold', marginBottom: '10px', color: '#374151' }}>
+                  Round {round.attempt}: {round.kind === 'regeneration' ? 'full regeneration' : 'targeted fixes'}
+                  <span style={{ fontWeight: 'normal', color: '#666', marginLeft: '10px' }}>
+                    score {round.scoreBefore} → {round.scoreAfter ?? '—'}
+                  </span>
+                </div>
+                {round.importIssues?.map((issue: string, issueIndex: number) => (
+                  <p key={issueIndex} style={{ fontSize: '13px', color: '#dc2626', margin: '0 0 10px 0' }}>
+                    ⚠️ {issue}
+                  </p>
+                ))}
+                {round.files.length === 0 && (
+                  <p style={{ fontSize: '14px', color: '#666', margin: 0 }}>No files changed</p>
+                )}
+                {round.files.map((change: FileChange, index: number) => (
+                  <details
+                    key={index}
+                    style={{
+                      backgroundColor: 'white',
+                      borderRadius: '8px',
+                      border: '1px solid #e5e7eb',
+                      overflow: 'hidden',
+                      marginBottom: '10px',
+                    }}
+                  >
+                    <summary
+                      style={{
+                        padding: '10px 20px',
+                        backgroundColor: '#f9fafb',
+                        fontFamily: 'monospace',
+                        fontSize: '14px',
+                        cursor: 'pointer',
+                      }}
+                    >
+                      <strong>{change.path}</strong>
+                      {change.label && ` (${change.label})`}
+                      <span style={{ marginLeft: '10px', color: change.status === 'conflict' || change.status === 'failed' ? '#dc2626' : '#666' }}>
+                        {change.status}
+                      </span>
+                      {(change.additions > 0 || change.deletions > 0) && (
+                        <span style={{ marginLeft: '10px' }}>
+                          <span style={{ color: '#16a34a' }}>+{change.additions}</span>{' '}
+                          <span style={{ color: '#dc2626' }}>-{change.deletions}</span>
+                        </span>
+                      )}
+                    </summary>
+                    {change.summary && (
+                      <p style={{ padding: '10px 20px', margin: 0, fontSize: '14px', color: '#374151' }}>{change.summary}</p>
+                    )}
+                    {change.conflicts.map((conflict: string, conflictIndex: number) => (
+                      <p key={conflictIndex} style={{ padding: '0 20px 10px', margin: 0, fontSize: '13px', color: '#dc2626', fontFamily: 'monospace' }}>
+                        ⚠️ {conflict}
+                      </p>
+                    ))}
+                    {change.diff && (
+                      <pre
+                        style={{
+                          padding: '20px',
+                          margin: 0,
+                          overflow: 'auto',
+                          fontSize: '13px',
+                          lineHeight: '1.5',
+                          backgroundColor: '#1e1e1e',
+                          color: '#d4d4d4',
+                        }}
+                      >
+                        {change.diff.split('\n').map((line: string, lineIndex: number) => (
+                          <div
+                            key={lineIndex}
+                            style={{
+                              color: line.startsWith('@@')
+                                ? '#569cd6'
+                                : line.startsWith('+')
+                                  ? '#6a9955'
+                                  : line.startsWith('-')
+                                    ? '#f48771'
+                                    : undefined,
+                            }}
+                          >
+                            {line || ' '}
+                          </div>
+                        ))}
+                      </pre>
+                    )}
+                  </details>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Slide Deck Viewer
+function SlideViewer({ content }: { content: SlideDeckContent & { audience?: string } }) {
+  const [current, setCurrent] = useState(0);
+  const [showNotes, setShowNotes] = useState(false);
+
+  // Title slide first; skip image slides whose generation failed
+  const slides = [
+    { cellType: 'title' as const, speakerNotes: '' },
+    ...content.slides.filter((slide) => slide.cellType !== 'image' || slide.imageUrl),
+  ];
+  const slide = slides[current];
+
+  const download = (text: string, filename: string, type: string) => {
+    const url = URL.createObjectURL(new Blob([text], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const slug = (content.title || 'slides').toLowerCase().replace(/[^a-z0-9]+/g, '-');
+
+  const navButtonStyle = {
+    padding: '8px 16px',
+    fontSize: '14px',
+    backgroundColor: '#f3f4f6',
+    color: '#374151',
+    border: 'none',
+    borderRadius: '6px',
+    cursor: 'pointer',
+  };
+
+  return (
+    <div>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '20px' }}>
+        <div>
+          <h1 style={{ fontSize: '28px', margin: 0 }}>🎤 {content.title}</h1>
+          <div style={{ display: 'flex', gap: '20px', fontSize: '14px', color: '#666', marginTop: '8px' }}>
+            <span>📊 {content.slideCount} slides</span>
+            {content.audience && <span>👥 {content.audience}</span>}
+          </div>
+        </div>
+        <div style={{ display: 'flex', gap: '10px' }}>
+          <button
+            onClick={() => download(content.revealHtml, `${slug}.html`, 'text/html')}
+            style={navButtonStyle}
+          >
+            ⬇️ Reveal.js
+          </button>
+          <button
+            onClick={() => download(content.marpMarkdown, `${slug}.md`, 'text/markdown')}
+            style={navButtonStyle}
+          >
+            ⬇️ Marp
+          </button>
+        </div>
+      </div>
+
+      {/* Current slide (16:9) */}
+      <div
+        style={{
+          aspectRatio: '16 / 9',
+          backgroundColor: 'white',
+          border: '1px solid #e5e7eb',
+          borderRadius: '8px',
+          padding: '40px 60px',
+          display: 'flex',
+          flexDirection: 'column',
+          justifyContent: slide.cellType === 'slide' && slide.layout === 'content' ? 'flex-start' : 'center',
+          alignItems: slide.cellType === 'slide' && slide.layout === 'content' ? 'stretch' : 'center',
+          overflow: 'hidden',
+          fontSize: '20px',
+          color: '#374151',
+        }}
+      >
+        {slide.cellType === 'title' && (
+          <>
+            <h1 style={{ fontSize: '40px', margin: '0 0 16px 0', textAlign: 'center' }}>{content.title}</h1>
+            <p style={{ fontSize: '22px', color: '#6b7280', textAlign: 'center', margin: 0 }}>{content.subtitle}</p>
+          </>
+        )}
+        {slide.cellType === 'slide' && (
+          <div>
+            {slide.blocks.map((block, blockIndex) => renderMarkdownBlock(block, blockIndex))}
+          </div>
+        )}
+        {slide.cellType === 'image' && (
+          <>
+            <img
+              src={slide.imageUrl}
+              alt={slide.caption}
+              style={{ maxWidth: '100%', maxHeight: '85%', objectFit: 'contain', borderRadius: '8px' }}
+            />
+            <p style={{ fontSize: '14px', color: '#6b7280', fontStyle: 'italic', margin: '12px 0 0 0' }}>
+              {slide.caption}
+            </p>
+          </>
+        )}
+      </div>
+
+      {/* Navigation */}
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginTop: '16px' }}>
+        <button
+          onClick={() => setCurrent(Math.max(0, current - 1))}
+          disabled={current === 0}
+          style={{ ...navButtonStyle, opacity: current === 0 ? 0.5 : 1 }}
+        >
+          ← Previous
+        </button>
+        <span style={{ fontSize: '14px', color: '#666' }}>
+          {current + 1} / {slides.length}
+        </span>
+        <button
+          onClick={() => setCurrent(Math.min(slides.length - 1, current + 1))}
+          disabled={current === slides.length - 1}
+          style={{ ...navButtonStyle, opacity: current === slides.length - 1 ? 0.5 : 1 }}
+        >
+          Next →
+        </button>
+      </div>
+
+      {/* Speaker notes */}
+      {slide.speakerNotes && (
+        <div style={{ marginTop: '20px' }}>
+          <button onClick={() => setShowNotes(!showNotes)} style={navButtonStyle}>
+            {showNotes ? '🙈 Hide speaker notes' : '🗒️ Show speaker notes'}
+          </button>
+          {showNotes && (
+            <div
+              style={{
+                marginTop: '12px',
+                padding: '16px',
+                backgroundColor: '#f9fafb',
+                border: '1px solid #e5e7eb',
+                borderRadius: '8px',
+                fontSize: '15px',
+                lineHeight: '1.6',
+                whiteSpace: 'pre-wrap',
+              }}
+            >
+              {slide.speakerNotes}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Research Brief Viewer
+const VERDICT_LABELS: Record<string, string> = {
+  build: '✅ Build it',
+  prototype_first: '🧪 Prototype first',
+  research_more: '🔍 Research more',
+  skip: '⛔ Skip',
+};
+
+const LEVEL_COLORS: Record<string, string> = {
+  low: '#059669',
+  medium: '#d97706',
+  high: '#dc2626',
+};
+
+function DocumentViewer({ content }: { content: ResearchBriefContent }) {
+  const downloadMarkdown = () => {
+    const url = URL.createObjectURL(new Blob([content.markdown], { type: 'text/markdown' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${(content.title || 'research-brief').toLowerCase().replace(/[^a-z0-9]+/g, '-')}.md`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const sectionTitleStyle = { fontSize: '24px', margin: '36px 0 14px 0', fontWeight: '600' as const };
+  const cellStyle = { padding: '10px', borderBottom: '1px solid #e5e7eb', verticalAlign: 'top' as const };
+  const score = content.feasibility.score;
+
+  return (
+    <article
+      style={{
+        backgroundColor: 'white',
+        padding: '40px',
+        borderRadius: '8px',
+        border: '1px solid #e5e7eb',
+        fontSize: '16px',
+        lineHeight: '1.7',
+        color: '#374151',
+      }}
+    >
+      <div style={{ marginBottom: '24px', paddingBottom: '20px', borderBottom: '2px solid #e5e7eb' }}>
+        <h1 style={{ fontSize: '34px', margin: '0 0 12px 0', lineHeight: '1.2' }}>{content.title}</h1>
+        <p style={{ margin: '0 0 16px 0', fontStyle: 'italic', color: '#6b7280' }}>{content.centralQuestion}</p>
+        <div style={{ display: 'flex', gap: '12px', alignItems: 'center', flexWrap: 'wrap' }}>
+          <span
+            style={{
+              padding: '6px 12px',
+              borderRadius: '6px',
+              fontWeight: 'bold',
+              fontSize: '14px',
+              backgroundColor: score >= 7 ? '#ecfdf5' : score >= 4 ? '#fffbeb' : '#fef2f2',
+              color: score >= 7 ? '#059669' : score >= 4 ? '#d97706' : '#dc2626',
+            }}
+          >
+            Feasibility {score}/10
+          </span>
+          <span style={{ fontSize: '14px', fontWeight: 'bold' }}>
+            {VERDICT_LABELS[content.feasibility.verdict] || content.feasibility.verdict}
+          </span>
+          <span style={{ flex: 1 }} />
+          <button onClick={downloadMarkdown} style={{ padding: '8px 16px', fontSize: '14px', backgroundColor: '#f3f4f6', color: '#374151', border: 'none', borderRadius: '6px', cursor: 'pointer' }}>
+            ⬇️ Markdown
+          </button>
+          <button onClick={() => window.print()} style={{ padding: '8px 16px', fontSize: '14px', backgroundColor: '#f3f4f6', color: '#374151', border: 'none', borderRadius: '6px', cursor: 'pointer' }}>
+            🖨️ Save as PDF
+          </button>
+        </div>
+      </div>
+
+      <h2 style={sectionTitleStyle}>Summary</h2>
+      <p>{content.summary}</p>
+
+      <h2 style={sectionTitleStyle}>Prior Art</h2>
+      {content.priorArt.map((item, index) => (
+        <div key={index} style={{ marginBottom: '18px' }}>
+          <h3 style={{ fontSize: '18px', margin: '0 0 4px 0' }}>
+            {item.url ? (
+              <a href={item.url} target="_blank" rel="noopener noreferrer" style={{ color: '#0070f3' }}>{item.name}</a>
+            ) : item.name}
+            <span style={{ marginLeft: '8px', fontSize: '12px', color: '#6b7280', fontWeight: 'normal' }}>{item.kind.replace('_', ' ')}</span>
+          </h3>
+          <p style={{ margin: '0 0 4px 0' }}>{item.summary}</p>
+          <p style={{ margin: 0, color: '#6b7280' }}><strong>Relevance:</strong> {item.relevance}</p>
+        </div>
+      ))}
+
+      <h2 style={sectionTitleStyle}>Open Questions</h2>
+      <ol style={{ paddingLeft: '24px' }}>
+        {content.openQuestions.map((item, index) => (
+          <li key={index} style={{ marginBottom: '12px' }}>
+            <strong>{item.question}</strong>
+            <div style={{ color: '#6b7280' }}>Why it matters: {item.whyItMatters}</div>
+            <div style={{ color: '#6b7280' }}>How to answer: {item.howToAnswer}</div>
+          </li>
+        ))}
+      </ol>
+
+      <h2 style={sectionTitleStyle}>Risks</h2>
+      <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '14px' }}>
+        <thead>
+          <tr style={{ textAlign: 'left', backgroundColor: '#f9fafb' }}>
+            <th style={cellStyle}>Risk</th>
+            <th style={cellStyle}>Category</th>
+            <th style={cellStyle}>Likelihood</th>
+            <th style={cellStyle}>Impact</th>
+            <th style={cellStyle}>Mitigation</th>
+          </tr>
+        </thead>
+        <tbody>
+          {content.risks.map((risk, index) => (
+            <tr key={index}>
+              <td style={cellStyle}>{risk.risk}</td>
+              <td style={cellStyle}>{risk.category}</td>
+              <td style={{ ...cellStyle, color: LEVEL_COLORS[risk.likelihood] }}>{risk.likelihood}</td>
+              <td style={{ ...cellStyle, color: LEVEL_COLORS[risk.impact] }}>{risk.impact}</td>
+              <td style={cellStyle}>{risk.mitigation}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <h2 style={sectionTitleStyle}>Feasibility</h2>
+      <p>{content.feasibility.rationale}</p>
+
+      <h2 style={sectionTitleStyle}>Next Steps</h2>
+      <ol style={{ paddingLeft: '24px' }}>
+        {content.nextSteps.map((item, index) => (
+          <li key={index} style={{ marginBottom: '10px' }}>
+            <strong>{item.step}</strong>{' '}
+            <span style={{ fontSize: '13px', color: '#6b7280' }}>({item.effort})</span>
+            <div style={{ color: '#6b7280' }}>→ {item.outcome}</div>
+          </li>
+        ))}
+      </ol>
+    </article>
+  );
+}
+
+// Fallback Viewer (formats without a dedicated viewer)
+function JsonViewer({ label, content }: { label: string; content: Record<string, unknown> }) {
+  return (
+    <div>
+      <h1 style={{ fontSize: '28px', margin: '0 0 20px 0' }}>✨ {typeof content.title === 'string' && content.title ? content.title : label}</h1>
+      <pre
+        style={{
+          padding: '20px',
+          margin: 0,
+          overflow: 'auto',
+          fontSize: '14px',
+          lineHeight: '1.6',
+          backgroundColor: '#1e1e1e',
+          color: '#d4d4d4',
+          borderRadius: '8px',
+        }}
+      >
+        {JSON.stringify(content, null, 2)}
+      </pre>
     </div>
   );
 }
@@ -5,7 +5,9 @@ import Link from 'next/link';
 
 interface Output {
   id: string;
-  format: 'blog_post' | 'github_repo';
+  format: string;
+  label: string;
+  viewer: 'blog' | 'code' | 'slides' | 'document' | 'json'; // Viewer hint from the format registry
   content: any;
   created_at: string;
   idea_id: string;
@@ -43,25 +45,38 @@ export default function OutputsPage() {
       ? outputs
       : outputs.filter((output) => output.format === filter);
 
-  const getFormatIcon = (format: string) => {
-    switch (format) {
-      case 'blog_post':
+  // One filter tab per format the user has outputs for
+  const formatTabs = Array.from(
+    new Map(outputs.map((output) => [output.format, output])).values()
+  );
+
+  const getFormatIcon = (viewer: Output['viewer']) => {
+    switch (viewer) {
+      case 'blog':
         return '📝';
-      case 'github_repo':
+      case 'code':
         return '💻';
+      case 'slides':
+        return '🎤';
+      case 'document':
+        return '🔬';
       default:
         return '✨';
     }
   };
 
   const getPreview = (output: Output) => {
-    switch (output.format) {
-      case 'blog_post':
+    switch (output.viewer) {
+      case 'blog':
         return output.content.title || 'Untitled Blog Post';
-      case 'github_repo':
+      case 'code':
         return output.content.repoName || 'Code Project';
+      case 'slides':
+        return output.content.title || 'Untitled Slide Deck';
+      case 'document':
+        return output.content.title || 'Untitled Research Brief';
       default:
-        return 'Generated Content';
+        return output.content.title || 'Generated Content';
     }
   };
 
@@ -106,7 +121,10 @@ export default function OutputsPage() {
 
       {/* Filter Tabs */}
       <div style={{ marginBottom: '30px', display: 'flex', gap: '10px', flexWrap: 'wrap' }}>
-        {['all', 'blog_post', 'github_repo'].map((f) => (
+        {[
+          { f: 'all', text: '📋 All' },
+          ...formatTabs.map((output) => ({ f: output.format, text: `${getFormatIcon(output.viewer)} ${output.label}` })),
+        ].map(({ f, text }) => (
           <button
             key={f}
             onClick={() => setFilter(f)}
@@ -121,7 +139,7 @@ export default function OutputsPage() {
               cursor: 'pointer',
             }}
           >
-            {f === 'all' ? '📋 All' : `${getFormatIcon(f)} ${f.charAt(0).toUpperCase() + f.slice(1)}`}
+            {text}
           </button>
         ))}
       </div>
@@ -168,13 +186,13 @@ export default function OutputsPage() {
               }}
             >
               <div style={{ display: 'flex', alignItems: 'center', gap: '15px', marginBottom: '10px' }}>
-                <span style={{ fontSize: '32px' }}>{getFormatIcon(output.format)}</span>
+                <span style={{ fontSize: '32px' }}>{getFormatIcon(output.viewer)}</span>
                 <div style={{ flex: 1 }}>
                   <h3 style={{ fontSize: '18px', margin: 0, fontWeight: 'bold' }}>
                     {getPreview(output)}
                   </h3>
                   <p style={{ fontSize: '14px', color: '#666', margin: '5px 0 0 0' }}>
-                    {output.format.charAt(0).toUpperCase() + output.format.slice(1)} • Created{' '}
+                    {output.label} • Created{' '}
                     {new Date(output.created_at).toLocaleDateString()}
                   </p>
                 </div>
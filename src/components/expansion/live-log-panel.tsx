@@ -0,0 +1,126 @@
+/**
+ * Live Log Panel - streams an expansion's logs while it runs
+ *
+ * Subscribes to GET /api/expand/stream (Server-Sent Events) and shows:
+ * - The current stage and progress
+ * - Log lines as the pipeline writes them (stages, critic scores, image attempts)
+ *
+ * EventSource reconnects on its own and resumes from the last line it saw.
+ */
+
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+
+interface LogLine {
+  id: string;
+  level: 'DEBUG' | 'INFO' | 'WARN' | 'ERROR';
+  stage: string | null;
+  message: string;
+  timestamp: string;
+}
+
+const MAX_LINES = 500;
+
+const LEVEL_COLORS: Record<LogLine['level'], string> = {
+  DEBUG: '#9ca3af',
+  INFO: '#e5e7eb',
+  WARN: '#fbbf24',
+  ERROR: '#f87171',
+};
+
+export function LiveLogPanel({
+  executionId,
+  onProgress,
+}: {
+  executionId: string;
+  onProgress?: (progress: number) => void;
+}) {
+  const [lines, setLines] = useState<LogLine[]>([]);
+  const [currentStage, setCurrentStage] = useState<string | null>(null);
+  const [connected, setConnected] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  // Keep the latest callback without reopening the stream
+  const onProgressRef = useRef(onProgress);
+  useEffect(() => {
+    onProgressRef.current = onProgress;
+  }, [onProgress]);
+
+  // Render with key={executionId} so a new execution starts from a clean panel
+  useEffect(() => {
+    const source = new EventSource(`/api/expand/stream?executionId=${executionId}`);
+
+    source.onopen = () => setConnected(true);
+
+    source.addEventListener('log', (event) => {
+      const data = JSON.parse((event as MessageEvent).data);
+      const line: LogLine = { id: (event as MessageEvent).lastEventId, ...data };
+      setLines((prev) => [...prev, line].slice(-MAX_LINES));
+    });
+
+    source.addEventListener('status', (event) => {
+      const data = JSON.parse((event as MessageEvent).data);
+      setCurrentStage(data.currentStage);
+      onProgressRef.current?.(data.progress);
+    });
+
+    source.addEventListener('done', () => {
+      // Finished - stop EventSource from reconnecting
+      source.close();
+      setConnected(false);
+    });
+
+    source.onerror = () => setConnected(false);
+
+    return () => source.close();
+  }, [executionId]);
+
+  // Follow new lines
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [lines]);
+
+  return (
+    <div style={{ marginBottom: '20px', border: '1px solid #374151', borderRadius: '8px', overflow: 'hidden' }}>
+      <div style={{
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        padding: '8px 12px',
+        backgroundColor: '#1f2937',
+        color: '#e5e7eb',
+        fontSize: '13px',
+      }}>
+        <span>
+          📜 Live log{currentStage ? ` · ${currentStage}` : ''}
+        </span>
+        <span style={{ color: connected ? '#34d399' : '#9ca3af' }}>
+          {connected ? '● live' : '○ disconnected'}
+        </span>
+      </div>
+      <div style={{
+        maxHeight: '280px',
+        overflowY: 'auto',
+        padding: '8px 12px',
+        backgroundColor: '#111827',
+        fontFamily: 'monospace',
+        fontSize: '12px',
+        lineHeight: 1.5,
+      }}>
+        {lines.length === 0 && (
+          <div style={{ color: '#9ca3af' }}>Waiting for the worker to start...</div>
+        )}
+        {lines.map((line) => (
+          <div key={line.id} style={{ color: LEVEL_COLORS[line.level] || '#e5e7eb', whiteSpace: 'pre-wrap' }}>
+            <span style={{ color: '#6b7280' }}>
+              {new Date(line.timestamp).toLocaleTimeString()}
+            </span>{' '}
+            {line.stage && <span style={{ color: '#60a5fa' }}>[{line.stage}]</span>} {line.message}
+          </div>
+        ))}
+        <div ref={bottomRef} />
+      </div>
+    </div>
+  );
+}
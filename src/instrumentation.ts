@@ -0,0 +1,15 @@
+/**
+ * Next.js instrumentation hook - runs once when the server process starts
+ *
+ * Starts the job driver so queued expansions (including ones orphaned by a
+ * previous restart) get picked up without waiting for a new request.
+ */
+export async function register() {
+  // Workers need Node.js APIs - skip the edge runtime
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+
+  const { getJobDriver } = await import('./lib/jobs/job-driver');
+  await getJobDriver().start();
+}
@@ -0,0 +1,158 @@
+import type { AgentStateType } from './types';
+import { createLogger } from '../logging/logger';
+import { createBlog, planBlogPost } from './creators/blog/blog-creator';
+import { isCancellation } from '../utils/cancellation';
+import { DEFAULT_QUALITY_POLICY } from '../quality/quality-policy';
+
+/**
+ * BUNDLE AGENTS (mode: 'bundle')
+ *
+ * A bundle is a GitHub repo plus a companion blog post that explains it.
+ * The creator agent makes the repo (format github_repo); these two nodes
+ * make the post:
+ *
+ * - Companion Planner: plans the post from the idea, in parallel with the code
+ * - Companion Writer: once both are done, writes the post grounded on the
+ *   generated code (README, key files) and links to the published repo
+ */
+
+/**
+ * Formats of the two outputs of a bundle (saved as linked rows)
+ */
+export const BUNDLE_FORMATS = {
+  primary: 'github_repo',
+  companion: 'blog_post',
+} as const;
+
+/**
+ * Companion Planner - runs alongside the creator agent
+ */
+export async function companionPlannerAgent(
+  state: AgentStateType
+): Promise<Partial<AgentStateType>> {
+  const { selectedIdea, constraints, logger: parentLogger, progress } = state;
+
+  const logger = parentLogger
+    ? parentLogger.child({ stage: 'companion-planner' })
+    : createLogger({ stage: 'companion-planner' });
+
+  if (!selectedIdea) {
+    logger.error('Validation failed: no idea selected');
+    return {
+      companionPlan: null,
+      errors: ['Cannot plan companion post: no idea selected'],
+    };
+  }
+
+  try {
+    await progress?.started('planning', { percent: 0 });
+    const companionPlan = await planBlogPost(selectedIdea, { constraints: constraints ?? {} });
+    await progress?.completed('planning', {
+      percent: 100,
+      data: { sectionsCount: companionPlan.sections.length },
+    });
+
+    logger.info('Companion post planned', {
+      title: companionPlan.title,
+      sectionsCount: companionPlan.sections.length,
+    });
+
+    return { companionPlan };
+  } catch (error) {
+    // Let cancellation stop the graph instead of recording a failure
+    if (isCancellation(error)) throw error;
+
+    await progress?.failed('planning', error);
+    logger.error('Companion planning failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return {
+      companionPlan: null,
+      errors: [
+        `Companion planning failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      ],
+    };
+  }
+}
+
+/**
+ * Companion Writer - runs after the creator agent and the planner
+ */
+export async function companionAgent(
+  state: AgentStateType
+): Promise<Partial<AgentStateType>> {
+  const {
+    userId,
+    selectedIdea,
+    generatedContent,
+    companionPlan,
+    constraints,
+    qualityPolicy,
+    logger: parentLogger,
+    progress,
+    checkpoints,
+  } = state;
+
+  const logger = parentLogger
+    ? parentLogger.child({ stage: 'companion-agent' })
+    : createLogger({ stage: 'companion-agent' });
+
+  if (!selectedIdea) {
+    logger.error('Validation failed: no idea selected');
+    return {
+      companionContent: null,
+      errors: ['Cannot write companion post: no idea selected'],
+    };
+  }
+
+  // Without code there is nothing to explain - the creator already recorded why
+  if (!generatedContent) {
+    logger.warn('No code generated, skipping companion post');
+    return { companionContent: null };
+  }
+
+  const repoUrl: string | undefined = generatedContent.published
+    ? generatedContent.publishResult?.repoUrl
+    : undefined;
+
+  logger.info('Writing companion post', {
+    repoName: generatedContent.repoName,
+    repoUrl,
+    hasPlan: !!companionPlan,
+  });
+
+  try {
+    const blogResult = await createBlog(selectedIdea, {
+      userId,
+      constraints: constraints ?? {},
+      qualityPolicy: qualityPolicy ?? DEFAULT_QUALITY_POLICY,
+      plan: companionPlan ?? undefined,
+      grounding: { code: generatedContent, repoUrl },
+      progress: progress?.scoped('blog', 0, 100),
+      checkpoints: checkpoints?.scoped('blog'),
+    });
+
+    return {
+      companionContent: {
+        format: BUNDLE_FORMATS.companion,
+        ...blogResult.content,
+      },
+      errors: blogResult.errors,
+    };
+  } catch (error) {
+    // Let cancellation stop the graph instead of recording a failure
+    if (isCancellation(error)) throw error;
+
+    logger.error('Companion post failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    return {
+      companionContent: null,
+      errors: [
+        `Companion post failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      ],
+    };
+  }
+}
@@ -1,8 +1,8 @@
 import type { AgentStateType } from './types';
-import type { Logger } from '../logging/logger';
-import { createBlog } from './creators/blog/blog-creator'; // Cell-based with images and social share
-import { createCodeProject } from './creators/code/code-creator'; // Multi-stage code creator
-import { publishToGitHub, publishToGitHubDryRun, getUserGitHubCredentials } from './publishers/github-publisher';
+import { createLogger } from '../logging/logger';
+import { getFormat } from './formats';
+import { isCancellation } from '../utils/cancellation';
+import { DEFAULT_QUALITY_POLICY } from '../quality/quality-policy';
 
 /**
  * CREATOR AGENT (Orchestrator)
@@ -13,9 +13,9 @@ import { publishToGitHub, publishToGitHubDryRun, getUserGitHubCredentials } from
  * - The selected idea (chosen by user)
  * - The chosen format (from Router Agent)
  *
- * It delegates to the format-specific creator:
+ * It delegates to the creator registered for the format (see formats/):
  * - blog_post → Cell-based blog creator (plan → generate → review + images + social share)
- * - github_repo → Code creator (plan → generate → review → iterate)
+ * - github_repo → Code creator (plan → generate → review → iterate) + GitHub publish
  *
  * Note: Images and social posts are COMPONENTS of blogs, not standalone formats
  * Philosophy: "Schemas all the way down" - all creators use structured outputs with Zod
@@ -23,18 +23,12 @@ import { publishToGitHub, publishToGitHubDryRun, getUserGitHubCredentials } from
 export async function creatorAgent(
   state: AgentStateType
 ): Promise<Partial<AgentStateType>> {
-  const { selectedIdea, chosenFormat, logger: parentLogger } = state;
+  const { selectedIdea, chosenFormat, constraints, qualityPolicy, logger: parentLogger, progress, checkpoints } = state;
 
   // Create child logger for this stage
   const logger = parentLogger
     ? parentLogger.child({ stage: 'creator-agent' })
-    : {
-        info: console.log,
-        error: console.error,
-        warn: console.warn,
-        debug: console.debug,
-        child: () => ({ info: console.log, error: console.error, warn: console.warn, debug: console.debug })
-      };
+    : createLogger({ stage: 'creator-agent' });
 
   // Validation
   if (!selectedIdea) {
@@ -58,78 +52,52 @@ export async function creatorAgent(
     format: chosenFormat,
   });
 
-  // Route to appropriate creator
-  try {
-    switch (chosenFormat) {
-      case 'blog_post':
-        logger.info('Delegating to cell-based blog creator');
-        const blogResult = await createBlog(selectedIdea);
-        logger.info('Blog creator completed successfully', {
-          hasContent: !!blogResult.content,
-        });
-        return {
-          generatedContent: {
-            format: 'blog_post',
-            ...blogResult.content,
-          },
-        };
-
-      case 'github_repo':
-        logger.info('Delegating to code creator - multi-stage pipeline');
-        const codeResult = await createCodeProject(selectedIdea);
-        logger.info('Code creator completed successfully', {
-          hasContent: !!codeResult.content,
-        });
+  const format = getFormat(chosenFormat);
 
-        // Publish to GitHub using USER's credentials (not site owner's)
-        let publishResult = null;
-        let isDryRun = false;
+  if (!format) {
+    logger.error('Unknown format requested', { format: chosenFormat });
+    return {
+      generatedContent: null,
+      errors: [`Unknown format: ${chosenFormat}`],
+    };
+  }
 
-        try {
-          // Get user's GitHub credentials from database
-          const userGitHubCreds = await getUserGitHubCredentials(state.userId);
-          logger.info('Publishing to GitHub (user\'s own account)', {
-            username: userGitHubCreds.username,
-          });
-          publishResult = await publishToGitHub(
-            codeResult.content,
-            state.userId,
-            userGitHubCreds.token,
-            userGitHubCreds.username
-          );
-          logger.info('GitHub publishing completed successfully - repo in user\'s account', {
-            published: true,
-            repoUrl: publishResult.repoUrl,
-          });
-        } catch (githubError) {
-          // If user hasn't authenticated with GitHub, run dry run instead
-          logger.warn('User GitHub credentials not available - running in DRY RUN mode', {
-            error: githubError instanceof Error ? githubError.message : 'Unknown error',
-            reason: 'User must sign in with GitHub OAuth to enable automated repo publishing',
-          });
-          isDryRun = true;
-          logger.info('Publishing to GitHub (dry run - no actual repo created)');
-          publishResult = await publishToGitHubDryRun(codeResult.content, state.userId);
-          logger.info('GitHub dry run completed - code generated but not published');
-        }
+  // Delegate to the registered creator
+  try {
+    const { content, errors = [] } = await format.create({
+      idea: selectedIdea,
+      userId: state.userId,
+      constraints: constraints ?? {},
+      qualityPolicy: qualityPolicy ?? DEFAULT_QUALITY_POLICY,
+      logger,
+      progress,
+      checkpoints,
+    });
 
-        return {
-          generatedContent: {
-            format: 'github_repo',
-            ...codeResult.content,
-            published: !isDryRun,
-            publishResult,
-          },
-        };
+    // Content is saved as-is; a mismatch is worth knowing about, not failing over
+    const validation = format.contentSchema.safeParse(content);
+    if (!validation.success) {
+      logger.warn('Generated content does not match the format schema', {
+        format: format.id,
+        issues: validation.error.issues.slice(0, 5).map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+      });
+    }
 
-      default:
-        logger.error('Unknown format requested', { format: chosenFormat });
-        return {
-          generatedContent: null,
-          errors: [`Unknown format: ${chosenFormat}`],
-        };
+    if (errors.length > 0) {
+      logger.warn('Content created with errors', { format: format.id, errors });
     }
+
+    return {
+      generatedContent: {
+        format: format.id,
+        ...content,
+      },
+      errors,
+    };
   } catch (error) {
+    // Let cancellation stop the graph instead of recording a failure
+    if (isCancellation(error)) throw error;
+
     logger.error('Creator agent failed', {
       format: chosenFormat,
       error: error instanceof Error ? error.message : 'Unknown error',
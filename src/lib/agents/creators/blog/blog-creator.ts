@@ -1,7 +1,7 @@
 import { ChatOpenAI } from '@langchain/openai';
 import { ChatAnthropic } from '@langchain/anthropic';
 import { generateImageForContent } from '../image-creator';
-import type { GeneratedImage, BlogPlan, BlogReview } from '../../types';
+import type { GeneratedImage, BlogPlan, BlogReview, BlogCreationState, ExpansionConstraints } from '../../types';
 import {
   BlogGenerationSchema,
   renderBlogToMarkdown,
@@ -10,11 +10,25 @@ import {
   type BlogCell,
   type ImageCell,
 } from './blog-schemas';
+import { buildCodeGroundingPrompt, type BlogGrounding } from './code-grounding';
+import {
+  buildBlogIterationTrace,
+  cellsToRevise,
+  labelCells,
+  pickBestDraft,
+  reuseImages,
+  reviseBlogCells,
+  type BlogVersion,
+} from './blog-revision';
 import { z } from 'zod';
 import { createLogger } from '@/lib/logging/logger';
 import { IdeaCreatorSchema, type IdeaForCreator } from '@/lib/db/schemas';
 import type { Idea } from '@/lib/db/types';
 import { MODEL_USE_CASES } from '@/lib/config/models';
+import type { ProgressReporter } from '@/lib/progress/progress-reporter';
+import { CheckpointStore } from '@/lib/checkpoints/checkpoint-store';
+import { getCancellationSignal, throwIfCancelled } from '@/lib/utils/cancellation';
+import { DEFAULT_QUALITY_POLICY, evaluateQuality, type QualityPolicy } from '@/lib/quality/quality-policy';
 
 /**
  * BLOG CREATOR - Cell-Based Architecture
@@ -25,7 +39,9 @@ import { MODEL_USE_CASES } from '@/lib/config/models';
  * 1. Planning Agent → Decides structure, sections, image placements
  * 2. Generation Agent → Creates BlogCell[] (markdown cells + image cells) using structured output
  * 3. Image Generation → Generates images for ImageCell placeholders
- * 4. Review Agent → Quality check
+ * 4. Review Agent → Quality check (names the cells to improve)
+ * 5. Revise loop → Rewrites only the named cells, or regenerates the post on
+ *    a low score; the best-scoring draft is returned (see blog-revision.ts)
  *
  * Key features:
  * - Atomic cell structure (no markdown parsing needed)
@@ -54,6 +70,8 @@ const BlogPlanSchema = z.object({
   ),
 });
 
+export type BlogPostPlan = z.infer<typeof BlogPlanSchema>;
+
 // Review schema (same as V2)
 const BlogReviewSchema = z.object({
   overallScore: z.number(),
@@ -65,15 +83,51 @@ const BlogReviewSchema = z.object({
   }),
   recommendation: z.enum(['approve', 'revise', 'regenerate']),
   strengths: z.array(z.string()),
-  improvements: z.array(z.string()),
+  improvements: z.array(
+    z.object({
+      cell: z.number().int().nullable().describe('Index of the cell to change ([Cell N]), null = the whole post'),
+      suggestion: z.string(),
+    })
+  ),
 });
 
+export type BlogPostReview = z.infer<typeof BlogReviewSchema>;
+
 /**
  * Main entry point for cell-based blog creation
+ *
+ * Progress (optional): planning 0-15, generation 15-50, images 50-70, review 70-75,
+ *   revisions share 75-100 (one slice per attempt)
+ * Checkpoints (optional): plan, generation, images, review and every revision /
+ *   regeneration are restored on resume
+ * Constraints (optional): tone, targetWordCount and allowImages are applied to the plan
+ * Quality policy (optional): review cutoffs, category minimums, the attempt budget
+ *   (maxIterations), regenerations and the image ceiling; the result is saved as
+ *   `_qualityGate` and every draft's score as `_iterations`; failures are also
+ *   returned as errors (the execution ends partial)
+ * Plan (optional): a plan made ahead of time (see planBlogPost) skips planning
+ * Grounding (optional): generated code the post explains (bundle mode)
+ * User (optional): owner of the images, which are stored in their folder of the
+ *   images bucket (see image-storage.ts)
  */
-export async function createBlog(ideaData: Idea): Promise<{
+export async function createBlog(
+  ideaData: Idea,
+  options: {
+    progress?: ProgressReporter;
+    checkpoints?: CheckpointStore;
+    constraints?: ExpansionConstraints;
+    qualityPolicy?: QualityPolicy;
+    plan?: BlogPostPlan;
+    grounding?: BlogGrounding;
+    userId?: string;
+  } = {}
+): Promise<{
   content: any;
+  errors: string[]; // Quality policy failures of the returned post
 }> {
+  const { progress, constraints = {}, qualityPolicy: policy = DEFAULT_QUALITY_POLICY, grounding, userId } = options;
+  const checkpoints = options.checkpoints ?? CheckpointStore.memory();
+
   // Validate idea with schema (runtime validation for safety)
   const idea = IdeaCreatorSchema.parse(ideaData);
 
@@ -88,7 +142,15 @@ export async function createBlog(ideaData: Idea): Promise<{
 
   // STAGE 1: Planning
   logger.info('STAGE 1: Planning started');
-  const plan = await planBlog(idea, logger);
+  await progress?.started('planning', { percent: 0 });
+  const plan = limitImages(
+    await checkpoints.getOrRun('plan', async () => options.plan ?? planBlog(idea, logger, constraints)),
+    policy.costCeilings.maxImages
+  );
+  await progress?.completed('planning', {
+    percent: 15,
+    data: { sectionsCount: plan.sections.length, imagesCount: plan.imageSpecs.length },
+  });
   logger.info('STAGE 1: Planning complete', {
     title: plan.title,
     sectionsCount: plan.sections.length,
@@ -99,7 +161,14 @@ export async function createBlog(ideaData: Idea): Promise<{
 
   // STAGE 2: Cell-Based Generation (including social post)
   logger.info('STAGE 2: Cell-based generation started');
-  const generation = await generateBlogCells(plan, idea, logger);
+  await progress?.started('generation', { percent: 15 });
+  const generation = await checkpoints.getOrRun('generation', () =>
+    generateBlogCells(plan, idea, logger, grounding)
+  );
+  await progress?.completed('generation', {
+    percent: 50,
+    data: { cellsCount: generation.cells.length },
+  });
   logger.info('STAGE 2: Cell-based generation complete', {
     cellsCount: generation.cells.length,
     markdownCells: generation.cells.filter((c) => c.cellType === 'markdown').length,
@@ -110,96 +179,258 @@ export async function createBlog(ideaData: Idea): Promise<{
 
   // STAGE 3: Image Generation (for ImageCell placeholders)
   logger.info('STAGE 3: Image generation started');
-  const { cells: cellsWithImages, images } = await generateImagesForCells(
-    generation.cells,
-    plan.imageSpecs,
-    logger
+  await progress?.started('images', { percent: 50 });
+  const { cells: cellsWithImages, images } = await checkpoints.getOrRun('images', () =>
+    generateImagesForCells(generation.cells, plan.imageSpecs, userId, logger)
   );
+  await progress?.completed('images', {
+    percent: 70,
+    data: { imagesGenerated: images.length },
+  });
   logger.info('STAGE 3: Image generation complete', {
     imagesGenerated: images.length,
   });
 
-  // STAGE 3.5: Social Media Image (if requested)
+  // STAGE 4: Review
+  logger.info('STAGE 4: Review started');
+  await progress?.started('review', { percent: 70 });
+  const review = await checkpoints.getOrRun('review', () =>
+    reviewBlogCells(cellsWithImages, plan, policy, logger)
+  );
+  await progress?.completed('review', {
+    percent: 75,
+    data: { overallScore: review.overallScore },
+  });
+  logger.info('STAGE 4: Review complete', {
+    overallScore: review.overallScore,
+    recommendation: review.recommendation,
+  });
+
+  const state: BlogCreationState = {
+    idea,
+    plan,
+    draft: { ...generation, cells: cellsWithImages },
+    review,
+    attempts: 0,
+    maxAttempts: policy.maxIterations,
+    versions: [],
+    errors: [],
+  };
+  state.versions.push({ attempt: 0, kind: 'initial', generation: state.draft!, review, cellsRevised: [] });
+
+  // STAGE 5: REVISE LOOP (limits from the quality policy)
+  // Each attempt owns an equal slice of 75-100
+  const sliceSize = 25 / Math.max(1, state.maxAttempts);
+  const sliceStart = (attempt: number) => 75 + sliceSize * (attempt - 1);
+  const regenerations = () => state.versions.filter((version) => version.kind === 'regeneration').length;
+
+  while (true) {
+    throwIfCancelled();
+
+    const gate = evaluateQuality(state.review!, policy);
+    if (gate.passed && state.review!.recommendation === 'approve') {
+      logger.info('Blog quality acceptable', { overallScore: state.review!.overallScore });
+      break;
+    }
+
+    if (state.attempts >= state.maxAttempts) {
+      break;
+    }
+
+    // Decide: regenerate the post vs revise the cells the review names
+    const recommendation = stricterRecommendation(state.review!.recommendation, gate.recommendation);
+    const shouldRegenerate = recommendation === 'regenerate' && regenerations() < policy.costCeilings.maxRegenerations;
+    if (!shouldRegenerate && cellsToRevise(state.draft!.cells, state.review!).size === 0) {
+      logger.info('No cells named for revision, stopping', {
+        overallScore: state.review!.overallScore,
+        failures: gate.failures,
+      });
+      break;
+    }
+
+    state.attempts++;
+    const kind = shouldRegenerate ? 'regeneration' : 'revision';
+    const previous = state.versions[state.versions.length - 1];
+
+    logger.info(`STAGE 5: ${shouldRegenerate ? 'Regeneration' : 'Revision'} started`, {
+      attempt: state.attempts,
+      maxAttempts: state.maxAttempts,
+      score: state.review!.overallScore,
+    });
+    await progress?.started(kind, {
+      attempt: state.attempts,
+      percent: sliceStart(state.attempts),
+    });
+
+    const version = await checkpoints.getOrRun(`${kind}.${state.attempts}`, async (): Promise<BlogVersion> => {
+      const revised = shouldRegenerate
+        ? await regenerateBlog(plan, idea, previous.generation, logger, grounding)
+        : await reviseBlogCells(previous.generation, previous.review, plan, logger);
+      return {
+        attempt: state.attempts,
+        kind,
+        generation: revised.generation,
+        review: await reviewBlogCells(revised.generation.cells, plan, policy, logger),
+        cellsRevised: revised.cellsRevised,
+      };
+    });
+
+    state.versions.push(version);
+    state.draft = version.generation;
+    state.review = version.review;
+
+    await progress?.completed(kind, {
+      attempt: state.attempts,
+      percent: sliceStart(state.attempts) + sliceSize,
+      data: { overallScore: version.review.overallScore, previousScore: previous.review.overallScore },
+    });
+    logger.info(`STAGE 5: ${shouldRegenerate ? 'Regeneration' : 'Revision'} complete`, {
+      currentScore: version.review.overallScore,
+      previousScore: previous.review.overallScore,
+      cellsRevised: version.cellsRevised,
+    });
+
+    // Check for score decline (the revision made it worse) - the best draft
+    // is restored below
+    if (version.review.overallScore - previous.review.overallScore < -10) {
+      logger.warn('Score declined significantly, stopping revisions', {
+        scoreDiff: version.review.overallScore - previous.review.overallScore,
+      });
+      break;
+    }
+  }
+
+  // Return the best-scoring draft, not necessarily the latest
+  const best = pickBestDraft(state.versions);
+  if (best && best.review !== state.review) {
+    logger.warn('Reverting to the best-scoring draft', {
+      selectedAttempt: best.attempt,
+      selectedScore: best.review.overallScore,
+      latestScore: state.review!.overallScore,
+    });
+    state.draft = best.generation;
+    state.review = best.review;
+  }
+
+  const draft = state.draft!;
+  const finalReview = state.review!;
+  const gate = evaluateQuality(finalReview, policy);
+  if (!gate.passed) {
+    logger.warn('Blog post does not meet the quality policy', { failures: gate.failures });
+    state.errors.push(...gate.failures.map((failure) => `Blog quality policy not met: ${failure}`));
+  }
+
+  // Images generated once and shared by every draft - keep the ones in use
+  const draftImages = images.filter((image) =>
+    draft.cells.some((cell) => cell.cellType === 'image' && cell.imageUrl === image.imageUrl)
+  );
+
+  // STAGE 6: Social Media Image (if requested)
   let socialImage: GeneratedImage | undefined;
-  if (generation.socialPost.includeImage) {
-    logger.info('STAGE 3.5: Social media image generation started');
+  if (
+    draft.socialPost.includeImage &&
+    constraints.allowImages !== false &&
+    (draftImages.length > 0 || policy.costCeilings.maxImages > 0)
+  ) {
+    logger.info('STAGE 6: Social media image generation started');
     try {
       // Use first blog image or generate a new one for social media
-      if (images.length > 0) {
+      if (draftImages.length > 0) {
         // Reuse the first blog image for social media
-        socialImage = images[0];
-        logger.info('STAGE 3.5: Using first blog image for social post');
+        socialImage = draftImages[0];
+        logger.info('STAGE 6: Using first blog image for social post');
       } else {
         // Generate a dedicated social media image
         const socialImageSpec = {
           placement: 'social',
-          concept: generation.title,
+          concept: draft.title,
           style: 'eye-catching, social media optimized',
           aspectRatio: '16:9' as const,
         };
-        socialImage = await generateImageForContent(socialImageSpec, generation.title);
-        logger.info('STAGE 3.5: Social media image generated');
+        socialImage = await generateImageForContent(socialImageSpec, draft.title, { userId });
+        logger.info('STAGE 6: Social media image generated');
       }
     } catch (error) {
-      logger.error('STAGE 3.5: Social media image generation failed', {
+      logger.error('STAGE 6: Social media image generation failed', {
         error: error instanceof Error ? error.message : String(error),
       });
       // Continue without social image
     }
   }
 
-  // STAGE 4: Review
-  logger.info('STAGE 4: Review started');
-  const review = await reviewBlogCells(cellsWithImages, plan, logger);
-  logger.info('STAGE 4: Review complete', {
-    overallScore: review.overallScore,
-    recommendation: review.recommendation,
-  });
-
   // Calculate metadata
-  const wordCount = calculateWordCount(cellsWithImages);
+  const wordCount = calculateWordCount(draft.cells);
   const readingTimeMinutes = Math.ceil(wordCount / 200);
-  const markdown = renderBlogToMarkdown(cellsWithImages);
+  const markdown = renderBlogToMarkdown(draft.cells);
 
   const duration = logger.getDuration();
   logger.info('=== BLOG CREATOR COMPLETE ===', {
     durationMs: duration,
     durationSeconds: (duration / 1000).toFixed(2),
-    finalScore: review.overallScore,
+    finalScore: finalReview.overallScore,
+    attempts: state.attempts,
+    scores: state.versions.map((version) => version.review.overallScore),
     wordCount,
-    cellsCount: cellsWithImages.length,
-    imagesCount: images.length,
+    cellsCount: draft.cells.length,
+    imagesCount: draftImages.length,
   });
 
   // Return format compatible with V2 + new cell structure
   return {
     content: {
-      title: generation.title,
+      title: draft.title,
       markdown, // Backward compatibility
-      cells: cellsWithImages, // NEW: Cell-based structure
+      cells: draft.cells, // NEW: Cell-based structure
       wordCount,
       readingTimeMinutes,
-      images, // Generated images array
+      images: draftImages, // Generated images array
       socialPost: {
-        content: generation.socialPost.content, // Contains [BLOG_URL] placeholder
-        hashtags: generation.socialPost.hashtags,
+        content: draft.socialPost.content, // Contains [BLOG_URL] placeholder
+        hashtags: draft.socialPost.hashtags,
         platform: 'twitter',
         imageUrl: socialImage?.imageUrl,
         imageCaption: socialImage?.caption,
       },
-      _reviewScore: review.overallScore,
+      _reviewScore: finalReview.overallScore,
+      _reviewRecommendation: stricterRecommendation(finalReview.recommendation, gate.recommendation),
+      _qualityGate: { passed: gate.passed, failures: gate.failures },
+      _iterations: buildBlogIterationTrace(state.versions, best?.attempt ?? null),
       _sections: plan.sections,
+      ...(grounding && {
+        companionRepo: { repoName: grounding.code.repoName, repoUrl: grounding.repoUrl ?? null },
+      }),
     },
+    errors: state.errors,
   };
 }
 
+/**
+ * Plan a blog post on its own (stage 1 only)
+ *
+ * Bundle mode plans the companion post while the code is still being
+ * generated, then passes the plan to createBlog().
+ */
+export async function planBlogPost(
+  ideaData: Idea,
+  options: { constraints?: ExpansionConstraints } = {}
+): Promise<BlogPostPlan> {
+  const idea = IdeaCreatorSchema.parse(ideaData);
+  const logger = createLogger({
+    ideaId: idea.id,
+    stage: 'blog-creator',
+  });
+
+  return planBlog(idea, logger, options.constraints);
+}
+
 /**
  * STAGE 1: Planning
  */
 async function planBlog(
   idea: IdeaForCreator,
-  logger: ReturnType<typeof createLogger>
-): Promise<z.infer<typeof BlogPlanSchema>> {
+  logger: ReturnType<typeof createLogger>,
+  constraints: ExpansionConstraints = {}
+): Promise<BlogPostPlan> {
   const model = new ChatOpenAI({
     modelName: MODEL_USE_CASES.blogPlanning,
     // Note: GPT-5 Nano only supports default temperature (1)
@@ -208,6 +439,12 @@ async function planBlog(
 
   const structuredModel = model.withStructuredOutput(BlogPlanSchema);
 
+  const requirements = [
+    constraints.tone && `- Tone MUST be: ${constraints.tone}`,
+    constraints.targetWordCount && `- Target word count MUST be: ${constraints.targetWordCount}`,
+    constraints.allowImages === false && '- Do NOT include images',
+  ].filter(Boolean);
+
   const prompt = `Plan a blog post for: "${idea.title}"
 
 Create a plan including:
@@ -217,15 +454,15 @@ Create a plan including:
 4. Target word count (1000-2000)
 5. Whether to include images (0-3 images for visual concepts, examples, diagrams)
 6. Image specs: placement, concept, style
-
+${requirements.length > 0 ? `\nUSER REQUIREMENTS (override the defaults above):\n${requirements.join('\n')}\n` : ''}
 Return detailed plan.`;
 
+  let plan: z.infer<typeof BlogPlanSchema>;
   try {
-    const plan = await structuredModel.invoke(prompt);
-    return plan as z.infer<typeof BlogPlanSchema>;
+    plan = (await structuredModel.invoke(prompt, { signal: getCancellationSignal() })) as z.infer<typeof BlogPlanSchema>;
   } catch (error) {
     logger.error('Planning failed, using fallback', error instanceof Error ? error : { error });
-    return {
+    plan = {
       title: idea.title,
       sections: ['Introduction', 'Main Content', 'Conclusion'],
       tone: 'professional',
@@ -234,6 +471,55 @@ Return detailed plan.`;
       imageSpecs: [],
     };
   }
+
+  // The model may ignore a requirement - constraints always win
+  return applyBlogConstraints(plan, constraints);
+}
+
+/**
+ * Force the user's constraints onto a blog plan
+ */
+function applyBlogConstraints(
+  plan: z.infer<typeof BlogPlanSchema>,
+  constraints: ExpansionConstraints
+): z.infer<typeof BlogPlanSchema> {
+  return {
+    ...plan,
+    tone: constraints.tone ?? plan.tone,
+    targetWordCount: constraints.targetWordCount ?? plan.targetWordCount,
+    ...(constraints.allowImages === false && { includeImages: false, imageSpecs: [] }),
+  };
+}
+
+/**
+ * Cap a plan's images at the quality policy's ceiling (images are the
+ * costly part of a post)
+ */
+function limitImages(plan: z.infer<typeof BlogPlanSchema>, maxImages: number): z.infer<typeof BlogPlanSchema> {
+  if (plan.imageSpecs.length <= maxImages) return plan;
+  return {
+    ...plan,
+    includeImages: plan.includeImages && maxImages > 0,
+    imageSpecs: plan.imageSpecs.slice(0, maxImages),
+  };
+}
+
+/**
+ * Regenerate the whole post (a regeneration reuses the images already
+ * generated, see reuseImages)
+ */
+async function regenerateBlog(
+  plan: z.infer<typeof BlogPlanSchema>,
+  idea: IdeaForCreator,
+  previous: BlogGeneration,
+  logger: ReturnType<typeof createLogger>,
+  grounding?: BlogGrounding
+): Promise<{ generation: BlogGeneration; cellsRevised: number[] }> {
+  const generation = await generateBlogCells(plan, idea, logger, grounding);
+  return {
+    generation: { ...generation, cells: reuseImages(generation.cells, previous.cells) },
+    cellsRevised: [],
+  };
 }
 
 /**
@@ -242,7 +528,8 @@ Return detailed plan.`;
 async function generateBlogCells(
   plan: z.infer<typeof BlogPlanSchema>,
   idea: IdeaForCreator,
-  logger: ReturnType<typeof createLogger>
+  logger: ReturnType<typeof createLogger>,
+  grounding?: BlogGrounding
 ): Promise<BlogGeneration> {
   // Use Sonnet for complex structured output generation (Haiku doesn't handle complex schemas well)
   const model = new ChatAnthropic({
@@ -260,7 +547,7 @@ Title: ${plan.title}
 Sections: ${plan.sections.join(', ')}
 Tone: ${plan.tone}
 Target Word Count: ${plan.targetWordCount}
-
+${grounding ? `\n${buildCodeGroundingPrompt(grounding)}\n` : ''}
 CELL STRUCTURE:
 
 You must create an array of cells. Each cell is EITHER:
@@ -336,7 +623,14 @@ OUTPUT FORMAT:
 
 Generate the complete structured blog.`;
 
-  const generation = await structuredModel.invoke(prompt);
+  if (grounding) {
+    logger.debug('Grounding blog on generated code', {
+      repoName: grounding.code.repoName,
+      filesCount: grounding.code.files.length,
+      repoUrl: grounding.repoUrl,
+    });
+  }
+  const generation = await structuredModel.invoke(prompt, { signal: getCancellationSignal() });
   return generation as BlogGeneration;
 }
 
@@ -346,6 +640,7 @@ Generate the complete structured blog.`;
 async function generateImagesForCells(
   cells: BlogCell[],
   imageSpecs: any[],
+  userId: string | undefined,
   logger: ReturnType<typeof createLogger>
 ): Promise<{ cells: BlogCell[]; images: GeneratedImage[] }> {
   const images: GeneratedImage[] = [];
@@ -360,7 +655,7 @@ async function generateImagesForCells(
         const spec = imageSpecs[imageIndex];
         try {
           logger.info(`Generating image ${imageIndex + 1}`, { concept: spec.concept });
-          const image = await generateImageForContent(spec, cell.caption);
+          const image = await generateImageForContent(spec, cell.caption, { userId });
           images.push(image);
 
           // Replace placeholder with actual URL
@@ -395,14 +690,18 @@ async function generateImagesForCells(
   return { cells: updatedCells, images };
 }
 
+// Enough of the post for the reviewer to name any cell
+const MAX_REVIEW_CHARS = 12000;
+
 /**
  * STAGE 4: Review
  */
 async function reviewBlogCells(
   cells: BlogCell[],
   plan: z.infer<typeof BlogPlanSchema>,
+  policy: QualityPolicy,
   logger: ReturnType<typeof createLogger>
-): Promise<z.infer<typeof BlogReviewSchema>> {
+): Promise<BlogPostReview> {
   const model = new ChatOpenAI({
     modelName: MODEL_USE_CASES.blogReview,
     temperature: 0.5,
@@ -411,9 +710,9 @@ async function reviewBlogCells(
 
   const structuredModel = model.withStructuredOutput(BlogReviewSchema);
 
-  // Convert cells to preview for review
+  // Labelled cells, so improvements can name the cell they apply to
   const wordCount = calculateWordCount(cells);
-  const preview = renderBlogToMarkdown(cells).substring(0, 1500);
+  const preview = labelCells(cells).substring(0, MAX_REVIEW_CHARS);
 
   const prompt = `Review this blog post (cell-based structure):
 
@@ -423,8 +722,8 @@ PLAN:
 - Sections: ${plan.sections.length}
 - Images: ${cells.filter((c) => c.cellType === 'image').length}
 
-CONTENT PREVIEW:
-${preview}...
+CONTENT (labelled cells):
+${preview}
 
 Evaluate:
 1. Clarity (0-100): Clear structure and writing?
@@ -433,13 +732,16 @@ Evaluate:
 4. Structure (0-100): Good use of cells and blocks?
 
 Overall score = average
-Recommendation: "approve" (≥75), "revise" (60-74), "regenerate" (<60)
+
+Improvements: name the cell each one applies to ("cell": N for [Cell N]);
+use null only for feedback about the whole post
+Recommendation: "approve" (≥${policy.approveThreshold}), "revise" (${policy.regenerateThreshold}-${policy.approveThreshold - 1}), "regenerate" (<${policy.regenerateThreshold})
 
 Return structured review.`;
 
   try {
-    const review = await structuredModel.invoke(prompt);
-    return review as z.infer<typeof BlogReviewSchema>;
+    const review = await structuredModel.invoke(prompt, { signal: getCancellationSignal() });
+    return review as BlogPostReview;
   } catch (error) {
     logger.error('Review failed, using fallback', error instanceof Error ? error : { error });
     return {
@@ -447,7 +749,19 @@ Return structured review.`;
       categoryScores: { clarity: 75, accuracy: 75, engagement: 75, structure: 75 },
       recommendation: 'approve',
       strengths: ['Blog created successfully'],
-      improvements: ['Review failed - manual check recommended'],
+      improvements: [{ cell: null, suggestion: 'Review failed - manual check recommended' }],
     };
   }
 }
+
+const RECOMMENDATION_SEVERITY = { approve: 0, revise: 1, regenerate: 2 } as const;
+
+/**
+ * The reviewer's verdict, made stricter when the quality policy fails
+ */
+function stricterRecommendation(
+  reviewer: keyof typeof RECOMMENDATION_SEVERITY,
+  policy: keyof typeof RECOMMENDATION_SEVERITY
+): keyof typeof RECOMMENDATION_SEVERITY {
+  return RECOMMENDATION_SEVERITY[policy] > RECOMMENDATION_SEVERITY[reviewer] ? policy : reviewer;
+}
@@ -0,0 +1,201 @@
+import { ChatAnthropic } from '@langchain/anthropic';
+import { z } from 'zod';
+import {
+  MarkdownCellSchema,
+  renderMarkdownBlocks,
+  type BlogCell,
+  type BlogGeneration,
+} from './blog-schemas';
+import type { BlogPostPlan, BlogPostReview } from './blog-creator';
+import { MODEL_USE_CASES } from '@/lib/config/models';
+import type { Logger } from '@/lib/logging/logger';
+import { getCancellationSignal, isCancellation } from '@/lib/utils/cancellation';
+
+/**
+ * BLOG REVISION
+ *
+ * The blog creator's revise loop (the counterpart of the code creator's
+ * fixer agent and iteration history):
+ * - reviseBlogCells rewrites only the markdown cells the review names in its
+ *   improvements; every other cell is kept as-is
+ * - reuseImages carries generated images over to a regenerated draft, so a
+ *   regeneration never pays for the same images twice
+ * - pickBestDraft returns the best-scoring draft, not the latest one
+ *
+ * Image cells are never rewritten - a new image costs more than it gains.
+ */
+
+/**
+ * A reviewed draft, kept for regression protection
+ */
+export interface BlogVersion {
+  attempt: number;
+  kind: 'initial' | 'revision' | 'regeneration';
+  generation: BlogGeneration; // Cells carry generated image URLs
+  review: BlogPostReview;
+  cellsRevised: number[];
+}
+
+/**
+ * One step of the loop, as saved in `_iterations`
+ */
+export interface BlogIteration {
+  attempt: number;
+  kind: BlogVersion['kind'];
+  score: number;
+  recommendation: BlogPostReview['recommendation'];
+  cellsRevised: number[];
+  selected: boolean;
+}
+
+const RevisedCellsSchema = z.object({
+  cells: z.array(
+    z.object({
+      index: z.number().int().describe('Index of the rewritten cell ([Cell N] in the post)'),
+      cell: MarkdownCellSchema,
+    })
+  ),
+});
+
+/**
+ * Render cells with the [Cell N] labels the review and the reviser refer to
+ */
+export function labelCells(cells: BlogCell[]): string {
+  return cells
+    .map((cell, index) =>
+      cell.cellType === 'markdown'
+        ? `[Cell ${index}]\n${renderMarkdownBlocks(cell.blocks)}`
+        : `[Cell ${index} - image] ${cell.caption}`
+    )
+    .join('\n\n');
+}
+
+/**
+ * The markdown cells the review names, with their improvements
+ */
+export function cellsToRevise(cells: BlogCell[], review: BlogPostReview): Map<number, string[]> {
+  const targets = new Map<number, string[]>();
+  for (const improvement of review.improvements) {
+    if (improvement.cell === null || cells[improvement.cell]?.cellType !== 'markdown') continue;
+    targets.set(improvement.cell, [...(targets.get(improvement.cell) ?? []), improvement.suggestion]);
+  }
+  return targets;
+}
+
+/**
+ * Rewrite the cells named in the review's improvements
+ *
+ * A cell the model wasn't asked to rewrite is ignored. On failure the draft
+ * is returned unchanged (cellsRevised is empty).
+ */
+export async function reviseBlogCells(
+  generation: BlogGeneration,
+  review: BlogPostReview,
+  plan: BlogPostPlan,
+  logger: Logger
+): Promise<{ generation: BlogGeneration; cellsRevised: number[] }> {
+  const targets = cellsToRevise(generation.cells, review);
+  if (targets.size === 0) {
+    return { generation, cellsRevised: [] };
+  }
+
+  const model = new ChatAnthropic({
+    modelName: MODEL_USE_CASES.blogGeneration,
+    temperature: 0.7,
+    apiKey: process.env.ANTHROPIC_API_KEY,
+  });
+
+  const structuredModel = model.withStructuredOutput(RevisedCellsSchema);
+
+  const generalImprovements = review.improvements
+    .filter((improvement) => improvement.cell === null)
+    .map((improvement) => `- ${improvement.suggestion}`);
+
+  const prompt = `Revise a blog post. Rewrite ONLY the cells listed below; every other cell stays as it is.
+
+POST: ${generation.title}
+Tone: ${plan.tone}
+Target Word Count: ${plan.targetWordCount}
+
+${labelCells(generation.cells)}
+
+CELLS TO REWRITE:
+${Array.from(targets.entries())
+  .map(([index, suggestions]) => `[Cell ${index}]\n${suggestions.map((suggestion) => `- ${suggestion}`).join('\n')}`)
+  .join('\n\n')}
+${generalImprovements.length > 0 ? `\nWHOLE-POST FEEDBACK (apply within the cells above):\n${generalImprovements.join('\n')}\n` : ''}
+RULES:
+- Return one markdown cell per index above, with the same "index"
+- Keep each cell's role in the post (its heading, its place in the flow)
+- Stay consistent with the surrounding cells - don't repeat them
+- Use the same block types as the original (h2, paragraph, bulletList, numberedList, codeBlock, hr)`;
+
+  try {
+    const result = await structuredModel.invoke(prompt, { signal: getCancellationSignal() });
+    const revised = new Map(
+      result.cells.filter((revision) => targets.has(revision.index)).map((revision) => [revision.index, revision.cell])
+    );
+
+    logger.info('Cells revised', {
+      requested: Array.from(targets.keys()),
+      revised: Array.from(revised.keys()),
+    });
+
+    return {
+      generation: {
+        ...generation,
+        cells: generation.cells.map((cell, index) => revised.get(index) ?? cell),
+      },
+      cellsRevised: Array.from(revised.keys()).sort((a, b) => a - b),
+    };
+  } catch (error) {
+    if (isCancellation(error)) throw error;
+    logger.error('Revision failed, keeping the draft', error instanceof Error ? error : { error });
+    return { generation, cellsRevised: [] };
+  }
+}
+
+/**
+ * Fill a regenerated draft's image placeholders with already generated
+ * images, in order; placeholders left over are dropped
+ */
+export function reuseImages(cells: BlogCell[], previousCells: BlogCell[]): BlogCell[] {
+  const available = previousCells.filter(
+    (cell): cell is Extract<BlogCell, { cellType: 'image' }> =>
+      cell.cellType === 'image' && cell.imageUrl !== '' && !cell.imageUrl.includes('PLACEHOLDER')
+  );
+
+  return cells.flatMap((cell) => {
+    if (cell.cellType !== 'image' || !cell.imageUrl.includes('PLACEHOLDER')) return [cell];
+    const image = available.shift();
+    return image ? [{ ...cell, imageUrl: image.imageUrl, caption: image.caption }] : [];
+  });
+}
+
+/**
+ * The best draft: highest score, then an approved review, then the latest
+ */
+export function pickBestDraft(versions: BlogVersion[]): BlogVersion | null {
+  return versions.reduce<BlogVersion | null>((best, version) => {
+    if (!best) return version;
+    const scoreDiff = version.review.overallScore - best.review.overallScore;
+    if (scoreDiff !== 0) return scoreDiff > 0 ? version : best;
+    const approved = Number(version.review.recommendation === 'approve') - Number(best.review.recommendation === 'approve');
+    if (approved !== 0) return approved > 0 ? version : best;
+    return version.attempt >= best.attempt ? version : best;
+  }, null);
+}
+
+/**
+ * One trace entry per draft, in order
+ */
+export function buildBlogIterationTrace(versions: BlogVersion[], selectedAttempt: number | null): BlogIteration[] {
+  return versions.map((version) => ({
+    attempt: version.attempt,
+    kind: version.kind,
+    score: version.review.overallScore,
+    recommendation: version.review.recommendation,
+    cellsRevised: version.cellsRevised,
+    selected: version.attempt === selectedAttempt,
+  }));
+}
@@ -179,6 +179,66 @@ export function renderBlogToMarkdown(cells: BlogCell[]): string {
     .join('\n\n');
 }
 
+/**
+ * Escape text for HTML content and attribute values
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Convert markdown blocks to HTML (all text is escaped)
+ */
+export function renderMarkdownBlocksToHtml(blocks: MarkdownBlock[]): string {
+  return blocks
+    .map((block) => {
+      switch (block.blockType) {
+        case 'h1':
+        case 'h2':
+        case 'h3':
+          return `<${block.blockType}>${escapeHtml(block.text)}</${block.blockType}>`;
+        case 'paragraph':
+          return `<p>${escapeHtml(block.text)}</p>`;
+        case 'bulletList':
+          return `<ul>${block.items.map((item) => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`;
+        case 'numberedList':
+          return `<ol>${block.items.map((item) => `<li>${escapeHtml(item)}</li>`).join('')}</ol>`;
+        case 'codeBlock':
+          return `<pre><code class="language-${escapeHtml(block.language)}">${escapeHtml(block.lines.join('\n'))}</code></pre>`;
+        case 'hr':
+          return '<hr />';
+      }
+    })
+    .join('\n');
+}
+
+/**
+ * Convert blog cells to HTML (for published posts and feeds)
+ *
+ * Image cells without a real URL (failed or unfilled) are skipped, like the
+ * outputs viewer does.
+ */
+export function renderBlogToHtml(cells: BlogCell[]): string {
+  return cells
+    .map((cell) => {
+      if (cell.cellType === 'markdown') {
+        return renderMarkdownBlocksToHtml(cell.blocks);
+      }
+      if (!/^(https?:|data:image\/)/.test(cell.imageUrl)) {
+        return '';
+      }
+      const caption = escapeHtml(cell.caption);
+      return `<figure><img src="${escapeHtml(cell.imageUrl)}" alt="${caption}" />${caption && `<figcaption>${caption}</figcaption>`}</figure>`;
+    })
+    .filter(Boolean)
+    .join('\n');
+}
+
 /**
  * Calculate word count from cells
  */
@@ -0,0 +1,65 @@
+import type { GeneratedCode } from '../code/types';
+
+/**
+ * CODE GROUNDING FOR COMPANION BLOG POSTS
+ *
+ * In bundle mode the blog post explains a generated repo. The writer gets
+ * the README and the key files, so it describes the code that exists
+ * instead of inventing its own.
+ */
+
+export interface BlogGrounding {
+  code: Pick<GeneratedCode, 'repoName' | 'description' | 'files' | 'setupInstructions' | 'runInstructions'>;
+  repoUrl?: string; // Only set when the repo was actually published
+}
+
+// Keep the prompt bounded - a repo can be much larger than the post
+const MAX_KEY_FILES = 4;
+const MAX_FILE_CHARS = 3000;
+
+/**
+ * Pick the files worth showing the writer: README first, then the largest sources
+ */
+function selectKeyFiles(files: BlogGrounding['code']['files']) {
+  const readme = files.find((file) => /(^|\/)readme\.md$/i.test(file.path));
+  const sources = files
+    .filter((file) => file !== readme && !/\.(json|lock|txt|toml|cfg)$/i.test(file.path))
+    .sort((a, b) => b.content.length - a.content.length);
+
+  return { readme, keyFiles: sources.slice(0, MAX_KEY_FILES - (readme ? 1 : 0)) };
+}
+
+function truncate(content: string): string {
+  return content.length > MAX_FILE_CHARS
+    ? `${content.slice(0, MAX_FILE_CHARS)}\n... (truncated)`
+    : content;
+}
+
+/**
+ * Build the COMPANION REPOSITORY section of the blog generation prompt
+ */
+export function buildCodeGroundingPrompt(grounding: BlogGrounding): string {
+  const { code, repoUrl } = grounding;
+  const { readme, keyFiles } = selectKeyFiles(code.files);
+
+  const files = keyFiles
+    .map((file) => `--- ${file.path} ---\n${truncate(file.content)}`)
+    .join('\n\n');
+
+  return `COMPANION REPOSITORY:
+This post explains a code project that was generated for the same idea.
+
+Repo: ${code.repoName}${repoUrl ? ` (${repoUrl})` : ''}
+Description: ${code.description}
+Files: ${code.files.map((file) => file.path).join(', ')}
+Setup: ${code.setupInstructions}
+Run: ${code.runInstructions}
+${readme ? `\n--- README ---\n${truncate(readme.content)}\n` : ''}
+${files}
+
+GROUNDING RULES:
+- Explain how THIS code works: refer to real file names, functions and steps from above
+- Code blocks must be excerpts from the files above (shortened is fine), never invented APIs
+- Include a short "Try it yourself" section with the setup and run steps
+${repoUrl ? `- Link to the repo (${repoUrl}) in the introduction and again at the end` : '- Mention the repo by name (it is not published yet, so do not invent a URL)'}`;
+}
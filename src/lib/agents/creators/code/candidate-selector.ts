@@ -0,0 +1,147 @@
+import { generateCode } from './generation-agent';
+import { reviewCode } from './critic-agent';
+import { analyzeCode } from './static-analyzer';
+import { runInSandbox, runNotebookInSandbox } from './sandbox-runner';
+import type { CodePlan, GeneratedCode, CodeCandidate, ExecutionResult } from './types';
+import type { ModelName } from '@/lib/config/models';
+import { createLogger } from '@/lib/logging/logger';
+import { isCancellation, throwIfCancelled } from '@/lib/utils/cancellation';
+
+/**
+ * CANDIDATE SELECTOR (best-of-N)
+ *
+ * Purpose: Generate several candidate projects and keep the best one
+ *
+ * 1. Runs generateCode N times in parallel (models assigned in turn, or the
+ *    plan's model tier for every candidate)
+ * 2. Scores each candidate like the first review does: static analysis,
+ *    the sandbox (when enabled) and the critic
+ * 3. Keeps the highest score; ties go to the candidate that ran, then to
+ *    fewer static errors, then to the earlier candidate
+ *
+ * Scoring runs one candidate at a time - sandbox installs are heavy. The
+ * winner then goes through the normal pipeline (tests, review, fixes); its
+ * candidate review only decides the selection.
+ */
+
+export async function generateBestOfN(
+  plan: CodePlan,
+  idea: { id: string; title: string; description: string | null },
+  count: number,
+  models: readonly ModelName[] = []
+): Promise<{ code: GeneratedCode; candidates: CodeCandidate[] }> {
+  const logger = createLogger({ stage: 'candidate-selector' });
+  const modelFor = (index: number): ModelName | undefined =>
+    models.length > 0 ? models[index % models.length] : undefined;
+
+  logger.info('Generating candidates', {
+    count,
+    models: Array.from({ length: count }, (_, i) => modelFor(i) ?? 'plan'),
+  });
+
+  const generated = await Promise.allSettled(
+    Array.from({ length: count }, (_, i) => generateCode(plan, idea, { model: modelFor(i) }))
+  );
+
+  const candidates: CodeCandidate[] = [];
+  const codes = new Map<number, GeneratedCode>();
+
+  for (const [index, result] of generated.entries()) {
+    const base = { index, model: modelFor(index) ?? 'plan', selected: false };
+
+    if (result.status === 'rejected') {
+      if (isCancellation(result.reason)) throw result.reason;
+      logger.warn('Candidate generation failed', { candidate: index, error: String(result.reason) });
+      candidates.push({
+        ...base,
+        status: 'failed',
+        score: null,
+        recommendation: null,
+        execution: null,
+        staticErrors: null,
+        files: 0,
+        error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+      });
+      continue;
+    }
+
+    throwIfCancelled();
+    const code = result.value.code;
+    codes.set(index, code);
+
+    try {
+      const staticAnalysis = await analyzeCode(code, plan);
+      const execution = await runCandidate(code, plan);
+      const { review } = await reviewCode(code, plan, { execution, staticAnalysis });
+
+      candidates.push({
+        ...base,
+        status: 'scored',
+        score: review.overallScore,
+        recommendation: review.recommendation,
+        execution: execution.status,
+        staticErrors: staticAnalysis.issues.filter((issue) => issue.severity === 'error').length,
+        files: code.files.length,
+      });
+      logger.info('Candidate scored', {
+        candidate: index,
+        model: base.model,
+        score: review.overallScore,
+        execution: execution.status,
+      });
+    } catch (error) {
+      if (isCancellation(error)) throw error;
+      // Generated but unscored - only picked if nothing was scored
+      logger.warn('Candidate scoring failed', { candidate: index, error: String(error) });
+      candidates.push({
+        ...base,
+        status: 'failed',
+        score: null,
+        recommendation: null,
+        execution: null,
+        staticErrors: null,
+        files: code.files.length,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const winner = [...candidates]
+    .filter((candidate) => codes.has(candidate.index))
+    .sort(compareCandidates)[0];
+
+  if (!winner) {
+    const firstError = generated.find((result) => result.status === 'rejected');
+    throw firstError?.status === 'rejected' && firstError.reason instanceof Error
+      ? firstError.reason
+      : new Error('All code candidates failed to generate');
+  }
+
+  winner.selected = true;
+  logger.info('Candidate selected', {
+    candidate: winner.index,
+    model: winner.model,
+    score: winner.score,
+    scores: candidates.map((candidate) => candidate.score),
+  });
+
+  return { code: codes.get(winner.index)!, candidates };
+}
+
+// Notebook candidates are executed only to score them - the winner is
+// executed again (and its outputs embedded) by the normal review
+async function runCandidate(code: GeneratedCode, plan: CodePlan): Promise<ExecutionResult> {
+  if (plan.outputType !== 'notebook') {
+    return runInSandbox(code, plan);
+  }
+  return (await runNotebookInSandbox(code, plan)).execution;
+}
+
+function compareCandidates(a: CodeCandidate, b: CodeCandidate): number {
+  return (
+    (b.score ?? -1) - (a.score ?? -1) ||
+    Number(b.execution === 'passed') - Number(a.execution === 'passed') ||
+    (a.staticErrors ?? Infinity) - (b.staticErrors ?? Infinity) ||
+    a.index - b.index
+  );
+}
@@ -1,9 +1,21 @@
 import { planCodeProject } from './planning-agent';
 import { generateCode } from './generation-agent';
+import { generateBestOfN } from './candidate-selector';
+import { generateTests } from './test-generation-agent';
 import { reviewCode } from './critic-agent';
 import { fixCode } from './fixer-agent';
-import type { GeneratedCode, CodeCreationState } from './types';
+import { runInSandbox, runNotebookInSandbox } from './sandbox-runner';
+import { analyzeCode } from './static-analyzer';
+import { diffFiles } from './patch';
+import { buildIterationTrace, pickBestVersion } from './iteration-history';
+import type { GeneratedCode, CodeCreationState, CodePlan, CodeReview, FixRound, CodeCandidate, CodeVersion } from './types';
+import type { ExpansionConstraints } from '../../types';
 import { createLogger } from '@/lib/logging/logger';
+import type { ProgressReporter } from '@/lib/progress/progress-reporter';
+import { CheckpointStore } from '@/lib/checkpoints/checkpoint-store';
+import { isCancellation, throwIfCancelled } from '@/lib/utils/cancellation';
+import { CANDIDATE_CONFIG } from '@/lib/config/candidates';
+import { DEFAULT_QUALITY_POLICY, evaluateQuality, type QualityPolicy } from '@/lib/quality/quality-policy';
 
 /**
  * MULTI-STAGE CODE CREATOR (V2)
@@ -13,8 +25,13 @@ import { createLogger } from '@/lib/logging/logger';
  * Pipeline:
  * 1. **Planning Agent** - Decides what to build and how
  * 2. **Generation Agent** - Creates the actual code
- * 3. **Critic Agent** - Reviews the code for quality
- * 4. **(Future) Fixer Agent** - Auto-fixes issues if found
+ * 3. **Test Generation Agent** - Writes tests from the plan's testCriteria
+ * 4. **Static Analyzer** - Syntax, imports, undefined names, secrets (before every review)
+ * 5. **Sandbox Runner** - Installs dependencies, runs the code and the tests (before every review);
+ *    notebooks run cell by cell on a Jupyter kernel and keep their outputs
+ * 6. **Critic Agent** - Reviews the code for quality, with both as hard evidence
+ * 7. **Fixer Agent** - Auto-fixes issues if found, as edit patches (every round's diff is kept
+ *    in the fix history)
  *
  * Why this architecture?
  * - **Separation of concerns**: Each agent has one job
@@ -26,19 +43,62 @@ import { createLogger } from '@/lib/logging/logger';
  * - **Current**: Linear pipeline (planning → generation → review → done)
  * - **Future**: Can add loops (review → fix → review again)
  * - **Future**: Can add conditional routing (simple ideas skip review)
- * - **Future**: Can run multiple generators in parallel (A/B testing)
+ * - **Optional**: Best-of-N - several generators in parallel, the critic picks
+ *   the winner (CODE_CANDIDATES, see candidate-selector.ts)
  *
  * This simple version doesn't use LangGraph sub-graphs yet,
  * but we can upgrade to that if we need more complex orchestration.
+ *
+ * Progress (optional): planning 0-15, generation 15-40, tests 40-45, analysis 45-47,
+ * execution 47-50, review 50-60, iterations share 60-100 (one slice per attempt).
+ *
+ * Checkpoints (optional): a snapshot is saved after the plan, the generated
+ * code, every review and every fix/regeneration. On resume the pipeline
+ * continues from the newest snapshot.
+ *
+ * Regression protection: the code and review at every review are kept as
+ * versions, and the best-scoring version is returned - a fix that made the
+ * code worse is reverted. The trace is saved as `_iterations`.
+ *
+ * Quality policy (optional): thresholds, iteration budget, category minimums
+ * and cost ceilings (regenerations, best-of-N candidates). Code is accepted
+ * when it passes the policy and the critic approves; otherwise the failures
+ * are returned as errors (the execution ends partial) and saved in
+ * `_qualityGate`.
+ *
+ * Constraints (optional): language and outputType are fixed in the plan.
  */
 
-export async function createCodeProject(idea: {
-  id: string;
-  title: string;
-  description: string | null;
-}): Promise<{
-  content: any; // Will be transformed to match existing format
+/**
+ * Snapshot of the pipeline saved after each stage
+ */
+interface CodeCheckpoint {
+  plan: CodePlan;
+  code: GeneratedCode | null;
+  review: CodeReview | null;
+  attempts: number;
+  fixHistory?: FixRound[];
+  versions?: CodeVersion[];
+  candidates?: CodeCandidate[];
+  needsReview: boolean; // Code changed since the last review
+  testsPending?: boolean; // Fresh code without generated tests yet
+}
 
+export async function createCodeProject(
+  idea: {
+    id: string;
+    title: string;
+    description: string | null;
+  },
+  options: {
+    progress?: ProgressReporter;
+    checkpoints?: CheckpointStore;
+    constraints?: ExpansionConstraints;
+    qualityPolicy?: QualityPolicy;
+  } = {}
+): Promise<{
+  content: any; // Will be transformed to match existing format
+  errors: string[]; // Quality policy failures of the returned code
 }> {
   const logger = createLogger({
     ideaId: idea.id,
@@ -49,110 +109,324 @@ export async function createCodeProject(idea: {
     ideaTitle: idea.title,
   });
 
+  const { progress, constraints = {}, qualityPolicy: policy = DEFAULT_QUALITY_POLICY } = options;
+  const checkpoints = options.checkpoints ?? CheckpointStore.memory();
+
   const state: CodeCreationState = {
     idea,
     plan: null,
     code: null,
     review: null,
     attempts: 0,
-    maxAttempts: 3, // Allow up to 3 fix attempts
+    fixHistory: [],
+    versions: [],
+    maxAttempts: policy.maxIterations,
     errors: [],
   };
 
-  try {
-    // STAGE 1: PLANNING
-    logger.info('STAGE 1: Planning started', {
-      agent: 'Planning Agent',
-      task: 'Decide output type, language, architecture',
+  // Code changed since the last review (fresh code, or after a fix)
+  let needsReview = true;
+
+  // Fresh code still needs its tests generated
+  let testsPending = true;
+
+  // Best-of-N: every candidate and its score (empty with a single candidate)
+  let candidates: CodeCandidate[] = [];
+
+  const saveCheckpoint = (stage: string) =>
+    checkpoints.save<CodeCheckpoint>(stage, {
+      plan: state.plan!,
+      code: state.code,
+      review: state.review,
+      attempts: state.attempts,
+      fixHistory: state.fixHistory,
+      versions: state.versions,
+      candidates,
+      needsReview,
+      testsPending,
     });
 
-    const planResult = await planCodeProject(idea);
-    state.plan = planResult.plan;
+  // Run the code; an executed notebook replaces the source (outputs embedded,
+  // or cleared if a cell failed)
+  const execute = async () => {
+    if (state.plan!.outputType !== 'notebook') {
+      return runInSandbox(state.code!, state.plan!);
+    }
+    const { execution, notebook } = await runNotebookInSandbox(state.code!, state.plan!);
+    if (notebook) {
+      state.code = {
+        ...state.code!,
+        files: state.code!.files.map((file) => (file.path === notebook.path ? notebook : file)),
+      };
+    }
+    return execution;
+  };
 
-    logger.info('STAGE 1: Planning complete', {
-      outputType: state.plan.outputType,
-      language: state.plan.language,
+  // RESUME: continue from the newest snapshot of a previous run
+  const resumed = checkpoints.latest<CodeCheckpoint>();
+  if (resumed) {
+    state.plan = resumed.data.plan;
+    state.code = resumed.data.code;
+    state.review = resumed.data.review;
+    state.attempts = resumed.data.attempts;
+    state.fixHistory = resumed.data.fixHistory ?? [];
+    state.versions = resumed.data.versions ?? [];
+    candidates = resumed.data.candidates ?? [];
+    needsReview = resumed.data.needsReview;
+    testsPending = resumed.data.testsPending ?? false;
+
+    logger.info('Resuming from checkpoint', {
+      checkpoint: resumed.stage,
+      attempts: state.attempts,
+      lastScore: state.review?.overallScore,
     });
+  }
+
+  try {
+    // STAGE 1: PLANNING
+    if (!state.plan) {
+      logger.info('STAGE 1: Planning started', {
+        agent: 'Planning Agent',
+        task: 'Decide output type, language, architecture',
+      });
+
+      await progress?.started('planning', { percent: 0 });
+      const planResult = await planCodeProject(idea, constraints);
+      state.plan = planResult.plan;
+      await progress?.completed('planning', {
+        percent: 15,
+        data: { outputType: state.plan.outputType, language: state.plan.language },
+      });
+      await saveCheckpoint('plan');
+
+      logger.info('STAGE 1: Planning complete', {
+        outputType: state.plan.outputType,
+        language: state.plan.language,
+      });
+    }
 
     // STAGE 2: GENERATION
-    logger.info('STAGE 2: Code generation started', {
-      agent: 'Generation Agent',
-      task: 'Create code files based on plan',
-    });
+    if (!state.code) {
+      logger.info('STAGE 2: Code generation started', {
+        agent: 'Generation Agent',
+        task: 'Create code files based on plan',
+      });
 
-    const codeResult = await generateCode(state.plan, idea);
-    state.code = codeResult.code;
+      const candidateCount = Math.min(CANDIDATE_CONFIG.count, policy.costCeilings.maxCandidates);
+      await progress?.started('generation', {
+        percent: 15,
+        data: candidateCount > 1 ? { candidates: candidateCount } : undefined,
+      });
+      if (candidateCount > 1) {
+        const bestOfN = await generateBestOfN(state.plan, idea, candidateCount, CANDIDATE_CONFIG.models);
+        state.code = bestOfN.code;
+        candidates = bestOfN.candidates;
+      } else {
+        const codeResult = await generateCode(state.plan, idea);
+        state.code = codeResult.code;
+      }
+      needsReview = true;
+      testsPending = true;
+      await progress?.completed('generation', {
+        percent: 40,
+        data: { filesGenerated: state.code.files.length },
+      });
+      await saveCheckpoint('generation');
 
-    logger.info('STAGE 2: Code generation complete', {
-      filesGenerated: state.code.files.length,
-      files: state.code.files.map((f) => f.path),
-    });
+      logger.info('STAGE 2: Code generation complete', {
+        filesGenerated: state.code.files.length,
+        files: state.code.files.map((f) => f.path),
+      });
+    }
+
+    // STAGE 2b: TEST GENERATION
+    if (testsPending) {
+      await progress?.started('tests', { percent: 40 });
+      const testResult = await generateTests(state.code, state.plan);
+      state.code = testResult.code;
+      testsPending = false;
+      await progress?.completed('tests', {
+        percent: 45,
+        data: { testFiles: state.code.tests?.files.length ?? 0 },
+      });
+      await saveCheckpoint('tests');
+
+      logger.info('STAGE 2b: Test generation complete', {
+        framework: state.code.tests?.framework,
+        testFiles: state.code.tests?.files,
+      });
+    }
 
     // STAGE 3: CODE REVIEW
-    logger.info('STAGE 3: Code review started', {
-      agent: 'Critic Agent',
-      task: 'Review for quality, security, correctness',
-    });
+    if (!state.review) {
+      logger.info('STAGE 3: Code review started', {
+        agent: 'Critic Agent',
+        task: 'Review for quality, security, correctness',
+      });
 
-    const reviewResult = await reviewCode(state.code, state.plan);
-    state.review = reviewResult.review;
+      await progress?.started('analysis', { percent: 45 });
+      const staticAnalysis = await analyzeCode(state.code, state.plan);
+      await progress?.completed('analysis', {
+        percent: 47,
+        data: { issuesCount: staticAnalysis.issues.length },
+      });
 
-    logger.info('STAGE 3: Code review complete', {
-      overallScore: state.review.overallScore,
-      categoryScores: state.review.categoryScores,
-      issuesCount: state.review.issues.length,
-      recommendation: state.review.recommendation,
-    });
+      await progress?.started('execution', { percent: 47 });
+      const execution = await execute();
+      await progress?.completed('execution', {
+        percent: 50,
+        data: { status: execution.status, exitCode: execution.exitCode },
+      });
+      logger.info('Sandbox execution complete', {
+        status: execution.status,
+        command: execution.command,
+        exitCode: execution.exitCode,
+        reason: execution.reason,
+        tests: execution.tests && `${execution.tests.passed} passed, ${execution.tests.failed} failed`,
+      });
 
-    // Log detailed review results
-    if (state.review.issues.length > 0) {
-      logger.info('Issues found in code review', {
-        issues: state.review.issues.map((issue) => ({
-          severity: issue.severity,
-          file: issue.file,
-          message: issue.message,
-        })),
+      await progress?.started('review', { percent: 50 });
+      const reviewResult = await reviewCode(state.code, state.plan, { execution, staticAnalysis }, policy);
+      state.review = reviewResult.review;
+      state.versions.push({ attempt: 0, code: state.code, review: state.review });
+      needsReview = false;
+      await progress?.completed('review', {
+        percent: 60,
+        data: { overallScore: state.review.overallScore },
       });
-    }
+      await saveCheckpoint('review.1');
 
-    if (state.review.securityConcerns.length > 0) {
-      logger.warn('Security concerns identified', {
-        securityConcerns: state.review.securityConcerns,
+      logger.info('STAGE 3: Code review complete', {
+        overallScore: state.review.overallScore,
+        categoryScores: state.review.categoryScores,
+        issuesCount: state.review.issues.length,
+        recommendation: state.review.recommendation,
       });
+
+      // Log detailed review results
+      if (state.review.issues.length > 0) {
+        logger.info('Issues found in code review', {
+          issues: state.review.issues.map((issue) => ({
+            severity: issue.severity,
+            file: issue.file,
+            line: issue.line,
+            message: issue.message,
+          })),
+        });
+      }
+
+      if (state.review.securityConcerns.length > 0) {
+        logger.warn('Security concerns identified', {
+          securityConcerns: state.review.securityConcerns,
+        });
+      }
     }
 
-    // STAGE 4: QUALITY GATE & ITERATION LOOP
-    const QUALITY_THRESHOLD = 75; // Minimum acceptable score
-    const POOR_QUALITY_THRESHOLD = 60; // Below this triggers regeneration
-    const MAX_ITERATIONS = 3; // Hard limit
-
-    while (state.attempts < MAX_ITERATIONS) {
-      // Quality gate: Check if code meets threshold
-      if (
-        state.review.overallScore >= QUALITY_THRESHOLD &&
-        state.review.recommendation === 'approve'
-      ) {
+    // STAGE 4: QUALITY GATE & ITERATION LOOP (limits from the quality policy)
+    const MAX_ITERATIONS = policy.maxIterations;
+    const regenerations = () => state.fixHistory.filter((round) => round.kind === 'regeneration').length;
+
+    // Each attempt owns an equal slice of 60-100
+    const sliceSize = 40 / Math.max(1, MAX_ITERATIONS);
+    const sliceStart = (attempt: number) => 60 + sliceSize * (attempt - 1);
+
+    while (true) {
+      throwIfCancelled();
+
+      // Re-review after changes (also when resuming right after a fix)
+      if (needsReview) {
+        logger.info('STAGE 5: Re-review started', {
+          attempt: state.attempts,
+          maxAttempts: MAX_ITERATIONS,
+        });
+        await progress?.started('review', {
+          attempt: state.attempts + 1,
+          percent: sliceStart(state.attempts) + sliceSize / 2,
+        });
+
+        const prevScore = state.review.overallScore;
+        const staticAnalysis = await analyzeCode(state.code!, state.plan!);
+        const execution = await execute();
+        logger.info('Sandbox re-run complete', {
+          status: execution.status,
+          previousStatus: state.review.execution?.status,
+          exitCode: execution.exitCode,
+          tests: execution.tests && `${execution.tests.passed} passed, ${execution.tests.failed} failed`,
+          staticIssuesCount: staticAnalysis.issues.length,
+        });
+        const reReviewResult = await reviewCode(state.code!, state.plan!, { execution, staticAnalysis }, policy);
+        state.review = reReviewResult.review;
+        state.versions.push({ attempt: state.attempts, code: state.code!, review: state.review });
+        needsReview = false;
+
+        const lastRound = state.fixHistory[state.fixHistory.length - 1];
+        if (lastRound && lastRound.attempt === state.attempts) {
+          lastRound.scoreAfter = state.review.overallScore;
+        }
+
+        const scoreDiff = state.review.overallScore - prevScore;
+        await progress?.completed('review', {
+          attempt: state.attempts + 1,
+          percent: sliceStart(state.attempts) + sliceSize,
+          data: { overallScore: state.review.overallScore, previousScore: prevScore },
+        });
+        await saveCheckpoint(`review.${state.attempts + 1}`);
+
+        logger.info('Re-review complete', {
+          currentScore: state.review.overallScore,
+          previousScore: prevScore,
+          scoreDiff,
+          issuesCount: state.review.issues.length,
+        });
+
+        // Check for score decline (fixes made it worse) - the best version
+        // is restored below
+        if (scoreDiff < -10) {
+          logger.warn('Score declined significantly, stopping iterations', {
+            scoreDiff,
+          });
+          break;
+        }
+      }
+
+      // Quality gate: the policy passes and the critic approves
+      const gate = evaluateQuality(state.review, policy);
+      if (gate.passed && state.review.recommendation === 'approve') {
         logger.info('Code quality acceptable', {
           overallScore: state.review.overallScore,
         });
         break;
       }
 
+      if (state.attempts >= MAX_ITERATIONS) {
+        break;
+      }
+
       // Decide: Regenerate all vs fix specific files
+      // (a regeneration costs as much as the first draft - capped by the policy)
       let shouldRegenerate = false;
-      if (state.review.overallScore < POOR_QUALITY_THRESHOLD && state.attempts < 2) {
+      const canRegenerate = regenerations() < policy.costCeilings.maxRegenerations;
+      if (gate.recommendation === 'regenerate' && canRegenerate) {
         shouldRegenerate = true;
         logger.info('Score too low, will regenerate all', {
           currentScore: state.review.overallScore,
-          threshold: POOR_QUALITY_THRESHOLD,
+          threshold: policy.regenerateThreshold,
         });
-      } else if (state.review.recommendation === 'regenerate' && state.attempts < 2) {
+      } else if (state.review.recommendation === 'regenerate' && canRegenerate) {
         shouldRegenerate = true;
         logger.info('Critic recommends full regeneration');
+      } else if (!gate.passed) {
+        logger.info('Quality policy not met', { failures: gate.failures });
       }
 
       state.attempts++;
 
+      const iterationStage = shouldRegenerate ? 'regeneration' : 'fix';
+      await progress?.started(iterationStage, {
+        attempt: state.attempts,
+        percent: sliceStart(state.attempts),
+      });
+
       if (shouldRegenerate) {
         // Full regeneration
         logger.info('STAGE 4a: Full regeneration started', {
@@ -160,8 +434,16 @@ export async function createCodeProject(idea: {
           maxAttempts: MAX_ITERATIONS,
         });
 
+        const previousFiles = state.code!.files;
         const regenResult = await generateCode(state.plan!, idea);
-        state.code = regenResult.code;
+        state.code = (await generateTests(regenResult.code, state.plan!)).code;
+        state.fixHistory.push({
+          attempt: state.attempts,
+          kind: 'regeneration',
+          scoreBefore: state.review.overallScore,
+          scoreAfter: null,
+          files: diffFiles(previousFiles, state.code.files),
+        });
 
         logger.info('Full regeneration complete', {
           filesRegenerated: state.code.files.length,
@@ -175,56 +457,62 @@ export async function createCodeProject(idea: {
 
         const fixResult = await fixCode(state.code!, state.review, state.plan!);
         state.code = fixResult.code;
+        state.fixHistory.push({
+          attempt: state.attempts,
+          kind: 'fix',
+          scoreBefore: state.review.overallScore,
+          scoreAfter: null,
+          files: fixResult.changes,
+          importIssues: fixResult.importIssues,
+        });
 
         logger.info('Targeted fixes complete', {
           filesFixed: fixResult.filesFixed,
+          conflicts: fixResult.changes.filter((change) => change.status === 'conflict').map((change) => change.path),
+          importIssues: fixResult.importIssues,
         });
       }
 
-      // Re-review after changes
-      logger.info('STAGE 5: Re-review started', {
+      needsReview = true;
+      await progress?.completed(iterationStage, {
         attempt: state.attempts,
-        maxAttempts: MAX_ITERATIONS,
+        percent: sliceStart(state.attempts) + sliceSize / 2,
       });
+      await saveCheckpoint(`${iterationStage}.${state.attempts}`);
+    }
 
-      const prevScore = state.review.overallScore;
-      const reReviewResult = await reviewCode(state.code!, state.plan!);
-      state.review = reReviewResult.review;
-
-      const scoreDiff = state.review.overallScore - prevScore;
-      logger.info('Re-review complete', {
-        currentScore: state.review.overallScore,
-        previousScore: prevScore,
-        scoreDiff,
-        issuesCount: state.review.issues.length,
+    // Return the best-scoring version, not necessarily the latest
+    const best = pickBestVersion(state.versions);
+    if (best && best.review !== state.review) {
+      logger.warn('Reverting to the best-scoring version', {
+        selectedAttempt: best.attempt,
+        selectedScore: best.review.overallScore,
+        latestScore: state.review.overallScore,
       });
-
-      // Check for score decline (fixes made it worse)
-      if (scoreDiff < -10) {
-        logger.warn('Score declined significantly, stopping iterations', {
-          scoreDiff,
-        });
-        break;
-      }
+      state.code = best.code;
+      state.review = best.review;
     }
 
-    // Final quality check
+    // Final quality check (against the version actually returned)
+    const finalGate = evaluateQuality(state.review, policy);
     if (state.attempts >= MAX_ITERATIONS) {
       logger.warn('Reached max iterations', {
         maxAttempts: MAX_ITERATIONS,
       });
-      if (state.review.overallScore < QUALITY_THRESHOLD) {
-        logger.warn('Final score below threshold', {
-          finalScore: state.review.overallScore,
-          threshold: QUALITY_THRESHOLD,
-        });
-        state.errors.push(`Code quality below threshold: ${state.review.overallScore}/100`);
-      }
+    }
+    if (!finalGate.passed) {
+      logger.warn('Final code does not meet the quality policy', {
+        finalScore: state.review.overallScore,
+        failures: finalGate.failures,
+      });
+      state.errors.push(...finalGate.failures.map((failure) => `Code quality policy not met: ${failure}`));
     }
 
     logger.info('Iteration summary', {
       attempts: state.attempts,
       finalScore: state.review.overallScore,
+      scores: state.versions.map((version) => version.review.overallScore),
+      selectedAttempt: best?.attempt,
     });
 
     // FINAL: Transform to expected format
@@ -244,9 +532,42 @@ export async function createCodeProject(idea: {
         _reviewScore: state.review.overallScore,
         _reviewIssues: state.review.issues.length,
         _reviewRecommendation: state.review.recommendation,
+        _execution: state.review.execution && {
+          status: state.review.execution.status,
+          command: state.review.execution.command,
+          exitCode: state.review.execution.exitCode,
+          reason: state.review.execution.reason,
+          ...(state.review.execution.notebook && {
+            executedCells: state.review.execution.notebook.executedCells,
+            codeCells: state.review.execution.notebook.codeCells,
+          }),
+        },
+        _staticAnalysis: state.review.staticAnalysis,
+        _tests: state.code!.tests && {
+          framework: state.code!.tests.framework,
+          command: state.code!.tests.command,
+          files: state.code!.tests.files,
+          // Counts only when the sandbox ran the suite
+          ...(state.review.execution?.tests && {
+            status: state.review.execution.tests.status,
+            passed: state.review.execution.tests.passed,
+            failed: state.review.execution.tests.failed,
+            skipped: state.review.execution.tests.skipped,
+          }),
+        },
+        _fixHistory: state.fixHistory,
+        _iterations: buildIterationTrace(state.versions, state.fixHistory, best?.attempt ?? null),
+        _candidates: candidates.length > 0 ? candidates : undefined,
+        _qualityPolicy: policy,
+        _qualityGate: { passed: finalGate.passed, failures: finalGate.failures },
       },
+      errors: state.errors,
     };
   } catch (error) {
+    // Let cancellation reach the job as a cancel, not a failure
+    if (isCancellation(error)) throw error;
+
+    await progress?.failed('pipeline', error);
     logger.error('Pipeline failed', {
       error: error instanceof Error ? error.message : 'Unknown error',
       stack: error instanceof Error ? error.stack : undefined,
@@ -1,9 +1,11 @@
 import { ChatOpenAI } from '@langchain/openai';
-import type { CodePlan, GeneratedCode, CodeReview, CodeIssue } from './types';
+import type { CodePlan, GeneratedCode, CodeReview, CodeIssue, ExecutionResult, StaticAnalysis } from './types';
 import { CodeIssueSchema, CodeReviewSchema } from './types';
 import { z } from 'zod';
 import { MODEL_USE_CASES } from '@/lib/config/models';
 import { createLogger } from '@/lib/logging/logger';
+import { getCancellationSignal } from '@/lib/utils/cancellation';
+import { DEFAULT_QUALITY_POLICY, type QualityPolicy } from '@/lib/quality/quality-policy';
 
 /**
  * CRITIC AGENT (Structured Outputs)
@@ -18,6 +20,13 @@ import { createLogger } from '@/lib/logging/logger';
  * - **Code quality**: Naming, structure, readability
  * - **Documentation**: README quality, examples, troubleshooting
  *
+ * Hard evidence: if the sandbox ran the code (see sandbox-runner.ts), its exit
+ * code, stdout and stderr go into the prompt, and a crash or timeout always
+ * counts as a blocking error - whatever the model thinks of the code. So do
+ * failing generated tests (see test-generation-agent.ts). Static
+ * analysis findings (see static-analyzer.ts) are merged in the same way, so
+ * the fixer gets concrete lines instead of guesses.
+ *
  * Why use a critic agent?
  * - LLMs sometimes generate buggy code
  * - Catching errors before publishing saves time
@@ -43,21 +52,34 @@ import { createLogger } from '@/lib/logging/logger';
 
 type CodeReviewOutput = z.infer<typeof CodeReviewSchema>;
 
+/**
+ * Deterministic evidence gathered before the review
+ */
+export interface ReviewEvidence {
+  execution?: ExecutionResult;
+  staticAnalysis?: StaticAnalysis;
+}
+
 export async function reviewCode(
   code: GeneratedCode,
-  plan: CodePlan
+  plan: CodePlan,
+  evidence: ReviewEvidence = {},
+  policy: QualityPolicy = DEFAULT_QUALITY_POLICY
 ): Promise<{ review: CodeReview }> {
   const logger = createLogger({ stage: 'critic-agent' });
+  const { execution, staticAnalysis } = evidence;
 
   logger.info('Reviewing code', {
     filesCount: code.files.length,
+    executionStatus: execution?.status,
+    staticIssuesCount: staticAnalysis?.issues.length,
   });
 
   // Initialize GPT-5 Nano for cost-effective reviews
   if (!process.env.OPENAI_API_KEY) {
     logger.warn('OPENAI_API_KEY not found, skipping code review');
     return {
-      review: {
+      review: applyEvidence({
         hasErrors: false,
         issues: [],
         overallScore: 75, // Default passing score
@@ -68,8 +90,7 @@ export async function reviewCode(
         securityConcerns: [],
         filePriority: [],
         fixSuggestions: [],
-      },
-
+      }, code, evidence),
     };
   }
 
@@ -81,13 +102,13 @@ export async function reviewCode(
   // Use structured output (guarantees valid JSON matching our schema)
   const structuredModel = model.withStructuredOutput(CodeReviewSchema);
 
-  const prompt = buildReviewPrompt(code, plan);
+  const prompt = buildReviewPrompt(code, plan, evidence, policy);
 
   try {
-    const result = await structuredModel.invoke(prompt);
+    const result = await structuredModel.invoke(prompt, { signal: getCancellationSignal() });
 
     // Ensure all fields are present (schema defaults handle this, but normalize for safety)
-    const normalizedReview: CodeReview = {
+    const normalizedReview: CodeReview = applyEvidence({
       hasErrors: result.hasErrors ?? false,
       issues: result.issues ?? [],
       overallScore: result.overallScore ?? 0,
@@ -104,7 +125,7 @@ export async function reviewCode(
       },
       filePriority: result.filePriority ?? [],
       fixSuggestions: result.fixSuggestions ?? [],
-    };
+    }, code, evidence);
 
     logger.info('Code review complete', {
       overallScore: normalizedReview.overallScore,
@@ -125,7 +146,7 @@ export async function reviewCode(
 
     // Return a permissive review on failure (don't block the pipeline)
     return {
-      review: {
+      review: applyEvidence({
         hasErrors: false,
         issues: [
           {
@@ -144,10 +165,260 @@ export async function reviewCode(
         securityConcerns: [],
         filePriority: [],
         fixSuggestions: [],
+      }, code, evidence),
+    };
+  }
+}
+
+// Passing code is capped below the quality threshold when it crashed
+// or doesn't even parse
+const FAILED_EXECUTION_MAX_SCORE = 70;
+
+/**
+ * Apply all deterministic evidence to an LLM review
+ */
+function applyEvidence(review: CodeReview, code: GeneratedCode, evidence: ReviewEvidence): CodeReview {
+  return applyStaticAnalysis(
+    applyTestResults(applyExecutionEvidence(review, code, evidence.execution), code, evidence.execution?.tests),
+    evidence.staticAnalysis
+  );
+}
+
+/**
+ * Make failing generated tests binding: blocking error, at most "revise",
+ * score capped. The fix may belong in the code or in a wrong test.
+ */
+export function applyTestResults(
+  review: CodeReview,
+  code: GeneratedCode,
+  tests?: ExecutionResult['tests']
+): CodeReview {
+  if (!tests || tests.status === 'passed') return review;
+
+  const failingFile = findFailingFile(code, tests.output) ?? code.tests?.files[0] ?? 'tests';
+  const evidence = tests.status === 'timeout'
+    ? `\`${tests.command}\` timed out`
+    : tests.status === 'error'
+      ? `\`${tests.command}\` could not run the tests (exit ${tests.exitCode}): ${lastLines(tests.output, 3)}`
+      : `${tests.failed} of ${tests.passed + tests.failed} tests failed (\`${tests.command}\`): ${lastLines(tests.output, 3)}`;
+
+  return {
+    ...review,
+    hasErrors: true,
+    overallScore: Math.min(review.overallScore, FAILED_EXECUTION_MAX_SCORE),
+    recommendation: review.recommendation === 'approve' ? 'revise' : review.recommendation,
+    issues: [
+      {
+        severity: 'error',
+        file: failingFile,
+        line: null,
+        message: `Tests failed - ${evidence}`,
+        suggestion: 'Fix the code if it breaks the tested behavior, or the test if its expectation is wrong',
       },
+      ...review.issues,
+    ],
+    fixSuggestions: [
+      {
+        file: failingFile,
+        issue: `Generated tests fail - ${evidence}`,
+        suggestedFix: 'Read the failing assertions in the test output: fix the code if it violates the tested behavior, or fix the test if its expected value is wrong',
+        priority: 'critical',
+      },
+      ...review.fixSuggestions,
+    ],
+  };
+}
+
+/**
+ * Merge static analysis findings into the review
+ *
+ * Findings replace the model's own line-less guesses about the same files'
+ * syntax and imports; any error blocks approval. Each file with errors gets
+ * one critical fixSuggestion listing its lines, so the fixer sees them all.
+ */
+export function applyStaticAnalysis(
+  review: CodeReview,
+  analysis?: StaticAnalysis
+): CodeReview {
+  if (!analysis) return review;
+
+  const summary = {
+    checks: analysis.checks,
+    skipped: analysis.skipped,
+    issuesCount: analysis.issues.length,
+  };
+  if (analysis.issues.length === 0) {
+    return { ...review, staticAnalysis: summary };
+  }
+
+  const errors = analysis.issues.filter((issue) => issue.severity === 'error');
+  const errorsByFile = new Map<string, CodeIssue[]>();
+  for (const issue of errors) {
+    errorsByFile.set(issue.file, [...(errorsByFile.get(issue.file) ?? []), issue]);
+  }
+
+  const fixSuggestions: CodeReview['fixSuggestions'] = [...errorsByFile].map(([file, issues]) => ({
+    file,
+    issue: `Static analysis found ${issues.length} error(s)`,
+    suggestedFix: issues
+      .map((issue) => `Line ${issue.line ?? '?'}: ${issue.message}${issue.suggestion ? ` - ${issue.suggestion}` : ''}`)
+      .join('\n'),
+    priority: 'critical',
+  }));
+
+  const hasErrors = errors.length > 0;
+  return {
+    ...review,
+    hasErrors: review.hasErrors || hasErrors,
+    overallScore: hasErrors ? Math.min(review.overallScore, FAILED_EXECUTION_MAX_SCORE) : review.overallScore,
+    recommendation: hasErrors && review.recommendation === 'approve' ? 'revise' : review.recommendation,
+    issues: [...analysis.issues, ...review.issues],
+    fixSuggestions: [...fixSuggestions, ...review.fixSuggestions],
+    staticAnalysis: summary,
+  };
+}
 
+/**
+ * Make the sandbox result binding and attach it to the review
+ *
+ * - failed / timeout: blocking error, at most "revise", score capped
+ * - install_failed: a warning about dependencies (often the server, not the code)
+ * - passed / skipped: no change
+ */
+export function applyExecutionEvidence(
+  review: CodeReview,
+  code: GeneratedCode,
+  execution?: ExecutionResult
+): CodeReview {
+  if (!execution) return review;
+
+  if (execution.status === 'install_failed') {
+    return {
+      ...review,
+      issues: [
+        ...review.issues,
+        {
+          severity: 'warning',
+          file: code.files.find((file) => /requirements\.txt$|package\.json$|Cargo\.toml$/.test(file.path))?.path ?? 'dependencies',
+          line: null,
+          message: `Dependency installation failed (${execution.install?.command}): ${lastLines(execution.install?.stderr ?? '', 3)}`,
+          suggestion: 'Check package names and versions',
+        },
+      ],
+      execution,
     };
   }
+
+  if (execution.status !== 'failed' && execution.status !== 'timeout') {
+    return { ...review, execution };
+  }
+
+  const failingFile = findFailingFile(code, execution.stderr);
+  const evidence = execution.status === 'timeout'
+    ? `\`${execution.command}\` did not finish: ${execution.reason}`
+    : `\`${execution.command}\` exited with code ${execution.exitCode}: ${lastLines(execution.stderr, 3)}`;
+
+  return {
+    ...review,
+    hasErrors: true,
+    overallScore: Math.min(review.overallScore, FAILED_EXECUTION_MAX_SCORE),
+    recommendation: review.recommendation === 'approve' ? 'revise' : review.recommendation,
+    issues: [
+      {
+        severity: 'error',
+        file: failingFile ?? 'unknown',
+        line: null,
+        message: `Execution failed - ${evidence}`,
+        suggestion: 'Fix the runtime error shown in stderr',
+      },
+      ...review.issues,
+    ],
+    fixSuggestions: [
+      {
+        file: failingFile ?? review.fixSuggestions[0]?.file ?? code.files[0]?.path ?? 'unknown',
+        issue: `Running the project failed - ${evidence}`,
+        suggestedFix: 'Fix the cause of this runtime error (see the stderr in the execution result)',
+        priority: 'critical',
+      },
+      ...review.fixSuggestions,
+    ],
+    execution,
+  };
+}
+
+/**
+ * The last project file named in a traceback / stack trace (innermost frame)
+ */
+export function findFailingFile(code: GeneratedCode, stderr: string): string | null {
+  let found: { path: string; index: number } | null = null;
+  for (const file of code.files) {
+    const index = stderr.lastIndexOf(file.path);
+    if (index !== -1 && (!found || index > found.index)) {
+      found = { path: file.path, index };
+    }
+  }
+  return found?.path ?? null;
+}
+
+function lastLines(text: string, count: number): string {
+  return text.trim().split('\n').slice(-count).join(' | ') || '(no output)';
+}
+
+/**
+ * Describe the sandbox run for the reviewer
+ */
+function buildExecutionSection(execution: ExecutionResult): string {
+  if (execution.status === 'skipped') {
+    return `
+EXECUTION: Not run (${execution.reason}). Judge runtime correctness from the code alone.
+`;
+  }
+
+  return `
+EXECUTION RESULT (HARD EVIDENCE - the project was actually run in a sandbox):
+- Status: ${execution.status}${execution.reason ? ` (${execution.reason})` : ''}
+- Install: ${execution.install ? `${execution.install.command} → exit ${execution.install.exitCode}` : 'nothing to install'}
+- Command: ${execution.command ?? 'not run'}
+- Exit code: ${execution.exitCode ?? 'n/a'}
+- Duration: ${(execution.durationMs / 1000).toFixed(1)}s
+${execution.notebook ? `- Notebook: ${execution.notebook.executedCells} of ${execution.notebook.codeCells} code cells ran${execution.notebook.failedCell ? ` (cell ${execution.notebook.failedCell.number} failed)` : ''}\n` : ''}- Tests: ${execution.tests
+    ? `${execution.tests.status} - ${execution.tests.passed} passed, ${execution.tests.failed} failed, ${execution.tests.skipped} skipped (${execution.tests.command})`
+    : 'none run'}
+
+STDOUT (tail):
+${execution.stdout.slice(-2000) || '(empty)'}
+
+STDERR (tail):
+${execution.stderr.slice(-3000) || execution.install?.stderr.slice(-3000) || '(empty)'}
+${execution.tests && execution.tests.status !== 'passed' ? `
+TEST OUTPUT (tail):
+${execution.tests.output.slice(-3000)}
+` : ''}
+Trust this over your own reading of the code:
+- A non-zero exit code, traceback or timeout IS a correctness error - set hasErrors=true and
+  add a "critical" fixSuggestion for the file where it happened, explaining the cause
+- Failing tests are recorded automatically; explain whether the code or the test is wrong
+- If it passed, don't report issues that the successful run disproves
+`;
+}
+
+/**
+ * List the static analysis findings for the reviewer
+ */
+function buildStaticAnalysisSection(analysis: StaticAnalysis): string {
+  const findings = analysis.issues.length > 0
+    ? analysis.issues
+        .map((issue) => `- [${issue.severity}] ${issue.file}:${issue.line ?? '?'} - ${issue.message}`)
+        .join('\n')
+    : '- None';
+
+  return `
+STATIC ANALYSIS FINDINGS (already recorded - checks: ${analysis.checks.join(', ')}):
+${findings}
+
+These are added to your review automatically - don't repeat them. Focus on what a
+linter can't see: logic, security design, completeness and documentation.
+`;
 }
 
 /**
@@ -155,7 +426,14 @@ export async function reviewCode(
  *
  * This prompt guides the LLM to act as a thorough code reviewer
  */
-function buildReviewPrompt(code: GeneratedCode, plan: CodePlan): string {
+function buildReviewPrompt(
+  code: GeneratedCode,
+  plan: CodePlan,
+  evidence: ReviewEvidence,
+  policy: QualityPolicy
+): string {
+  const { execution, staticAnalysis } = evidence;
+
   // Format all files for review
   const filesContent = code.files
     .map(
@@ -204,7 +482,7 @@ PROJECT PLAN:
 
 PROJECT FILES:
 ${filesContent}
-
+${staticAnalysis ? buildStaticAnalysisSection(staticAnalysis) : ''}${execution ? buildExecutionSection(execution) : ''}
 ${rubricSection}
 
 REVIEW CHECKLIST:
@@ -258,7 +536,7 @@ SCORING GUIDELINES:
 - 80-89: Good - Minor improvements needed
 - 70-79: Acceptable - Some issues but functional
 - 60-69: Needs work - Multiple issues
-- Below 60: Poor - Major problems, recommend regenerate
+- Below 60: Poor - Major problems
 
 SCORING METHOD:
 1. Evaluate each criterion in the rubric (0-100 for each)
@@ -283,7 +561,7 @@ EXAMPLE OUTPUT STRUCTURE:
 - overallScore: 0-100 (weighted average of category scores)
 - categoryScores: { correctness: 90, security: 85, codeQuality: 80, completeness: 85, documentation: 88 }
 - hasErrors: true if critical errors found, false otherwise
-- recommendation: "approve" (≥75), "revise" (60-74), or "regenerate" (<60)
+- recommendation: "approve" (≥${policy.approveThreshold}), "revise" (${policy.regenerateThreshold}-${policy.approveThreshold - 1}), or "regenerate" (<${policy.regenerateThreshold})
 - strengths: ["Clean code structure", "Good error handling", "Comprehensive README with examples"]
 - weaknesses: ["Could use more comments", "Missing edge case handling", "README lacks troubleshooting section"]
 - securityConcerns: ["Hardcoded API key on line 15"] or []
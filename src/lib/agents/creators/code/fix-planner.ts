@@ -0,0 +1,185 @@
+import type { CodePlan, GeneratedCode, CodeFile } from './types';
+import {
+  extractModuleSignatures,
+  validateModuleImports,
+  type ModuleContext,
+} from './module-context-extractor';
+import { createLogger } from '@/lib/logging/logger';
+
+/**
+ * FIX PLANNER
+ *
+ * Purpose: Group the files the critic wants fixed with the files that import
+ * them, so the fixer changes them together
+ *
+ * Fixing each file in isolation breaks projects: rename a function in one
+ * module and every importer still uses the old name. The planner:
+ * 1. Finds the dependents of each file to fix (files importing it)
+ * 2. Extracts the signatures of the imported files (ModuleContext), so the
+ *    fixer knows the API the dependents rely on
+ * 3. Merges overlapping groups - each group is one coordinated fix pass
+ *
+ * After the pass, `validateFixedImports` re-extracts the changed modules and
+ * runs `validateModuleImports` on their dependents.
+ *
+ * Dependents are found from import statements (no LLM); only modules that
+ * have dependents get their signatures extracted.
+ */
+
+// Files per coordinated pass - all of them go into one prompt
+const MAX_GROUP_FILES = 6;
+
+export interface FixGroup {
+  files: string[]; // Files to fix first, then their dependents
+  primary: string[]; // Files the review asked to fix
+  modules: ModuleContext[]; // Signatures of the files the others import
+}
+
+/**
+ * Plan the fix passes for a set of files
+ *
+ * Files without dependents become single-file groups.
+ */
+export async function planFixes(
+  code: GeneratedCode,
+  filesToFix: string[],
+  plan: CodePlan
+): Promise<FixGroup[]> {
+  const logger = createLogger({ stage: 'fix-planner' });
+  const sourceFiles = code.files.filter((file) => isSourceFile(file.path, plan.language));
+
+  // Each file to fix with its dependents, merged while they overlap
+  const groups: { primary: string[]; files: Set<string> }[] = [];
+  for (const path of filesToFix) {
+    const dependents = findDependents(path, sourceFiles, plan.language);
+    const files = new Set([path, ...dependents]);
+
+    const overlapping = groups.filter((group) => [...files].some((file) => group.files.has(file)));
+    const merged = {
+      primary: [...overlapping.flatMap((group) => group.primary), path],
+      files: new Set([...overlapping.flatMap((group) => [...group.files]), ...files]),
+    };
+    for (const group of overlapping) groups.splice(groups.indexOf(group), 1);
+    groups.push(merged);
+  }
+
+  const planned: FixGroup[] = [];
+  for (const group of groups) {
+    // Files to fix first, so a size cap only drops dependents
+    const ordered = [...group.primary, ...[...group.files].filter((file) => !group.primary.includes(file))];
+    const files = ordered.slice(0, Math.max(MAX_GROUP_FILES, group.primary.length));
+    if (files.length < ordered.length) {
+      logger.warn('Fix group too large, some dependents left out', {
+        files,
+        dropped: ordered.slice(files.length),
+      });
+    }
+
+    const imported = sourceFiles.filter(
+      (file) => files.includes(file.path) && files.some((other) => other !== file.path && importsModule(codeOf(code, other), file.path, plan.language))
+    );
+    const modules = imported.length > 0 && files.length > 1
+      ? await extractModuleSignatures(imported, plan.language)
+      : [];
+
+    planned.push({ files, primary: group.primary, modules });
+  }
+
+  logger.info('Fix plan ready', {
+    groups: planned.map((group) => group.files),
+  });
+
+  return planned;
+}
+
+/**
+ * Re-validate imports after a coordinated pass
+ *
+ * Re-extracts the signatures of the changed modules and checks every other
+ * file in the group against them. Returns readable problems (empty if none).
+ */
+export async function validateFixedImports(
+  code: GeneratedCode,
+  groups: FixGroup[],
+  changedPaths: string[],
+  plan: CodePlan
+): Promise<string[]> {
+  const problems: string[] = [];
+
+  for (const group of groups) {
+    const changedModules = group.modules
+      .map((module) => module.fileName)
+      .filter((path) => changedPaths.includes(path));
+    if (changedModules.length === 0) continue;
+
+    const moduleFiles = code.files.filter((file) => changedModules.includes(file.path));
+    const modules = await extractModuleSignatures(moduleFiles, plan.language);
+
+    for (const path of group.files) {
+      const validation = validateModuleImports(
+        codeOf(code, path),
+        modules.filter((module) => module.fileName !== path && importsModule(codeOf(code, path), module.fileName, plan.language))
+      );
+      for (const { module, names } of validation.unknownImports) {
+        problems.push(`${path} imports ${names.join(', ')} from ${module.fileName}, which does not export ${names.length > 1 ? 'them' : 'it'}`);
+      }
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Source files that import the given file
+ */
+export function findDependents(path: string, files: CodeFile[], language: CodePlan['language']): string[] {
+  return files
+    .filter((file) => file.path !== path && importsModule(file.content, path, language))
+    .map((file) => file.path);
+}
+
+/**
+ * Does this code import the module at `modulePath`? Matches on the module
+ * name, like the generators' import conventions (flat layouts, './name')
+ */
+function importsModule(content: string, modulePath: string, language: CodePlan['language']): boolean {
+  const fileName = modulePath.split('/').pop() ?? modulePath;
+  const name = escapeRegExp(fileName.replace(/\.(py|js|mjs|cjs|jsx|ts|tsx|mts|rs)$/, ''));
+
+  // A package's __init__.py / index.ts / mod.rs is imported by its directory name
+  const isPackageIndex = /^(__init__\.py|index\.[jt]sx?|mod\.rs)$/.test(fileName);
+  const parent = modulePath.split('/').slice(-2, -1)[0];
+  const names = isPackageIndex && parent ? [escapeRegExp(parent)] : [name];
+  if (name === 'main' && language === 'rust') return false; // The crate root isn't imported
+
+  return names.some((moduleName) => {
+    const patterns: Record<CodePlan['language'], RegExp[]> = {
+      python: [
+        new RegExp(`^\\s*from\\s+(?:\\.*|[\\w.]*\\.)${moduleName}\\s+import\\b`, 'm'),
+        new RegExp(`^\\s*import\\s+(?:[\\w.]+\\.)?${moduleName}\\b`, 'm'),
+      ],
+      javascript: [new RegExp(`(?:from|require\\(|import\\()\\s*['"]\\.{1,2}/(?:[^'"]*/)?${moduleName}(?:\\.[cm]?[jt]sx?)?['"]`)],
+      typescript: [new RegExp(`(?:from|require\\(|import\\()\\s*['"]\\.{1,2}/(?:[^'"]*/)?${moduleName}(?:\\.[cm]?[jt]sx?)?['"]`)],
+      rust: [new RegExp(`\\b(?:(?:crate|super|self)::${moduleName}\\b|mod\\s+${moduleName}\\s*;)`)],
+    };
+    return patterns[language].some((pattern) => pattern.test(content));
+  });
+}
+
+function isSourceFile(path: string, language: CodePlan['language']): boolean {
+  const extensions: Record<CodePlan['language'], RegExp> = {
+    python: /\.py$/,
+    javascript: /\.(js|mjs|cjs|jsx)$/,
+    typescript: /\.(ts|tsx|mts)$/,
+    rust: /\.rs$/,
+  };
+  return extensions[language].test(path);
+}
+
+function codeOf(code: GeneratedCode, path: string): string {
+  return code.files.find((file) => file.path === path)?.content ?? '';
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -1,5 +1,11 @@
 import { ChatAnthropic } from '@langchain/anthropic';
-import type { CodePlan, GeneratedCode, CodeReview, CodeFile } from './types';
+import { z } from 'zod';
+import { FileEditSchema } from './types';
+import type { CodePlan, GeneratedCode, CodeReview, CodeFile, CodeIssue, ExecutionResult, FileChange } from './types';
+import { applyEdits, createUnifiedDiff, type EditConflict } from './patch';
+import { planFixes, validateFixedImports, type FixGroup } from './fix-planner';
+import { MODEL_USE_CASES } from '@/lib/config/models';
+import { getCancellationSignal, isCancellation } from '@/lib/utils/cancellation';
 
 /**
  * FIXER AGENT
@@ -12,9 +18,18 @@ import type { CodePlan, GeneratedCode, CodeReview, CodeFile } from './types';
  * - Regenerates only those specific files with targeted instructions
  * - Preserves files that are already working well
  * - Uses detailed fix suggestions from the critic
+ * - Gets the sandbox run (command, exit code, stderr) as evidence when it failed,
+ *   and the test output when generated tests fail
+ * - Gets every issue with a line number (static analysis, critic) for the file
+ * - Notebooks whose execution failed: rewrites only the failing cell, given its
+ *   traceback and the cells that ran before it
+ * - Returns edit operations instead of whole files, applied with conflict
+ *   detection; each file's diff is returned for the fix history
+ * - Fixes files together with the files that import them (see fix-planner.ts),
+ *   so a rename reaches every importer, then re-validates the imports
  *
  * Why targeted fixing vs full regeneration?
- * - **Cost-effective**: Only regenerate 1-3 files instead of entire project
+ * - **Cost-effective**: Only touch the files with issues (and their importers)
  * - **Preserves good code**: Don't throw away working files
  * - **Faster**: Less generation time, smaller context
  * - **More focused**: Specific fix instructions lead to better results
@@ -30,7 +45,7 @@ export async function fixCode(
   currentCode: GeneratedCode,
   review: CodeReview,
   plan: CodePlan
-): Promise<{ code: GeneratedCode;  filesFixed: string[] }> {
+): Promise<{ code: GeneratedCode; filesFixed: string[]; changes: FileChange[]; importIssues: string[] }> {
   console.log(`🔧 Fixing code based on ${review.fixSuggestions?.length || 0} suggestions...`);
 
   // Identify files to fix (prioritize critical issues)
@@ -47,27 +62,54 @@ export async function fixCode(
     console.log(`   ⚠️  No files identified for fixing, returning original code`);
     return {
       code: currentCode,
-      
       filesFixed: [],
+      changes: [],
+      importIssues: [],
     };
   }
 
   const fixedFiles: CodeFile[] = [];
+  const changes: FileChange[] = [];
+  const record = (result: { file: CodeFile; change: FileChange }) => {
+    fixedFiles.push(result.file);
+    changes.push(result.change);
+  };
 
-  // Fix each file individually
-  for (const filePath of filesToFix.slice(0, 3)) {
-    // Limit to 3 files per iteration
-    const originalFile = currentCode.files.find((f) => f.path === filePath);
-    if (!originalFile) {
-      console.log(`   ⚠️  File ${filePath} not found, skipping`);
-      continue;
+  // Notebooks whose execution failed: fix only the failing cell
+  const notebook = review.execution?.notebook;
+  if (notebook?.failedCell && filesToFix.includes(notebook.path)) {
+    const notebookFile = currentCode.files.find((f) => f.path === notebook.path);
+    if (notebookFile) {
+      const fileFeedback = review.fixSuggestions?.filter((f) => f.file === notebook.path) || [];
+      record(await fixNotebookCell(notebookFile, notebook.failedCell, fileFeedback, currentCode));
     }
+  }
 
-    const fileFeedback = review.fixSuggestions?.filter((f) => f.file === filePath) || [];
-    const result = await fixSingleFile(originalFile, fileFeedback, plan, currentCode);
+  // Everything else: files with their dependents, one pass per group
+  const remaining = filesToFix.filter((filePath) => {
+    if (filePath === notebook?.path && notebook.failedCell) return false;
+    if (currentCode.files.some((f) => f.path === filePath)) return true;
+    console.log(`   ⚠️  File ${filePath} not found, skipping`);
+    return false;
+  });
+  const groups = await planFixes(currentCode, remaining, plan);
 
-    fixedFiles.push(result.file);
-    console.log(`   ✅ Fixed ${filePath}`);
+  for (const group of groups) {
+    if (group.files.length === 1) {
+      const filePath = group.files[0];
+      const originalFile = currentCode.files.find((f) => f.path === filePath)!;
+      const fileFeedback = review.fixSuggestions?.filter((f) => f.file === filePath) || [];
+      const lineIssues = review.issues.filter((issue) => issue.file === filePath && issue.line !== null);
+      record(await fixSingleFile(originalFile, fileFeedback, plan, currentCode, review.execution, lineIssues));
+    } else {
+      console.log(`   🔗 Fixing together: ${group.files.join(', ')}`);
+      const result = await fixFileGroup(group, review, plan, currentCode);
+      result.files.forEach((file, i) => record({ file, change: result.changes[i] }));
+    }
+  }
+
+  for (const change of changes.filter((c) => c.status === 'patched')) {
+    console.log(`   ✅ Fixed ${change.path} (+${change.additions} -${change.deletions})`);
   }
 
   // Merge fixed files with unchanged files
@@ -75,10 +117,20 @@ export async function fixCode(
     const fixed = fixedFiles.find((f) => f.path === file.path);
     return fixed || file; // Use fixed version if available, else keep original
   });
+  const code = { ...currentCode, files: updatedFiles };
+
+  // Do the importers still match the modules they import?
+  const filesFixed = changes.filter((change) => change.status === 'patched').map((change) => change.path);
+  const importIssues = await validateFixedImports(code, groups, filesFixed, plan);
+  if (importIssues.length > 0) {
+    console.log(`   ⚠️  Imports out of sync after fixing:\n      ${importIssues.join('\n      ')}`);
+  }
 
   return {
-    code: { ...currentCode, files: updatedFiles },
-    filesFixed: filesToFix.slice(0, 3),
+    code,
+    filesFixed,
+    changes,
+    importIssues,
   };
 }
 
@@ -111,23 +163,28 @@ function identifyFilesToFix(review: CodeReview, plan: CodePlan): string[] {
       .forEach((s) => files.add(s.file));
   }
 
-  return Array.from(files).slice(0, 3); // Max 3 files
+  return Array.from(files);
 }
 
 /**
  * Fix a single file based on critic feedback
  *
- * Uses GPT-4o to regenerate the file with specific fix instructions
+ * The model returns edit operations (find/replace) rather than the whole
+ * file; they are applied with conflict detection (see patch.ts). If some
+ * edits don't apply, the model gets one retry with the conflicts; if they
+ * still don't, the original file is kept and the conflicts are recorded.
  */
 async function fixSingleFile(
   originalFile: CodeFile,
   feedback: CodeReview['fixSuggestions'],
   plan: CodePlan,
-  fullCode: GeneratedCode
-): Promise<{ file: CodeFile }> {
+  fullCode: GeneratedCode,
+  execution?: ExecutionResult,
+  lineIssues: CodeIssue[] = []
+): Promise<{ file: CodeFile; change: FileChange }> {
   // Use Claude Sonnet 4.5 for best code fixing
   const model = new ChatAnthropic({
-    modelName: 'claude-sonnet-4-5-20250929',
+    modelName: MODEL_USE_CASES.codeFix,
     temperature: 0.3, // Lower temp for focused, reliable fixes
   });
 
@@ -136,15 +193,8 @@ async function fixSingleFile(
       ? feedback.map((f) => `- ${f.issue}\n  Fix: ${f.suggestedFix}`).join('\n\n')
       : 'General quality improvements needed';
 
-  const qualityContext = plan.qualityRubric
-    ? `
-QUALITY CRITERIA TO MEET:
-${plan.qualityRubric.correctness.criteria.join('\n')}
-${plan.qualityRubric.security.criteria.join('\n')}
-${plan.qualityRubric.codeQuality.criteria.join('\n')}
-${plan.qualityRubric.completeness.criteria.join('\n')}
-`
-    : '';
+  const evidenceContext = buildEvidenceContext(plan, execution);
+  const lineIssuesContext = formatLineIssues(lineIssues);
 
   const prompt = `Fix this code file based on review feedback.
 
@@ -155,8 +205,7 @@ ${originalFile.content}
 
 ISSUES TO FIX:
 ${feedbackText}
-
-${qualityContext}
+${lineIssuesContext}${evidenceContext}
 
 INSTRUCTIONS:
 1. Fix ONLY the specific issues mentioned above
@@ -165,46 +214,401 @@ INSTRUCTIONS:
 4. Don't add unnecessary features or refactoring
 5. Ensure the fixed code meets the quality criteria
 
-Return the COMPLETE fixed file as JSON (no markdown, just JSON):
-{
-  "content": "fixed file content here"
-}`;
+${EDIT_FORMAT}`;
 
   try {
-    const response = await model.invoke(prompt);
-    const content = response.content.toString();
-
-    // Parse JSON response
-    let parsed;
-    try {
-      // Remove markdown code blocks if present
-      let cleaned = content.trim();
-      if (cleaned.startsWith('```')) {
-        cleaned = cleaned.replace(/```json?\n?/g, '').replace(/```\n?/g, '');
-      }
-
-      // Extract JSON object
-      const firstBrace = cleaned.indexOf('{');
-      const lastBrace = cleaned.lastIndexOf('}');
-      if (firstBrace !== -1 && lastBrace !== -1) {
-        cleaned = cleaned.substring(firstBrace, lastBrace + 1);
-      }
-
-      parsed = JSON.parse(cleaned);
-    } catch (parseError) {
-      console.error(`   ❌ Failed to parse fix for ${originalFile.path}, using original`);
-      return { file: originalFile }; // Return original if parsing fails
+    const fixer = model.withStructuredOutput(FileEditsSchema);
+    const signal = getCancellationSignal();
+
+    let result = await fixer.invoke(prompt, { signal });
+    let applied = applyEdits(originalFile.content, result.edits);
+
+    if (applied.conflicts.length > 0) {
+      console.log(`   ⚠️  ${applied.conflicts.length} edit(s) did not apply to ${originalFile.path}, retrying`);
+      result = await fixer.invoke(
+        `${prompt}
+
+YOUR PREVIOUS EDITS DID NOT APPLY:
+${applied.conflicts.map(describeConflict).join('\n')}
+
+Return the full list of edits again, with each "find" copied exactly from the ORIGINAL FILE above.`,
+        { signal }
+      );
+      applied = applyEdits(originalFile.content, result.edits);
     }
 
+    if (applied.conflicts.length > 0) {
+      console.error(`   ❌ Edits for ${originalFile.path} still conflict, keeping original`);
+      return {
+        file: originalFile,
+        change: {
+          ...emptyChange(originalFile.path, 'conflict'),
+          conflicts: applied.conflicts.map(describeConflict),
+          summary: result.summary,
+        },
+      };
+    }
+
+    const { diff, additions, deletions } = createUnifiedDiff(originalFile.path, originalFile.content, applied.content);
     return {
-      file: {
+      file: { ...originalFile, content: applied.content },
+      change: {
         path: originalFile.path,
-        content: parsed.content,
-        language: originalFile.language,
+        status: diff ? 'patched' : 'unchanged',
+        diff,
+        additions,
+        deletions,
+        conflicts: [],
+        summary: result.summary,
       },
     };
   } catch (error) {
+    if (isCancellation(error)) throw error;
     console.error(`   ❌ Failed to fix ${originalFile.path}:`, error);
-    return { file: originalFile }; // Return original on error
+    return {
+      file: originalFile,
+      change: { ...emptyChange(originalFile.path, 'failed'), summary: error instanceof Error ? error.message : String(error) },
+    };
+  }
+}
+
+/**
+ * Fix a group of files that depend on each other in one coordinated pass
+ *
+ * The model sees every file in the group plus the signatures the importers
+ * rely on, and returns edits per file. The group is all-or-nothing: if any
+ * file's edits still conflict after one retry, every file keeps its
+ * original content, so importers never go out of sync with a module.
+ */
+async function fixFileGroup(
+  group: FixGroup,
+  review: CodeReview,
+  plan: CodePlan,
+  fullCode: GeneratedCode
+): Promise<{ files: CodeFile[]; changes: FileChange[] }> {
+  const originals = group.files
+    .map((path) => fullCode.files.find((file) => file.path === path))
+    .filter((file): file is CodeFile => file !== undefined);
+
+  const model = new ChatAnthropic({
+    modelName: MODEL_USE_CASES.codeFix,
+    temperature: 0.3,
+  });
+
+  const filesSection = originals
+    .map((file) => {
+      const role = group.primary.includes(file.path) ? 'TO FIX' : 'DEPENDENT - update only to stay consistent';
+      const feedback = review.fixSuggestions?.filter((f) => f.file === file.path) || [];
+      const lineIssues = review.issues.filter((issue) => issue.file === file.path && issue.line !== null);
+      return `FILE ${file.path} (${role}):
+\`\`\`${file.language || plan.language}
+${file.content}
+\`\`\`
+${feedback.length > 0 ? `ISSUES TO FIX:\n${feedback.map((f) => `- ${f.issue}\n  Fix: ${f.suggestedFix}`).join('\n\n')}\n` : ''}${formatLineIssues(lineIssues)}`;
+    })
+    .join('\n');
+
+  const signatures = group.modules
+    .map((module) => `${module.fileName}:\n${module.exports.map((e) => `  - ${e.signature}`).join('\n') || '  (no exports found)'}`)
+    .join('\n');
+
+  const prompt = `Fix these related code files together based on review feedback.
+The DEPENDENT files import the files to fix, so a change to a name, signature or
+return value in one file must be carried over to every file that uses it.
+
+${filesSection}
+CURRENT SIGNATURES THE DEPENDENTS RELY ON:
+${signatures || '(none extracted)'}
+${buildEvidenceContext(plan, review.execution)}
+
+INSTRUCTIONS:
+1. Fix the issues listed for the files TO FIX
+2. If a fix renames or changes anything another file uses, update those usages and imports too
+3. Leave a file without edits if it needs no change
+4. Preserve working code, the coding style and structure; no unrelated refactoring
+
+${EDIT_FORMAT}
+- Give the edits per file, using the exact file path shown above`;
+
+  const keepOriginals = (status: 'conflict' | 'failed', details: Map<string, string[]>, summary?: string) => ({
+    files: originals,
+    changes: originals.map((file) => ({
+      ...emptyChange(file.path, status),
+      conflicts: details.get(file.path) ?? [],
+      summary,
+    })),
+  });
+
+  const applyAll = (result: z.infer<typeof GroupEditsSchema>) => {
+    const applied = new Map<string, ReturnType<typeof applyEdits>>();
+    for (const file of originals) {
+      const edits = result.files.filter((f) => f.path === file.path).flatMap((f) => f.edits);
+      applied.set(file.path, applyEdits(file.content, edits));
+    }
+    const unknown = result.files.filter((f) => !group.files.includes(f.path)).map((f) => f.path);
+    if (unknown.length > 0) {
+      console.log(`   ⚠️  Ignoring edits to files outside the group: ${unknown.join(', ')}`);
+    }
+    const conflicts = new Map(
+      [...applied].filter(([, r]) => r.conflicts.length > 0).map(([path, r]) => [path, r.conflicts.map(describeConflict)])
+    );
+    return { applied, conflicts };
+  };
+
+  try {
+    const fixer = model.withStructuredOutput(GroupEditsSchema);
+    const signal = getCancellationSignal();
+
+    let result = await fixer.invoke(prompt, { signal });
+    let { applied, conflicts } = applyAll(result);
+
+    if (conflicts.size > 0) {
+      console.log(`   ⚠️  Edits did not apply to ${[...conflicts.keys()].join(', ')}, retrying`);
+      result = await fixer.invoke(
+        `${prompt}
+
+YOUR PREVIOUS EDITS DID NOT APPLY:
+${[...conflicts].map(([path, details]) => `${path}:\n${details.join('\n')}`).join('\n')}
+
+Return the full list of edits for all files again, with each "find" copied exactly from the files above.`,
+        { signal }
+      );
+      ({ applied, conflicts } = applyAll(result));
+    }
+
+    if (conflicts.size > 0) {
+      console.error(`   ❌ Edits for ${[...conflicts.keys()].join(', ')} still conflict, keeping the whole group original`);
+      return keepOriginals('conflict', conflicts, result.summary);
+    }
+
+    const files = originals.map((file) => ({ ...file, content: applied.get(file.path)!.content }));
+    const changes = originals.map((file, i): FileChange => {
+      const { diff, additions, deletions } = createUnifiedDiff(file.path, file.content, files[i].content);
+      return {
+        path: file.path,
+        label: group.primary.includes(file.path) ? undefined : 'dependent',
+        status: diff ? 'patched' : 'unchanged',
+        diff,
+        additions,
+        deletions,
+        conflicts: [],
+        summary: result.summary,
+      };
+    });
+    return { files, changes };
+  } catch (error) {
+    if (isCancellation(error)) throw error;
+    console.error(`   ❌ Failed to fix ${group.files.join(', ')}:`, error);
+    return keepOriginals('failed', new Map(), error instanceof Error ? error.message : String(error));
+  }
+}
+
+const GroupEditsSchema = z.object({
+  files: z.array(
+    z.object({
+      path: z.string().describe('File path, exactly as shown'),
+      edits: z.array(FileEditSchema).describe('Edits to apply in order'),
+    })
+  ),
+  summary: z.string().describe('One or two sentences: what was changed and why, across the files'),
+});
+
+const FileEditsSchema = z.object({
+  edits: z.array(FileEditSchema).describe('Edits to apply in order'),
+  summary: z.string().describe('One sentence: what was changed and why'),
+});
+
+function describeConflict(conflict: EditConflict): string {
+  const reason = {
+    not_found: 'text not found in the file',
+    ambiguous: 'text occurs more than once',
+    empty: '"find" is empty',
+  }[conflict.reason];
+  const preview = conflict.find.length > 200 ? `${conflict.find.slice(0, 200)}...` : conflict.find;
+  return `Edit ${conflict.index + 1} (${reason}): ${JSON.stringify(preview)}`;
+}
+
+function emptyChange(path: string, status: FileChange['status']): FileChange {
+  return { path, status, diff: '', additions: 0, deletions: 0, conflicts: [] };
+}
+
+const EDIT_FORMAT = `Return the fix as EDITS, not the whole file:
+- "find" is copied VERBATIM from the original file (same whitespace and indentation)
+  and must occur exactly ONCE - include a surrounding line or two if needed
+- "replace" is the new text for that span ("" deletes it)
+- Edits apply in order; keep them small and non-overlapping
+- To add code, find a nearby line and replace it with itself plus the new code`;
+
+/**
+ * Runtime, test and rubric evidence shared by the fix prompts
+ */
+function buildEvidenceContext(plan: CodePlan, execution?: ExecutionResult): string {
+  const qualityContext = plan.qualityRubric
+    ? `
+QUALITY CRITERIA TO MEET:
+${plan.qualityRubric.correctness.criteria.join('\n')}
+${plan.qualityRubric.security.criteria.join('\n')}
+${plan.qualityRubric.codeQuality.criteria.join('\n')}
+${plan.qualityRubric.completeness.criteria.join('\n')}
+`
+    : '';
+
+  const executionContext =
+    execution && (execution.status === 'failed' || execution.status === 'timeout')
+      ? `
+RUNTIME EVIDENCE (the project was run and FAILED - this is the main thing to fix):
+Command: ${execution.command}
+Result: ${execution.reason}
+STDERR (tail):
+${execution.stderr.slice(-3000) || '(empty)'}
+STDOUT (tail):
+${execution.stdout.slice(-1000) || '(empty)'}
+`
+      : '';
+
+  const testsContext =
+    execution?.tests && execution.tests.status !== 'passed'
+      ? `
+TEST RESULTS (${execution.tests.command}: ${execution.tests.passed} passed, ${execution.tests.failed} failed):
+${execution.tests.output.slice(-3000)}
+If this file is a test, fix assertions that contradict the code's intended behavior;
+if it is code under test, fix the behavior the failing tests expose.
+`
+      : '';
+
+  return `${executionContext}${testsContext}
+${qualityContext}`;
+}
+
+function formatLineIssues(lineIssues: CodeIssue[]): string {
+  return lineIssues.length > 0
+    ? `
+ISSUES AT SPECIFIC LINES (line numbers refer to the original file):
+${lineIssues
+  .sort((a, b) => (a.line ?? 0) - (b.line ?? 0))
+  .map((issue) => `- Line ${issue.line} [${issue.severity}]: ${issue.message}${issue.suggestion ? ` (${issue.suggestion})` : ''}`)
+  .join('\n')}
+`
+    : '';
+}
+
+type FailedCell = NonNullable<NonNullable<ExecutionResult['notebook']>['failedCell']>;
+
+// The parts of an nbformat document the cell fixer touches
+interface NotebookJson {
+  cells: {
+    cell_type: string;
+    source: string | string[];
+    outputs?: unknown[];
+    execution_count?: number | null;
+  }[];
+}
+
+const FixedCellSchema = z.object({
+  source: z.string().describe('The complete fixed cell code'),
+  explanation: z.string().describe('One sentence: what was wrong and what changed'),
+});
+
+// Earlier cells are context only - keep each one short
+const MAX_CONTEXT_CELL_CHARS = 1500;
+
+/**
+ * Fix the notebook cell that failed during execution
+ *
+ * Only that cell changes; its outputs are cleared (the next run re-executes
+ * the notebook). The change is a diff of the cell source. Keeps the original
+ * notebook on error.
+ */
+async function fixNotebookCell(
+  notebookFile: CodeFile,
+  failedCell: FailedCell,
+  feedback: CodeReview['fixSuggestions'],
+  fullCode: GeneratedCode
+): Promise<{ file: CodeFile; change: FileChange }> {
+  const label = `cell ${failedCell.number}`;
+  let notebook: NotebookJson;
+  try {
+    notebook = JSON.parse(notebookFile.content);
+  } catch {
+    console.error(`   ❌ ${notebookFile.path} is not valid JSON, cannot fix cell ${failedCell.number}`);
+    return { file: notebookFile, change: { ...emptyChange(notebookFile.path, 'failed'), label } };
+  }
+
+  const cellSource = (cell: NotebookJson['cells'][number]) =>
+    Array.isArray(cell.source) ? cell.source.join('') : cell.source ?? '';
+  const earlierCells = notebook.cells
+    .slice(0, failedCell.index)
+    .filter((cell) => cell.cell_type === 'code')
+    .map((cell, i) => {
+      const source = cellSource(cell);
+      return `# --- Cell ${i + 1} ---\n${source.length > MAX_CONTEXT_CELL_CHARS ? `${source.slice(0, MAX_CONTEXT_CELL_CHARS)}\n# ... (truncated)` : source}`;
+    })
+    .join('\n\n');
+
+  const modules = fullCode.files
+    .filter((file) => file.path.endsWith('.py'))
+    .map((file) => file.path)
+    .join(', ');
+
+  const prompt = `A Jupyter notebook failed while running top to bottom. Fix the failing cell.
+
+FAILING CELL (code cell ${failedCell.number}):
+\`\`\`python
+${failedCell.source}
+\`\`\`
+
+ERROR: ${failedCell.ename}: ${failedCell.evalue}
+TRACEBACK:
+${failedCell.traceback.slice(-3000)}
+
+CELLS THAT RAN BEFORE IT (their variables and imports are available):
+${earlierCells || '(none)'}
+
+PROJECT MODULES (importable from the notebook): ${modules || 'none'}
+${feedback.length > 0 ? `\nREVIEW FEEDBACK:\n${feedback.map((f) => `- ${f.issue}\n  Fix: ${f.suggestedFix}`).join('\n')}\n` : ''}
+INSTRUCTIONS:
+1. Fix the cause of the error so the cell runs after the earlier cells
+2. Keep the cell's purpose and outputs (prints, plots) the same
+3. Don't use packages that aren't imported or installed already; avoid network access
+4. Keep it reasonably fast (no huge loops or downloads)
+
+Return the complete fixed cell source.`;
+
+  try {
+    const model = new ChatAnthropic({
+      modelName: MODEL_USE_CASES.codeFix,
+      temperature: 0.3,
+    });
+    const result = await model
+      .withStructuredOutput(FixedCellSchema)
+      .invoke(prompt, { signal: getCancellationSignal() });
+
+    const cell = notebook.cells[failedCell.index];
+    cell.source = result.source.split('\n').map((line, i, lines) => (i < lines.length - 1 ? `${line}\n` : line));
+    cell.outputs = [];
+    cell.execution_count = null;
+
+    const { diff, additions, deletions } = createUnifiedDiff(`${notebookFile.path} (${label})`, failedCell.source, result.source);
+    console.log(`   ✅ Fixed cell ${failedCell.number} of ${notebookFile.path}: ${result.explanation}`);
+    return {
+      file: { ...notebookFile, content: JSON.stringify(notebook, null, 2) },
+      change: {
+        path: notebookFile.path,
+        label,
+        status: diff ? 'patched' : 'unchanged',
+        diff,
+        additions,
+        deletions,
+        conflicts: [],
+        summary: result.explanation,
+      },
+    };
+  } catch (error) {
+    if (isCancellation(error)) throw error;
+    console.error(`   ❌ Failed to fix cell ${failedCell.number} of ${notebookFile.path}:`, error);
+    return {
+      file: notebookFile,
+      change: { ...emptyChange(notebookFile.path, 'failed'), label, summary: error instanceof Error ? error.message : String(error) },
+    };
   }
 }
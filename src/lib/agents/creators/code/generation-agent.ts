@@ -5,7 +5,7 @@ import { generateNotebook } from './notebook-generator'; // Atomic schemas
 import { ReadmeSchema, type Readme } from './readme-schema';
 import { renderReadmeToMarkdown } from './readme-renderer';
 import { createLogger } from '@/lib/logging/logger';
-import { MODEL_USE_CASES } from '@/lib/config/models';
+import { MODEL_USE_CASES, isAnthropicModel, type ModelName } from '@/lib/config/models';
 import {
   extractModuleSignatures,
   formatModuleContextForPrompt,
@@ -14,6 +14,7 @@ import {
   type ModuleContext,
 } from './module-context-extractor';
 import { z } from 'zod';
+import { getCancellationSignal } from '@/lib/utils/cancellation';
 
 /**
  * GENERATION AGENT (Structured Outputs)
@@ -128,10 +129,18 @@ function validateFileCount(files: CodeFile[], plan: CodePlan): void {
  * - Complex → O1 with extended thinking (deep reasoning, $1.50-3.00 per generation)
  *
  * This ensures we use expensive O1/O3 models only when complexity truly requires it.
+ *
+ * A model override (best-of-N candidates) replaces the routing.
  */
-function selectGenerationModel(plan: CodePlan): ChatAnthropic | ChatOpenAI {
+function selectGenerationModel(plan: CodePlan, modelOverride?: ModelName): ChatAnthropic | ChatOpenAI {
   const logger = createLogger({ stage: 'generation-agent' });
 
+  if (modelOverride) {
+    return isAnthropicModel(modelOverride)
+      ? new ChatAnthropic({ modelName: modelOverride, temperature: 0.3 })
+      : new ChatOpenAI({ modelName: modelOverride, temperature: 1 }); // Reasoning models only support temperature 1
+  }
+
   switch (plan.modelTier) {
     case 'simple':
     case 'modular':
@@ -163,9 +172,17 @@ function selectGenerationModel(plan: CodePlan): ChatAnthropic | ChatOpenAI {
   }
 }
 
+/**
+ * Generation options
+ */
+export interface GenerationOptions {
+  model?: ModelName; // Instead of the plan's model tier
+}
+
 export async function generateCode(
   plan: CodePlan,
-  idea: { id: string; title: string; description: string | null }
+  idea: { id: string; title: string; description: string | null },
+  options: GenerationOptions = {}
 ): Promise<{ code: GeneratedCode }> {
   const logger = createLogger({
     stage: 'generation-agent',
@@ -174,20 +191,21 @@ export async function generateCode(
   logger.info('Generating code', {
     outputType: plan.outputType,
     language: plan.language,
+    model: options.model,
   });
 
   // Route to specialized generator based on output type
   switch (plan.outputType) {
     case 'notebook':
-      return await generateNotebook(plan, idea); // Atomic schemas (h1, paragraph, code lines as primitives)
+      return await generateNotebook(plan, idea, options); // Atomic schemas (h1, paragraph, code lines as primitives)
     case 'cli-app':
-      return await generateCLIApp(plan, idea);
+      return await generateCLIApp(plan, idea, options);
     case 'web-app':
-      return await generateWebApp(plan, idea);
+      return await generateWebApp(plan, idea, options);
     case 'library':
-      return await generateLibrary(plan, idea);
+      return await generateLibrary(plan, idea, options);
     case 'demo-script':
-      return await generateDemoScript(plan, idea);
+      return await generateDemoScript(plan, idea, options);
     default:
       throw new Error(`Unknown output type: ${plan.outputType}`);
   }
@@ -273,7 +291,7 @@ RESPONSE FORMAT:
     try {
       logger.info(`Generating library modules (attempt ${attempt}/${maxRetries})`);
 
-      const result = await structuredModel.invoke(prompt);
+      const result = await structuredModel.invoke(prompt, { signal: getCancellationSignal() });
 
       // Validate response is not empty
       if (!result || !result.files || result.files.length === 0) {
@@ -345,7 +363,8 @@ RESPONSE FORMAT:
  */
 async function generateCLIApp(
   plan: CodePlan,
-  idea: { title: string; description: string | null }
+  idea: { title: string; description: string | null },
+  options: GenerationOptions = {}
 ): Promise<{ code: GeneratedCode }> {
   // PHASE 1: For modular architecture, generate library modules first
   let moduleFiles: CodeFile[] = [];
@@ -363,7 +382,7 @@ async function generateCLIApp(
   }
 
   // PHASE 2: Generate main CLI file WITH module context
-  const model = selectGenerationModel(plan);
+  const model = selectGenerationModel(plan, options.model);
 
   // Use structured output (guarantees valid JSON)
   const structuredModel = model.withStructuredOutput(CLIAppSchema);
@@ -419,7 +438,7 @@ OUTPUT STRUCTURE:
 - usage: Usage example string (e.g., "python main.py --help")`;
 
   try {
-    const result = await structuredModel.invoke(prompt);
+    const result = await structuredModel.invoke(prompt, { signal: getCancellationSignal() });
 
     // Generate SHORT, descriptive repo name
     const repoName = await generateRepoName(idea, plan);
@@ -572,7 +591,8 @@ OUTPUT STRUCTURE:
  */
 async function generateWebApp(
   plan: CodePlan,
-  idea: { title: string; description: string | null }
+  idea: { title: string; description: string | null },
+  options: GenerationOptions = {}
 ): Promise<{ code: GeneratedCode }> {
   const logger = createLogger({ stage: 'generation-agent' });
 
@@ -595,7 +615,7 @@ async function generateWebApp(
   }
 
   // PHASE 2: Generate main Flask/FastAPI app
-  const model = selectGenerationModel(pythonPlan);
+  const model = selectGenerationModel(pythonPlan, options.model);
   const structuredModel = model.withStructuredOutput(DemoScriptSchema);
 
   const framework = pythonPlan.framework || 'flask';
@@ -633,11 +653,11 @@ OUTPUT STRUCTURE:
 - requiredPackages: Array of packages (e.g., ["flask", "python-dotenv"] or ["fastapi", "uvicorn"])`;
 
   try {
-    const result = await structuredModel.invoke(prompt);
+    const result = await structuredModel.invoke(prompt, { signal: getCancellationSignal() });
 
     if (!result?.code || result.code.trim().length === 0) {
       logger.warn('No code generated for web app, using demo fallback');
-      return generateDemoScript(plan, idea);
+      return generateDemoScript(plan, idea, options);
     }
 
     // Generate repo name
@@ -738,10 +758,11 @@ OUTPUT STRUCTURE:
  */
 async function generateLibrary(
   plan: CodePlan,
-  idea: { title: string; description: string | null }
+  idea: { title: string; description: string | null },
+  options: GenerationOptions = {}
 ): Promise<{ code: GeneratedCode }> {
   // For now, delegate to demo script
-  return generateDemoScript(plan, idea);
+  return generateDemoScript(plan, idea, options);
 }
 
 /**
@@ -752,7 +773,8 @@ async function generateLibrary(
  */
 async function generateDemoScript(
   plan: CodePlan,
-  idea: { title: string; description: string | null }
+  idea: { title: string; description: string | null },
+  options: GenerationOptions = {}
 ): Promise<{ code: GeneratedCode }> {
   // PHASE 1: For modular architecture, generate library modules first
   let moduleFiles: CodeFile[] = [];
@@ -770,7 +792,7 @@ async function generateDemoScript(
   }
 
   // PHASE 2: Generate demo script WITH module context
-  const model = selectGenerationModel(plan);
+  const model = selectGenerationModel(plan, options.model);
 
   const fileName = plan.language === 'python' ? 'demo.py' : 'demo.js';
 
@@ -810,7 +832,7 @@ OUTPUT STRUCTURE:
   const structuredModel = model.withStructuredOutput(DemoScriptSchema);
 
   try {
-    const result = await structuredModel.invoke(prompt);
+    const result = await structuredModel.invoke(prompt, { signal: getCancellationSignal() });
 
     // Fallback: if code is missing, skip this generation
     if (!result?.code || result.code.trim().length === 0) {
@@ -1022,7 +1044,7 @@ Generate now:`;
 
   try {
     // Get structured Readme object from Claude
-    const readmeData = await structuredModel.invoke(prompt);
+    const readmeData = await structuredModel.invoke(prompt, { signal: getCancellationSignal() });
 
     logger.info('Generated structured README', {
       featuresCount: readmeData.features.length,
@@ -1115,7 +1137,7 @@ Respond with ONLY the repo name, nothing else:`;
   const logger = createLogger({ stage: 'generation-agent' });
 
   try {
-    const response = await model.invoke(prompt);
+    const response = await model.invoke(prompt, { signal: getCancellationSignal() });
     let repoName = response.content.toString().trim();
 
     // Clean up the response (remove quotes, extra text)
@@ -0,0 +1,73 @@
+import type { CodeIssue, CodeIteration, CodeVersion, FixRound } from './types';
+
+/**
+ * ITERATION HISTORY
+ *
+ * Regression protection for the critic/fixer loop. Every review is kept as a
+ * version (code + review); the loop returns the best-scoring version, not the
+ * latest one, so a fix that makes things worse is reverted.
+ *
+ * The trace explains each step for the output: its score, which of the
+ * previous review's issues are gone, which are new, and the files changed.
+ */
+
+// Issue lists in the trace - enough to see what a step did
+const MAX_TRACE_ISSUES = 10;
+
+/**
+ * The best version: highest score, then an approved review, then the
+ * latest (it carries more fixes)
+ */
+export function pickBestVersion(versions: CodeVersion[]): CodeVersion | null {
+  return versions.reduce<CodeVersion | null>((best, version) => {
+    if (!best) return version;
+    const scoreDiff = version.review.overallScore - best.review.overallScore;
+    if (scoreDiff !== 0) return scoreDiff > 0 ? version : best;
+    const approved = Number(version.review.recommendation === 'approve') - Number(best.review.recommendation === 'approve');
+    if (approved !== 0) return approved > 0 ? version : best;
+    return version.attempt >= best.attempt ? version : best;
+  }, null);
+}
+
+/**
+ * One trace entry per version, in order
+ */
+export function buildIterationTrace(
+  versions: CodeVersion[],
+  fixHistory: FixRound[],
+  selectedAttempt: number | null
+): CodeIteration[] {
+  return versions.map((version, i) => {
+    const previous = versions[i - 1];
+    const round = fixHistory.find((r) => r.attempt === version.attempt);
+    const currentKeys = new Set(version.review.issues.map(issueKey));
+    const previousKeys = new Set(previous?.review.issues.map(issueKey) ?? []);
+
+    return {
+      attempt: version.attempt,
+      kind: round?.kind ?? (version.attempt === 0 ? 'initial' : 'fix'),
+      score: version.review.overallScore,
+      recommendation: version.review.recommendation,
+      issuesCount: version.review.issues.length,
+      issuesFixed: previous
+        ? previous.review.issues.filter((issue) => !currentKeys.has(issueKey(issue))).map(describeIssue).slice(0, MAX_TRACE_ISSUES)
+        : [],
+      newIssues: previous
+        ? version.review.issues.filter((issue) => !previousKeys.has(issueKey(issue))).map(describeIssue).slice(0, MAX_TRACE_ISSUES)
+        : [],
+      filesChanged: round?.files.filter((change) => change.status !== 'unchanged' && change.diff).map((change) => change.path) ?? [],
+      selected: version.attempt === selectedAttempt,
+    };
+  });
+}
+
+// Line numbers shift between versions, so an issue is identified by its
+// file and message only
+function issueKey(issue: CodeIssue): string {
+  return `${issue.file}|${issue.message.trim().toLowerCase()}`;
+}
+
+function describeIssue(issue: CodeIssue): string {
+  const location = issue.line !== null ? `${issue.file}:${issue.line}` : issue.file;
+  return `[${issue.severity}] ${location}: ${issue.message}`;
+}
@@ -14,6 +14,7 @@
 import { ChatAnthropic } from '@langchain/anthropic';
 import { z } from 'zod';
 import type { CodeFile } from './types';
+import { getCancellationSignal } from '@/lib/utils/cancellation';
 
 /**
  * EXPORT SIGNATURE SCHEMA
@@ -91,7 +92,7 @@ export async function extractModuleSignatures(
   for (const file of moduleFiles) {
     try {
       const prompt = buildExtractionPrompt(file, language);
-      const extracted = await structuredModel.invoke(prompt);
+      const extracted = await structuredModel.invoke(prompt, { signal: getCancellationSignal() });
 
       results.push({
         ...extracted,
@@ -271,6 +272,13 @@ Python extractions should identify:
 - Class definitions (class keyword)
 - Module-level constants (UPPERCASE names)
 Include function signatures with type hints if available.`
+      : language === 'rust'
+      ? `
+Rust extractions should identify:
+- Public functions (pub fn)
+- Public structs and enums (pub struct, pub enum) as classes, with their pub methods from impl blocks
+- Public constants (pub const, pub static)
+Include parameter types and return types.`
       : `
 JavaScript/TypeScript extractions should identify:
 - Exported functions (export function or export const)
@@ -306,13 +314,14 @@ Return structured JSON with all exports.`;
  * - "energy_calc.py" → "energy_calc"
  * - "src/utils.js" → "utils"
  * - "lib/helpers.ts" → "helpers"
+ * - "src/parser.rs" → "parser"
  */
 function extractModuleName(filePath: string): string {
   // Get just the filename
   const filename = filePath.split('/').pop() || filePath;
 
   // Remove extension
-  return filename.replace(/\.(py|js|ts|tsx|jsx)$/, '');
+  return filename.replace(/\.(py|js|ts|tsx|jsx|rs)$/, '');
 }
 
 /**
@@ -348,7 +357,8 @@ export function formatImportStatement(
  * VALIDATE IMPORTS IN GENERATED CODE
  *
  * Checks if generated code imports from available modules
- * (used by critic agent for code review)
+ * (used by critic agent for code review, and by the fix planner after a
+ * cross-file fix: `unknownImports` catches importers of a renamed export)
  *
  * @param code - Generated code string
  * @param modules - Available modules
@@ -361,10 +371,12 @@ export function validateModuleImports(
   usedModules: ModuleContext[];
   missingImports: Array<{ module: ModuleContext; exports: string[] }>;
   inlineImplementations: string[];
+  unknownImports: Array<{ module: ModuleContext; names: string[] }>;
 } {
   const usedModules: ModuleContext[] = [];
   const missingImports: Array<{ module: ModuleContext; exports: string[] }> = [];
   const inlineImplementations: string[] = [];
+  const unknownImports: Array<{ module: ModuleContext; names: string[] }> = [];
 
   for (const module of modules) {
     for (const exp of module.exports) {
@@ -404,13 +416,48 @@ export function validateModuleImports(
     }
   }
 
+  // Names imported from a module that it doesn't export (skipped when
+  // extraction found no exports - that usually means extraction failed)
+  for (const mod of modules) {
+    if (mod.exports.length === 0) continue;
+    const exported = new Set(mod.exports.flatMap(e => [e.name, ...(e.methods?.map(m => m.name) ?? [])]));
+    const names = importedNames(code, mod).filter(name => !exported.has(name));
+    if (names.length > 0) {
+      unknownImports.push({ module: mod, names: [...new Set(names)] });
+    }
+  }
+
   return {
     usedModules,
     missingImports,
     inlineImplementations,
+    unknownImports,
   };
 }
 
+/**
+ * Names imported from a module by name (`from m import a, b as c` or
+ * `import { a, type b } from './m'`); Rust `use` paths are not parsed
+ */
+function importedNames(code: string, module: ModuleContext): string[] {
+  const name = module.moduleName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern =
+    module.language === 'python'
+      ? new RegExp(`^\\s*from\\s+(?:\\.*|[\\w.]*\\.)${name}\\s+import\\s+(\\([^)]*\\)|[^\\n#]+)`, 'gm')
+      : module.language === 'rust'
+      ? null
+      : new RegExp(`import\\s*(?:type\\s*)?\\{([^}]*)\\}\\s*from\\s*['"][^'"]*/${name}(?:\\.[cm]?[jt]sx?)?['"]`, 'g');
+  if (!pattern) return [];
+
+  return [...code.matchAll(pattern)].flatMap(match =>
+    match[1]
+      .replace(/[()\\]/g, '')
+      .split(',')
+      .map(part => part.trim().replace(/^type\s+/, '').split(/\s+as\s+/)[0].trim())
+      .filter(part => part && part !== '*')
+  );
+}
+
 /**
  * EXTRACT DEPENDENCIES FROM CODE
  *
@@ -483,7 +530,7 @@ Rules:
 Return ONLY a JSON object with "dependencies" array.`;
 
   try {
-    const result = await structuredModel.invoke(prompt);
+    const result = await structuredModel.invoke(prompt, { signal: getCancellationSignal() });
     // Return unique, sorted list
     return Array.from(new Set(result.dependencies)).sort();
   } catch (error) {
@@ -11,6 +11,9 @@ import {
   validateModuleImports,
   type ModuleContext,
 } from './module-context-extractor';
+import { getCancellationSignal } from '@/lib/utils/cancellation';
+import { isAnthropicModel, type ModelName } from '@/lib/config/models';
+import type { GenerationOptions } from './generation-agent';
 
 // Schema for generating multiple Python files
 const ModuleFileSchema = z.object({
@@ -116,8 +119,16 @@ type MarkdownBlock = z.infer<typeof MarkdownBlockSchema>;
  * Strategy:
  * - Simple/Modular → Claude Sonnet 4.5 (best code quality, fast)
  * - Complex → O1 with extended thinking (deep reasoning for hard problems)
+ * - A model override (best-of-N candidates) replaces the routing
  */
-function selectGenerationModel(plan: CodePlan): ChatAnthropic | ChatOpenAI {
+function selectGenerationModel(plan: CodePlan, modelOverride?: ModelName): ChatAnthropic | ChatOpenAI {
+  if (modelOverride) {
+    console.log(`  📊 Using ${modelOverride} for this notebook candidate`);
+    return isAnthropicModel(modelOverride)
+      ? new ChatAnthropic({ modelName: modelOverride, temperature: 0.3 })
+      : new ChatOpenAI({ modelName: modelOverride, temperature: 1 }); // Reasoning models only support temperature 1
+  }
+
   switch (plan.modelTier) {
     case 'simple':
     case 'modular':
@@ -148,7 +159,8 @@ function selectGenerationModel(plan: CodePlan): ChatAnthropic | ChatOpenAI {
  */
 export async function generateNotebook(
   plan: CodePlan,
-  idea: { title: string; description: string | null }
+  idea: { title: string; description: string | null },
+  options: GenerationOptions = {}
 ): Promise<{ code: GeneratedCode }> {
   console.log('📓 Generating notebook with atomic schemas...');
 
@@ -180,7 +192,7 @@ export async function generateNotebook(
   console.log(`   📝 PHASE 2: Generating notebook with module context...`);
 
   // Use model selection based on complexity
-  const model = selectGenerationModel(plan);
+  const model = selectGenerationModel(plan, options.model);
 
   // Use structured output with atomic schema
   const structuredModel = model.withStructuredOutput(NotebookGenerationSchema);
@@ -194,7 +206,7 @@ export async function generateNotebook(
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
       console.log(`   📝 Generation attempt ${attempt}/${maxRetries}...`);
-      const result = await structuredModel.invoke(prompt);
+      const result = await structuredModel.invoke(prompt, { signal: getCancellationSignal() });
 
       console.log(`   ✅ Generated ${result.cells.length} cells`);
       console.log(
@@ -587,7 +599,7 @@ CRITICAL: Return exactly ${filePathsToCreate.length} files with the paths listed
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
       console.log(`   📝 Module generation attempt ${attempt}/${maxRetries}...`);
-      const result = await structuredModel.invoke(prompt);
+      const result = await structuredModel.invoke(prompt, { signal: getCancellationSignal() });
 
       // Validate result
       if (!result.files || result.files.length === 0) {
@@ -692,7 +704,7 @@ Generate a professional README that includes:
 Make the README engaging and educational - this is a learning tool!
 Focus on making the project understandable to someone new to the topic.`;
 
-  const readme = await structuredModel.invoke(prompt);
+  const readme = await structuredModel.invoke(prompt, { signal: getCancellationSignal() });
 
   // Validate the structure (Zod will throw if invalid)
   console.log(`  📖 README schema validated`);
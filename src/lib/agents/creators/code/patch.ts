@@ -0,0 +1,209 @@
+import type { CodeFile, FileChange, FileEdit } from './types';
+
+/**
+ * PATCHES
+ *
+ * Applying the fixer's edit operations, and unified diffs for the fix history.
+ *
+ * An edit replaces one exact, unique occurrence of `find`. Edits apply in
+ * order, each to the result of the previous one. An edit whose text is
+ * missing or ambiguous is a conflict - the caller decides what to do, nothing
+ * is guessed (no fuzzy matching).
+ */
+
+export interface EditConflict {
+  index: number; // Position in the edit list
+  reason: 'not_found' | 'ambiguous' | 'empty';
+  find: string;
+}
+
+/**
+ * Apply edits in order; conflicting edits are skipped and reported
+ */
+export function applyEdits(
+  content: string,
+  edits: FileEdit[]
+): { content: string; applied: number; conflicts: EditConflict[] } {
+  let result = content;
+  let applied = 0;
+  const conflicts: EditConflict[] = [];
+
+  edits.forEach((edit, index) => {
+    if (!edit.find) {
+      conflicts.push({ index, reason: 'empty', find: edit.find });
+      return;
+    }
+
+    const first = result.indexOf(edit.find);
+    if (first === -1) {
+      conflicts.push({ index, reason: 'not_found', find: edit.find });
+      return;
+    }
+    if (result.indexOf(edit.find, first + 1) !== -1) {
+      conflicts.push({ index, reason: 'ambiguous', find: edit.find });
+      return;
+    }
+
+    result = result.slice(0, first) + edit.replace + result.slice(first + edit.find.length);
+    applied++;
+  });
+
+  return { content: result, applied, conflicts };
+}
+
+// Above this many line pairs the changed region is shown as a full replacement
+const MAX_DIFF_CELLS = 4_000_000;
+const CONTEXT_LINES = 3;
+
+type DiffLine = { type: ' ' | '-' | '+'; text: string };
+
+/**
+ * Unified diff of two versions of a file (empty string if unchanged)
+ */
+export function createUnifiedDiff(
+  filePath: string,
+  before: string | null,
+  after: string | null
+): { diff: string; additions: number; deletions: number } {
+  const oldLines = before === null ? [] : splitLines(before);
+  const newLines = after === null ? [] : splitLines(after);
+  const lines = diffLines(oldLines, newLines);
+
+  const additions = lines.filter((line) => line.type === '+').length;
+  const deletions = lines.filter((line) => line.type === '-').length;
+  if (additions === 0 && deletions === 0) {
+    return { diff: '', additions, deletions };
+  }
+
+  const header = [
+    `--- ${before === null ? '/dev/null' : `a/${filePath}`}`,
+    `+++ ${after === null ? '/dev/null' : `b/${filePath}`}`,
+  ];
+  return { diff: [...header, ...formatHunks(lines)].join('\n'), additions, deletions };
+}
+
+/**
+ * Per-file changes between two versions of a project (e.g. a regeneration)
+ */
+export function diffFiles(before: CodeFile[], after: CodeFile[]): FileChange[] {
+  const paths = [...new Set([...before.map((file) => file.path), ...after.map((file) => file.path)])];
+
+  return paths.flatMap((path): FileChange[] => {
+    const oldFile = before.find((file) => file.path === path);
+    const newFile = after.find((file) => file.path === path);
+    const { diff, additions, deletions } = createUnifiedDiff(path, oldFile?.content ?? null, newFile?.content ?? null);
+    if (!diff) return [];
+
+    const status = !oldFile ? 'added' : !newFile ? 'removed' : 'regenerated';
+    return [{ path, status, diff, additions, deletions, conflicts: [] }];
+  });
+}
+
+function splitLines(text: string): string[] {
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Line diff: common prefix/suffix, then LCS on the changed middle
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  let start = 0;
+  while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+    start++;
+  }
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const same = (text: string): DiffLine => ({ type: ' ', text });
+  return [
+    ...oldLines.slice(0, start).map(same),
+    ...diffMiddle(oldLines.slice(start, oldEnd), newLines.slice(start, newEnd)),
+    ...oldLines.slice(oldEnd).map(same),
+  ];
+}
+
+function diffMiddle(a: string[], b: string[]): DiffLine[] {
+  const removed = a.map((text): DiffLine => ({ type: '-', text }));
+  const added = b.map((text): DiffLine => ({ type: '+', text }));
+  if (a.length === 0 || b.length === 0 || a.length * b.length > MAX_DIFF_CELLS) {
+    return [...removed, ...added];
+  }
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..], flattened
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: ' ', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      result.push({ type: '-', text: a[i++] });
+    } else {
+      result.push({ type: '+', text: b[j++] });
+    }
+  }
+  while (i < a.length) result.push({ type: '-', text: a[i++] });
+  while (j < b.length) result.push({ type: '+', text: b[j++] });
+  return result;
+}
+
+/**
+ * Group changes into hunks with CONTEXT_LINES of context
+ */
+function formatHunks(lines: DiffLine[]): string[] {
+  const output: string[] = [];
+  const changed = lines.map((line) => line.type !== ' ');
+
+  let index = 0;
+  while (index < lines.length) {
+    if (!changed[index]) {
+      index++;
+      continue;
+    }
+
+    // Extend the hunk while the next change is within 2 * context lines
+    const start = Math.max(0, index - CONTEXT_LINES);
+    let end = index;
+    while (end < lines.length) {
+      if (changed[end]) {
+        end++;
+        continue;
+      }
+      const nextChange = changed.indexOf(true, end);
+      if (nextChange === -1 || nextChange - end > CONTEXT_LINES * 2) break;
+      end = nextChange;
+    }
+    end = Math.min(lines.length, end + CONTEXT_LINES);
+
+    const hunk = lines.slice(start, end);
+    const before = lines.slice(0, start);
+    const oldStart = before.filter((line) => line.type !== '+').length + 1;
+    const newStart = before.filter((line) => line.type !== '-').length + 1;
+    const oldCount = hunk.filter((line) => line.type !== '+').length;
+    const newCount = hunk.filter((line) => line.type !== '-').length;
+
+    output.push(`@@ -${oldCount === 0 ? oldStart - 1 : oldStart},${oldCount} +${newCount === 0 ? newStart - 1 : newStart},${newCount} @@`);
+    output.push(...hunk.map((line) => `${line.type}${line.text}`));
+    index = end;
+  }
+
+  return output;
+}
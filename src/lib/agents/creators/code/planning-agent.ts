@@ -1,9 +1,11 @@
 import { ChatOpenAI } from '@langchain/openai';
 import type { CodePlan } from './types';
+import type { ExpansionConstraints } from '../../types';
 import { buildCodePlanningPrompt } from '../../prompts/code-planning-prompt';
 import { z } from 'zod';
 import { createLogger } from '@/lib/logging/logger';
 import { MODEL_USE_CASES } from '@/lib/config/models';
+import { getCancellationSignal } from '@/lib/utils/cancellation';
 
 /**
  * PLANNING AGENT (Structured Outputs)
@@ -80,11 +82,14 @@ const CodePlanSchema = z.object({
 
 type CodePlanOutput = z.infer<typeof CodePlanSchema>;
 
-export async function planCodeProject(idea: {
-  id: string;
-  title: string;
-  description: string | null;
-}): Promise<{ plan: CodePlan }> {
+export async function planCodeProject(
+  idea: {
+    id: string;
+    title: string;
+    description: string | null;
+  },
+  constraints: ExpansionConstraints = {}
+): Promise<{ plan: CodePlan }> {
   const logger = createLogger({
     ideaId: idea.id,
     stage: 'planning-agent',
@@ -92,6 +97,7 @@ export async function planCodeProject(idea: {
 
   logger.info('Planning code project', {
     ideaTitle: idea.title,
+    constraints,
   });
 
   const model = new ChatOpenAI({
@@ -102,10 +108,10 @@ export async function planCodeProject(idea: {
   // Use structured output (guarantees valid JSON matching our schema)
   const structuredModel = model.withStructuredOutput(CodePlanSchema);
 
-  const prompt = buildCodePlanningPrompt(idea);
+  const prompt = buildCodePlanningPrompt(idea, constraints);
 
   try {
-    const result = await structuredModel.invoke(prompt);
+    const result = await structuredModel.invoke(prompt, { signal: getCancellationSignal() });
 
     logger.info('Planning complete', {
       outputType: result.outputType,
@@ -117,11 +123,24 @@ export async function planCodeProject(idea: {
     });
 
     // Convert to CodePlan (handle nullable framework)
+    // The model may ignore a requirement - constraints always win
     const plan: CodePlan = {
       ...result,
       framework: result.framework || undefined,
+      language: constraints.language ?? result.language,
+      outputType: constraints.outputType ?? result.outputType,
     };
 
+    if (
+      (constraints.language && constraints.language !== result.language) ||
+      (constraints.outputType && constraints.outputType !== result.outputType)
+    ) {
+      logger.warn('Plan ignored user constraints, overriding', {
+        planned: { language: result.language, outputType: result.outputType },
+        constraints,
+      });
+    }
+
     return {
       plan,
     };
@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import { test } from 'node:test';
+import type { CodePlan, GeneratedCode } from './types';
+
+/**
+ * Notebook execution on a real Jupyter kernel - skipped unless python3 can
+ * import nbclient and ipykernel (the sandbox's venv reuses them).
+ */
+
+const hasJupyter = spawnSync('python3', ['-c', 'import nbclient, ipykernel'], { stdio: 'ignore' }).status === 0;
+
+function notebook(cells: string[]): string {
+  return JSON.stringify({
+    nbformat: 4,
+    nbformat_minor: 5,
+    metadata: { kernelspec: { name: 'python3', display_name: 'Python 3', language: 'python' } },
+    cells: cells.map((source) => ({ cell_type: 'code', metadata: {}, execution_count: null, outputs: [], source })),
+  });
+}
+
+test('a notebook that prints more than the output limit still reports its run', { skip: !hasJupyter && 'no Jupyter kernel' }, async () => {
+  process.env.CODE_SANDBOX = 'on';
+  const { runNotebookInSandbox } = await import('./sandbox-runner');
+  const { SANDBOX_CONFIG } = await import('@/lib/config/sandbox');
+
+  const code = {
+    repoName: 'loud-notebook',
+    description: 'Prints a lot',
+    files: [
+      {
+        path: 'analysis.ipynb',
+        content: notebook(["for i in range(5000):\n    print(f'line {i:05d} ' + 'x' * 40)", "print('done')"]),
+      },
+    ],
+    setupInstructions: '',
+    runInstructions: '',
+    type: 'python',
+    outputType: 'notebook',
+  } satisfies GeneratedCode;
+  const plan = { language: 'python', outputType: 'notebook' } as CodePlan;
+
+  const { execution, notebook: executed } = await runNotebookInSandbox(code, plan);
+
+  assert.equal(execution.status, 'passed', execution.reason);
+  assert.equal(execution.notebook?.executedCells, 2);
+  assert.ok(execution.stdout.endsWith('done\n'));
+  assert.ok(execution.stdout.length <= SANDBOX_CONFIG.maxOutputChars + 20);
+  assert.match(executed?.content ?? '', /line 04999/);
+});
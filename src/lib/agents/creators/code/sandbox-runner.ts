@@ -0,0 +1,768 @@
+import { spawn } from 'child_process';
+import { mkdtemp, mkdir, readFile, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { CodePlan, GeneratedCode, CodeFile, ExecutionResult, TestSuite } from './types';
+import { SANDBOX_CONFIG } from '@/lib/config/sandbox';
+import { createLogger } from '@/lib/logging/logger';
+import { CancelledError, getCancellationSignal, throwIfCancelled } from '@/lib/utils/cancellation';
+
+/**
+ * SANDBOX RUNNER
+ *
+ * Purpose: Actually run the generated code before the critic reviews it
+ *
+ * Steps:
+ * 1. Write the files to a throwaway directory
+ * 2. Install dependencies into it (venv + pip, npm install, cargo build)
+ * 3. Run the program: the command from runInstructions, or the main entry
+ * 4. Run the generated test suite, if any (pytest, vitest / jest, cargo test)
+ * 5. Capture stdout, stderr, the exit code and test counts, then delete the directory
+ *
+ * Limits (see config/sandbox.ts):
+ * - Time: install and run each have a timeout; the whole process group is killed
+ * - Memory: address space limit (ulimit -v), V8 heap limit for Node
+ * - Environment: PATH and a temp HOME only - no API keys reach the program
+ *
+ * Commands from runInstructions are only used if they start with a known
+ * runner for the language (python, node, npm, npx, cargo) and contain no
+ * shell operators; everything runs without a shell.
+ *
+ * Off unless CODE_SANDBOX=on: this is not a security boundary (see
+ * config/sandbox.ts), so enable it only in an isolated worker.
+ *
+ * Web apps are servers: still running at the timeout counts as passed.
+ * Notebooks run through runNotebookInSandbox: cell by cell on a local
+ * Jupyter kernel, returning the notebook with its outputs embedded.
+ */
+
+interface ProcessResult {
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+  missingBinary: boolean; // The runner itself isn't installed (e.g. no python3)
+  durationMs: number;
+}
+
+interface RunStep {
+  command: string;
+  args: string[];
+}
+
+const RUNNERS: Record<CodePlan['language'], string[]> = {
+  python: ['python', 'python3'],
+  javascript: ['node', 'npm', 'npx'],
+  typescript: ['node', 'npm', 'npx'],
+  rust: ['cargo'],
+};
+
+// Package names we pass to pip/npm - anything else is dropped
+const PACKAGE_NAME = /^[A-Za-z0-9@][A-Za-z0-9@/_.\-[\]=<>!~^]*$/;
+
+export async function runInSandbox(
+  code: GeneratedCode,
+  plan: CodePlan
+): Promise<ExecutionResult> {
+  const logger = createLogger({ stage: 'sandbox-runner' });
+
+  if (!SANDBOX_CONFIG.enabled) {
+    return skipped('Sandbox disabled (set CODE_SANDBOX=on to run generated code)');
+  }
+
+  if (plan.outputType === 'notebook') {
+    return skipped('Notebooks are executed by runNotebookInSandbox');
+  }
+
+  const dir = await mkdtemp(path.join(os.tmpdir(), 'idea-sandbox-'));
+  logger.info('Running generated code in sandbox', {
+    language: plan.language,
+    outputType: plan.outputType,
+    filesCount: code.files.length,
+  });
+
+  try {
+    await writeFiles(dir, code);
+
+    const env = sandboxEnv(dir, plan.language);
+
+    // STEP 1: INSTALL
+    const { install, failure } = await installDependencies(installSteps(code, plan, dir), dir, env);
+    if (failure) return failure;
+
+    // STEP 2: RUN
+    const run = runStep(code, plan, dir);
+    if (!run) {
+      const tests = await runTests(code, plan, dir, env);
+      return { ...skipped('No runnable entry point found'), install, tests };
+    }
+
+    const result = await runProcess(withMemoryLimit(run, plan.language), dir, env, SANDBOX_CONFIG.runTimeoutMs);
+    const command = formatCommand(run, dir);
+
+    if (result.missingBinary) {
+      return { ...skipped(`${run.command} is not available on this server`), install };
+    }
+
+    // STEP 3: TESTS
+    const tests = await runTests(code, plan, dir, env);
+
+    const longRunning = plan.outputType === 'web-app';
+    const status: ExecutionResult['status'] = result.timedOut
+      ? longRunning ? 'passed' : 'timeout'
+      : result.exitCode === 0 ? 'passed' : 'failed';
+
+    logger.info('Sandbox run complete', {
+      command,
+      status,
+      exitCode: result.exitCode,
+      durationMs: result.durationMs,
+      tests: tests && { status: tests.status, passed: tests.passed, failed: tests.failed },
+    });
+
+    return {
+      status,
+      command,
+      exitCode: result.exitCode,
+      stdout: relativePaths(result.stdout, dir),
+      stderr: relativePaths(result.stderr, dir),
+      durationMs: result.durationMs,
+      install,
+      tests,
+      ...(result.timedOut && {
+        reason: longRunning
+          ? `Server still running after ${SANDBOX_CONFIG.runTimeoutMs / 1000}s (no crash)`
+          : `Timed out after ${SANDBOX_CONFIG.runTimeoutMs / 1000}s`,
+      }),
+      ...(status === 'failed' && { reason: `Exited with code ${result.exitCode}` }),
+    };
+  } finally {
+    await rm(dir, { recursive: true, force: true }).catch((error) => {
+      logger.warn('Failed to clean up sandbox', { dir, error: error instanceof Error ? error.message : String(error) });
+    });
+  }
+}
+
+/**
+ * Execute a generated notebook cell by cell on a local Jupyter kernel
+ *
+ * Returns the execution result and the notebook to keep: with all outputs
+ * (stdout, rich outputs, images) embedded if every cell ran, with outputs
+ * cleared otherwise - a published notebook never shows a stale or failed run.
+ */
+export async function runNotebookInSandbox(
+  code: GeneratedCode,
+  plan: CodePlan
+): Promise<{ execution: ExecutionResult; notebook: CodeFile | null }> {
+  const logger = createLogger({ stage: 'sandbox-runner' });
+  const notebookFile = code.files.find((file) => file.path.endsWith('.ipynb'));
+
+  if (!notebookFile) {
+    return { execution: skipped('No notebook found'), notebook: null };
+  }
+  if (!SANDBOX_CONFIG.enabled || !SANDBOX_CONFIG.notebooks) {
+    return { execution: skipped('Notebook execution disabled (CODE_SANDBOX / CODE_SANDBOX_NOTEBOOKS)'), notebook: null };
+  }
+
+  const dir = await mkdtemp(path.join(os.tmpdir(), 'idea-sandbox-'));
+  logger.info('Executing notebook in sandbox', { path: notebookFile.path, filesCount: code.files.length });
+
+  const cleared = { ...notebookFile, content: clearNotebookOutputs(notebookFile.content) };
+
+  try {
+    await writeFiles(dir, code);
+    const env = sandboxEnv(dir, plan.language);
+    const python = path.join(dir, '.venv', 'bin', 'python');
+    const pip = path.join(dir, '.venv', 'bin', 'pip');
+
+    // STEP 1: INSTALL - system site packages, so a Jupyter install on the server is reused
+    const { install, failure } = await installDependencies(
+      [
+        { command: 'python3', args: ['-m', 'venv', '--system-site-packages', '.venv'] },
+        ...(hasFile(code, 'requirements.txt')
+          ? [{ command: pip, args: ['install', '--quiet', '-r', 'requirements.txt'] }]
+          : []),
+      ],
+      dir,
+      env
+    );
+    if (failure) return { execution: failure, notebook: cleared };
+
+    // The kernel itself isn't the project's dependency - missing tooling means skipped
+    const tooling = await runProcess(
+      { command: pip, args: ['install', '--quiet', 'nbclient', 'ipykernel'] },
+      dir,
+      env,
+      SANDBOX_CONFIG.installTimeoutMs
+    );
+    if (tooling.exitCode !== 0) {
+      return {
+        execution: { ...skipped('Jupyter kernel not available (nbclient / ipykernel could not be installed)'), install },
+        notebook: cleared,
+      };
+    }
+
+    // STEP 2: EXECUTE
+    const executedPath = '.executed.ipynb';
+    const summaryPath = '.notebook-summary.json';
+    const run: RunStep = {
+      command: python,
+      args: [
+        '-c',
+        NOTEBOOK_EXECUTOR,
+        notebookFile.path,
+        executedPath,
+        summaryPath,
+        String(SANDBOX_CONFIG.notebookCellTimeoutMs / 1000),
+        String(SANDBOX_CONFIG.maxOutputChars),
+      ],
+    };
+    const result = await runProcess(withMemoryLimit(run, plan.language), dir, env, SANDBOX_CONFIG.notebookTimeoutMs);
+    const command = `nbclient ${notebookFile.path} (python3 kernel)`;
+
+    // A file, not stdout: stdout is clipped, and a notebook can print a lot
+    let summary: NotebookRunSummary | null = null;
+    try {
+      summary = JSON.parse(await readFile(path.join(dir, summaryPath), 'utf8'));
+    } catch {
+      // Executor crashed before reporting - use stderr below
+    }
+
+    if (!summary) {
+      return {
+        execution: {
+          status: result.timedOut ? 'timeout' : 'failed',
+          command,
+          exitCode: result.exitCode,
+          stdout: '',
+          stderr: relativePaths(result.stderr, dir),
+          durationMs: result.durationMs,
+          install,
+          reason: result.timedOut
+            ? `Notebook timed out after ${SANDBOX_CONFIG.notebookTimeoutMs / 1000}s`
+            : 'Notebook executor failed',
+        },
+        notebook: cleared,
+      };
+    }
+
+    const failedCell = summary.failedCell && {
+      ...summary.failedCell,
+      traceback: relativePaths(summary.failedCell.traceback, dir),
+    };
+    const status: ExecutionResult['status'] = summary.status;
+
+    const execution: ExecutionResult = {
+      status,
+      command,
+      exitCode: result.exitCode,
+      stdout: clip(summary.stdout),
+      stderr: failedCell
+        ? clip(`Cell ${failedCell.number} of ${notebookFile.path} raised ${failedCell.ename}: ${failedCell.evalue}\n${failedCell.traceback}`)
+        : relativePaths(result.stderr, dir),
+      durationMs: result.durationMs,
+      install,
+      notebook: {
+        path: notebookFile.path,
+        codeCells: summary.codeCells,
+        executedCells: summary.executedCells,
+        failedCell,
+      },
+      ...(failedCell && {
+        reason: `Cell ${failedCell.number} failed (${failedCell.ename})`,
+      }),
+    };
+
+    logger.info('Notebook execution complete', {
+      status,
+      executedCells: summary.executedCells,
+      codeCells: summary.codeCells,
+      failedCell: failedCell?.number,
+    });
+
+    if (status !== 'passed') {
+      return { execution, notebook: cleared };
+    }
+
+    const executed = await readFile(path.join(dir, executedPath), 'utf8');
+    if (executed.length > SANDBOX_CONFIG.maxNotebookBytes) {
+      logger.warn('Executed notebook too large, keeping it without outputs', { bytes: executed.length });
+      return { execution, notebook: cleared };
+    }
+
+    return { execution, notebook: { ...notebookFile, content: relativePaths(executed, dir) } };
+  } finally {
+    await rm(dir, { recursive: true, force: true }).catch((error) => {
+      logger.warn('Failed to clean up sandbox', { dir, error: error instanceof Error ? error.message : String(error) });
+    });
+  }
+}
+
+/**
+ * What the notebook executor writes to its summary file
+ */
+interface NotebookRunSummary {
+  status: 'passed' | 'failed' | 'timeout';
+  codeCells: number;
+  executedCells: number;
+  stdout: string;
+  failedCell: NonNullable<NonNullable<ExecutionResult['notebook']>['failedCell']> | null;
+}
+
+/**
+ * argv: notebook path, output path, summary path, cell timeout (s), max
+ * stdout chars
+ *
+ * Runs every code cell in order with nbclient and stops at the first error;
+ * outputs (streams, rich display data, images) are embedded by nbclient.
+ */
+const NOTEBOOK_EXECUTOR = String.raw`
+import json, re, sys
+import nbformat
+from nbclient import NotebookClient
+from nbclient.exceptions import CellExecutionError, CellTimeoutError, DeadKernelError
+
+source_path, output_path, summary_path = sys.argv[1], sys.argv[2], sys.argv[3]
+cell_timeout, max_stdout = int(float(sys.argv[4])), int(sys.argv[5])
+ansi = re.compile(r"\[[0-9;]*[A-Za-z]")
+
+nb = nbformat.read(source_path, as_version=4)
+client = NotebookClient(nb, timeout=cell_timeout, kernel_name="python3",
+    resources={"metadata": {"path": "."}}, allow_errors=False)
+
+code_cells = [i for i, c in enumerate(nb.cells) if c.cell_type == "code"]
+summary = {"status": "passed", "codeCells": len(code_cells), "executedCells": 0, "stdout": "", "failedCell": None}
+printed = []
+
+def text_of(cell):
+    parts = []
+    for out in cell.get("outputs", []):
+        if out.get("output_type") == "stream":
+            parts.append(out.get("text", ""))
+        elif out.get("output_type") in ("execute_result", "display_data"):
+            data = out.get("data", {})
+            parts.append(data.get("text/plain", "[" + ", ".join(data.keys()) + "]") + "\n")
+    return "".join(parts)
+
+def fail(index, status, ename, evalue, traceback):
+    summary["status"] = status
+    summary["failedCell"] = {
+        "index": index,
+        "number": code_cells.index(index) + 1,
+        "source": nb.cells[index].source,
+        "ename": ename,
+        "evalue": ansi.sub("", evalue),
+        "traceback": ansi.sub("", traceback),
+    }
+
+try:
+    with client.setup_kernel():
+        for index in code_cells:
+            cell = nb.cells[index]
+            try:
+                client.execute_cell(cell, index)
+            except CellTimeoutError as e:
+                fail(index, "timeout", "CellTimeoutError", "Cell did not finish in %ss" % cell_timeout, str(e))
+                break
+            except CellExecutionError:
+                err = next((o for o in cell.outputs if o.get("output_type") == "error"), {})
+                fail(index, "failed", err.get("ename", "Error"), err.get("evalue", ""), "\n".join(err.get("traceback", [])))
+                break
+            except DeadKernelError as e:
+                fail(index, "failed", "DeadKernelError", "The kernel died (out of memory?)", str(e))
+                break
+            summary["executedCells"] += 1
+            printed.append(text_of(cell))
+finally:
+    nbformat.write(nb, output_path)
+
+summary["stdout"] = "".join(printed)[-max_stdout:]
+with open(summary_path, "w") as f:
+    json.dump(summary, f)
+sys.exit(0 if summary["status"] == "passed" else 1)
+`;
+
+/**
+ * The notebook without outputs or execution counts
+ */
+function clearNotebookOutputs(content: string): string {
+  try {
+    const notebook = JSON.parse(content);
+    for (const cell of notebook.cells ?? []) {
+      if (cell.cell_type === 'code') {
+        cell.outputs = [];
+        cell.execution_count = null;
+      }
+    }
+    return JSON.stringify(notebook, null, 2);
+  } catch {
+    return content; // Not valid JSON - leave it to the static analyzer
+  }
+}
+
+/**
+ * Run the install steps in order, stopping at the first failure
+ */
+async function installDependencies(
+  steps: RunStep[],
+  dir: string,
+  env: NodeJS.ProcessEnv
+): Promise<{ install: ExecutionResult['install']; failure: ExecutionResult | null }> {
+  let install: ExecutionResult['install'] = null;
+
+  for (const step of steps) {
+    const result = await runProcess(step, dir, env, SANDBOX_CONFIG.installTimeoutMs);
+    install = { command: formatCommand(step, dir), exitCode: result.exitCode, stderr: relativePaths(result.stderr, dir) };
+
+    if (result.missingBinary) {
+      return { install, failure: skipped(`${step.command} is not available on this server`) };
+    }
+    if (result.exitCode !== 0) {
+      createLogger({ stage: 'sandbox-runner' }).warn('Dependency installation failed', {
+        command: install.command,
+        exitCode: result.exitCode,
+      });
+      return {
+        install,
+        failure: {
+          status: 'install_failed',
+          command: null,
+          exitCode: null,
+          stdout: '',
+          stderr: '',
+          durationMs: result.durationMs,
+          install,
+          reason: result.timedOut
+            ? `Install timed out after ${SANDBOX_CONFIG.installTimeoutMs / 1000}s`
+            : `Install exited with code ${result.exitCode}`,
+        },
+      };
+    }
+  }
+
+  return { install, failure: null };
+}
+
+function skipped(reason: string): ExecutionResult {
+  return {
+    status: 'skipped',
+    command: null,
+    exitCode: null,
+    stdout: '',
+    stderr: '',
+    durationMs: 0,
+    install: null,
+    reason,
+  };
+}
+
+/**
+ * Write the project files, refusing paths that escape the sandbox
+ */
+async function writeFiles(dir: string, code: GeneratedCode): Promise<void> {
+  for (const file of code.files) {
+    const target = path.resolve(dir, file.path);
+    if (!target.startsWith(dir + path.sep)) {
+      throw new Error(`Refusing to write file outside the sandbox: ${file.path}`);
+    }
+    await mkdir(path.dirname(target), { recursive: true });
+    await writeFile(target, file.content);
+  }
+}
+
+function hasFile(code: GeneratedCode, filePath: string): boolean {
+  return code.files.some((file) => file.path === filePath);
+}
+
+function sandboxEnv(dir: string, language: CodePlan['language']): NodeJS.ProcessEnv {
+  const venvBin = path.join(dir, '.venv', 'bin');
+  return {
+    PATH: language === 'python' ? `${venvBin}:${process.env.PATH}` : process.env.PATH,
+    HOME: dir,
+    LANG: 'C.UTF-8',
+    CI: '1',
+    PYTHONUNBUFFERED: '1',
+    NODE_ENV: 'development', // npm install must include devDependencies (tsx, ts-node)
+    ...(language === 'python' && { VIRTUAL_ENV: path.join(dir, '.venv') }),
+    ...((language === 'javascript' || language === 'typescript') && {
+      NODE_OPTIONS: `--max-old-space-size=${SANDBOX_CONFIG.memoryMb}`,
+    }),
+    // rustup finds its toolchains relative to the real home, not the sandbox's
+    ...(language === 'rust' && {
+      RUSTUP_HOME: process.env.RUSTUP_HOME || path.join(os.homedir(), '.rustup'),
+      CARGO_HOME: process.env.CARGO_HOME || path.join(os.homedir(), '.cargo'),
+    }),
+  };
+}
+
+/**
+ * Dependency installation, in order
+ */
+function installSteps(code: GeneratedCode, plan: CodePlan, dir: string): RunStep[] {
+  const packages = (code.dependencies?.packages ?? []).filter((pkg) => PACKAGE_NAME.test(pkg));
+
+  switch (plan.language) {
+    case 'python': {
+      const pip = path.join(dir, '.venv', 'bin', 'pip');
+      const steps: RunStep[] = [{ command: 'python3', args: ['-m', 'venv', '.venv'] }];
+      if (hasFile(code, 'requirements.txt')) {
+        steps.push({ command: pip, args: ['install', '--quiet', '-r', 'requirements.txt'] });
+      } else if (packages.length > 0) {
+        steps.push({ command: pip, args: ['install', '--quiet', ...packages] });
+      }
+      return steps;
+    }
+    case 'javascript':
+    case 'typescript':
+      if (hasFile(code, 'package.json')) {
+        return [{ command: 'npm', args: ['install', '--ignore-scripts', '--no-audit', '--no-fund'] }];
+      }
+      return packages.length > 0
+        ? [{ command: 'npm', args: ['install', '--ignore-scripts', '--no-audit', '--no-fund', ...packages] }]
+        : [];
+    case 'rust':
+      return hasFile(code, 'Cargo.toml') ? [{ command: 'cargo', args: ['build', '--quiet'] }] : [];
+  }
+}
+
+/**
+ * The command to run: from runInstructions if safe, else the main entry
+ */
+function runStep(code: GeneratedCode, plan: CodePlan, dir: string): RunStep | null {
+  const fromInstructions = commandFromInstructions(code.runInstructions, plan.language);
+  if (fromInstructions) {
+    return plan.language === 'python' && fromInstructions.command.startsWith('python')
+      ? { command: path.join(dir, '.venv', 'bin', 'python'), args: fromInstructions.args }
+      : fromInstructions;
+  }
+
+  const firstExisting = (candidates: string[]) => candidates.find((file) => hasFile(code, file));
+
+  switch (plan.language) {
+    case 'python': {
+      const entry =
+        firstExisting(['main.py', 'app.py', 'src/main.py', '__main__.py']) ??
+        code.files.find((file) => file.path.endsWith('.py') && file.content.includes('__main__'))?.path;
+      return entry ? { command: path.join(dir, '.venv', 'bin', 'python'), args: [entry] } : null;
+    }
+    case 'javascript': {
+      if (hasStartScript(code)) return { command: 'npm', args: ['start'] };
+      const entry = firstExisting(['index.js', 'main.js', 'src/index.js', 'src/main.js']);
+      return entry ? { command: 'node', args: [entry] } : null;
+    }
+    case 'typescript': {
+      if (hasStartScript(code)) return { command: 'npm', args: ['start'] };
+      const entry = firstExisting(['index.ts', 'main.ts', 'src/index.ts', 'src/main.ts']);
+      return entry ? { command: 'npx', args: ['--yes', 'tsx', entry] } : null;
+    }
+    case 'rust':
+      return hasFile(code, 'Cargo.toml') ? { command: 'cargo', args: ['run', '--quiet'] } : null;
+  }
+}
+
+function hasStartScript(code: GeneratedCode): boolean {
+  const pkg = code.files.find((file) => file.path === 'package.json');
+  if (!pkg) return false;
+  try {
+    return !!JSON.parse(pkg.content).scripts?.start;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * First line of runInstructions that is a plain command for a known runner
+ */
+function commandFromInstructions(runInstructions: string, language: CodePlan['language']): RunStep | null {
+  for (const rawLine of runInstructions.split('\n')) {
+    const line = rawLine.trim().replace(/^[$>]\s*/, '').replace(/^`+|`+$/g, '').trim();
+    if (!line || /[|&;<>`$()]/.test(line)) continue;
+
+    const [command, ...args] = line.match(/"[^"]*"|'[^']*'|\S+/g) ?? [];
+    if (!command || !RUNNERS[language].includes(command)) continue;
+
+    return { command, args: args.map((arg) => arg.replace(/^["']|["']$/g, '')) };
+  }
+  return null;
+}
+
+/**
+ * Run the generated test suite (null if there is none or its runner is missing)
+ */
+async function runTests(
+  code: GeneratedCode,
+  plan: CodePlan,
+  dir: string,
+  env: NodeJS.ProcessEnv
+): Promise<ExecutionResult['tests']> {
+  if (!code.tests) return null;
+
+  const { framework } = code.tests;
+  const step: RunStep = {
+    pytest: { command: path.join(dir, '.venv', 'bin', 'python'), args: ['-m', 'pytest', '-q', '-p', 'no:cacheprovider'] },
+    vitest: { command: 'npx', args: ['--no-install', 'vitest', 'run'] },
+    jest: { command: 'npx', args: ['--no-install', 'jest', '--ci'] },
+    cargo: { command: 'cargo', args: ['test'] },
+  }[framework];
+
+  // cargo test compiles the test harness first - rustc needs more than the program
+  const limited = framework === 'cargo' ? step : withMemoryLimit(step, plan.language);
+  const result = await runProcess(limited, dir, env, SANDBOX_CONFIG.testTimeoutMs);
+  if (result.missingBinary) return null;
+
+  const output = clip(relativePaths(`${result.stdout}\n${result.stderr}`.trim(), dir));
+  const counts = parseTestCounts(framework, output);
+
+  return {
+    framework,
+    command: formatCommand(step, dir),
+    status: result.timedOut
+      ? 'timeout'
+      : result.exitCode === 0 ? 'passed' : counts.failed > 0 ? 'failed' : 'error',
+    ...counts,
+    exitCode: result.exitCode,
+    output,
+  };
+}
+
+// Summary lines of each test runner, e.g.
+// pytest: "1 failed, 3 passed in 0.12s"        vitest: "Tests  1 failed | 3 passed (4)"
+// jest:   "Tests:  1 failed, 3 passed, 4 total" cargo:  "test result: FAILED. 3 passed; 1 failed; 0 ignored"
+const TEST_SUMMARY: Record<TestSuite['framework'], RegExp> = {
+  pytest: /^=*\s*\d+ (passed|failed|errors?|skipped).* in [\d.]+s/gm,
+  vitest: /^\s*Tests\s+\d+ .*$/gm,
+  jest: /^Tests:\s+.*$/gm,
+  cargo: /^test result: .*$/gm,
+};
+
+/**
+ * Passed / failed / skipped counts from the runner's summary (errors count as failed)
+ */
+function parseTestCounts(
+  framework: TestSuite['framework'],
+  output: string
+): { passed: number; failed: number; skipped: number } {
+  const counts = { passed: 0, failed: 0, skipped: 0 };
+  const plain = output.replace(/\x1b\[[0-9;]*m/g, '');
+
+  // pytest prints one summary; cargo one per test binary (sum them)
+  const lines = plain.match(TEST_SUMMARY[framework]) ?? [];
+  for (const line of framework === 'cargo' ? lines : lines.slice(-1)) {
+    for (const [, count, kind] of line.matchAll(/(\d+) (passed|failed|errors?|skipped|ignored)/g)) {
+      const key = kind === 'passed' ? 'passed' : kind === 'skipped' || kind === 'ignored' ? 'skipped' : 'failed';
+      counts[key] += Number(count);
+    }
+  }
+  return counts;
+}
+
+/**
+ * Apply the address space limit (Node gets a heap limit via NODE_OPTIONS instead)
+ */
+function withMemoryLimit(step: RunStep, language: CodePlan['language']): RunStep {
+  if (language === 'javascript' || language === 'typescript') return step;
+  const limitKb = SANDBOX_CONFIG.memoryMb * 1024;
+  return {
+    command: 'sh',
+    args: ['-c', `ulimit -v ${limitKb} && exec "$@"`, 'sh', step.command, ...step.args],
+  };
+}
+
+function formatCommand(step: RunStep, dir: string): string {
+  return relativePaths([step.command, ...step.args].join(' '), dir);
+}
+
+/**
+ * Strip the sandbox directory, so tracebacks name project paths ("src/app.py")
+ */
+function relativePaths(text: string, dir: string): string {
+  return text.split(dir + path.sep).join('');
+}
+
+/**
+ * Keep the tail of the output - errors and tracebacks are at the end
+ */
+function clip(text: string): string {
+  const max = SANDBOX_CONFIG.maxOutputChars;
+  return text.length > max ? `... (truncated)\n${text.slice(-max)}` : text;
+}
+
+/**
+ * Run one process with a timeout, killing its whole process group
+ */
+function runProcess(
+  step: RunStep,
+  cwd: string,
+  env: NodeJS.ProcessEnv,
+  timeoutMs: number
+): Promise<ProcessResult> {
+  throwIfCancelled();
+  const signal = getCancellationSignal();
+  const startTime = Date.now();
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(step.command, step.args, {
+      cwd,
+      env,
+      detached: true, // Own process group, so the timeout kills grandchildren too
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+
+    let stdout = '';
+    let stderr = '';
+    let timedOut = false;
+
+    const killGroup = () => {
+      try {
+        if (child.pid) process.kill(-child.pid, 'SIGKILL');
+      } catch {
+        // Already exited
+      }
+    };
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      killGroup();
+    }, timeoutMs);
+
+    const onAbort = () => killGroup();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    child.stdout.on('data', (chunk) => {
+      stdout = (stdout + chunk).slice(-SANDBOX_CONFIG.maxOutputChars * 2);
+    });
+    child.stderr.on('data', (chunk) => {
+      stderr = (stderr + chunk).slice(-SANDBOX_CONFIG.maxOutputChars * 2);
+    });
+
+    const finish = (result: Omit<ProcessResult, 'durationMs'>) => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      if (signal?.aborted) {
+        reject(new CancelledError());
+        return;
+      }
+      resolve({ ...result, durationMs: Date.now() - startTime });
+    };
+
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      finish({
+        exitCode: null,
+        stdout: clip(stdout),
+        stderr: clip(stderr || error.message),
+        timedOut: false,
+        missingBinary: error.code === 'ENOENT',
+      });
+    });
+
+    child.on('close', (exitCode) => {
+      finish({
+        exitCode,
+        stdout: clip(stdout),
+        stderr: clip(stderr),
+        timedOut,
+        missingBinary: false,
+      });
+    });
+  });
+}
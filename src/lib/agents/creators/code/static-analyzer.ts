@@ -0,0 +1,532 @@
+import { spawn } from 'child_process';
+import path from 'path';
+import ts from 'typescript';
+import type { CodePlan, GeneratedCode, CodeIssue, CodeFile, StaticAnalysis } from './types';
+import { createLogger } from '@/lib/logging/logger';
+import { throwIfCancelled } from '@/lib/utils/cancellation';
+
+/**
+ * STATIC ANALYZER
+ *
+ * Purpose: Deterministic checks before the LLM critic, with real line numbers
+ *
+ * Checks, by CodePlan.language:
+ * - python: syntax (ast.parse via python3), unresolved local imports, undefined names
+ * - javascript / typescript: syntax and undefined names (TypeScript compiler API),
+ *   unresolved relative imports
+ * - rust: syntax (rustfmt's parser), `mod x;` without a matching file
+ * - all languages: obvious hardcoded secrets (API keys, tokens, private keys)
+ *
+ * Every finding is a CodeIssue, merged into the review by the critic so the
+ * fixer targets concrete lines instead of guesses.
+ *
+ * A check whose tool is missing (no python3 / rustfmt on the server) is
+ * skipped and listed in `skipped` - it never fails the pipeline.
+ */
+
+// Keep the review readable: at most this many findings per file
+const MAX_ISSUES_PER_FILE = 8;
+const TOOL_TIMEOUT_MS = 20_000;
+
+export async function analyzeCode(
+  code: GeneratedCode,
+  plan: CodePlan
+): Promise<StaticAnalysis> {
+  const logger = createLogger({ stage: 'static-analyzer' });
+  const checks: string[] = [];
+  const skipped: string[] = [];
+  const issues: CodeIssue[] = [];
+
+  throwIfCancelled();
+
+  switch (plan.language) {
+    case 'python': {
+      const result = await analyzePython(code.files);
+      if (result) {
+        checks.push('python-syntax', 'python-imports', 'python-names');
+        issues.push(...result);
+      } else {
+        skipped.push('python (python3 not available)');
+      }
+      break;
+    }
+    case 'javascript':
+    case 'typescript':
+      checks.push('script-syntax', 'script-imports', 'script-names');
+      issues.push(...analyzeScripts(code.files));
+      break;
+    case 'rust': {
+      checks.push('rust-modules');
+      issues.push(...findMissingRustModules(code.files));
+      const syntax = await analyzeRustSyntax(code.files);
+      if (syntax) {
+        checks.push('rust-syntax');
+        issues.push(...syntax);
+      } else {
+        skipped.push('rust-syntax (rustfmt not available)');
+      }
+      break;
+    }
+  }
+
+  checks.push('secrets');
+  issues.push(...findSecrets(code.files));
+
+  const capped = capPerFile(issues);
+
+  logger.info('Static analysis complete', {
+    checks,
+    skipped,
+    issuesCount: capped.length,
+    errors: capped.filter((issue) => issue.severity === 'error').length,
+  });
+
+  return { issues: capped, checks, skipped };
+}
+
+function capPerFile(issues: CodeIssue[]): CodeIssue[] {
+  const perFile = new Map<string, number>();
+  return issues.filter((issue) => {
+    const count = perFile.get(issue.file) ?? 0;
+    perFile.set(issue.file, count + 1);
+    return count < MAX_ISSUES_PER_FILE;
+  });
+}
+
+// ============================================================
+// PYTHON (ast via python3)
+// ============================================================
+
+/**
+ * Run the Python checks in a python3 subprocess (null if python3 is missing)
+ */
+async function analyzePython(files: CodeFile[]): Promise<CodeIssue[] | null> {
+  const pythonFiles = files.filter((file) => file.path.endsWith('.py') || file.path.endsWith('.ipynb'));
+  if (pythonFiles.length === 0) return [];
+
+  const input = JSON.stringify(files.map((file) => ({ path: file.path, content: file.content })));
+  const result = await runTool('python3', ['-c', PYTHON_ANALYZER], input);
+  if (!result || result.exitCode !== 0) return null;
+
+  try {
+    return JSON.parse(result.stdout) as CodeIssue[];
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads [{path, content}] on stdin, prints CodeIssue[] as JSON
+ *
+ * Undefined names are checked conservatively: a name is only reported if it
+ * is bound nowhere in the file (any scope) and isn't a builtin, and files
+ * with `from x import *` are skipped.
+ */
+const PYTHON_ANALYZER = String.raw`
+import ast, builtins, json, sys
+
+files = json.load(sys.stdin)
+paths = {f["path"] for f in files}
+issues = []
+
+def issue(path, line, severity, message, suggestion):
+    issues.append({"severity": severity, "file": path, "line": line, "message": message, "suggestion": suggestion})
+
+# Dotted names of local modules (also relative to src/-style roots)
+modules = set()
+for p in paths:
+    if p.endswith(".py"):
+        parts = p[:-3].split("/")
+        if parts[-1] == "__init__":
+            parts = parts[:-1]
+        for start in range(len(parts)):
+            modules.add(".".join(parts[start:]))
+local_tops = {m.split(".")[0] for m in modules if m}
+
+def module_exists(dotted):
+    return dotted in modules or any(m.startswith(dotted + ".") for m in modules)
+
+def file_exists(parts):
+    name = "/".join(parts)
+    return name + ".py" in paths or name + "/__init__.py" in paths or any(p.startswith(name + "/") for p in paths)
+
+BUILTINS = set(dir(builtins)) | {"__file__", "__name__", "__doc__", "__package__", "__spec__",
+    "__loader__", "__builtins__", "__path__", "__annotations__", "__class__", "__qualname__", "__module__"}
+
+def bound_names(tree):
+    bound, star = set(), False
+    for node in ast.walk(tree):
+        if isinstance(node, (ast.FunctionDef, ast.AsyncFunctionDef, ast.ClassDef)):
+            bound.add(node.name)
+        elif isinstance(node, ast.Name) and not isinstance(node.ctx, ast.Load):
+            bound.add(node.id)
+        elif isinstance(node, ast.arg):
+            bound.add(node.arg)
+        elif isinstance(node, ast.alias):
+            if node.name == "*":
+                star = True
+            else:
+                bound.add((node.asname or node.name).split(".")[0])
+        elif isinstance(node, ast.ExceptHandler) and node.name:
+            bound.add(node.name)
+        elif isinstance(node, (ast.Global, ast.Nonlocal)):
+            bound.update(node.names)
+        elif type(node).__name__ in ("MatchAs", "MatchStar", "TypeVar", "ParamSpec", "TypeVarTuple"):
+            if getattr(node, "name", None):
+                bound.add(node.name)
+        elif type(node).__name__ == "MatchMapping" and getattr(node, "rest", None):
+            bound.add(node.rest)
+    return bound, star
+
+def check_source(path, source, line_offset=0, label=""):
+    try:
+        tree = ast.parse(source, filename=path)
+    except SyntaxError as e:
+        line = (e.lineno or 1) + line_offset
+        issue(path, line, "error", label + "Syntax error: " + str(e.msg), "Fix the syntax so the file parses")
+        return
+
+    package = path.split("/")[:-1]
+    for node in ast.walk(tree):
+        if isinstance(node, ast.ImportFrom) and node.level:
+            if node.level - 1 > len(package):
+                issue(path, node.lineno + line_offset, "error", "Relative import goes above the project root", None)
+                continue
+            base = package[:len(package) - (node.level - 1)]
+            if node.module:
+                if not file_exists(base + node.module.split(".")):
+                    issue(path, node.lineno + line_offset, "error",
+                        "Unresolved local import: " + "." * node.level + node.module,
+                        "Create the module or fix the import path")
+            elif not file_exists(base):
+                issue(path, node.lineno + line_offset, "error", "Unresolved local import: " + "." * node.level, None)
+        elif isinstance(node, (ast.Import, ast.ImportFrom)):
+            names = [a.name for a in node.names] if isinstance(node, ast.Import) else [node.module or ""]
+            for name in names:
+                if name.split(".")[0] in local_tops and not module_exists(name):
+                    issue(path, node.lineno + line_offset, "error", "Unresolved local import: " + name,
+                        "Create the module or fix the import path")
+
+    bound, star = bound_names(tree)
+    if star:
+        return
+    reported = set()
+    for node in ast.walk(tree):
+        if isinstance(node, ast.Name) and isinstance(node.ctx, ast.Load):
+            if node.id not in bound and node.id not in BUILTINS and node.id not in reported:
+                reported.add(node.id)
+                issue(path, node.lineno + line_offset, "error", label + "Undefined name '" + node.id + "'",
+                    "Define or import '" + node.id + "'")
+
+for f in files:
+    if f["path"].endswith(".py"):
+        check_source(f["path"], f["content"])
+    elif f["path"].endswith(".ipynb"):
+        try:
+            cells = json.loads(f["content"]).get("cells", [])
+        except ValueError:
+            issue(f["path"], None, "error", "Notebook is not valid JSON", None)
+            continue
+        code_cells = [c for c in cells if c.get("cell_type") == "code"]
+        # Check the code cells as one program (cells share a namespace); line = cell-relative
+        for i, cell in enumerate(code_cells):
+            src = cell.get("source", "")
+            src = "".join(src) if isinstance(src, list) else src
+            lines = ["" if l.lstrip().startswith(("%", "!")) else l for l in src.split("\n")]
+            try:
+                ast.parse("\n".join(lines))
+            except SyntaxError as e:
+                issue(f["path"], e.lineno, "error", "Cell " + str(i + 1) + ": Syntax error: " + str(e.msg),
+                    "Fix the syntax in code cell " + str(i + 1))
+
+print(json.dumps(issues))
+`;
+
+// ============================================================
+// JAVASCRIPT / TYPESCRIPT (TypeScript compiler API)
+// ============================================================
+
+const SCRIPT_FILE = /\.(ts|tsx|mts|cts|js|jsx|mjs|cjs)$/;
+const RESOLVE_EXTENSIONS = ['', '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.mts', '.cts', '/index.ts', '/index.tsx', '/index.js', '/index.jsx'];
+
+// Runtime globals that aren't in the default libs (no @types in the analysis)
+const RUNTIME_GLOBALS = new Set([
+  'process', 'require', 'module', 'exports', '__dirname', '__filename', 'Buffer', 'global',
+  'describe', 'it', 'test', 'expect', 'jest', 'vi', 'beforeEach', 'afterEach', 'beforeAll', 'afterAll',
+  'Deno', 'Bun',
+]);
+
+// "Cannot find name" / "Cannot find name ... Did you mean"
+const UNDEFINED_NAME_CODES = new Set([2304, 2552]);
+
+const PROJECT_ROOT = '/project';
+
+function analyzeScripts(files: CodeFile[]): CodeIssue[] {
+  const scripts = files.filter((file) => SCRIPT_FILE.test(file.path));
+  if (scripts.length === 0) return [];
+
+  const issues: CodeIssue[] = [];
+  const sources = new Map(scripts.map((file) => [path.posix.join(PROJECT_ROOT, file.path), file]));
+
+  const options: ts.CompilerOptions = {
+    allowJs: true,
+    checkJs: true,
+    noEmit: true,
+    target: ts.ScriptTarget.ES2022,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    jsx: ts.JsxEmit.Preserve,
+    lib: ['lib.es2022.d.ts', 'lib.dom.d.ts'],
+    types: [],
+    skipLibCheck: true,
+  };
+
+  // Project files come from memory, lib files from the TypeScript package
+  const host = ts.createCompilerHost(options);
+  const defaultGetSourceFile = host.getSourceFile.bind(host);
+  host.getSourceFile = (fileName, languageVersion, onError) => {
+    const file = sources.get(fileName);
+    return file
+      ? ts.createSourceFile(fileName, file.content, languageVersion, true)
+      : defaultGetSourceFile(fileName, languageVersion, onError);
+  };
+  const defaultFileExists = host.fileExists.bind(host);
+  host.fileExists = (fileName) => sources.has(fileName) || (!fileName.startsWith(PROJECT_ROOT) && defaultFileExists(fileName));
+  host.getCurrentDirectory = () => PROJECT_ROOT;
+
+  const program = ts.createProgram([...sources.keys()], options, host);
+
+  for (const [fileName, file] of sources) {
+    const sourceFile = program.getSourceFile(fileName);
+    if (!sourceFile) continue;
+
+    const lineOf = (position: number | undefined) =>
+      position === undefined ? null : sourceFile.getLineAndCharacterOfPosition(position).line + 1;
+
+    // Syntax errors
+    const syntaxErrors = program.getSyntacticDiagnostics(sourceFile);
+    for (const diagnostic of syntaxErrors) {
+      issues.push({
+        severity: 'error',
+        file: file.path,
+        line: lineOf(diagnostic.start),
+        message: `Syntax error: ${ts.flattenDiagnosticMessageText(diagnostic.messageText, ' ')}`,
+        suggestion: 'Fix the syntax so the file parses',
+      });
+    }
+    if (syntaxErrors.length > 0) continue; // Names are meaningless in a file that doesn't parse
+
+    // Unresolved relative imports
+    for (const { specifier, position } of relativeImports(sourceFile)) {
+      if (!resolvesLocally(file.path, specifier, files)) {
+        issues.push({
+          severity: 'error',
+          file: file.path,
+          line: lineOf(position),
+          message: `Unresolved local import: '${specifier}'`,
+          suggestion: 'Create the module or fix the import path',
+        });
+      }
+    }
+
+    // Undefined names (only "Cannot find name" - types of npm packages aren't installed)
+    const reported = new Set<string>();
+    for (const diagnostic of program.getSemanticDiagnostics(sourceFile)) {
+      if (!UNDEFINED_NAME_CODES.has(diagnostic.code) || diagnostic.start === undefined) continue;
+      const name = sourceFile.text.slice(diagnostic.start, diagnostic.start + (diagnostic.length ?? 0));
+      if (RUNTIME_GLOBALS.has(name) || reported.has(name)) continue;
+      reported.add(name);
+      issues.push({
+        severity: 'error',
+        file: file.path,
+        line: lineOf(diagnostic.start),
+        message: `Undefined name '${name}'`,
+        suggestion: `Define or import '${name}'`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Relative specifiers of import/export declarations, require() and import()
+ */
+function relativeImports(sourceFile: ts.SourceFile): { specifier: string; position: number }[] {
+  const found: { specifier: string; position: number }[] = [];
+
+  const visit = (node: ts.Node) => {
+    let specifier: ts.Expression | undefined;
+    if (ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) {
+      specifier = node.moduleSpecifier;
+    } else if (
+      ts.isCallExpression(node) &&
+      (node.expression.kind === ts.SyntaxKind.ImportKeyword ||
+        (ts.isIdentifier(node.expression) && node.expression.text === 'require'))
+    ) {
+      specifier = node.arguments[0];
+    }
+
+    if (specifier && ts.isStringLiteral(specifier) && specifier.text.startsWith('.')) {
+      found.push({ specifier: specifier.text, position: specifier.getStart(sourceFile) });
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return found;
+}
+
+function resolvesLocally(fromPath: string, specifier: string, files: CodeFile[]): boolean {
+  const target = path.posix.normalize(path.posix.join(path.posix.dirname(fromPath), specifier));
+  // TypeScript projects import './x.js' for x.ts
+  const withoutJs = target.replace(/\.(m|c)?js$/, '');
+  const paths = new Set(files.map((file) => file.path));
+
+  return [target, withoutJs].some((base) => RESOLVE_EXTENSIONS.some((ext) => paths.has(base + ext)));
+}
+
+// ============================================================
+// RUST (rustfmt parser + module files)
+// ============================================================
+
+/**
+ * Syntax errors from rustfmt's parser (null if rustfmt is missing)
+ */
+async function analyzeRustSyntax(files: CodeFile[]): Promise<CodeIssue[] | null> {
+  const issues: CodeIssue[] = [];
+
+  for (const file of files.filter((f) => f.path.endsWith('.rs'))) {
+    const result = await runTool('rustfmt', ['--edition', '2021', '--emit', 'stdout'], file.content);
+    if (!result) return null;
+    if (result.exitCode === 0) continue;
+
+    // error: expected expression, found `;`
+    //  --> <stdin>:1:21
+    const pattern = /^error(?:\[\w+\])?: (.+)\n\s*--> <stdin>:(\d+):\d+/gm;
+    for (const match of result.stderr.matchAll(pattern)) {
+      issues.push({
+        severity: 'error',
+        file: file.path,
+        line: Number(match[2]),
+        message: `Syntax error: ${match[1]}`,
+        suggestion: 'Fix the syntax so the file parses',
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * `mod x;` needs x.rs or x/mod.rs next to it (main.rs, lib.rs and mod.rs
+ * declare siblings; foo.rs declares modules in foo/)
+ */
+function findMissingRustModules(files: CodeFile[]): CodeIssue[] {
+  const paths = new Set(files.map((file) => file.path));
+  const issues: CodeIssue[] = [];
+
+  for (const file of files.filter((f) => f.path.endsWith('.rs'))) {
+    const dir = path.posix.dirname(file.path);
+    const base = path.posix.basename(file.path, '.rs');
+    const moduleDir = ['main', 'lib', 'mod'].includes(base) ? dir : path.posix.join(dir, base);
+
+    file.content.split('\n').forEach((line, index) => {
+      const match = line.match(/^\s*(?:pub(?:\([^)]*\))?\s+)?mod\s+(\w+)\s*;/);
+      if (!match) return;
+      const candidates = [`${match[1]}.rs`, `${match[1]}/mod.rs`].map((p) => path.posix.join(moduleDir, p));
+      if (!candidates.some((candidate) => paths.has(candidate))) {
+        issues.push({
+          severity: 'error',
+          file: file.path,
+          line: index + 1,
+          message: `Unresolved module: mod ${match[1]}; (expected ${candidates[0]})`,
+          suggestion: `Create ${candidates[0]} or remove the declaration`,
+        });
+      }
+    });
+  }
+
+  return issues;
+}
+
+// ============================================================
+// SECRETS (all languages)
+// ============================================================
+
+const SECRET_PATTERNS: { name: string; pattern: RegExp }[] = [
+  { name: 'OpenAI API key', pattern: /\bsk-(?:proj-)?[A-Za-z0-9_-]{20,}/ },
+  { name: 'Anthropic API key', pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/ },
+  { name: 'AWS access key', pattern: /\bAKIA[0-9A-Z]{16}\b/ },
+  { name: 'GitHub token', pattern: /\bgh[pousr]_[A-Za-z0-9]{30,}/ },
+  { name: 'Slack token', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/ },
+  { name: 'Google API key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/ },
+  { name: 'Private key', pattern: /-----BEGIN (?:RSA |EC |OPENSSH |DSA )?PRIVATE KEY-----/ },
+  {
+    name: 'Hardcoded credential',
+    pattern: /\b(?:api[_-]?key|secret|password|passwd|token|access[_-]?key)\w*\s*[:=]\s*["'][^"'\s]{8,}["']/i,
+  },
+];
+
+// Values that are obviously examples, not secrets
+const PLACEHOLDER = /your|xxx|example|changeme|placeholder|dummy|<|\.\.\.|\*\*\*|replace|insert|env/i;
+
+function findSecrets(files: CodeFile[]): CodeIssue[] {
+  const issues: CodeIssue[] = [];
+
+  for (const file of files) {
+    // Examples in docs are fine; .env.example files are meant to hold placeholders
+    if (/\.(md|txt)$|\.example$/i.test(file.path)) continue;
+
+    file.content.split('\n').forEach((line, index) => {
+      for (const { name, pattern } of SECRET_PATTERNS) {
+        const match = line.match(pattern);
+        if (!match || PLACEHOLDER.test(match[0])) continue;
+        issues.push({
+          severity: 'error',
+          file: file.path,
+          line: index + 1,
+          message: `Possible hardcoded secret (${name})`,
+          suggestion: 'Read it from an environment variable instead',
+        });
+        break; // One finding per line
+      }
+    });
+  }
+
+  return issues;
+}
+
+// ============================================================
+// TOOLS
+// ============================================================
+
+/**
+ * Run an analysis tool with input on stdin (null if the tool isn't installed)
+ */
+function runTool(
+  command: string,
+  args: string[],
+  input: string
+): Promise<{ exitCode: number | null; stdout: string; stderr: string } | null> {
+  return new Promise((resolve) => {
+    const child = spawn(command, args, {
+      env: { PATH: process.env.PATH, LANG: 'C.UTF-8', NODE_ENV: 'development' },
+      stdio: ['pipe', 'pipe', 'pipe'],
+      timeout: TOOL_TIMEOUT_MS,
+    });
+
+    let stdout = '';
+    let stderr = '';
+    child.stdout.on('data', (chunk) => (stdout += chunk));
+    child.stderr.on('data', (chunk) => (stderr += chunk));
+
+    child.on('error', () => resolve(null));
+    child.on('close', (exitCode) => resolve({ exitCode, stdout, stderr }));
+
+    child.stdin.on('error', () => {
+      // Tool exited before reading all input - reported through 'close'
+    });
+    child.stdin.end(input);
+  });
+}
@@ -0,0 +1,352 @@
+import { ChatAnthropic } from '@langchain/anthropic';
+import { z } from 'zod';
+import type { CodePlan, GeneratedCode, CodeFile, TestSuite } from './types';
+import { extractModuleSignatures, type ModuleContext } from './module-context-extractor';
+import { MODEL_USE_CASES } from '@/lib/config/models';
+import { createLogger } from '@/lib/logging/logger';
+import { getCancellationSignal, isCancellation } from '@/lib/utils/cancellation';
+
+/**
+ * TEST GENERATION AGENT (Structured Outputs)
+ *
+ * Purpose: Turn the plan's testCriteria into a real test suite
+ *
+ * Steps:
+ * 1. Extract the signatures of the generated modules (extractModuleSignatures)
+ * 2. Ask the model for test files that exercise those signatures against
+ *    the testCriteria - only real functions, no invented APIs
+ * 3. Add the test runner to the project's dependencies and the README
+ *
+ * Frameworks:
+ * - Python: pytest (tests/test_*.py, run with `python -m pytest`)
+ * - JavaScript / TypeScript: vitest (tests/*.test.*), or jest if the
+ *   generated package.json already uses it
+ * - Rust: cargo test (tests/*.rs for library crates, src/tests.rs otherwise)
+ *
+ * The sandbox runs the suite after the program (see sandbox-runner.ts) and
+ * the pass/fail counts go to the critic and the output metadata.
+ *
+ * Notebooks get no tests - they are validated by running them.
+ */
+
+// Keep the prompt bounded - the model needs the code, not every byte of it
+const MAX_SOURCE_FILES = 6;
+const MAX_FILE_CHARS = 6000;
+
+const TestFilesSchema = z.object({
+  files: z.array(z.object({
+    path: z.string().describe('Test file path (e.g., "tests/test_calculator.py")'),
+    content: z.string().describe('Complete test file'),
+  }))
+    .min(1, 'Must generate at least 1 test file')
+    .describe('Test files to add to the project'),
+  coveredCriteria: z.array(z.string()).describe('Which of the test criteria these tests cover'),
+});
+
+/**
+ * Where tests live and how they run, per framework
+ */
+interface TestLayout {
+  framework: TestSuite['framework'];
+  command: string;
+  pathPattern: RegExp;
+  example: string;
+  instructions: string;
+}
+
+export async function generateTests(
+  code: GeneratedCode,
+  plan: CodePlan
+): Promise<{ code: GeneratedCode }> {
+  const logger = createLogger({ stage: 'test-generation-agent' });
+
+  if (plan.outputType === 'notebook') {
+    logger.info('Skipping test generation for notebook');
+    return { code };
+  }
+
+  const sourceFiles = selectSourceFiles(code, plan).slice(0, MAX_SOURCE_FILES);
+  if (sourceFiles.length === 0) {
+    logger.warn('No source files to test');
+    return { code };
+  }
+
+  const layout = chooseLayout(code, plan);
+  const criteria = plan.testCriteria?.length ? plan.testCriteria : ['Core functionality works as described'];
+
+  logger.info('Generating tests', {
+    framework: layout.framework,
+    sourceFiles: sourceFiles.map((file) => file.path),
+    criteriaCount: criteria.length,
+  });
+
+  const modules = await extractModuleSignatures(sourceFiles, plan.language);
+
+  const model = new ChatAnthropic({
+    modelName: MODEL_USE_CASES.testGeneration,
+    temperature: 0.2,
+  });
+  const structuredModel = model.withStructuredOutput(TestFilesSchema);
+
+  try {
+    const result = await structuredModel.invoke(
+      buildTestPrompt(code, plan, sourceFiles, modules, layout, criteria),
+      { signal: getCancellationSignal() }
+    );
+
+    // Tests may only add test files - never overwrite the code under test
+    const existing = new Set(code.files.map((file) => file.path));
+    const testFiles: CodeFile[] = result.files
+      .filter((file) => layout.pathPattern.test(file.path) && !existing.has(file.path))
+      .map((file) => ({ path: file.path, content: file.content, language: plan.language }));
+
+    if (testFiles.length === 0) {
+      logger.warn('Generated tests had no usable paths', {
+        paths: result.files.map((file) => file.path),
+        expected: layout.example,
+      });
+      return { code };
+    }
+
+    const tests: TestSuite = {
+      framework: layout.framework,
+      command: layout.command,
+      files: testFiles.map((file) => file.path),
+      criteria: result.coveredCriteria,
+    };
+
+    logger.info('Tests generated', {
+      framework: tests.framework,
+      files: tests.files,
+      coveredCriteria: tests.criteria.length,
+    });
+
+    return { code: addTestSuite(code, testFiles, tests) };
+  } catch (error) {
+    if (isCancellation(error)) throw error;
+
+    // Tests are an extra - a project without them is still worth reviewing
+    logger.warn('Test generation failed, continuing without tests', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { code };
+  }
+}
+
+/**
+ * Source files of the plan's language, without tests and config
+ */
+function selectSourceFiles(code: GeneratedCode, plan: CodePlan): CodeFile[] {
+  const extensions: Record<CodePlan['language'], RegExp> = {
+    python: /\.py$/,
+    javascript: /\.(js|mjs|cjs|jsx)$/,
+    typescript: /\.(ts|tsx|mts)$/,
+    rust: /\.rs$/,
+  };
+
+  return code.files.filter(
+    (file) =>
+      extensions[plan.language].test(file.path) &&
+      !/(^|\/)(tests?|__tests__)\//.test(file.path) &&
+      !/(^|\/)test_[^/]*\.py$|\.(test|spec)\.[^/]+$|\.config\.[^/]+$/.test(file.path)
+  );
+}
+
+function chooseLayout(code: GeneratedCode, plan: CodePlan): TestLayout {
+  switch (plan.language) {
+    case 'python':
+      return {
+        framework: 'pytest',
+        command: 'python -m pytest',
+        pathPattern: /^tests\/(test_[\w-]+|conftest)\.py$/,
+        example: 'tests/test_<module>.py',
+        instructions: `- Use pytest (plain assert statements, pytest.raises, tmp_path, monkeypatch)
+- Tests run from the project root with \`python -m pytest\`, so import modules by their
+  path from the root (e.g., "src/utils.py" → \`from src.utils import ...\`, "calc.py" → \`from calc import ...\`)`,
+      };
+
+    case 'javascript':
+    case 'typescript': {
+      const ext = plan.language === 'typescript' ? 'ts' : 'js';
+      const usesJest = plan.language === 'javascript' && /"jest"\s*:/.test(findFile(code, 'package.json')?.content ?? '');
+      return usesJest
+        ? {
+            framework: 'jest',
+            command: 'npx jest',
+            pathPattern: /^tests\/[\w.-]+\.test\.(js|cjs|mjs)$/,
+            example: 'tests/<module>.test.js',
+            instructions: `- Use jest (describe / it / expect globals - no import needed)
+- Use the same module system (require or import) as the code under test`,
+          }
+        : {
+            framework: 'vitest',
+            command: 'npx vitest run',
+            pathPattern: new RegExp(`^tests/[\\w.-]+\\.test\\.(${ext}|m${ext})$`),
+            example: `tests/<module>.test.${ext}`,
+            instructions: `- Use vitest: \`import { describe, it, expect, vi } from 'vitest'\`
+- Import the code under test with relative paths from tests/ (e.g., '../src/utils')`,
+          };
+    }
+
+    case 'rust': {
+      const crateName = findFile(code, 'Cargo.toml')?.content.match(/^\s*name\s*=\s*"([^"]+)"/m)?.[1];
+      return findFile(code, 'src/lib.rs') && crateName
+        ? {
+            framework: 'cargo',
+            command: 'cargo test',
+            pathPattern: /^tests\/\w+\.rs$/,
+            example: 'tests/<feature>.rs',
+            instructions: `- Integration tests: each file in tests/ is its own crate
+- Import the library as \`use ${crateName.replace(/-/g, '_')}::...;\` - only pub items are visible`,
+          }
+        : {
+            framework: 'cargo',
+            command: 'cargo test',
+            pathPattern: /^src\/tests\.rs$/,
+            example: 'src/tests.rs',
+            instructions: `- Write ONE file, src/tests.rs - it is declared as \`#[cfg(test)] mod tests;\` in src/main.rs
+- Access the crate's items with \`use super::*;\` (and \`use crate::<module>::...;\` for other modules)
+- Mark every test with #[test]`,
+          };
+    }
+  }
+}
+
+function findFile(code: GeneratedCode, filePath: string): CodeFile | undefined {
+  return code.files.find((file) => file.path === filePath);
+}
+
+function formatSignatures(modules: ModuleContext[]): string {
+  return modules
+    .map((module) => {
+      const exports = module.exports.length > 0
+        ? module.exports
+            .map((exp) => `  - ${exp.signature}${exp.docstring ? `  # ${exp.docstring}` : ''}`)
+            .join('\n')
+        : '  (no exports found)';
+      return `${module.fileName}:\n${exports}`;
+    })
+    .join('\n\n');
+}
+
+function buildTestPrompt(
+  code: GeneratedCode,
+  plan: CodePlan,
+  sourceFiles: CodeFile[],
+  modules: ModuleContext[],
+  layout: TestLayout,
+  criteria: string[]
+): string {
+  const sources = sourceFiles
+    .map((file) => {
+      const content = file.content.length > MAX_FILE_CHARS
+        ? `${file.content.slice(0, MAX_FILE_CHARS)}\n... (truncated)`
+        : file.content;
+      return `=== ${file.path} ===\n\`\`\`${plan.language}\n${content}\n\`\`\``;
+    })
+    .join('\n\n');
+
+  return `Write an automated test suite for this ${plan.language} ${plan.outputType} project.
+
+PROJECT: ${code.repoName} - ${code.description}
+ALL FILES: ${code.files.map((file) => file.path).join(', ')}
+
+TEST CRITERIA (from the plan - cover each one that can be tested automatically):
+${criteria.map((criterion) => `- ${criterion}`).join('\n')}
+
+MODULE SIGNATURES (the public API - test ONLY these, they are the functions that exist):
+${formatSignatures(modules)}
+
+SOURCE CODE:
+${sources}
+
+FRAMEWORK: ${layout.framework} (run with \`${layout.command}\`)
+${layout.instructions}
+
+RULES:
+1. Put tests in ${layout.example} - no other files
+2. Only call functions, classes and methods that exist in the code above, with their real signatures
+3. Expected values must follow from the code's actual behavior - trace it, don't guess
+4. Tests must be fast and deterministic: no network, no real API keys, no sleeping, fixed random seeds
+5. Don't start servers or read stdin - test the functions behind them (use test clients for web frameworks if they are dependencies)
+6. Cover normal cases, edge cases and error handling; 3-10 focused tests per file
+7. Use temporary directories for any file output
+
+Return the test files and the list of criteria they cover.`;
+}
+
+interface PackageJson {
+  scripts?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  [key: string]: unknown;
+}
+
+/**
+ * Add the tests, the test runner dependency and a README section
+ */
+function addTestSuite(code: GeneratedCode, testFiles: CodeFile[], tests: TestSuite): GeneratedCode {
+  let files = [...code.files, ...testFiles];
+  const packages = [...(code.dependencies?.packages ?? [])];
+
+  // Create the file, or update it in place (update: false = only if it exists)
+  const upsert = (filePath: string, update: (content: string | null) => string, create = true) => {
+    const existing = files.find((file) => file.path === filePath);
+    if (existing) {
+      files = files.map((file) => (file === existing ? { ...file, content: update(file.content) } : file));
+    } else if (create) {
+      files = [...files, { path: filePath, content: update(null) }];
+    }
+  };
+
+  switch (tests.framework) {
+    case 'pytest':
+      upsert('requirements.txt', (content) =>
+        content === null ? 'pytest\n' : /^pytest\b/im.test(content) ? content : `${content.trimEnd()}\npytest\n`
+      );
+      if (!packages.includes('pytest')) packages.push('pytest');
+      break;
+
+    case 'vitest':
+    case 'jest':
+      upsert('package.json', (content) => {
+        let pkg: PackageJson = { name: code.repoName, version: '1.0.0', private: true };
+        if (content !== null) {
+          try {
+            pkg = JSON.parse(content);
+          } catch {
+            return content; // Leave a broken package.json to the critic
+          }
+        }
+        pkg.scripts = { ...pkg.scripts, test: tests.framework === 'jest' ? 'jest' : 'vitest run' };
+        if (tests.framework === 'vitest') {
+          pkg.devDependencies = { ...pkg.devDependencies, vitest: '^3.2.0' };
+        }
+        return JSON.stringify(pkg, null, 2);
+      });
+      break;
+
+    case 'cargo':
+      // Unit tests in src/tests.rs need a declaration in main.rs
+      if (tests.files.includes('src/tests.rs')) {
+        upsert('src/main.rs', (content) =>
+          /^\s*mod\s+tests\b/m.test(content ?? '')
+            ? content ?? ''
+            : `${(content ?? '').trimEnd()}\n\n#[cfg(test)]\nmod tests;\n`,
+        false);
+      }
+      break;
+  }
+
+  upsert('README.md', (content) =>
+    /^#+\s*(running )?(the )?tests/im.test(content ?? '')
+      ? content ?? ''
+      : `${(content ?? '').trimEnd()}\n\n## Running the Tests\n\n\`\`\`bash\n${tests.command}\n\`\`\`\n`,
+  false);
+
+  return {
+    ...code,
+    files,
+    ...(code.dependencies && { dependencies: { ...code.dependencies, packages } }),
+    tests,
+  };
+}
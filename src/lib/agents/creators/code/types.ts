@@ -130,6 +130,20 @@ export const CodeFileSchema = z.object({
 
 export type CodeFile = z.infer<typeof CodeFileSchema>;
 
+/**
+ * TEST SUITE SCHEMA - Output from the Test Generation Agent
+ *
+ * Which framework the generated tests use and how to run them
+ */
+export const TestSuiteSchema = z.object({
+  framework: z.enum(['pytest', 'vitest', 'jest', 'cargo']),
+  command: z.string().describe('e.g., "python -m pytest", "npx vitest run", "cargo test"'),
+  files: z.array(z.string()).describe('Paths of the generated test files'),
+  criteria: z.array(z.string()).describe('Test criteria from the plan that the tests cover'),
+});
+
+export type TestSuite = z.infer<typeof TestSuiteSchema>;
+
 /**
  * GENERATED CODE SCHEMA - Output from Generation Agent
  *
@@ -153,6 +167,9 @@ export const GeneratedCodeSchema = z.object({
   // Metadata from plan
   type: z.string().describe('e.g., "python" or "nodejs"'),
   outputType: z.enum(['notebook', 'cli-app', 'web-app', 'library', 'demo-script']),
+
+  // Generated test suite (added after generation, not by the generator)
+  tests: TestSuiteSchema.optional(),
 });
 
 export type GeneratedCode = z.infer<typeof GeneratedCodeSchema>;
@@ -212,7 +229,180 @@ export const CodeReviewSchema = z.object({
   })).describe('Fix suggestions (empty if no fixes needed)').default([]),
 });
 
-export type CodeReview = z.infer<typeof CodeReviewSchema>;
+/**
+ * EXECUTION RESULT SCHEMA - Output from the Sandbox Runner
+ *
+ * What happened when the generated code was actually run: hard evidence
+ * for the critic and the fixer (an LLM reading the files can't see a crash).
+ */
+export const ExecutionResultSchema = z.object({
+  status: z.enum(['passed', 'failed', 'timeout', 'install_failed', 'skipped']),
+  command: z.string().nullable().describe('e.g., "python main.py"'),
+  exitCode: z.number().nullable(),
+  stdout: z.string(),
+  stderr: z.string(),
+  durationMs: z.number(),
+
+  // Dependency installation (null if nothing had to be installed)
+  install: z.object({
+    command: z.string(),
+    exitCode: z.number().nullable(),
+    stderr: z.string(),
+  }).nullable(),
+
+  reason: z.string().optional().describe('Why the run was skipped, failed or timed out'),
+
+  // Notebook execution, cell by cell (notebooks only)
+  notebook: z.object({
+    path: z.string(),
+    codeCells: z.number(),
+    executedCells: z.number(),
+    failedCell: z.object({
+      index: z.number().describe('Position in the notebook\'s cells array'),
+      number: z.number().describe('1-based number among code cells'),
+      source: z.string(),
+      ename: z.string().describe('e.g., "ModuleNotFoundError"'),
+      evalue: z.string(),
+      traceback: z.string(),
+    }).nullable(),
+  }).optional(),
+
+  // Generated test suite run (null if the project has no tests or install failed)
+  tests: z.object({
+    framework: TestSuiteSchema.shape.framework,
+    command: z.string(),
+    status: z.enum(['passed', 'failed', 'timeout', 'error']),
+    passed: z.number(),
+    failed: z.number(),
+    skipped: z.number(),
+    exitCode: z.number().nullable(),
+    output: z.string().describe('Tail of the test runner output'),
+  }).nullable().optional(),
+});
+
+export type ExecutionResult = z.infer<typeof ExecutionResultSchema>;
+
+/**
+ * STATIC ANALYSIS SCHEMA - Output from the Static Analyzer
+ *
+ * Deterministic findings (syntax errors, unresolved imports, undefined
+ * names, hardcoded secrets) with real line numbers.
+ */
+export const StaticAnalysisSchema = z.object({
+  issues: z.array(CodeIssueSchema),
+  checks: z.array(z.string()).describe('e.g., ["python-syntax", "secrets"]'),
+  skipped: z.array(z.string()).describe('Checks whose tool was unavailable'),
+});
+
+export type StaticAnalysis = z.infer<typeof StaticAnalysisSchema>;
+
+/**
+ * A review plus the evidence it was based on
+ *
+ * CodeReviewSchema stays the LLM's output schema; the sandbox run and the
+ * static analysis summary are attached by the critic, never generated.
+ */
+export const CodeReviewWithEvidenceSchema = CodeReviewSchema.extend({
+  execution: ExecutionResultSchema.optional(),
+  staticAnalysis: z.object({
+    checks: z.array(z.string()),
+    skipped: z.array(z.string()),
+    issuesCount: z.number(),
+  }).optional(),
+});
+
+export type CodeReview = z.infer<typeof CodeReviewWithEvidenceSchema>;
+
+/**
+ * FILE EDIT SCHEMA - One edit operation from the Fixer Agent
+ *
+ * Replaces one exact, unique occurrence of `find` (see patch.ts)
+ */
+export const FileEditSchema = z.object({
+  find: z.string().describe('Exact text to replace, copied verbatim from the file (unique, with enough context lines)'),
+  replace: z.string().describe('Replacement text (empty string to delete)'),
+});
+
+export type FileEdit = z.infer<typeof FileEditSchema>;
+
+/**
+ * FILE CHANGE SCHEMA - What a fix did to one file
+ */
+export const FileChangeSchema = z.object({
+  path: z.string(),
+  label: z.string().optional().describe('e.g., "cell 3" for a notebook cell fix'),
+  status: z.enum(['patched', 'conflict', 'failed', 'unchanged', 'added', 'removed', 'regenerated']),
+  diff: z.string().describe('Unified diff (empty if unchanged)'),
+  additions: z.number(),
+  deletions: z.number(),
+  conflicts: z.array(z.string()).describe('Edits that could not be applied, and why'),
+  summary: z.string().optional().describe('What the fixer says it changed'),
+});
+
+export type FileChange = z.infer<typeof FileChangeSchema>;
+
+/**
+ * FIX ROUND SCHEMA - One iteration of the fix loop, for the fix history
+ */
+export const FixRoundSchema = z.object({
+  attempt: z.number(),
+  kind: z.enum(['fix', 'regeneration']),
+  scoreBefore: z.number(),
+  scoreAfter: z.number().nullable().describe('Set after the re-review'),
+  files: z.array(FileChangeSchema),
+  importIssues: z.array(z.string()).optional().describe('Importers out of sync with a fixed module'),
+});
+
+export type FixRound = z.infer<typeof FixRoundSchema>;
+
+/**
+ * CODE CANDIDATE SCHEMA - One best-of-N candidate and how it scored
+ */
+export const CodeCandidateSchema = z.object({
+  index: z.number(),
+  model: z.string().describe('Generation model, or "plan" for the plan\'s model tier'),
+  status: z.enum(['scored', 'failed']),
+  score: z.number().nullable(),
+  recommendation: CodeReviewSchema.shape.recommendation.nullable(),
+  execution: ExecutionResultSchema.shape.status.nullable(),
+  staticErrors: z.number().nullable().describe('Static analysis findings with severity error'),
+  files: z.number(),
+  error: z.string().optional().describe('Why generation or scoring failed'),
+  selected: z.boolean(),
+});
+
+export type CodeCandidate = z.infer<typeof CodeCandidateSchema>;
+
+/**
+ * CODE VERSION SCHEMA - The code as it was at one review
+ *
+ * One per review (attempt 0 = the first review), so the loop can always
+ * return the best-scoring version instead of the latest one.
+ */
+export const CodeVersionSchema = z.object({
+  attempt: z.number(),
+  code: GeneratedCodeSchema,
+  review: CodeReviewWithEvidenceSchema,
+});
+
+export type CodeVersion = z.infer<typeof CodeVersionSchema>;
+
+/**
+ * CODE ITERATION SCHEMA - One step of the critic/fixer loop, for the output
+ */
+export const CodeIterationSchema = z.object({
+  attempt: z.number(),
+  kind: z.enum(['initial', 'fix', 'regeneration']),
+  score: z.number(),
+  recommendation: CodeReviewSchema.shape.recommendation,
+  issuesCount: z.number(),
+  issuesFixed: z.array(z.string()).describe('Issues of the previous review that are gone'),
+  newIssues: z.array(z.string()).describe('Issues this review found that the previous one did not'),
+  filesChanged: z.array(z.string()),
+  selected: z.boolean().describe('The version that was returned'),
+});
+
+export type CodeIteration = z.infer<typeof CodeIterationSchema>;
 
 /**
  * CODE SUB-GRAPH STATE SCHEMA
@@ -233,11 +423,13 @@ export const CodeCreationStateSchema = z.object({
   // Generation stage
   code: GeneratedCodeSchema.nullable(),
 
-  // Review stage
-  review: CodeReviewSchema.nullable(),
+  // Review stage (with the evidence it was based on)
+  review: CodeReviewWithEvidenceSchema.nullable(),
 
   // Iteration tracking
   attempts: z.number().describe('How many times we\'ve tried to fix issues'),
+  fixHistory: z.array(FixRoundSchema).describe('What each fix / regeneration changed'),
+  versions: z.array(CodeVersionSchema).describe('The code and review at every review'),
   maxAttempts: z.number().describe('Maximum fix attempts before giving up'),
 
   // Errors
@@ -1,6 +1,15 @@
 import { ChatOpenAI } from '@langchain/openai';
 import type { ImageSpec, GeneratedImage } from '../types';
 import { MODEL_USE_CASES } from '@/lib/config/models';
+import { createLogger } from '@/lib/logging/logger';
+import { getErrorMessage } from '@/lib/utils/error-handler';
+import {
+  CancelledError,
+  getCancellationSignal,
+  isCancellation,
+  throwIfCancelled,
+} from '@/lib/utils/cancellation';
+import { storeImage, type StoredImage } from './image-storage';
 
 /**
  * IMAGE GENERATION SUBAGENT
@@ -11,7 +20,8 @@ import { MODEL_USE_CASES } from '@/lib/config/models';
  * - createImagePrompt: Generate detailed prompt from concept
  * - generateImage: Create actual image via API
  * - generateImageCaption: Create caption for image
- * - generateImageForContent: Complete pipeline
+ * - generateImageForContent: Complete pipeline (stores the image in our
+ *   bucket - provider URLs expire, see image-storage.ts)
  *
  * Supported APIs (in priority order):
  * - fal.ai (fast, generous free tier, high quality)
@@ -52,7 +62,7 @@ Examples of good prompts:
 
 Return ONLY the prompt text (no JSON, no explanation).`;
 
-  const response = await model.invoke(prompt);
+  const response = await model.invoke(prompt, { signal: getCancellationSignal() });
   return response.content.toString().trim();
 }
 
@@ -78,43 +88,65 @@ CONCEPT: ${concept}
 Return a single sentence caption (< 100 chars) suitable for alt text and display.
 No quotes, just the caption text.`;
 
-  const response = await model.invoke(prompt);
+  const response = await model.invoke(prompt, { signal: getCancellationSignal() });
   return response.content.toString().trim();
 }
 
 /**
  * Complete image generation pipeline
  * This is the main function that blog creators should use
+ *
+ * @param options.userId - Owner of the image: it is stored in their folder
+ *   of the images bucket. An image that can't be stored (or has no owner)
+ *   keeps the provider URL.
  */
 export async function generateImageForContent(
   spec: ImageSpec,
-  contentContext?: string
+  contentContext?: string,
+  options: { userId?: string } = {}
 ): Promise<GeneratedImage> {
-  console.log(`🎨 Generating image for: ${spec.concept}`);
+  const logger = createLogger({ stage: 'image-creator' });
+
+  logger.info(`🎨 Generating image for: ${spec.concept}`);
 
   // Step 1: Create detailed prompt
   const imagePrompt = await createImagePrompt(spec, contentContext);
-  console.log(`   📝 Prompt: ${imagePrompt.substring(0, 60)}...`);
+  logger.info(`📝 Prompt: ${imagePrompt.substring(0, 60)}...`);
 
   // Step 2: Generate image
   const { url, model, width, height } = await generateImage(
     imagePrompt,
     spec.aspectRatio || '16:9'
   );
-  console.log(`   ✅ Image generated: ${model}`);
+  logger.info(`✅ Image generated: ${model}`);
 
-  // Step 3: Generate caption
+  // Step 3: Store it in our bucket
+  let stored: StoredImage | null = null;
+  if (options.userId) {
+    try {
+      stored = await storeImage(options.userId, url);
+      logger.info(`📦 Image stored: ${stored.path} (${stored.width}x${stored.height})`);
+    } catch (error) {
+      if (isCancellation(error)) {
+        throw new CancelledError();
+      }
+      logger.warn(`⚠️  Image storage failed, keeping provider URL: ${getErrorMessage(error)}`);
+    }
+  }
+
+  // Step 4: Generate caption
   const caption = await generateImageCaption(imagePrompt, spec.concept);
-  console.log(`   💬 Caption: ${caption}`);
+  logger.info(`💬 Caption: ${caption}`);
 
   return {
-    imageUrl: url,
+    imageUrl: stored?.url ?? url,
     caption,
     prompt: imagePrompt,
     placement: spec.placement,
     model,
-    width,
-    height,
+    width: stored?.width ?? width,
+    height: stored?.height ?? height,
+    ...(stored && { storagePath: stored.path, contentHash: stored.hash }),
   };
 }
 
@@ -127,65 +159,86 @@ export async function generateImageForContent(
  * 3. fal.ai FLUX Schnell (fast + cheap)
  * 4. Hugging Face SDXL (free tier)
  *
+ * Cancellation stops at the current provider instead of falling back.
+ *
  * @param prompt - The image generation prompt
  * @param aspectRatio - Desired aspect ratio (default: '16:9')
+ * @param options.signal - Abort signal (defaults to the job's cancellation signal)
  */
 export async function generateImage(
   prompt: string,
-  aspectRatio: '16:9' | '1:1' | '4:3' = '16:9'
+  aspectRatio: '16:9' | '1:1' | '4:3' = '16:9',
+  options: { signal?: AbortSignal } = {}
 ): Promise<{
   url: string;
   model: string;
   width: number;
   height: number;
 }> {
+  const logger = createLogger({ stage: 'image-creator' });
+  const signal = options.signal ?? getCancellationSignal();
+
+  throwIfCancelled(signal);
+
   // ⭐ TASK 4: Try Gemini first (newest, highest quality model)
   if (process.env.GOOGLE_API_KEY) {
     try {
-      console.log('   🎨 Trying Gemini Imagen 3...');
-      return await generateWithGemini(prompt, aspectRatio);
+      logger.info('🎨 Trying Gemini Imagen 3...');
+      return await generateWithGemini(prompt, aspectRatio, signal);
     } catch (geminiError: any) {
-      console.warn(
-        `   ⚠️  Gemini failed: ${geminiError.message || String(geminiError)}`
+      if (isCancellation(geminiError) || signal?.aborted) {
+        throw new CancelledError();
+      }
+      logger.warn(
+        `⚠️  Gemini failed: ${geminiError.message || String(geminiError)}`
       );
-      console.log('   🔄 Falling back to next provider...');
+      logger.info('🔄 Falling back to next provider...');
     }
   }
 
   // Try fal.ai (fast + generous free tier)
   if (process.env.FAL_KEY) {
     try {
-      console.log('   🎨 Trying fal.ai FLUX Schnell...');
-      return await generateWithFal(prompt, aspectRatio);
+      logger.info('🎨 Trying fal.ai FLUX Schnell...');
+      return await generateWithFal(prompt, aspectRatio, signal);
     } catch (falError: any) {
-      console.warn(
-        `   ⚠️  fal.ai failed: ${falError.message || String(falError)}`
+      if (isCancellation(falError) || signal?.aborted) {
+        throw new CancelledError();
+      }
+      logger.warn(
+        `⚠️  fal.ai failed: ${falError.message || String(falError)}`
       );
-      console.log('   🔄 Falling back to next provider...');
+      logger.info('🔄 Falling back to next provider...');
     }
   }
 
   // Try Replicate (paid but high quality)
   if (process.env.REPLICATE_API_TOKEN) {
     try {
-      console.log('   🎨 Trying Replicate FLUX...');
-      return await generateWithReplicate(prompt, aspectRatio);
+      logger.info('🎨 Trying Replicate FLUX...');
+      return await generateWithReplicate(prompt, aspectRatio, signal);
     } catch (repError: any) {
-      console.warn(
-        `   ⚠️  Replicate failed: ${repError.message || String(repError)}`
+      if (isCancellation(repError) || signal?.aborted) {
+        throw new CancelledError();
+      }
+      logger.warn(
+        `⚠️  Replicate failed: ${repError.message || String(repError)}`
       );
-      console.log('   🔄 Falling back to next provider...');
+      logger.info('🔄 Falling back to next provider...');
     }
   }
 
   // Try Hugging Face (free tier)
   if (process.env.HUGGINGFACE_API_KEY) {
     try {
-      console.log('   🎨 Trying Hugging Face SDXL...');
-      return await generateWithHuggingFace(prompt, aspectRatio);
+      logger.info('🎨 Trying Hugging Face SDXL...');
+      return await generateWithHuggingFace(prompt, aspectRatio, signal);
     } catch (hfError: any) {
-      console.warn(
-        `   ⚠️  Hugging Face failed: ${hfError.message || String(hfError)}`
+      if (isCancellation(hfError) || signal?.aborted) {
+        throw new CancelledError();
+      }
+      logger.warn(
+        `⚠️  Hugging Face failed: ${hfError.message || String(hfError)}`
       );
     }
   }
@@ -198,7 +251,8 @@ export async function generateImage(
  */
 async function generateWithFal(
   prompt: string,
-  aspectRatio: '16:9' | '1:1' | '4:3' = '16:9'
+  aspectRatio: '16:9' | '1:1' | '4:3' = '16:9',
+  signal?: AbortSignal
 ): Promise<{
   url: string;
   model: string;
@@ -223,6 +277,7 @@ async function generateWithFal(
       image_size: sizeMap[aspectRatio],
       num_images: 1,
     }),
+    signal,
   });
 
   if (!response.ok) {
@@ -246,7 +301,8 @@ async function generateWithFal(
  */
 async function generateWithHuggingFace(
   prompt: string,
-  aspectRatio: '16:9' | '1:1' | '4:3' = '16:9' // Accepted but not used
+  aspectRatio: '16:9' | '1:1' | '4:3' = '16:9', // Accepted but not used
+  signal?: AbortSignal
 ): Promise<{
   url: string;
   model: string;
@@ -265,6 +321,7 @@ async function generateWithHuggingFace(
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({ inputs: prompt }),
+      signal,
     }
   );
 
@@ -275,13 +332,13 @@ async function generateWithHuggingFace(
   // HF returns image as blob
   const blob = await response.blob();
 
-  // Convert blob to base64 data URL (we'll save to Supabase Storage later)
+  // Convert blob to base64 data URL (stored in Supabase Storage afterwards)
   const buffer = await blob.arrayBuffer();
   const base64 = Buffer.from(buffer).toString('base64');
   const dataUrl = `data:image/png;base64,${base64}`;
 
   return {
-    url: dataUrl, // Publisher will upload this to Supabase Storage
+    url: dataUrl, // generateImageForContent uploads this to Supabase Storage
     model: 'SDXL (Hugging Face)',
     width: 1024,
     height: 1024,
@@ -293,7 +350,8 @@ async function generateWithHuggingFace(
  */
 async function generateWithReplicate(
   prompt: string,
-  aspectRatio: '16:9' | '1:1' | '4:3' = '16:9'
+  aspectRatio: '16:9' | '1:1' | '4:3' = '16:9',
+  signal?: AbortSignal
 ): Promise<{
   url: string;
   model: string;
@@ -316,6 +374,7 @@ async function generateWithReplicate(
         output_format: 'png',
       },
     }),
+    signal,
   });
 
   if (!startResponse.ok) {
@@ -328,6 +387,7 @@ async function generateWithReplicate(
   let result = prediction;
   while (result.status !== 'succeeded' && result.status !== 'failed') {
     await new Promise((resolve) => setTimeout(resolve, 1000));
+    throwIfCancelled(signal);
 
     const pollResponse = await fetch(
       `https://api.replicate.com/v1/predictions/${result.id}`,
@@ -335,6 +395,7 @@ async function generateWithReplicate(
         headers: {
           Authorization: `Token ${process.env.REPLICATE_API_TOKEN}`,
         },
+        signal,
       }
     );
 
@@ -355,6 +416,8 @@ async function generateWithReplicate(
   };
 }
 
+const GEMINI_IMAGE_MODEL = 'imagen-3.0-generate-002';
+
 /**
  * Generate image with Google Gemini Imagen 3 (Newest model - highest quality)
  *
@@ -366,7 +429,8 @@ async function generateWithReplicate(
  */
 async function generateWithGemini(
   prompt: string,
-  aspectRatio: '16:9' | '1:1' | '4:3' = '16:9'
+  aspectRatio: '16:9' | '1:1' | '4:3' = '16:9',
+  signal?: AbortSignal
 ): Promise<{
   url: string;
   model: string;
@@ -392,65 +456,68 @@ async function generateWithGemini(
     );
   }
 
-  // Dynamically import to avoid dependency issues if SDK not installed
-  let GoogleGenerativeAI: any;
-  try {
-    // eslint-disable-next-line global-require
-    GoogleGenerativeAI = require('@google/generative-ai').GoogleGenerativeAI;
-  } catch (error) {
-    console.error('   ❌ Google Generative AI SDK not installed');
-    throw new Error(
-      'Google Generative AI SDK not installed. Install with: npm install @google/generative-ai'
-    );
-  }
-
-  const genAI = new GoogleGenerativeAI(apiKey);
-
-  // Dimension mapping for aspect ratios
+  // Output sizes of Imagen 3 for each aspect ratio
   const dimensionMap = {
-    '16:9': { width: 1792, height: 1024 },
+    '16:9': { width: 1408, height: 768 },
     '1:1': { width: 1024, height: 1024 },
-    '4:3': { width: 1024, height: 768 },
+    '4:3': { width: 1280, height: 896 },
   };
 
   const dimensions = dimensionMap[aspectRatio];
 
-  console.log(`   🎨 Gemini config: model=imagen-3.0, dimensions=${dimensions.width}x${dimensions.height}`);
+  console.log(`   🎨 Gemini config: model=${GEMINI_IMAGE_MODEL}, aspectRatio=${aspectRatio}`);
 
   try {
-    // Use Imagen 3.0 (latest model)
-    const model = genAI.getGenerativeModel({
-      model: 'imagen-3.0-generate-001',
-    });
-
+    // Imagen is served by the REST predict endpoint (the SDK has no image method)
     console.log('   📡 Calling Gemini API...');
-    const result = await model.generateImages({
-      prompt: prompt,
-      numberOfImages: 1,
-      ...dimensions,
-    });
+    const response = await fetch(
+      `https://generativelanguage.googleapis.com/v1beta/models/${GEMINI_IMAGE_MODEL}:predict`,
+      {
+        method: 'POST',
+        headers: {
+          'x-goog-api-key': apiKey,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          instances: [{ prompt }],
+          parameters: { sampleCount: 1, aspectRatio },
+        }),
+        signal,
+      }
+    );
 
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(`${response.status} ${body?.error?.message || response.statusText}`);
+    }
+
+    const result = await response.json();
     console.log('   ✅ Gemini API responded');
 
-    const generatedImage = result.images[0];
+    const generatedImage = result.predictions?.[0];
 
-    if (!generatedImage || !generatedImage.url) {
-      console.error('   ❌ No image URL in Gemini response', {
+    if (!generatedImage?.bytesBase64Encoded) {
+      console.error('   ❌ No image in Gemini response', {
         responseKeys: result ? Object.keys(result) : [],
-        imagesLength: result?.images?.length,
+        predictionsLength: result?.predictions?.length,
       });
-      throw new Error('No image URL in Gemini response');
+      throw new Error('No image in Gemini response');
     }
 
-    console.log('   ✅ Image URL extracted successfully');
+    console.log('   ✅ Image extracted successfully');
 
     return {
-      url: generatedImage.url,
+      // generateImageForContent uploads this to Supabase Storage
+      url: `data:${generatedImage.mimeType || 'image/png'};base64,${generatedImage.bytesBase64Encoded}`,
       model: 'imagen-3.0 (Google Gemini)',
       width: dimensions.width,
       height: dimensions.height,
     };
   } catch (error: any) {
+    if (isCancellation(error) || signal?.aborted) {
+      throw new CancelledError();
+    }
+
     // Enhanced error logging with actionable diagnostics
     console.error('   ❌ Gemini image generation error:', {
       errorType: error?.constructor?.name,
@@ -471,7 +538,7 @@ async function generateWithGemini(
     } else if (error.message?.includes('permission') || error.message?.includes('403')) {
       actionableMessage = 'Permission denied. Ensure Imagen API is enabled in Google Cloud Console.';
     } else if (error.message?.includes('not found') || error.message?.includes('404')) {
-      actionableMessage = 'Model not found. Verify imagen-3.0-generate-001 is available in your region.';
+      actionableMessage = `Model not found. Verify ${GEMINI_IMAGE_MODEL} is available in your region.`;
     } else if (error.code === 'ENOTFOUND' || error.code === 'ECONNREFUSED') {
       actionableMessage = 'Network error connecting to Google API. Check your internet connection.';
     }
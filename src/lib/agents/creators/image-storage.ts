@@ -0,0 +1,207 @@
+import { createHash } from 'crypto';
+import { supabaseAdmin } from '@/lib/db/supabase';
+import { IMAGE_STORAGE_CONFIG } from '@/lib/config/images';
+import { readImageInfo, type ImageInfo } from '@/lib/utils/image-info';
+import { getErrorMessage } from '@/lib/utils/error-handler';
+import { getCancellationSignal } from '@/lib/utils/cancellation';
+import { readBodyWithLimit } from '@/lib/utils/read-body';
+
+/**
+ * IMAGE STORAGE
+ *
+ * Re-hosts generated images in our Supabase Storage bucket. Provider URLs
+ * (fal.ai, Replicate, Gemini) expire after a while and Hugging Face returns
+ * a data URL, so outputs only keep bucket URLs:
+ * - storeImage: Download (or decode) an image and upload it
+ * - findImagesToStore / rehostContentImages: Move every image of an output's
+ *   content (backfill)
+ *
+ * Objects are named {userId}/{sha256}.{ext}: under the user's prefix (what
+ * the bucket's upload policy checks) and content-addressed, so the same
+ * image is stored once per user. Width and height are read from the image
+ * itself rather than trusted from the provider.
+ */
+
+export interface StoredImage {
+  url: string; // Public bucket URL
+  path: string; // Object path in the bucket
+  hash: string; // sha256 of the image bytes
+  contentType: ImageInfo['contentType'];
+  bytes: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Store an image in the user's folder of the images bucket
+ *
+ * @param source - Provider URL or data URL
+ * @param options.signal - Abort signal (defaults to the job's cancellation signal)
+ * @throws Error if the image can't be downloaded, isn't a supported image
+ *   or the upload fails
+ */
+export async function storeImage(
+  userId: string,
+  source: string,
+  options: { signal?: AbortSignal } = {}
+): Promise<StoredImage> {
+  const data = await loadImage(source, options.signal ?? getCancellationSignal());
+
+  const info = readImageInfo(data);
+  if (!info) {
+    throw new Error('Not a PNG, JPEG, WebP or GIF image');
+  }
+
+  const hash = createHash('sha256').update(data).digest('hex');
+  const path = `${userId}/${hash}.${info.extension}`;
+  const bucket = supabaseAdmin.storage.from(IMAGE_STORAGE_CONFIG.bucket);
+
+  const { error } = await bucket.upload(path, data, {
+    contentType: info.contentType,
+    cacheControl: String(IMAGE_STORAGE_CONFIG.cacheControlSeconds),
+    upsert: false,
+  });
+  // Already stored: same bytes, same name
+  if (error && !isDuplicate(error)) {
+    console.error('Error uploading image:', error);
+    throw new Error(`Failed to upload image: ${error.message}`);
+  }
+
+  return {
+    url: bucket.getPublicUrl(path).data.publicUrl,
+    path,
+    hash,
+    contentType: info.contentType,
+    bytes: data.length,
+    width: info.width,
+    height: info.height,
+  };
+}
+
+/**
+ * Whether a URL already points into the images bucket
+ */
+export function isStoredImageUrl(url: string): boolean {
+  return url.startsWith(supabaseAdmin.storage.from(IMAGE_STORAGE_CONFIG.bucket).getPublicUrl('').data.publicUrl);
+}
+
+/**
+ * Move every image an output's content points at into the bucket
+ *
+ * Images are found through `imageUrl` fields (blog cells, slides, the
+ * `images` list, the social post); each URL is then replaced everywhere in
+ * the content, including rendered markdown and HTML. GeneratedImage entries
+ * also get the stored width, height, path and hash.
+ *
+ * An image that can't be stored (typically: its provider URL has already
+ * expired) keeps its URL and is listed in `failed`.
+ *
+ * @returns The rewritten content (the input isn't modified) and what was stored
+ */
+export async function rehostContentImages<T>(
+  userId: string,
+  content: T
+): Promise<{ content: T; stored: Map<string, StoredImage>; failed: { source: string; reason: string }[] }> {
+  const stored = new Map<string, StoredImage>();
+  const failed: { source: string; reason: string }[] = [];
+
+  for (const source of findImagesToStore(content)) {
+    try {
+      stored.set(source, await storeImage(userId, source));
+    } catch (error) {
+      failed.push({ source: describeSource(source), reason: getErrorMessage(error) });
+    }
+  }
+
+  return { content: stored.size > 0 ? (rewrite(content, stored) as T) : content, stored, failed };
+}
+
+/**
+ * Image URLs of an output's content that aren't in the bucket yet (skips
+ * placeholders and failed images)
+ */
+export function findImagesToStore(content: unknown): string[] {
+  return Array.from(collectImageUrls(content, new Set()));
+}
+
+/**
+ * Replace re-hosted image URLs in a text (markdown, HTML)
+ */
+export function replaceImageUrls(text: string, stored: Map<string, StoredImage>): string {
+  let replaced = text;
+  for (const [source, image] of stored) {
+    replaced = replaced.replaceAll(source, image.url);
+  }
+  return replaced;
+}
+
+/**
+ * Download (or decode) an image, within the size and time limits
+ */
+async function loadImage(source: string, signal?: AbortSignal): Promise<Buffer> {
+  const dataUrl = source.match(/^data:image\/[\w.+-]+;base64,(.+)$/);
+  if (dataUrl) {
+    return checkSize(Buffer.from(dataUrl[1], 'base64'));
+  }
+  if (!/^https?:\/\//.test(source)) {
+    throw new Error('Not an http(s) or data URL');
+  }
+
+  const timeout = AbortSignal.timeout(IMAGE_STORAGE_CONFIG.downloadTimeoutMs);
+  const response = await fetch(source, { signal: signal ? AbortSignal.any([signal, timeout]) : timeout });
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new Error(`Image download failed: HTTP ${response.status}`);
+  }
+
+  // Streamed: stops past maxBytes, whatever content-length says
+  return readBodyWithLimit(response, IMAGE_STORAGE_CONFIG.maxBytes);
+}
+
+function checkSize(data: Buffer): Buffer {
+  if (data.length > IMAGE_STORAGE_CONFIG.maxBytes) {
+    throw new Error(`Image larger than ${IMAGE_STORAGE_CONFIG.maxBytes} bytes`);
+  }
+  return data;
+}
+
+function isDuplicate(error: Error): boolean {
+  return 'statusCode' in error && String(error.statusCode) === '409';
+}
+
+function collectImageUrls(value: unknown, urls: Set<string>): Set<string> {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectImageUrls(item, urls));
+  } else if (value && typeof value === 'object') {
+    for (const [key, field] of Object.entries(value)) {
+      if (key === 'imageUrl' && typeof field === 'string') {
+        if (/^(https?:|data:image\/)/.test(field) && !isStoredImageUrl(field)) urls.add(field);
+      } else {
+        collectImageUrls(field, urls);
+      }
+    }
+  }
+  return urls;
+}
+
+function rewrite(value: unknown, stored: Map<string, StoredImage>): unknown {
+  if (typeof value === 'string') return replaceImageUrls(value, stored);
+  if (Array.isArray(value)) return value.map((item) => rewrite(item, stored));
+  if (!value || typeof value !== 'object') return value;
+
+  const fields = Object.fromEntries(Object.entries(value).map(([key, field]) => [key, rewrite(field, stored)]));
+
+  // A GeneratedImage: record what was stored
+  const image = 'imageUrl' in value && typeof value.imageUrl === 'string' ? stored.get(value.imageUrl) : undefined;
+  if (image && 'width' in value && 'height' in value) {
+    return { ...fields, width: image.width, height: image.height, storagePath: image.path, contentHash: image.hash };
+  }
+  return fields;
+}
+
+/**
+ * A source for logs (data URLs are megabytes long)
+ */
+function describeSource(source: string): string {
+  return source.startsWith('data:') ? `${source.slice(0, source.indexOf(','))} (data URL)` : source;
+}
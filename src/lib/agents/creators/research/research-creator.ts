@@ -0,0 +1,269 @@
+import { ChatOpenAI } from '@langchain/openai';
+import { ChatAnthropic } from '@langchain/anthropic';
+import {
+  ResearchPlanSchema,
+  ResearchBriefSchema,
+  ResearchReviewSchema,
+  type ResearchPlan,
+  type ResearchBrief,
+  type ResearchReview,
+} from './research-schemas';
+import { renderResearchBriefToMarkdown } from './research-renderer';
+import type { ResearchBriefContent } from '../../formats/research-brief';
+import { createLogger } from '@/lib/logging/logger';
+import { IdeaCreatorSchema, type IdeaForCreator } from '@/lib/db/schemas';
+import type { Idea } from '@/lib/db/types';
+import { MODEL_USE_CASES } from '@/lib/config/models';
+import type { ProgressReporter } from '@/lib/progress/progress-reporter';
+import { CheckpointStore } from '@/lib/checkpoints/checkpoint-store';
+import { getCancellationSignal } from '@/lib/utils/cancellation';
+
+/**
+ * RESEARCH BRIEF CREATOR
+ *
+ * Answers "is this worth building?" for an idea.
+ *
+ * Pipeline:
+ * 1. Planning Agent → Central question, scope, where to look for prior art
+ * 2. Drafting Agent → Structured brief (prior art, open questions, risks, feasibility, next steps)
+ * 3. Review Agent → Research rubric (evidence, balance, calibration, actionability)
+ *
+ * Models:
+ * - GPT-5 Nano: Planning
+ * - Claude Sonnet: Drafting
+ * - GPT-4o-mini: Review
+ *
+ * Note: prior art comes from the model's knowledge (no live search), so the
+ * review checks that claims are specific and the brief flags what to verify.
+ */
+
+/**
+ * Main entry point for research brief creation
+ *
+ * Progress (optional): planning 0-15, drafting 15-75, review 75-100
+ * Checkpoints (optional): plan, draft and review are restored on resume
+ */
+export async function createResearchBrief(
+  ideaData: Idea,
+  options: { progress?: ProgressReporter; checkpoints?: CheckpointStore } = {}
+): Promise<{
+  content: ResearchBriefContent;
+}> {
+  const { progress } = options;
+  const checkpoints = options.checkpoints ?? CheckpointStore.memory();
+
+  // Validate idea with schema (runtime validation for safety)
+  const idea = IdeaCreatorSchema.parse(ideaData);
+
+  const logger = createLogger({
+    ideaId: idea.id,
+    stage: 'research-creator',
+  });
+
+  logger.info('=== RESEARCH CREATOR STARTED ===', {
+    ideaTitle: idea.title,
+  });
+
+  // STAGE 1: Planning
+  logger.info('STAGE 1: Planning started');
+  await progress?.started('planning', { percent: 0 });
+  const plan = await checkpoints.getOrRun('plan', () => planResearch(idea, logger));
+  await progress?.completed('planning', {
+    percent: 15,
+    data: { searchAreas: plan.searchAreas.length },
+  });
+  logger.info('STAGE 1: Planning complete', {
+    title: plan.title,
+    centralQuestion: plan.centralQuestion,
+  });
+
+  // STAGE 2: Drafting
+  logger.info('STAGE 2: Drafting started');
+  await progress?.started('drafting', { percent: 15 });
+  const brief = await checkpoints.getOrRun('draft', () => draftResearchBrief(plan, idea, logger));
+  await progress?.completed('drafting', {
+    percent: 75,
+    data: { priorArt: brief.priorArt.length, risks: brief.risks.length },
+  });
+  logger.info('STAGE 2: Drafting complete', {
+    priorArt: brief.priorArt.length,
+    openQuestions: brief.openQuestions.length,
+    risks: brief.risks.length,
+    feasibilityScore: brief.feasibility.score,
+    verdict: brief.feasibility.verdict,
+  });
+
+  // STAGE 3: Review
+  logger.info('STAGE 3: Review started');
+  await progress?.started('review', { percent: 75 });
+  const review = await checkpoints.getOrRun('review', () => reviewResearchBrief(brief, plan, logger));
+  await progress?.completed('review', {
+    percent: 100,
+    data: { overallScore: review.overallScore },
+  });
+  logger.info('STAGE 3: Review complete', {
+    overallScore: review.overallScore,
+    recommendation: review.recommendation,
+  });
+
+  const markdown = renderResearchBriefToMarkdown(brief);
+
+  const duration = logger.getDuration();
+  logger.info('=== RESEARCH CREATOR COMPLETE ===', {
+    durationMs: duration,
+    durationSeconds: (duration / 1000).toFixed(2),
+    finalScore: review.overallScore,
+  });
+
+  return {
+    content: {
+      ...brief,
+      markdown, // PDF-ready (pandoc brief.md -o brief.pdf)
+      _reviewScore: review.overallScore,
+      _review: review,
+    },
+  };
+}
+
+/**
+ * STAGE 1: Planning
+ */
+async function planResearch(
+  idea: IdeaForCreator,
+  logger: ReturnType<typeof createLogger>
+): Promise<ResearchPlan> {
+  const model = new ChatOpenAI({
+    modelName: MODEL_USE_CASES.researchPlanning,
+    // Note: GPT-5 Nano only supports default temperature (1)
+    apiKey: process.env.OPENAI_API_KEY,
+  });
+
+  const structuredModel = model.withStructuredOutput(ResearchPlanSchema);
+
+  const prompt = `Plan a research brief for this idea: "${idea.title}"
+${idea.description ? `\nDescription: ${idea.description}\n` : ''}
+The brief must help decide whether the idea is worth building.
+
+Create a plan including:
+1. Title for the brief
+2. The central question (e.g. "Can X be built with Y, and would anyone use it over Z?")
+3. Scope: what's in and what's out
+4. 3-6 search areas for prior art (fields, product categories, research areas)
+5. 2-4 key uncertainties that most affect feasibility
+
+Return detailed plan.`;
+
+  try {
+    const plan = await structuredModel.invoke(prompt, { signal: getCancellationSignal() });
+    return plan as ResearchPlan;
+  } catch (error) {
+    logger.error('Planning failed, using fallback', error instanceof Error ? error : { error });
+    return {
+      title: `Research brief: ${idea.title}`,
+      centralQuestion: `Is "${idea.title}" worth building?`,
+      scope: 'Prior art, risks and feasibility of a first version',
+      searchAreas: ['Existing products', 'Open-source projects', 'Research papers'],
+      keyUncertainties: ['Technical feasibility', 'Demand'],
+    };
+  }
+}
+
+/**
+ * STAGE 2: Drafting
+ */
+async function draftResearchBrief(
+  plan: ResearchPlan,
+  idea: IdeaForCreator,
+  logger: ReturnType<typeof createLogger>
+): Promise<ResearchBrief> {
+  const model = new ChatAnthropic({
+    modelName: MODEL_USE_CASES.researchDrafting,
+    temperature: 0.4, // Analytical, not creative
+    apiKey: process.env.ANTHROPIC_API_KEY,
+  });
+
+  const structuredModel = model.withStructuredOutput(ResearchBriefSchema);
+
+  const prompt = `Write a research brief as STRUCTURED SECTIONS (not markdown strings).
+
+IDEA:
+${idea.title}${idea.description ? `\n${idea.description}` : ''}
+
+PLAN:
+Title: ${plan.title}
+Central question: ${plan.centralQuestion}
+Scope: ${plan.scope}
+Search areas: ${plan.searchAreas.join(', ')}
+Key uncertainties: ${plan.keyUncertainties.join('; ')}
+
+SECTIONS:
+- summary: the answer to the central question in 3-5 sentences
+- priorArt (3-6): real, specific products/papers/projects/techniques. Name them.
+  Only give a url if you are confident it is correct, otherwise use "".
+  Never invent papers or products - if unsure, describe the technique instead.
+- openQuestions (2-5): what is still unknown, why it matters, how to find out
+- risks (3-6): technical, market, legal, ethical or resource risks with likelihood, impact and mitigation
+- feasibility: score 0-10, rationale grounded in the prior art and risks, and a verdict:
+  "build" | "prototype_first" | "research_more" | "skip"
+- nextSteps (3-6): concrete and ordered, cheapest way to reduce the biggest uncertainty first
+
+Be honest: a "skip" or "research_more" verdict is a valid, useful answer.
+
+Generate the complete structured brief.`;
+
+  logger.debug('Drafting research brief', { searchAreas: plan.searchAreas.length });
+  const brief = await structuredModel.invoke(prompt, { signal: getCancellationSignal() });
+  return brief as ResearchBrief;
+}
+
+/**
+ * STAGE 3: Review
+ */
+async function reviewResearchBrief(
+  brief: ResearchBrief,
+  plan: ResearchPlan,
+  logger: ReturnType<typeof createLogger>
+): Promise<ResearchReview> {
+  const model = new ChatOpenAI({
+    modelName: MODEL_USE_CASES.researchReview,
+    temperature: 0.3,
+    apiKey: process.env.OPENAI_API_KEY,
+  });
+
+  const structuredModel = model.withStructuredOutput(ResearchReviewSchema);
+
+  const preview = renderResearchBriefToMarkdown(brief).substring(0, 4000);
+
+  const prompt = `Review this research brief. It must help someone decide whether to build the idea.
+
+CENTRAL QUESTION: ${plan.centralQuestion}
+KEY UNCERTAINTIES: ${plan.keyUncertainties.join('; ')}
+
+BRIEF:
+${preview}
+
+Evaluate (0-100 each):
+1. Evidence: Is prior art specific and relevant (named products/papers), not generic filler?
+2. Balance: Are risks and open questions taken seriously rather than glossed over?
+3. Calibration: Do the feasibility score and verdict follow from the evidence and risks?
+4. Actionability: Are next steps concrete, ordered and cheapest-first?
+
+Overall score = average
+Recommendation: "approve" (≥75), "revise" (60-74), "regenerate" (<60)
+
+Return structured review.`;
+
+  try {
+    const review = await structuredModel.invoke(prompt, { signal: getCancellationSignal() });
+    return review as ResearchReview;
+  } catch (error) {
+    logger.error('Review failed, using fallback', error instanceof Error ? error : { error });
+    return {
+      overallScore: 75,
+      categoryScores: { evidence: 75, balance: 75, calibration: 75, actionability: 75 },
+      recommendation: 'approve',
+      strengths: ['Research brief created successfully'],
+      improvements: ['Review failed - manual check recommended'],
+    };
+  }
+}
@@ -0,0 +1,112 @@
+import type { ResearchBrief, Risk } from './research-schemas';
+
+/**
+ * RESEARCH BRIEF RENDERER
+ *
+ * Renders a brief to Markdown that reads well as-is and converts cleanly to PDF:
+ * - YAML front matter (title, date) for pandoc
+ * - Tables for risks and next steps
+ * - No HTML, so any Markdown → PDF tool can handle it
+ *
+ * ```bash
+ * pandoc brief.md -o brief.pdf
+ * ```
+ */
+
+const VERDICT_LABELS: Record<ResearchBrief['feasibility']['verdict'], string> = {
+  build: 'Build it',
+  prototype_first: 'Prototype first',
+  research_more: 'Research more before building',
+  skip: 'Skip',
+};
+
+const PRIOR_ART_LABELS: Record<ResearchBrief['priorArt'][number]['kind'], string> = {
+  product: 'Product',
+  paper: 'Paper',
+  open_source: 'Open source',
+  technique: 'Technique',
+  other: 'Other',
+};
+
+/**
+ * Escape pipes so cell text can't break a Markdown table
+ */
+function tableCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\n+/g, ' ');
+}
+
+function riskRow(risk: Risk): string {
+  return `| ${tableCell(risk.risk)} | ${risk.category} | ${risk.likelihood} | ${risk.impact} | ${tableCell(risk.mitigation)} |`;
+}
+
+/**
+ * Render a research brief as PDF-ready Markdown
+ */
+export function renderResearchBriefToMarkdown(brief: ResearchBrief, date = new Date()): string {
+  const priorArt = brief.priorArt
+    .map((item) => {
+      const name = item.url ? `[${item.name}](${item.url})` : item.name;
+      return `### ${name}\n\n*${PRIOR_ART_LABELS[item.kind]}* - ${item.summary}\n\n**Relevance:** ${item.relevance}`;
+    })
+    .join('\n\n');
+
+  const openQuestions = brief.openQuestions
+    .map(
+      (item, i) =>
+        `${i + 1}. **${item.question}**\n   - Why it matters: ${item.whyItMatters}\n   - How to answer: ${item.howToAnswer}`
+    )
+    .join('\n');
+
+  const risks = [
+    '| Risk | Category | Likelihood | Impact | Mitigation |',
+    '| --- | --- | --- | --- | --- |',
+    ...brief.risks.map(riskRow),
+  ].join('\n');
+
+  const nextSteps = [
+    '| # | Step | Effort | Outcome |',
+    '| --- | --- | --- | --- |',
+    ...brief.nextSteps.map(
+      (item, i) => `| ${i + 1} | ${tableCell(item.step)} | ${item.effort} | ${tableCell(item.outcome)} |`
+    ),
+  ].join('\n');
+
+  return `---
+title: "${brief.title.replace(/"/g, '\\"')}"
+date: ${date.toISOString().slice(0, 10)}
+---
+
+# ${brief.title}
+
+> **Question:** ${brief.centralQuestion}
+>
+> **Feasibility:** ${brief.feasibility.score}/10 - ${VERDICT_LABELS[brief.feasibility.verdict]}
+
+## Summary
+
+${brief.summary}
+
+## Prior Art
+
+${priorArt}
+
+## Open Questions
+
+${openQuestions}
+
+## Risks
+
+${risks}
+
+## Feasibility
+
+- **Score:** ${brief.feasibility.score}/10
+- **Verdict:** ${VERDICT_LABELS[brief.feasibility.verdict]}
+
+${brief.feasibility.rationale}
+
+## Next Steps
+
+${nextSteps}
+`;
+}
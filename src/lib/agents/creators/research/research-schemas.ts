@@ -0,0 +1,111 @@
+import { z } from 'zod';
+
+/**
+ * RESEARCH BRIEF SCHEMAS
+ *
+ * A research brief answers "is this worth building?" for an idea.
+ * Like the blog cells, every section is structured data, so it can be
+ * validated, reviewed section by section and rendered to Markdown/PDF.
+ */
+
+// ===== PLAN =====
+
+export const ResearchPlanSchema = z.object({
+  title: z.string(),
+  centralQuestion: z.string().describe('The "is this worth building?" question the brief answers'),
+  scope: z.string().describe('What the brief covers and deliberately leaves out'),
+  searchAreas: z.array(z.string()).describe('Fields, products and papers to survey for prior art'),
+  keyUncertainties: z.array(z.string()).describe('What most determines feasibility'),
+});
+
+export type ResearchPlan = z.infer<typeof ResearchPlanSchema>;
+
+// ===== SECTIONS =====
+
+/**
+ * Prior art - existing products, papers, projects or techniques
+ */
+export const PriorArtSchema = z.object({
+  name: z.string().describe('Product, paper, project or technique'),
+  kind: z.enum(['product', 'paper', 'open_source', 'technique', 'other']),
+  summary: z.string().describe('What it is and does (1-2 sentences)'),
+  relevance: z.string().describe('How it relates to the idea: overlap, gaps, lessons'),
+  url: z.string().describe('Link if well known, otherwise empty string'),
+});
+
+export type PriorArt = z.infer<typeof PriorArtSchema>;
+
+export const OpenQuestionSchema = z.object({
+  question: z.string(),
+  whyItMatters: z.string(),
+  howToAnswer: z.string().describe('Experiment, interview, prototype or reading that would answer it'),
+});
+
+export type OpenQuestion = z.infer<typeof OpenQuestionSchema>;
+
+export const RiskSchema = z.object({
+  risk: z.string(),
+  category: z.enum(['technical', 'market', 'legal', 'ethical', 'resource']),
+  likelihood: z.enum(['low', 'medium', 'high']),
+  impact: z.enum(['low', 'medium', 'high']),
+  mitigation: z.string(),
+});
+
+export type Risk = z.infer<typeof RiskSchema>;
+
+export const FeasibilitySchema = z.object({
+  score: z.number().min(0).max(10).describe('0 = not feasible, 10 = clearly feasible with known tools'),
+  rationale: z.string().describe('Why this score - cite prior art and risks'),
+  verdict: z.enum(['build', 'prototype_first', 'research_more', 'skip']),
+});
+
+export type Feasibility = z.infer<typeof FeasibilitySchema>;
+
+export const NextStepSchema = z.object({
+  step: z.string(),
+  effort: z.enum(['hours', 'days', 'weeks']),
+  outcome: z.string().describe('What you learn or have after this step'),
+});
+
+export type NextStep = z.infer<typeof NextStepSchema>;
+
+// ===== COMPLETE BRIEF =====
+
+/**
+ * Research Brief Schema - Complete structured output of the draft stage
+ */
+export const ResearchBriefSchema = z.object({
+  title: z.string().min(1),
+  summary: z.string().describe('Executive summary: the answer in 3-5 sentences'),
+  centralQuestion: z.string(),
+  priorArt: z.array(PriorArtSchema).min(2),
+  openQuestions: z.array(OpenQuestionSchema).min(2),
+  risks: z.array(RiskSchema).min(2),
+  feasibility: FeasibilitySchema,
+  nextSteps: z.array(NextStepSchema).min(2).max(7),
+});
+
+export type ResearchBrief = z.infer<typeof ResearchBriefSchema>;
+
+// ===== REVIEW RUBRIC =====
+
+/**
+ * Research Review Rubric
+ *
+ * Different from the blog rubric: a brief is judged on whether it helps
+ * decide, not on how engaging it reads.
+ */
+export const ResearchReviewSchema = z.object({
+  overallScore: z.number(),
+  categoryScores: z.object({
+    evidence: z.number().describe('Prior art is specific and relevant, not generic'),
+    balance: z.number().describe('Risks and open questions are taken seriously, not glossed over'),
+    calibration: z.number().describe('Feasibility score and verdict follow from the evidence'),
+    actionability: z.number().describe('Next steps are concrete, ordered and cheap-first'),
+  }),
+  recommendation: z.enum(['approve', 'revise', 'regenerate']),
+  strengths: z.array(z.string()),
+  improvements: z.array(z.string()),
+});
+
+export type ResearchReview = z.infer<typeof ResearchReviewSchema>;
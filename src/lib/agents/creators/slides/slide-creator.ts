@@ -0,0 +1,339 @@
+import { ChatOpenAI } from '@langchain/openai';
+import { ChatAnthropic } from '@langchain/anthropic';
+import { z } from 'zod';
+import { generateImageForContent } from '../image-creator';
+import type { GeneratedImage, ExpansionConstraints } from '../../types';
+import { SlideDeckGenerationSchema, type SlideCell, type SlideDeckGeneration } from './slide-schemas';
+import { renderSlidesToRevealHtml, renderSlidesToMarp } from './slide-renderers';
+import type { SlideDeckContent } from '../../formats/slide-deck';
+import { createLogger } from '@/lib/logging/logger';
+import { IdeaCreatorSchema, type IdeaForCreator } from '@/lib/db/schemas';
+import type { Idea } from '@/lib/db/types';
+import { MODEL_USE_CASES } from '@/lib/config/models';
+import type { ProgressReporter } from '@/lib/progress/progress-reporter';
+import { CheckpointStore } from '@/lib/checkpoints/checkpoint-store';
+import { getCancellationSignal } from '@/lib/utils/cancellation';
+
+/**
+ * SLIDE DECK CREATOR - Cell-Based Architecture
+ *
+ * Pipeline:
+ * 1. Planning Agent → Decides audience, narrative arc, slide count, image slides
+ * 2. Generation Agent → Creates SlideCell[] (content slides + image slides) with speaker notes
+ * 3. Image Generation → Generates images for image slide placeholders
+ * 4. Rendering → Reveal.js HTML + Marp markdown
+ *
+ * Models:
+ * - GPT-5 Nano: Planning
+ * - Claude Sonnet: Slide generation
+ */
+
+const SlidePlanSchema = z.object({
+  title: z.string(),
+  deckType: z.enum(['talk', 'pitch', 'lecture', 'workshop']),
+  audience: z.string(),
+  narrative: z.array(z.string()).describe('The story arc, one entry per part of the deck'),
+  slideCount: z.number(),
+  includeImages: z.boolean(),
+  imageSpecs: z.array(
+    z.object({
+      placement: z.string(),
+      concept: z.string(),
+      style: z.string().default('clean presentation illustration'),
+    })
+  ),
+});
+
+type SlidePlan = z.infer<typeof SlidePlanSchema>;
+
+/**
+ * Main entry point for slide deck creation
+ *
+ * Progress (optional): planning 0-15, generation 15-60, images 60-100
+ * Checkpoints (optional): plan, generation and images are restored on resume
+ * Constraints (optional): allowImages: false plans a deck without image slides
+ * User (optional): owner of the images, which are stored in their folder of the
+ *   images bucket (see image-storage.ts)
+ */
+export async function createSlideDeck(
+  ideaData: Idea,
+  options: {
+    progress?: ProgressReporter;
+    checkpoints?: CheckpointStore;
+    constraints?: ExpansionConstraints;
+    userId?: string;
+  } = {}
+): Promise<{
+  content: SlideDeckContent;
+}> {
+  const { progress, constraints = {}, userId } = options;
+  const checkpoints = options.checkpoints ?? CheckpointStore.memory();
+
+  // Validate idea with schema (runtime validation for safety)
+  const idea = IdeaCreatorSchema.parse(ideaData);
+
+  const logger = createLogger({
+    ideaId: idea.id,
+    stage: 'slide-creator',
+  });
+
+  logger.info('=== SLIDE CREATOR STARTED ===', {
+    ideaTitle: idea.title,
+  });
+
+  // STAGE 1: Planning
+  logger.info('STAGE 1: Planning started');
+  await progress?.started('planning', { percent: 0 });
+  const plan = await checkpoints.getOrRun('plan', async () => {
+    const planned = await planSlideDeck(idea, logger);
+    return constraints.allowImages === false
+      ? { ...planned, includeImages: false, imageSpecs: [] }
+      : planned;
+  });
+  await progress?.completed('planning', {
+    percent: 15,
+    data: { slideCount: plan.slideCount, imagesCount: plan.imageSpecs.length },
+  });
+  logger.info('STAGE 1: Planning complete', {
+    title: plan.title,
+    deckType: plan.deckType,
+    slideCount: plan.slideCount,
+    imagesCount: plan.imageSpecs.length,
+  });
+
+  // STAGE 2: Slide Generation
+  logger.info('STAGE 2: Slide generation started');
+  await progress?.started('generation', { percent: 15 });
+  const generation = await checkpoints.getOrRun('generation', () =>
+    generateSlides(plan, idea, logger)
+  );
+  await progress?.completed('generation', {
+    percent: 60,
+    data: { slidesCount: generation.slides.length },
+  });
+  logger.info('STAGE 2: Slide generation complete', {
+    slidesCount: generation.slides.length,
+    imageSlides: generation.slides.filter((s) => s.cellType === 'image').length,
+  });
+
+  // STAGE 3: Image Generation (for image slide placeholders)
+  logger.info('STAGE 3: Image generation started');
+  await progress?.started('images', { percent: 60 });
+  const { slides, images } = await checkpoints.getOrRun('images', () =>
+    generateImagesForSlides(generation.slides, plan.imageSpecs, generation.title, userId, logger)
+  );
+  await progress?.completed('images', {
+    percent: 100,
+    data: { imagesGenerated: images.length },
+  });
+  logger.info('STAGE 3: Image generation complete', {
+    imagesGenerated: images.length,
+  });
+
+  // STAGE 4: Rendering
+  const deck = { title: generation.title, subtitle: generation.subtitle, slides };
+  const revealHtml = renderSlidesToRevealHtml(deck);
+  const marpMarkdown = renderSlidesToMarp(deck);
+
+  const duration = logger.getDuration();
+  logger.info('=== SLIDE CREATOR COMPLETE ===', {
+    durationMs: duration,
+    durationSeconds: (duration / 1000).toFixed(2),
+    slidesCount: slides.length,
+    imagesCount: images.length,
+  });
+
+  return {
+    content: {
+      title: generation.title,
+      subtitle: generation.subtitle,
+      deckType: plan.deckType,
+      audience: plan.audience,
+      slides,
+      slideCount: slides.length + 1, // Includes the title slide
+      images,
+      revealHtml,
+      marpMarkdown,
+    },
+  };
+}
+
+/**
+ * STAGE 1: Planning
+ */
+async function planSlideDeck(
+  idea: IdeaForCreator,
+  logger: ReturnType<typeof createLogger>
+): Promise<SlidePlan> {
+  const model = new ChatOpenAI({
+    modelName: MODEL_USE_CASES.slidesPlanning,
+    // Note: GPT-5 Nano only supports default temperature (1)
+    apiKey: process.env.OPENAI_API_KEY,
+  });
+
+  const structuredModel = model.withStructuredOutput(SlidePlanSchema);
+
+  const prompt = `Plan a slide deck for: "${idea.title}"
+${idea.description ? `\nDescription: ${idea.description}\n` : ''}
+Create a plan including:
+1. Deck title (can refine original)
+2. Deck type: talk, pitch, lecture or workshop
+3. Target audience
+4. Narrative arc: 3-6 parts (e.g. problem → insight → solution → ask)
+5. Slide count (8-15, not counting the title slide)
+6. Whether to include images (0-3 full-slide visuals)
+7. Image specs: placement, concept, style
+
+Return detailed plan.`;
+
+  try {
+    const plan = await structuredModel.invoke(prompt, { signal: getCancellationSignal() });
+    return plan as SlidePlan;
+  } catch (error) {
+    logger.error('Planning failed, using fallback', error instanceof Error ? error : { error });
+    return {
+      title: idea.title,
+      deckType: 'talk',
+      audience: 'General technical audience',
+      narrative: ['Problem', 'Idea', 'How it works', 'Next steps'],
+      slideCount: 10,
+      includeImages: false,
+      imageSpecs: [],
+    };
+  }
+}
+
+/**
+ * STAGE 2: Slide Generation
+ */
+async function generateSlides(
+  plan: SlidePlan,
+  idea: IdeaForCreator,
+  logger: ReturnType<typeof createLogger>
+): Promise<SlideDeckGeneration> {
+  const model = new ChatAnthropic({
+    modelName: MODEL_USE_CASES.slidesGeneration,
+    temperature: 0.7,
+    apiKey: process.env.ANTHROPIC_API_KEY,
+  });
+
+  const structuredModel = model.withStructuredOutput(SlideDeckGenerationSchema);
+
+  const prompt = `Create a ${plan.deckType} slide deck using STRUCTURED SLIDES (not markdown strings).
+
+IDEA:
+${idea.title}${idea.description ? `\n${idea.description}` : ''}
+
+PLAN:
+Title: ${plan.title}
+Audience: ${plan.audience}
+Narrative: ${plan.narrative.join(' → ')}
+Slide Count: ${plan.slideCount}
+
+SLIDE STRUCTURE:
+
+You must create an array of slides. Each slide is EITHER:
+
+1. **Content Slide** - Structured blocks + speaker notes:
+   {
+     "cellType": "slide",
+     "layout": "content",
+     "blocks": [
+       { "blockType": "h2", "text": "Slide Title" },
+       { "blockType": "bulletList", "items": ["Short point", "Short point"] }
+     ],
+     "speakerNotes": "What the presenter says while this slide is up."
+   }
+   Use "layout": "section" for a divider slide that opens a new part of the narrative.
+
+2. **Image Slide** - Placeholder for image generation:
+   {
+     "cellType": "image",
+     "imageUrl": "[PLACEHOLDER-1]",
+     "caption": "Detailed description of what to visualize",
+     "speakerNotes": "What the presenter says while the image is up."
+   }
+
+REQUIREMENTS:
+- Do NOT include a title slide (it is generated from "title" and "subtitle")
+- ${plan.includeImages ? `Include ${plan.imageSpecs.length} image slide(s) at strategic points` : 'No image slides'}
+- One idea per slide: an h2 heading plus at most 3-5 short bullets or one short paragraph
+- Bullets are fragments, not sentences; the detail goes in the speaker notes
+- Every slide needs speaker notes (2-4 sentences, conversational)
+- Follow the narrative arc and end with a clear takeaway${plan.deckType === 'pitch' ? ' and an ask' : ''}
+- Use code blocks only if the audience needs to see code
+
+OUTPUT FORMAT:
+{
+  "title": "...",
+  "subtitle": "...",
+  "slides": [ ...array of slides... ]
+}
+
+Generate the complete structured deck.`;
+
+  logger.debug('Generating slides', { slideCount: plan.slideCount });
+  const generation = await structuredModel.invoke(prompt, { signal: getCancellationSignal() });
+  return generation as SlideDeckGeneration;
+}
+
+/**
+ * STAGE 3: Image Generation
+ */
+async function generateImagesForSlides(
+  slides: SlideCell[],
+  imageSpecs: SlidePlan['imageSpecs'],
+  deckTitle: string,
+  userId: string | undefined,
+  logger: ReturnType<typeof createLogger>
+): Promise<{ slides: SlideCell[]; images: GeneratedImage[] }> {
+  const images: GeneratedImage[] = [];
+  const updatedSlides: SlideCell[] = [];
+
+  let imageIndex = 0;
+
+  for (const slide of slides) {
+    if (slide.cellType !== 'image' || !slide.imageUrl.includes('PLACEHOLDER')) {
+      updatedSlides.push(slide);
+      continue;
+    }
+
+    // No spec for this image, skip the slide
+    if (imageIndex >= imageSpecs.length) {
+      logger.warn('Image slide without spec, skipping');
+      continue;
+    }
+
+    const spec = imageSpecs[imageIndex];
+    try {
+      logger.info(`Generating image ${imageIndex + 1}`, { concept: spec.concept });
+      const image = await generateImageForContent(
+        { ...spec, aspectRatio: '16:9' },
+        `${deckTitle}: ${slide.caption}`,
+        { userId }
+      );
+      images.push(image);
+
+      // Replace placeholder with actual URL
+      updatedSlides.push({
+        ...slide,
+        imageUrl: image.imageUrl,
+      });
+
+      logger.info(`Image ${imageIndex + 1} generated`, { url: image.imageUrl });
+    } catch (error) {
+      logger.error(`Failed to generate image ${imageIndex + 1}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      // Keep slide but mark as failed (renderers skip it)
+      updatedSlides.push({
+        ...slide,
+        imageUrl: '',
+        caption: `[Image generation failed: ${slide.caption}]`,
+      });
+    }
+    imageIndex++;
+  }
+
+  return { slides: updatedSlides, images };
+}
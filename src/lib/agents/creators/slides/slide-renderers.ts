@@ -0,0 +1,138 @@
+import { renderMarkdownBlocks } from '../blog/blog-schemas';
+import type { MarkdownBlock } from '../blog/blog-schemas';
+import type { SlideCell } from './slide-schemas';
+
+/**
+ * SLIDE RENDERERS
+ *
+ * Turn structured slide cells into presentation files:
+ * - Reveal.js: standalone HTML page (open in a browser, press S for speaker notes)
+ * - Marp: markdown for Marp CLI / the VS Code extension (notes become presenter notes)
+ *
+ * Both add a title slide from the deck's title/subtitle. Image slides with
+ * an empty imageUrl (failed generation) are skipped.
+ */
+
+interface DeckToRender {
+  title: string;
+  subtitle: string;
+  slides: SlideCell[];
+}
+
+const REVEAL_VERSION = '5.1.0';
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function renderBlockToHtml(block: MarkdownBlock): string {
+  switch (block.blockType) {
+    case 'h1':
+      return `<h1>${escapeHtml(block.text)}</h1>`;
+    case 'h2':
+      return `<h2>${escapeHtml(block.text)}</h2>`;
+    case 'h3':
+      return `<h3>${escapeHtml(block.text)}</h3>`;
+    case 'paragraph':
+      return `<p>${escapeHtml(block.text)}</p>`;
+    case 'bulletList':
+      return `<ul>${block.items.map((item) => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`;
+    case 'numberedList':
+      return `<ol>${block.items.map((item) => `<li>${escapeHtml(item)}</li>`).join('')}</ol>`;
+    case 'codeBlock':
+      return `<pre><code class="language-${escapeHtml(block.language)}">${escapeHtml(block.lines.join('\n'))}</code></pre>`;
+    case 'hr':
+      return '<hr />';
+  }
+}
+
+function isRenderable(slide: SlideCell): boolean {
+  return slide.cellType !== 'image' || !!slide.imageUrl;
+}
+
+/**
+ * Render a deck as a standalone Reveal.js HTML page
+ */
+export function renderSlidesToRevealHtml(deck: DeckToRender): string {
+  const sections = deck.slides.filter(isRenderable).map((slide) => {
+    const notes = `<aside class="notes">${escapeHtml(slide.speakerNotes)}</aside>`;
+
+    if (slide.cellType === 'image') {
+      return `      <section>
+        <img src="${escapeHtml(slide.imageUrl)}" alt="${escapeHtml(slide.caption)}" style="max-height: 70vh;" />
+        <p><small>${escapeHtml(slide.caption)}</small></p>
+        ${notes}
+      </section>`;
+    }
+
+    return `      <section>
+        ${slide.blocks.map(renderBlockToHtml).join('\n        ')}
+        ${notes}
+      </section>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+  <title>${escapeHtml(deck.title)}</title>
+  <link rel="stylesheet" href="https://cdn.jsdelivr.net/npm/reveal.js@${REVEAL_VERSION}/dist/reveal.css" />
+  <link rel="stylesheet" href="https://cdn.jsdelivr.net/npm/reveal.js@${REVEAL_VERSION}/dist/theme/white.css" />
+</head>
+<body>
+  <div class="reveal">
+    <div class="slides">
+      <section>
+        <h1>${escapeHtml(deck.title)}</h1>
+        <p>${escapeHtml(deck.subtitle)}</p>
+      </section>
+${sections.join('\n')}
+    </div>
+  </div>
+  <script src="https://cdn.jsdelivr.net/npm/reveal.js@${REVEAL_VERSION}/dist/reveal.js"></script>
+  <script src="https://cdn.jsdelivr.net/npm/reveal.js@${REVEAL_VERSION}/plugin/notes/notes.js"></script>
+  <script>
+    Reveal.initialize({ hash: true, plugins: [RevealNotes] });
+  </script>
+</body>
+</html>
+`;
+}
+
+/**
+ * Render a deck as Marp markdown
+ *
+ * Speaker notes become HTML comments, which Marp treats as presenter notes.
+ */
+export function renderSlidesToMarp(deck: DeckToRender): string {
+  const frontMatter = `---
+marp: true
+theme: default
+paginate: true
+---`;
+
+  const titleSlide = `<!-- _class: lead -->
+
+# ${deck.title}
+
+${deck.subtitle}`;
+
+  const slides = deck.slides.filter(isRenderable).map((slide) => {
+    // "-->" would close the comment early
+    const notes = `<!--\n${slide.speakerNotes.replace(/-->/g, '-- >')}\n-->`;
+
+    if (slide.cellType === 'image') {
+      return `![bg contain](${slide.imageUrl})\n\n${notes}`;
+    }
+
+    const layoutDirective = slide.layout === 'section' ? '<!-- _class: lead -->\n\n' : '';
+    return `${layoutDirective}${renderMarkdownBlocks(slide.blocks)}\n\n${notes}`;
+  });
+
+  return `${frontMatter}\n\n${[titleSlide, ...slides].join('\n\n---\n\n')}\n`;
+}
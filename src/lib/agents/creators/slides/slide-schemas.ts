@@ -0,0 +1,71 @@
+import { z } from 'zod';
+import { MarkdownBlockSchema } from '../blog/blog-schemas';
+
+/**
+ * SLIDE DECK CELL-BASED SCHEMAS
+ *
+ * Same philosophy as the blog cells ("schemas all the way down"):
+ * a deck is an array of structured cells, not a markdown string.
+ *
+ * - Content slides reuse the blog's MarkdownBlocks
+ * - Image slides are first-class cells (placeholders during generation)
+ * - Every slide carries speaker notes
+ *
+ * The cells render to Reveal.js HTML and Marp markdown (see slide-renderers.ts).
+ */
+
+// ===== CELL TYPES =====
+
+/**
+ * Content Slide - Structured blocks plus speaker notes
+ *
+ * Keep it slide-sized: a heading and a few short blocks.
+ */
+export const ContentSlideCellSchema = z.object({
+  cellType: z.literal('slide'),
+  layout: z.enum(['section', 'content']).describe(
+    'section = divider between parts, content = regular slide (the title slide is added automatically)'
+  ),
+  blocks: z.array(MarkdownBlockSchema).min(1).max(6),
+  speakerNotes: z.string().describe('What the presenter says on this slide (2-4 sentences)'),
+});
+
+export type ContentSlideCell = z.infer<typeof ContentSlideCellSchema>;
+
+/**
+ * Image Slide - A full-slide visual
+ *
+ * Note: imageUrl accepts placeholders like "[PLACEHOLDER-1]" during generation,
+ * which get replaced with actual URLs after image generation.
+ */
+export const ImageSlideCellSchema = z.object({
+  cellType: z.literal('image'),
+  imageUrl: z.string(), // Accept any string (including placeholders)
+  caption: z.string(),
+  speakerNotes: z.string().describe('What the presenter says on this slide (2-4 sentences)'),
+});
+
+export type ImageSlideCell = z.infer<typeof ImageSlideCellSchema>;
+
+/**
+ * Slide Cell Union - All possible slide types
+ */
+export const SlideCellSchema = z.discriminatedUnion('cellType', [
+  ContentSlideCellSchema,
+  ImageSlideCellSchema,
+]);
+
+export type SlideCell = z.infer<typeof SlideCellSchema>;
+
+// ===== COMPLETE DECK SCHEMA =====
+
+/**
+ * Slide Deck Generation Schema - Complete structured output
+ */
+export const SlideDeckGenerationSchema = z.object({
+  title: z.string().min(1).describe('Deck title'),
+  subtitle: z.string().describe('One-line subtitle for the title slide'),
+  slides: z.array(SlideCellSchema).min(4).describe('Deck content as structured slides'),
+});
+
+export type SlideDeckGeneration = z.infer<typeof SlideDeckGenerationSchema>;
@@ -0,0 +1,53 @@
+import { z } from 'zod';
+import { createBlog } from '../creators/blog/blog-creator'; // Cell-based with images and social share
+import { BlogCellSchema } from '../creators/blog/blog-schemas';
+import { registerFormat } from './registry';
+
+/**
+ * BLOG POST FORMAT
+ *
+ * Cell-based blog creator (plan → generate → review + images + social share)
+ */
+
+export const BlogContentSchema = z.object({
+  title: z.string(),
+  markdown: z.string(), // Backward compatibility
+  cells: z.array(BlogCellSchema),
+  wordCount: z.number(),
+  readingTimeMinutes: z.number(),
+  socialPost: z.object({
+    content: z.string(), // Contains [BLOG_URL] placeholder
+    hashtags: z.array(z.string()),
+    platform: z.string(),
+    imageUrl: z.string().optional(),
+    imageCaption: z.string().optional(),
+  }),
+}).passthrough();
+
+export type BlogContent = z.infer<typeof BlogContentSchema>;
+
+registerFormat({
+  id: 'blog_post',
+  label: 'Blog Post',
+  routerDescription: `Deep explanations, tutorials, thought pieces, and analyses
+   - Best for: Conceptual understanding, step-by-step guides, in-depth explorations
+   - Examples: "Understanding depth perception", "How async/await works", "5 Python tips for beginners"
+   - Features: 1000-2000 words, optional images, auto-generated social media post
+   - Use for: Both long-form content AND bite-sized tips/insights`,
+  contentSchema: BlogContentSchema,
+  viewer: 'blog',
+  create: async ({ idea, userId, constraints, qualityPolicy, logger, progress, checkpoints }) => {
+    logger.info('Delegating to cell-based blog creator');
+    const blogResult = await createBlog(idea, {
+      userId,
+      constraints,
+      qualityPolicy,
+      progress: progress?.scoped('blog', 0, 100),
+      checkpoints: checkpoints?.scoped('blog'),
+    });
+    logger.info('Blog creator completed successfully', {
+      hasContent: !!blogResult.content,
+    });
+    return blogResult;
+  },
+});
@@ -0,0 +1,102 @@
+import { z } from 'zod';
+import { createCodeProject } from '../creators/code/code-creator'; // Multi-stage code creator
+import { GeneratedCodeSchema } from '../creators/code/types';
+import { publishToGitHub, publishToGitHubDryRun, getUserGitHubCredentials } from '../publishers/github-publisher';
+import { isCancellation } from '../../utils/cancellation';
+import { registerFormat } from './registry';
+
+/**
+ * GITHUB REPO FORMAT
+ *
+ * Code creator (plan → generate → review → iterate), then publish to the
+ * user's own GitHub account (or a dry run if they haven't connected GitHub).
+ *
+ * Progress: code creator 0-85, publish 85-100
+ */
+
+export const CodeContentSchema = GeneratedCodeSchema.pick({
+  repoName: true,
+  description: true,
+  type: true,
+  files: true,
+  setupInstructions: true,
+  runInstructions: true,
+}).extend({
+  published: z.boolean(),
+  publishResult: z.any(),
+}).passthrough();
+
+export type CodeContent = z.infer<typeof CodeContentSchema>;
+
+registerFormat({
+  id: 'github_repo',
+  label: 'Code Project',
+  routerDescription: `Code demonstrations, technical experiments, interactive examples
+   - Best for: Working implementations, algorithms, tools, hands-on demos
+   - Examples: "Fibonacci visualizer", "Neural network from scratch", "CLI tool for X"
+   - Output: Jupyter notebook, CLI app, or demo script with full code`,
+  contentSchema: CodeContentSchema,
+  viewer: 'code',
+  create: async ({ idea, userId, constraints, qualityPolicy, logger, progress, checkpoints }) => {
+    logger.info('Delegating to code creator - multi-stage pipeline');
+    const codeResult = await createCodeProject(idea, {
+      constraints,
+      qualityPolicy,
+      progress: progress?.scoped('code', 0, 85),
+      checkpoints: checkpoints?.scoped('code'),
+    });
+    logger.info('Code creator completed successfully', {
+      hasContent: !!codeResult.content,
+    });
+
+    // Publish to GitHub using USER's credentials (not site owner's)
+    let publishResult = null;
+    let isDryRun = false;
+
+    await progress?.started('publish', { percent: 85 });
+
+    try {
+      // Get user's GitHub credentials from database
+      const userGitHubCreds = await getUserGitHubCredentials(userId);
+      logger.info('Publishing to GitHub (user\'s own account)', {
+        username: userGitHubCreds.username,
+      });
+      publishResult = await publishToGitHub(
+        codeResult.content,
+        userId,
+        userGitHubCreds.token,
+        userGitHubCreds.username
+      );
+      logger.info('GitHub publishing completed successfully - repo in user\'s account', {
+        published: true,
+        repoUrl: publishResult.repoUrl,
+      });
+    } catch (githubError) {
+      if (isCancellation(githubError)) throw githubError;
+
+      // If user hasn't authenticated with GitHub, run dry run instead
+      logger.warn('User GitHub credentials not available - running in DRY RUN mode', {
+        error: githubError instanceof Error ? githubError.message : 'Unknown error',
+        reason: 'User must sign in with GitHub OAuth to enable automated repo publishing',
+      });
+      isDryRun = true;
+      logger.info('Publishing to GitHub (dry run - no actual repo created)');
+      publishResult = await publishToGitHubDryRun(codeResult.content, userId);
+      logger.info('GitHub dry run completed - code generated but not published');
+    }
+
+    await progress?.completed('publish', {
+      percent: 100,
+      data: { dryRun: isDryRun },
+    });
+
+    return {
+      content: {
+        ...codeResult.content,
+        published: !isDryRun,
+        publishResult,
+      },
+      errors: codeResult.errors,
+    };
+  },
+});
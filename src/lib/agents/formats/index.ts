@@ -0,0 +1,13 @@
+/**
+ * OUTPUT FORMATS
+ *
+ * Importing this module registers every built-in format.
+ * To add a format, create its file here and import it below.
+ */
+
+import './blog-post';
+import './github-repo';
+import './slide-deck';
+import './research-brief';
+
+export * from './registry';
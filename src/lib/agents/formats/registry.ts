@@ -0,0 +1,130 @@
+import type { z } from 'zod';
+import type { Idea } from '@/lib/db/types';
+import type { Logger } from '../../logging/logger';
+import type { ProgressReporter } from '../../progress/progress-reporter';
+import type { CheckpointStore } from '../../checkpoints/checkpoint-store';
+import type { ExpansionConstraints } from '../types';
+import type { QualityPolicy } from '../../quality/quality-policy';
+
+/**
+ * OUTPUT FORMAT REGISTRY
+ *
+ * Every output format (blog_post, github_repo, ...) registers itself here
+ * with everything the pipeline needs to know about it:
+ * - The Router Agent builds its prompt and response schema from the registry
+ * - The Creator Agent dispatches to the registered creator
+ * - The outputs UI picks a viewer from the format's viewer hint
+ *
+ * Adding a format = one new file in this directory + one import in index.ts.
+ * The graph, router and creator agent never change.
+ *
+ * ```typescript
+ * registerFormat({
+ *   id: 'blog_post',
+ *   label: 'Blog Post',
+ *   routerDescription: 'Deep explanations, tutorials, thought pieces...',
+ *   contentSchema: BlogContentSchema,
+ *   viewer: 'blog',
+ *   create: async ({ idea, progress, checkpoints }) => { ... },
+ * });
+ * ```
+ */
+
+/**
+ * Id of a registered output format (e.g. "blog_post", "github_repo")
+ */
+export type OutputFormat = string;
+
+/**
+ * Which viewer /outputs/[id] renders the content with
+ *
+ * - blog: cell-based article (title, cells, social post)
+ * - code: repository file browser (repoName, files, GitHub link)
+ * - slides: one slide at a time with speaker notes (slides, revealHtml, marpMarkdown)
+ * - document: structured research brief (summary, priorArt, risks, feasibility, markdown)
+ * - json: raw content (fallback for formats without a dedicated viewer)
+ */
+export type ViewerHint = 'blog' | 'code' | 'slides' | 'document' | 'json';
+
+/**
+ * Everything a format's creator receives from the Creator Agent
+ *
+ * progress and checkpoints are already scoped to the creator node; a format
+ * scopes them further for its own sub-stages. constraints holds the user's
+ * preferences; a format applies the ones that make sense for it.
+ * qualityPolicy is the resolved policy of the expansion (see quality/).
+ */
+export interface FormatCreateContext {
+  idea: Idea;
+  userId: string;
+  constraints: ExpansionConstraints;
+  qualityPolicy: QualityPolicy;
+  logger: Logger;
+  progress?: ProgressReporter;
+  checkpoints?: CheckpointStore;
+}
+
+/**
+ * What a format's creator returns
+ *
+ * errors: the content was created but falls short (it fails the quality
+ * policy) - the execution ends partial, so no credit is charged
+ */
+export interface FormatCreateResult<TContent extends object> {
+  content: TContent;
+  errors?: string[];
+}
+
+export interface OutputFormatDefinition<TContent extends object = object> {
+  id: OutputFormat;
+  label: string; // Human-readable name ("Blog Post")
+  routerDescription: string; // What the format is for - shown to the Router Agent
+  create: (context: FormatCreateContext) => Promise<FormatCreateResult<TContent>>;
+  contentSchema: z.ZodType<TContent>; // Shape of the generated content (saved in outputs.content)
+  viewer: ViewerHint;
+}
+
+const formats = new Map<OutputFormat, OutputFormatDefinition>();
+
+/**
+ * Register an output format (ids must be unique)
+ */
+export function registerFormat<TContent extends object>(definition: OutputFormatDefinition<TContent>): void {
+  if (formats.has(definition.id)) {
+    throw new Error(`Output format already registered: ${definition.id}`);
+  }
+  formats.set(definition.id, definition);
+}
+
+export function getFormat(id: OutputFormat): OutputFormatDefinition | undefined {
+  return formats.get(id);
+}
+
+/**
+ * How the UI should show an output of this format
+ *
+ * Saved outputs can outlive their format's registration, so unknown ids
+ * fall back to the raw JSON viewer.
+ */
+export function getFormatDisplay(id: OutputFormat): { label: string; viewer: ViewerHint } {
+  const format = formats.get(id);
+  return format ? { label: format.label, viewer: format.viewer } : { label: id, viewer: 'json' };
+}
+
+/**
+ * All registered formats, in registration order
+ */
+export function listFormats(): OutputFormatDefinition[] {
+  return Array.from(formats.values());
+}
+
+/**
+ * Registered format ids as a non-empty tuple (for z.enum)
+ */
+export function getFormatIds(): [OutputFormat, ...OutputFormat[]] {
+  const ids = Array.from(formats.keys());
+  if (ids.length === 0) {
+    throw new Error('No output formats registered');
+  }
+  return ids as [OutputFormat, ...OutputFormat[]];
+}
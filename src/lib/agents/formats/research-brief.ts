@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import { createResearchBrief } from '../creators/research/research-creator'; // Plan → draft → review
+import { ResearchBriefSchema } from '../creators/research/research-schemas';
+import { registerFormat } from './registry';
+
+/**
+ * RESEARCH BRIEF FORMAT
+ *
+ * "Is this worth building?" briefs: prior art, open questions, risks,
+ * feasibility score and next steps, rendered to PDF-ready Markdown
+ */
+
+export const ResearchBriefContentSchema = ResearchBriefSchema.extend({
+  markdown: z.string(),
+}).passthrough();
+
+export type ResearchBriefContent = z.infer<typeof ResearchBriefContentSchema>;
+
+registerFormat({
+  id: 'research_brief',
+  label: 'Research Brief',
+  routerDescription: `Feasibility studies and literature reviews
+   - Best for: "Is this worth building?" questions, market/technical due diligence, surveying what already exists
+   - Examples: "Could we detect crop disease from phone photos?", "Is there room for another note-taking app?", "What's known about on-device LLM fine-tuning?"
+   - Features: prior art, open questions, risks, feasibility score (0-10) with verdict, next steps; exportable to Markdown/PDF
+   - Use for: Ideas that are questions or bets to evaluate, not things ready to write up or build`,
+  contentSchema: ResearchBriefContentSchema,
+  viewer: 'document',
+  create: async ({ idea, logger, progress, checkpoints }) => {
+    logger.info('Delegating to research brief creator');
+    const researchResult = await createResearchBrief(idea, {
+      progress: progress?.scoped('research', 0, 100),
+      checkpoints: checkpoints?.scoped('research'),
+    });
+    logger.info('Research brief creator completed successfully', {
+      hasContent: !!researchResult.content,
+    });
+    return { content: researchResult.content };
+  },
+});
@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import { createSlideDeck } from '../creators/slides/slide-creator'; // Cell-based slides with speaker notes
+import { SlideCellSchema } from '../creators/slides/slide-schemas';
+import { registerFormat } from './registry';
+
+/**
+ * SLIDE DECK FORMAT
+ *
+ * Cell-based slide creator (plan → generate → images), rendered to
+ * Reveal.js HTML and Marp markdown
+ */
+
+export const SlideDeckContentSchema = z.object({
+  title: z.string(),
+  subtitle: z.string(),
+  slides: z.array(SlideCellSchema),
+  slideCount: z.number(),
+  revealHtml: z.string(),
+  marpMarkdown: z.string(),
+}).passthrough();
+
+export type SlideDeckContent = z.infer<typeof SlideDeckContentSchema>;
+
+registerFormat({
+  id: 'slide_deck',
+  label: 'Slide Deck',
+  routerDescription: `Talks, pitches, lectures, and workshop presentations
+   - Best for: Ideas meant to be PRESENTED to an audience - conference talks, startup/product pitches, lightning talks, teaching sessions
+   - Examples: "Pitch: AI tutor for rural schools", "Lightning talk on CRDTs", "Intro to transformers lecture"
+   - Features: 8-15 slides with speaker notes, optional image slides, Reveal.js + Marp export
+   - Use for: Ideas phrased as a talk, pitch, deck, or presentation`,
+  contentSchema: SlideDeckContentSchema,
+  viewer: 'slides',
+  create: async ({ idea, userId, constraints, logger, progress, checkpoints }) => {
+    logger.info('Delegating to slide deck creator');
+    const slidesResult = await createSlideDeck(idea, {
+      userId,
+      constraints,
+      progress: progress?.scoped('slides', 0, 100),
+      checkpoints: checkpoints?.scoped('slides'),
+    });
+    logger.info('Slide deck creator completed successfully', {
+      hasContent: !!slidesResult.content,
+    });
+    return { content: slidesResult.content };
+  },
+});
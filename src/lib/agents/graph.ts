@@ -1,8 +1,14 @@
 import { StateGraph, END } from '@langchain/langgraph';
-import { AgentState, type AgentStateType } from './types';
+import { AgentState, type AgentStateType, type ExpansionConstraints, type ExpansionMode } from './types';
 import { routerAgent } from './router-agent';
 import { creatorAgent } from './creator-agent';
+import { companionPlannerAgent, companionAgent, BUNDLE_FORMATS } from './bundle-agent';
 import type { Logger } from '../logging/logger';
+import type { ProgressReporter } from '../progress/progress-reporter';
+import type { CheckpointStore } from '../checkpoints/checkpoint-store';
+import type { OutputFormat } from './formats';
+import { throwIfCancelled } from '../utils/cancellation';
+import { DEFAULT_QUALITY_POLICY, type QualityPolicy } from '../quality/quality-policy';
 import type { Idea } from '@/lib/db/types';
 
 /**
@@ -12,6 +18,15 @@ import type { Idea } from '@/lib/db/types';
  *
  * START → Router → Creator → END
  *
+ * If the user forced a format, the graph starts at the Creator instead:
+ *
+ * START → Creator → END
+ *
+ * Bundle mode (GitHub repo + companion blog post) fans out instead:
+ *
+ * START → Creator (github_repo) ──────┐
+ *       → Companion Planner (blog) ───┴→ Companion Writer → END
+ *
  * Each agent:
  * 1. Reads from state (the shared "notebook")
  * 2. Does its work (calls LLM, generates content, etc.)
@@ -23,8 +38,86 @@ import type { Idea } from '@/lib/db/types';
  * - Error recovery
  */
 
+type AgentNode = (state: AgentStateType) => Promise<Partial<AgentStateType>>;
+
+/**
+ * Wrap a node so it reports started/completed/failed progress
+ *
+ * The node runs with `state.progress` scoped to [start, end] of the overall
+ * range, so its own sub-stages (e.g. "creator.code.review") land inside it.
+ */
+function withProgress(stage: string, start: number, end: number, node: AgentNode): AgentNode {
+  return async (state) => {
+    const { progress } = state;
+    if (!progress) {
+      return node(state);
+    }
+
+    await progress.started(stage, { percent: start });
+    try {
+      const result = await node({ ...state, progress: progress.scoped(stage, start, end) });
+      if (result.errors && result.errors.length > 0) {
+        await progress.failed(stage, result.errors.join('; '), { percent: end });
+      } else {
+        await progress.completed(stage, { percent: end });
+      }
+      return result;
+    } catch (error) {
+      await progress.failed(stage, error);
+      throw error;
+    }
+  };
+}
+
+/**
+ * Wrap a node so its result is checkpointed and reused on resume
+ *
+ * A node whose result was saved by an earlier run of the same execution
+ * is skipped. Results with errors are not saved, so that node runs again.
+ * The node sees `state.checkpoints` scoped to its own name.
+ */
+function withCheckpoint(stage: string, node: AgentNode): AgentNode {
+  return async (state) => {
+    const { checkpoints } = state;
+    if (!checkpoints) {
+      return node(state);
+    }
+
+    const saved = checkpoints.get<Partial<AgentStateType>>(stage);
+    if (saved) {
+      state.logger?.info('♻️ Resuming: skipping node with a checkpoint', { node: stage });
+      return saved;
+    }
+
+    const result = await node({ ...state, checkpoints: checkpoints.scoped(stage) });
+    if (!result.errors || result.errors.length === 0) {
+      await checkpoints.save(stage, result);
+    }
+    return result;
+  };
+}
+
+/**
+ * Wrap a node so a cancelled execution stops before the node starts
+ */
+function withCancellation(node: AgentNode): AgentNode {
+  return async (state) => {
+    throwIfCancelled();
+    return node(state);
+  };
+}
+
+/**
+ * A pipeline node: cancellable, checkpointed and reporting progress in [start, end]
+ */
+function pipelineNode(stage: string, start: number, end: number, node: AgentNode): AgentNode {
+  return withProgress(stage, start, end, withCancellation(withCheckpoint(stage, node)));
+}
+
 /**
  * Create and compile the agent graph
+ *
+ * Overall progress: router 0-10, creator 10-95 (the job finalizes 95-100)
  */
 export function createAgentGraph() {
   // Create the graph with our state schema
@@ -32,14 +125,16 @@ export function createAgentGraph() {
 
   // Add nodes (agents)
   workflow
-    .addNode('router', routerAgent)
-    .addNode('creator', creatorAgent);
+    .addNode('router', pipelineNode('router', 0, 10, routerAgent))
+    .addNode('creator', pipelineNode('creator', 10, 95, creatorAgent));
 
   // Define edges (connections between agents)
 
   // Set entry point (where the graph starts)
-  // @ts-expect-error - LangGraph types don't properly infer node names
-  workflow.addEdge('__start__', 'router');
+  // A format forced by the user is already in state - no need to route
+  workflow.addConditionalEdges('__start__', (state: AgentStateType) =>
+    state.chosenFormat ? 'creator' : 'router'
+  );
 
   // Linear flow: Router decides format → Creator generates content
   // @ts-expect-error - LangGraph types don't properly infer node names
@@ -53,6 +148,38 @@ export function createAgentGraph() {
   return workflow.compile();
 }
 
+/**
+ * Create and compile the bundle graph (GitHub repo + companion blog post)
+ *
+ * The creator and the companion planner run in parallel; the companion
+ * writer waits for both, so the post is grounded on the finished code.
+ *
+ * Overall progress: creator 0-65 (planner 0-5 alongside), companion 65-95
+ */
+export function createBundleGraph() {
+  const workflow = new StateGraph(AgentState);
+
+  workflow
+    .addNode('creator', pipelineNode('creator', 0, 65, creatorAgent))
+    .addNode('companion_planner', pipelineNode('companion_planner', 0, 5, companionPlannerAgent))
+    .addNode('companion', pipelineNode('companion', 65, 95, companionAgent));
+
+  // Fan out: code and post plan at the same time
+  // @ts-expect-error - LangGraph types don't properly infer node names
+  workflow.addEdge('__start__', 'creator');
+  // @ts-expect-error - LangGraph types don't properly infer node names
+  workflow.addEdge('__start__', 'companion_planner');
+
+  // Fan in: the writer runs once both branches are done
+  // @ts-expect-error - LangGraph types don't properly infer node names
+  workflow.addEdge(['creator', 'companion_planner'], 'companion');
+
+  // @ts-expect-error - LangGraph types don't properly infer node names
+  workflow.addEdge('companion', '__end__');
+
+  return workflow.compile();
+}
+
 /**
  * Execute the full agent pipeline
  *
@@ -62,6 +189,12 @@ export function createAgentGraph() {
  * @param selectedIdea - The idea to expand (user-selected)
  * @param executionId - Unique ID for this execution (for logging)
  * @param logger - Logger instance for tracking execution
+ * @param progress - Optional progress reporter (stage events for the status API)
+ * @param checkpoints - Optional checkpoint store (resume from the last good stage)
+ * @param format - Optional format forced by the user (skips the router)
+ * @param constraints - Optional user constraints for the creators
+ * @param qualityPolicy - Optional resolved quality policy (defaults to DEFAULT_QUALITY_POLICY)
+ * @param mode - 'single' (default) or 'bundle' (GitHub repo + companion blog post)
  * @returns Final state with all results
  */
 export async function runAgentPipeline({
@@ -69,14 +202,26 @@ export async function runAgentPipeline({
   selectedIdea,
   executionId,
   logger,
+  progress,
+  checkpoints,
+  format,
+  constraints,
+  qualityPolicy,
+  mode = 'single',
 }: {
   userId: string;
   selectedIdea: Idea;
   executionId: string;
   logger: Logger;
+  progress?: ProgressReporter;
+  checkpoints?: CheckpointStore;
+  format?: OutputFormat;
+  constraints?: ExpansionConstraints;
+  qualityPolicy?: QualityPolicy;
+  mode?: ExpansionMode;
 }): Promise<AgentStateType> {
   // Create the graph
-  const graph = createAgentGraph();
+  const graph = mode === 'bundle' ? createBundleGraph() : createAgentGraph();
 
   // Create child logger for graph orchestration
   const graphLogger = logger.child({ stage: 'graph-orchestrator' });
@@ -87,12 +232,30 @@ export async function runAgentPipeline({
     selectedIdea,
     executionId,
     logger,
+    progress,
+    checkpoints,
+    constraints: constraints ?? {},
+    qualityPolicy: qualityPolicy ?? DEFAULT_QUALITY_POLICY,
+    mode,
+    ...(format && {
+      chosenFormat: format,
+      formatReasoning: 'Format chosen by the user',
+    }),
+    ...(mode === 'bundle' && {
+      chosenFormat: BUNDLE_FORMATS.primary,
+      formatReasoning: `Bundle: ${BUNDLE_FORMATS.primary} + companion ${BUNDLE_FORMATS.companion}`,
+    }),
   } as Partial<AgentStateType>;
 
   graphLogger.info('🚀 Starting agent pipeline', {
     userId,
     ideaId: selectedIdea.id,
     ideaTitle: selectedIdea.title,
+    resumingFrom: checkpoints?.latest()?.stage,
+    forcedFormat: format,
+    constraints,
+    qualityPolicy,
+    mode,
   });
 
   // Run the graph!
@@ -102,6 +265,7 @@ export async function runAgentPipeline({
     selectedIdea: finalState.selectedIdea?.title || 'None',
     chosenFormat: finalState.chosenFormat || 'None',
     contentGenerated: !!finalState.generatedContent,
+    ...(mode === 'bundle' && { companionGenerated: !!finalState.companionContent }),
     errorCount: finalState.errors.length,
     durationMs: graphLogger.getDuration(),
   });
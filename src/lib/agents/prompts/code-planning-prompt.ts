@@ -4,16 +4,26 @@
  * Separated from planning-agent.ts for maintainability and clarity
  */
 
-export function buildCodePlanningPrompt(idea: {
-  title: string;
-  description: string | null;
-}): string {
+import type { ExpansionConstraints } from '../types';
+
+export function buildCodePlanningPrompt(
+  idea: {
+    title: string;
+    description: string | null;
+  },
+  constraints: ExpansionConstraints = {}
+): string {
+  const requirements = [
+    constraints.language && `- language MUST be "${constraints.language}"`,
+    constraints.outputType && `- outputType MUST be "${constraints.outputType}"`,
+  ].filter(Boolean);
+
   return `You are a software architect planning a code implementation.
 
 IDEA TO IMPLEMENT:
 Title: ${idea.title}
 Description: ${idea.description || 'No additional description provided'}
-
+${requirements.length > 0 ? `\nUSER REQUIREMENTS (these override the guidelines below - plan everything else around them):\n${requirements.join('\n')}\n` : ''}
 Your task is to create a detailed implementation plan. Think carefully about:
 
 1. **OUTPUT TYPE** - What's the best format for this idea?
@@ -0,0 +1,52 @@
+/**
+ * Blog Feed - Atom feed of an author's public blog posts
+ *
+ * Served at /blog/[user]/feed.xml. Entries carry the full html_content, so
+ * feed readers show the whole post.
+ */
+
+import { escapeHtml } from '../creators/blog/blog-schemas';
+import { getBlogPostUrl } from './blog-publisher';
+import type { BlogPost } from '../../db/types';
+import { BLOG_CONFIG } from '../../config/blog';
+
+/**
+ * Build an Atom 1.0 document
+ *
+ * @param author - The author (id and display name)
+ * @param posts - Public posts, newest first
+ */
+export function buildAtomFeed(author: { id: string; name: string | null }, posts: BlogPost[]): string {
+  const blogUrl = `${BLOG_CONFIG.siteUrl}/blog/${author.id}`;
+  const authorName = escapeHtml(author.name || 'Anonymous');
+  const updated = posts.reduce(
+    (latest, post) => (post.updated_at > latest ? post.updated_at : latest),
+    posts[0]?.updated_at ?? new Date(0).toISOString()
+  );
+
+  const entries = posts.map((post) => {
+    const url = getBlogPostUrl(post.user_id, post.slug);
+    return `  <entry>
+    <title>${escapeHtml(post.title)}</title>
+    <link href="${escapeHtml(url)}" />
+    <id>${escapeHtml(url)}</id>
+    <published>${post.published_at ?? post.created_at}</published>
+    <updated>${post.updated_at}</updated>
+${post.meta_description ? `    <summary>${escapeHtml(post.meta_description)}</summary>\n` : ''}${post.tags
+      .map((tag) => `    <category term="${escapeHtml(tag)}" />\n`)
+      .join('')}    <content type="html">${escapeHtml(post.html_content)}</content>
+  </entry>`;
+  });
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>${authorName}'s blog</title>
+  <link href="${escapeHtml(blogUrl)}" />
+  <link rel="self" href="${escapeHtml(`${blogUrl}/feed.xml`)}" />
+  <id>${escapeHtml(blogUrl)}</id>
+  <updated>${updated}</updated>
+  <author><name>${authorName}</name></author>
+${entries.join('\n')}
+</feed>
+`;
+}
@@ -0,0 +1,170 @@
+/**
+ * Blog Publisher - Publishes blog outputs to the app's own public blog
+ *
+ * This publisher takes a blog_post output and:
+ * 1. Renders its cells to HTML (and keeps the markdown)
+ * 2. Gives it a slug that is unique among the author's posts
+ * 3. Stores it in `blog_posts` (one post per output - republishing updates it)
+ * 4. Records the publication on the output (publication_metadata.blog, see
+ *    publication.ts)
+ *
+ * Public pages: /blog/[user]/[slug], /blog/[user] and /blog/[user]/feed.xml
+ * (see config/blog.ts). A post with is_public = false keeps its slug and URL
+ * but is not served.
+ */
+
+import { BlogContentSchema } from '../formats/blog-post';
+import { renderBlogToHtml, renderBlogToMarkdown, type BlogCell } from '../creators/blog/blog-schemas';
+import {
+  deleteBlogPostByOutputId,
+  getBlogPostByOutputId,
+  getBlogSlugsLike,
+  updateBlogPostVisibility,
+  upsertBlogPost,
+} from '../../db/queries';
+import type { BlogPost, Output } from '../../db/types';
+import { BLOG_CONFIG } from '../../config/blog';
+import { recordPublication } from './publication';
+
+/**
+ * Result of publishing to the public blog
+ */
+export interface BlogPublishResult {
+  url: string;        // https://site/blog/user-id/my-post
+  slug: string;       // my-post
+  isPublic: boolean;
+  publishedAt: string;
+}
+
+// Slugs longer than this are cut at a word boundary
+const MAX_SLUG_LENGTH = 80;
+
+const USER_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Is a /blog/[user] segment a user id? (anything else can't have posts)
+ */
+export function isBlogAuthorId(value: string): boolean {
+  return USER_ID_PATTERN.test(value);
+}
+
+/**
+ * Public URL of a blog post
+ */
+export function getBlogPostUrl(userId: string, slug: string): string {
+  return `${BLOG_CONFIG.siteUrl}/blog/${userId}/${slug}`;
+}
+
+/**
+ * URL-safe slug from a title ("How Async/Await Works!" → "how-async-await-works")
+ */
+export function slugify(title: string): string {
+  const slug = title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+  if (slug.length <= MAX_SLUG_LENGTH) return slug || 'post';
+  return slug.slice(0, MAX_SLUG_LENGTH).replace(/-[^-]*$/, '') || slug.slice(0, MAX_SLUG_LENGTH);
+}
+
+/**
+ * Publish (or republish) a blog output
+ *
+ * Republishing keeps the post's slug, so its URL never changes.
+ *
+ * @param output - A blog_post output owned by the user
+ * @param options.isPublic - Serve the post publicly (default: keep the current setting, or true)
+ * @returns The post's URL and slug
+ * @throws Error if the output is not a valid blog post
+ */
+export async function publishBlogPost(
+  output: Output,
+  options: { isPublic?: boolean } = {}
+): Promise<BlogPublishResult> {
+  const parsed = BlogContentSchema.safeParse(output.content);
+  if (output.format !== 'blog_post' || !parsed.success) {
+    throw new Error('Only blog posts can be published to the blog');
+  }
+  const content = parsed.data;
+
+  const existing = await getBlogPostByOutputId(output.id, output.user_id);
+  const slug = existing?.slug ?? (await uniqueSlug(output.user_id, slugify(content.title)));
+  const publishedAt = existing?.published_at ?? new Date().toISOString();
+  const isPublic = options.isPublic ?? existing?.is_public ?? true;
+
+  const post = await upsertBlogPost({
+    output_id: output.id,
+    user_id: output.user_id,
+    title: content.title,
+    slug,
+    markdown_content: content.markdown || renderBlogToMarkdown(content.cells),
+    html_content: renderBlogToHtml(content.cells),
+    meta_description: describeBlogPost(content.cells),
+    tags: content.socialPost.hashtags,
+    is_public: isPublic,
+    published_at: publishedAt,
+  });
+
+  const result = { url: getBlogPostUrl(post.user_id, post.slug), slug: post.slug, isPublic: post.is_public, publishedAt };
+  await recordPublication(output, 'blog', result);
+
+  return result;
+}
+
+/**
+ * Show or hide a published post (the output stays published either way)
+ *
+ * @returns The updated post, or null if the output was never published
+ */
+export async function setBlogPostVisibility(output: Output, isPublic: boolean): Promise<BlogPost | null> {
+  const post = await updateBlogPostVisibility(output.id, output.user_id, isPublic);
+  if (post) {
+    await recordPublication(output, 'blog', {
+      url: getBlogPostUrl(post.user_id, post.slug),
+      slug: post.slug,
+      isPublic,
+      publishedAt: post.published_at ?? post.created_at,
+    });
+  }
+  return post;
+}
+
+/**
+ * Remove a post from the blog (the output stays published on other platforms)
+ */
+export async function unpublishBlogPost(output: Output): Promise<void> {
+  await deleteBlogPostByOutputId(output.id, output.user_id);
+  await recordPublication(output, 'blog', null);
+}
+
+/**
+ * First free slug among the author's posts: base, base-2, base-3, ...
+ */
+async function uniqueSlug(userId: string, base: string): Promise<string> {
+  const taken = new Set(await getBlogSlugsLike(userId, base));
+  let slug = base;
+  for (let n = 2; taken.has(slug); n++) {
+    slug = `${base}-${n}`;
+  }
+  return slug;
+}
+
+/**
+ * Short description (meta_description, static-site front-matter): the first
+ * paragraph, cut at a word boundary
+ */
+export function describeBlogPost(cells: BlogCell[]): string | null {
+  for (const cell of cells) {
+    if (cell.cellType !== 'markdown') continue;
+    const paragraph = cell.blocks.find((block) => block.blockType === 'paragraph');
+    if (paragraph?.blockType !== 'paragraph') continue;
+
+    const text = paragraph.text.replace(/\s+/g, ' ').trim();
+    if (text.length <= BLOG_CONFIG.descriptionLength) return text;
+    return `${text.slice(0, BLOG_CONFIG.descriptionLength - 1).replace(/\s+\S*$/, '')}…`;
+  }
+  return null;
+}
@@ -0,0 +1,88 @@
+/**
+ * Publisher credentials - the user's own keys for blog platforms and social
+ * networks, stored encrypted in `credentials` (one row per provider, the
+ * value is the JSON of the connector's credentials schema)
+ */
+
+import type { z } from 'zod';
+import { PublisherError } from './platforms/types';
+import { getCredentialValue, saveCredential, updateCredentialValidation } from '../../db/queries';
+import type { Credential } from '../../db/types';
+
+/**
+ * A blog platform publisher or a social network client
+ */
+interface Connector {
+  label: string;
+  credentialsSchema: z.ZodType<unknown>;
+}
+
+/**
+ * Validate and store a connector's credentials (encrypted)
+ *
+ * @throws PublisherError (credentials) if they don't match the connector's schema
+ */
+export async function saveConnectorCredentials(
+  userId: string,
+  provider: Credential['provider'],
+  connector: Connector,
+  credentials: unknown
+): Promise<void> {
+  const parsed = connector.credentialsSchema.safeParse(credentials);
+  if (!parsed.success) {
+    const details = parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+    throw new PublisherError(`Invalid ${connector.label} credentials - ${details}`, 'credentials');
+  }
+
+  await saveCredential(userId, provider, JSON.stringify(parsed.data));
+}
+
+/**
+ * The user's decrypted credentials for a connector
+ *
+ * @throws PublisherError (credentials) if it isn't connected or the stored
+ *   credentials no longer match its schema
+ */
+export async function loadConnectorCredentials(
+  userId: string,
+  provider: Credential['provider'],
+  connector: Connector
+): Promise<unknown> {
+  const value = await getCredentialValue(userId, provider);
+  if (!value) {
+    throw new PublisherError(`${connector.label} is not connected - add its credentials in settings`, 'credentials');
+  }
+
+  let stored: unknown = null;
+  try {
+    stored = JSON.parse(value);
+  } catch {
+    // Not saved by saveConnectorCredentials
+  }
+
+  const parsed = connector.credentialsSchema.safeParse(stored);
+  if (!parsed.success) {
+    throw new PublisherError(`Stored ${connector.label} credentials are invalid - add them again`, 'credentials');
+  }
+  return parsed.data;
+}
+
+/**
+ * Run a call with the credentials and record whether they worked
+ */
+export async function withValidation<T>(
+  userId: string,
+  provider: Credential['provider'],
+  call: () => Promise<T>
+): Promise<T> {
+  try {
+    const result = await call();
+    await updateCredentialValidation(userId, provider, 'valid');
+    return result;
+  } catch (error) {
+    if (error instanceof PublisherError && error.kind === 'credentials') {
+      await updateCredentialValidation(userId, provider, 'invalid');
+    }
+    throw error;
+  }
+}
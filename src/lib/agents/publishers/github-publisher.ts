@@ -14,6 +14,12 @@ import { Octokit } from '@octokit/rest';
 import type { GeneratedCode } from '../creators/code/types';
 import { supabaseAdmin } from '../../db/supabase';
 import { decryptFromJSON } from '../../crypto/encryption';
+import {
+  CancelledError,
+  getCancellationSignal,
+  isCancellation,
+  throwIfCancelled,
+} from '../../utils/cancellation';
 
 /**
  * Result of publishing to GitHub
@@ -135,14 +141,20 @@ function getGitHubConfig(userGitHubToken: string, userGitHubUsername: string): G
  * @param userId - User ID (for logging/tracking)
  * @param userGitHubToken - User's encrypted GitHub token (from credentials table)
  * @param userGitHubUsername - User's GitHub username (from OAuth profile)
+ * @param options.signal - Abort signal (defaults to the job's cancellation signal).
+ *   Cancelling stops between API calls; a repo that was already created is kept.
  * @returns Repository details including URL
  */
 export async function publishToGitHub(
   project: GeneratedCode,
   userId: string,
   userGitHubToken: string,
-  userGitHubUsername: string
+  userGitHubUsername: string,
+  options: { signal?: AbortSignal } = {}
 ): Promise<GitHubPublishResult> {
+  const signal = options.signal ?? getCancellationSignal();
+  throwIfCancelled(signal);
+
   console.log('\n🚀 === GITHUB PUBLISHER (USER\'S GITHUB) ===');
   console.log(`   Owner: ${userGitHubUsername}`);
   console.log(`   Repository: ${project.repoName}`);
@@ -159,17 +171,18 @@ export async function publishToGitHub(
   try {
     // STEP 1: Create repository
     console.log('\n📦 Creating repository...');
-    const repo = await createRepository(octokit, config, project);
+    const repo = await createRepository(octokit, config, project, signal);
     console.log(`   ✅ Repository created: ${repo.html_url}`);
 
     // STEP 2: Upload all files
     console.log('\n📁 Uploading files...');
-    await uploadFiles(octokit, config.username, project.repoName, project.files);
+    await uploadFiles(octokit, config.username, project.repoName, project.files, signal);
     console.log(`   ✅ ${project.files.length} files uploaded`);
 
     // STEP 3: Add repository topics
     console.log('\n🏷️  Adding topics...');
-    await addRepositoryTopics(octokit, config.username, project.repoName, project);
+    throwIfCancelled(signal);
+    await addRepositoryTopics(octokit, config.username, project.repoName, project, signal);
     console.log('   ✅ Topics added');
 
     console.log('\n✅ === GITHUB PUBLISHING COMPLETE ===');
@@ -182,6 +195,11 @@ export async function publishToGitHub(
       filesUploaded: project.files.length,
     };
   } catch (error: any) {
+    if (isCancellation(error) || signal?.aborted) {
+      console.log('🛑 GitHub publishing cancelled');
+      throw new CancelledError();
+    }
+
     // Handle specific GitHub API errors
     if (error.status === 422 && error.message?.includes('name already exists')) {
       console.error('❌ Repository already exists');
@@ -191,7 +209,7 @@ export async function publishToGitHub(
       console.log(`   Retrying with name: ${newName}`);
 
       project.repoName = newName;
-      return await publishToGitHub(project, userId, userGitHubToken, userGitHubUsername);
+      return await publishToGitHub(project, userId, userGitHubToken, userGitHubUsername, { signal });
     }
 
     if (error.status === 401) {
@@ -213,7 +231,8 @@ export async function publishToGitHub(
 async function createRepository(
   octokit: Octokit,
   config: GitHubConfig,
-  project: GeneratedCode
+  project: GeneratedCode,
+  signal?: AbortSignal
 ) {
   const description = project.description || `AI-generated ${project.type} project`;
   const truncatedDescription = description.length > 350
@@ -225,6 +244,7 @@ async function createRepository(
     description: truncatedDescription,
     private: config.makePrivate || false,
     auto_init: false, // Don't create default README - we'll upload our own files
+    request: { signal },
   });
 
   return repo;
@@ -237,9 +257,11 @@ async function uploadFiles(
   octokit: Octokit,
   owner: string,
   repo: string,
-  files: GeneratedCode['files']
+  files: GeneratedCode['files'],
+  signal?: AbortSignal
 ) {
   for (const file of files) {
+    throwIfCancelled(signal);
     console.log(`   Uploading: ${file.path}`);
 
     try {
@@ -249,8 +271,10 @@ async function uploadFiles(
         path: file.path,
         message: `Add ${file.path}`,
         content: Buffer.from(file.content).toString('base64'), // GitHub API requires base64
+        request: { signal },
       });
     } catch (error: any) {
+      if (signal?.aborted) throw error;
       console.error(`   ⚠️  Failed to upload ${file.path}:`, error.message);
       // Continue with other files even if one fails
     }
@@ -268,7 +292,8 @@ async function addRepositoryTopics(
   octokit: Octokit,
   owner: string,
   repo: string,
-  project: GeneratedCode
+  project: GeneratedCode,
+  signal?: AbortSignal
 ) {
   // Generate topics based on project
   const topics = generateTopics(project);
@@ -278,6 +303,7 @@ async function addRepositoryTopics(
       owner,
       repo,
       names: topics,
+      request: { signal },
     });
   } catch (error: any) {
     console.error('   ⚠️  Failed to add topics:', error.message);
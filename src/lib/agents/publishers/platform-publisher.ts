@@ -0,0 +1,141 @@
+/**
+ * Platform Publisher - Publishes blog outputs to Dev.to, Ghost, WordPress
+ * and Medium with the user's own credentials
+ *
+ * This publisher takes a blog_post output and:
+ * 1. Decrypts the user's credentials for the platform (see credentials.ts)
+ * 2. Turns the cells into a PublishablePost (markdown + HTML, without images
+ *    a platform can't load)
+ * 3. Publishes it - or updates it, if the output is already there
+ * 4. Records the publication on the output (publication_metadata[platform],
+ *    see publication.ts)
+ *
+ * The adapters live in platforms/; PUBLISHERS_MODE=fixture runs them
+ * against recorded responses (see config/publishers.ts).
+ */
+
+import { BlogContentSchema } from '../formats/blog-post';
+import { renderBlogToHtml, renderBlogToMarkdown } from '../creators/blog/blog-schemas';
+import { describeBlogPost } from './blog-publisher';
+import { getPublication, recordPublication } from './publication';
+import { loadConnectorCredentials, saveConnectorCredentials, withValidation } from './credentials';
+import {
+  getPublisher,
+  PublisherError,
+  type BlogPlatform,
+  type PlatformPublication,
+  type PublishablePost,
+  type PublisherDryRun,
+  type PublishOptions,
+} from './platforms';
+import type { Output } from '../../db/types';
+
+/**
+ * Validate and store a platform's credentials (encrypted)
+ *
+ * @throws PublisherError (credentials) if they don't match the platform's schema
+ */
+export async function savePlatformCredentials(
+  userId: string,
+  platform: BlogPlatform,
+  credentials: unknown
+): Promise<void> {
+  await saveConnectorCredentials(userId, platform, getPublisher(platform), credentials);
+}
+
+/**
+ * Publish a blog output to a platform, or update it if it's already there
+ *
+ * @throws PublisherError if the platform isn't connected or refuses the post
+ */
+export async function publishToPlatform(
+  output: Output,
+  platform: BlogPlatform,
+  options: PublishOptions = {}
+): Promise<PlatformPublication> {
+  const publisher = getPublisher(platform);
+  const credentials = await loadConnectorCredentials(output.user_id, platform, publisher);
+  const { post } = toPublishablePost(output);
+  const existing = getPublication<PlatformPublication>(output, platform);
+
+  const publication = await withValidation(output.user_id, platform, () =>
+    existing ? publisher.update(existing, post, credentials) : publisher.publish(post, credentials, options)
+  );
+
+  await recordPublication(output, platform, { ...publication });
+  return publication;
+}
+
+/**
+ * Take a post down from a platform (see each adapter for what that means)
+ */
+export async function unpublishFromPlatform(output: Output, platform: BlogPlatform): Promise<void> {
+  const existing = getPublication<PlatformPublication>(output, platform);
+  if (!existing) return;
+
+  const publisher = getPublisher(platform);
+  const credentials = await loadConnectorCredentials(output.user_id, platform, publisher);
+  await withValidation(output.user_id, platform, () => publisher.unpublish(existing, credentials));
+
+  await recordPublication(output, platform, null);
+}
+
+/**
+ * What a publish would send, and what the platform would drop
+ */
+export async function dryRunPlatform(
+  output: Output,
+  platform: BlogPlatform,
+  options: PublishOptions = {}
+): Promise<PublisherDryRun> {
+  const publisher = getPublisher(platform);
+  const credentials = await loadConnectorCredentials(output.user_id, platform, publisher);
+  const { post, warnings } = toPublishablePost(output);
+
+  const dryRun = await publisher.dryRun(post, credentials, options);
+  if (getPublication(output, platform)) {
+    warnings.unshift(`Already on ${publisher.label} - publishing will update the existing post`);
+  }
+
+  return { ...dryRun, warnings: [...warnings, ...dryRun.warnings] };
+}
+
+/**
+ * Blog output → PublishablePost
+ *
+ * Platforms load images by URL, so placeholders and inline (data URL)
+ * images are left out. The public blog post, if public, is the canonical URL.
+ */
+export function toPublishablePost(output: Output): { post: PublishablePost; warnings: string[] } {
+  const parsed = BlogContentSchema.safeParse(output.content);
+  if (output.format !== 'blog_post' || !parsed.success) {
+    throw new PublisherError('Only blog posts can be published to a blog platform', 'unsupported');
+  }
+  const content = parsed.data;
+
+  const warnings: string[] = [];
+  const cells = content.cells.filter((cell) => {
+    if (cell.cellType !== 'image' || /^https?:\/\//.test(cell.imageUrl)) return true;
+    if (cell.imageUrl.startsWith('data:')) {
+      warnings.push(`Inline image left out: ${cell.caption || 'untitled'}`);
+    }
+    return false;
+  });
+
+  const images = cells.filter((cell) => cell.cellType === 'image');
+  const cover = images.find((cell) => cell.placement === 'featured') ?? images[0];
+  const blog = getPublication<{ url: string; publishedAt: string; isPublic?: boolean }>(output, 'blog');
+
+  return {
+    post: {
+      title: content.title,
+      markdown: renderBlogToMarkdown(cells),
+      html: renderBlogToHtml(cells),
+      description: describeBlogPost(cells),
+      tags: content.socialPost.hashtags.map((tag) => tag.replace(/^#/, '')),
+      canonicalUrl: blog?.isPublic ? blog.url : null,
+      coverImageUrl: cover?.imageUrl ?? null,
+    },
+    warnings,
+  };
+}
@@ -0,0 +1,129 @@
+import { z } from 'zod';
+import { platformRequest, type PlatformRequest } from './http';
+import type { PlatformPublication, PublishablePost, Publisher, PublishOptions } from './types';
+
+/**
+ * Dev.to (Forem API v1)
+ *
+ * - Credentials: an API key (dev.to/settings/extensions)
+ * - Tags: at most 4, lowercase alphanumeric
+ * - Unpublish: the article goes back to draft (the API can't delete)
+ */
+
+const API_URL = 'https://dev.to/api';
+
+const MAX_TAGS = 4;
+
+const DevtoCredentialsSchema = z.object({
+  apiKey: z.string().min(1),
+});
+
+type DevtoCredentials = z.infer<typeof DevtoCredentialsSchema>;
+
+const ArticleSchema = z.object({
+  id: z.number(),
+  url: z.string(),
+  published: z.boolean().optional(),
+  published_at: z.string().nullable().optional(),
+  edited_at: z.string().nullable().optional(),
+});
+
+export const devtoPublisher: Publisher<DevtoCredentials> = {
+  platform: 'devto',
+  label: 'Dev.to',
+  credentialsSchema: DevtoCredentialsSchema,
+
+  async publish(post, credentials, options = {}) {
+    const article = await platformRequest('devto', createRequest(post, credentials, options), ArticleSchema);
+    return toPublication(article);
+  },
+
+  async update(publication, post, credentials) {
+    const article = await platformRequest(
+      'devto',
+      {
+        method: 'PUT',
+        url: `${API_URL}/articles/${publication.id}`,
+        headers: headers(credentials),
+        body: articleBody(post, publication.status === 'published'),
+      },
+      ArticleSchema
+    );
+    return toPublication(article);
+  },
+
+  async unpublish(publication, credentials) {
+    await platformRequest(
+      'devto',
+      {
+        method: 'PUT',
+        url: `${API_URL}/articles/${publication.id}`,
+        headers: headers(credentials),
+        body: { article: { published: false } },
+      },
+      ArticleSchema
+    );
+  },
+
+  async dryRun(post, credentials, options = {}) {
+    const { method, url, body } = createRequest(post, credentials, options);
+    const warnings: string[] = [];
+
+    const tags = devtoTags(post.tags);
+    const dropped = post.tags.filter((tag) => !tags.includes(normalizeTag(tag)));
+    if (dropped.length > 0) {
+      warnings.push(`Dev.to allows ${MAX_TAGS} alphanumeric tags - dropped: ${dropped.join(', ')}`);
+    }
+    if (!post.coverImageUrl) {
+      warnings.push('No cover image (the post has no featured image)');
+    }
+
+    return { platform: 'devto', request: { method, url, body }, warnings };
+  },
+};
+
+function createRequest(post: PublishablePost, credentials: DevtoCredentials, options: PublishOptions): PlatformRequest {
+  return {
+    method: 'POST',
+    url: `${API_URL}/articles`,
+    headers: headers(credentials),
+    body: articleBody(post, !options.draft),
+  };
+}
+
+function headers(credentials: DevtoCredentials): Record<string, string> {
+  return { 'api-key': credentials.apiKey };
+}
+
+function articleBody(post: PublishablePost, published: boolean) {
+  return {
+    article: {
+      title: post.title,
+      body_markdown: post.markdown,
+      published,
+      description: post.description ?? undefined,
+      tags: devtoTags(post.tags),
+      canonical_url: post.canonicalUrl ?? undefined,
+      main_image: post.coverImageUrl ?? undefined,
+    },
+  };
+}
+
+function normalizeTag(tag: string): string {
+  return tag.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function devtoTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map(normalizeTag).filter(Boolean))).slice(0, MAX_TAGS);
+}
+
+function toPublication(article: z.infer<typeof ArticleSchema>): PlatformPublication {
+  const now = new Date().toISOString();
+  return {
+    id: String(article.id),
+    url: article.url,
+    status: article.published ? 'published' : 'draft',
+    publishedAt: article.published_at ?? now,
+    updatedAt: article.edited_at ?? article.published_at ?? now,
+  };
+}
@@ -0,0 +1,159 @@
+import crypto from 'crypto';
+import { z } from 'zod';
+import { platformRequest, type PlatformRequest } from './http';
+import { siteUrlSchema } from './site-url';
+import type { PlatformPublication, PublishablePost, Publisher, PublishOptions } from './types';
+
+/**
+ * Ghost (Admin API v5)
+ *
+ * - Credentials: the site's https URL and an Admin API key ("id:secret",
+ *   from a custom integration in Ghost Admin → Integrations)
+ * - Each request carries a short-lived JWT signed with the key's secret
+ * - Posts are sent as HTML (?source=html); tags are created by name
+ * - Update / unpublish read the post first - Ghost rejects edits based on
+ *   a stale updated_at (someone edited the post in Ghost Admin)
+ * - Unpublish: the post goes back to draft
+ */
+
+const ACCEPT_VERSION = 'v5.0';
+
+// Ghost's custom_excerpt limit
+const MAX_EXCERPT_LENGTH = 300;
+
+const GhostCredentialsSchema = z.object({
+  siteUrl: siteUrlSchema,
+  adminApiKey: z.string().regex(/^[0-9a-f]{24}:[0-9a-f]{64}$/i, 'Expected an Admin API key ("id:secret")'),
+});
+
+type GhostCredentials = z.infer<typeof GhostCredentialsSchema>;
+
+const PostsSchema = z.object({
+  posts: z
+    .array(
+      z.object({
+        id: z.string(),
+        url: z.string(),
+        status: z.string(),
+        published_at: z.string().nullable(),
+        updated_at: z.string(),
+      })
+    )
+    .min(1),
+});
+
+export const ghostPublisher: Publisher<GhostCredentials> = {
+  platform: 'ghost',
+  label: 'Ghost',
+  credentialsSchema: GhostCredentialsSchema,
+
+  async publish(post, credentials, options = {}) {
+    const { posts } = await platformRequest('ghost', createRequest(post, credentials, options), PostsSchema);
+    return toPublication(posts[0]);
+  },
+
+  async update(publication, post, credentials) {
+    const current = await getPost(publication.id, credentials);
+    const { posts } = await platformRequest(
+      'ghost',
+      {
+        method: 'PUT',
+        url: `${postsUrl(credentials)}/${publication.id}/?source=html`,
+        headers: headers(credentials),
+        body: { posts: [{ ...postFields(post), status: current.status, updated_at: current.updated_at }] },
+      },
+      PostsSchema
+    );
+    return toPublication(posts[0]);
+  },
+
+  async unpublish(publication, credentials) {
+    const current = await getPost(publication.id, credentials);
+    await platformRequest(
+      'ghost',
+      {
+        method: 'PUT',
+        url: `${postsUrl(credentials)}/${publication.id}/`,
+        headers: headers(credentials),
+        body: { posts: [{ status: 'draft', updated_at: current.updated_at }] },
+      },
+      PostsSchema
+    );
+  },
+
+  async dryRun(post, credentials, options = {}) {
+    const { method, url, body } = createRequest(post, credentials, options);
+    const warnings: string[] = [];
+
+    if (post.description && post.description.length > MAX_EXCERPT_LENGTH) {
+      warnings.push(`Excerpt cut to ${MAX_EXCERPT_LENGTH} characters`);
+    }
+    if (!post.coverImageUrl) {
+      warnings.push('No feature image (the post has no featured image)');
+    }
+
+    return { platform: 'ghost', request: { method, url, body }, warnings };
+  },
+};
+
+function createRequest(post: PublishablePost, credentials: GhostCredentials, options: PublishOptions): PlatformRequest {
+  return {
+    method: 'POST',
+    url: `${postsUrl(credentials)}/?source=html`,
+    headers: headers(credentials),
+    body: { posts: [{ ...postFields(post), status: options.draft ? 'draft' : 'published' }] },
+  };
+}
+
+async function getPost(id: string, credentials: GhostCredentials) {
+  const { posts } = await platformRequest(
+    'ghost',
+    { method: 'GET', url: `${postsUrl(credentials)}/${id}/`, headers: headers(credentials) },
+    PostsSchema
+  );
+  return posts[0];
+}
+
+function postsUrl(credentials: GhostCredentials): string {
+  return `${credentials.siteUrl}/ghost/api/admin/posts`;
+}
+
+function headers(credentials: GhostCredentials): Record<string, string> {
+  return { Authorization: `Ghost ${adminToken(credentials.adminApiKey)}`, 'Accept-Version': ACCEPT_VERSION };
+}
+
+function postFields(post: PublishablePost) {
+  return {
+    title: post.title,
+    html: post.html,
+    tags: post.tags.map((name) => ({ name })),
+    custom_excerpt: post.description?.slice(0, MAX_EXCERPT_LENGTH) ?? undefined,
+    canonical_url: post.canonicalUrl ?? undefined,
+    feature_image: post.coverImageUrl ?? undefined,
+  };
+}
+
+/**
+ * Admin API token: an HS256 JWT, valid for 5 minutes, signed with the
+ * key's (hex) secret
+ */
+function adminToken(adminApiKey: string): string {
+  const [id, secret] = adminApiKey.split(':');
+  const now = Math.floor(Date.now() / 1000);
+
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const unsigned = `${encode({ alg: 'HS256', typ: 'JWT', kid: id })}.${encode({ iat: now, exp: now + 300, aud: '/admin/' })}`;
+  const signature = crypto.createHmac('sha256', Buffer.from(secret, 'hex')).update(unsigned).digest('base64url');
+
+  return `${unsigned}.${signature}`;
+}
+
+function toPublication(post: z.infer<typeof PostsSchema>['posts'][number]): PlatformPublication {
+  return {
+    id: post.id,
+    url: post.url,
+    status: post.status === 'published' ? 'published' : 'draft',
+    publishedAt: post.published_at ?? post.updated_at,
+    updatedAt: post.updated_at,
+  };
+}
@@ -0,0 +1,232 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { z } from 'zod';
+import { PUBLISHERS_CONFIG } from '../../../config/publishers';
+import type { SocialNetwork } from '../social/types';
+import { assertPublicHost } from './site-url';
+import { PublisherError, type BlogPlatform } from './types';
+
+/**
+ * PLATFORM HTTP
+ *
+ * Every adapter request (blog platforms and social networks) goes through
+ * platformRequest(), which follows PUBLISHERS_MODE (see config/publishers.ts):
+ * - live: fetch
+ * - record: fetch, then append the exchange to fixtures/<platform>.json
+ * - fixture: replay a recorded response, without network
+ *
+ * Recorded requests are matched on method + URL path (host and query are
+ * ignored, so fixtures work with any Ghost / WordPress site). Each recorded
+ * exchange is replayed once, in order; when all matching exchanges are used
+ * the last one repeats. The requests replayed are kept (replayedRequests), so
+ * tests can check what an adapter sent.
+ *
+ * Live requests only go to public hosts (see site-url.ts) and don't follow
+ * redirects. Error messages carry the platform's own error message, never
+ * the raw response body.
+ */
+
+export interface PlatformRequest {
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  url: string;
+  headers?: Record<string, string>;
+  body?: unknown;
+  // Response headers to return under `headers` in the body (LinkedIn sends
+  // the new post's id in x-restli-id, with an empty body)
+  responseHeaders?: string[];
+}
+
+export type Platform = BlogPlatform | SocialNetwork;
+
+interface RecordedExchange {
+  request: { method: string; path: string; body: unknown };
+  response: { status: number; body: unknown };
+}
+
+interface FixtureFile {
+  platform: Platform;
+  exchanges: RecordedExchange[];
+}
+
+// Fixture files are read once per process; replayed exchanges are remembered
+const fixtures = new Map<Platform, { file: FixtureFile; replayed: Set<number>; requests: PlatformRequest[] }>();
+
+/**
+ * Send a request to a platform and validate the response
+ *
+ * @param schema - Expected response body
+ * @throws PublisherError if the platform answers with an error, the response
+ *   doesn't match the schema, or (fixture mode) nothing was recorded
+ */
+export async function platformRequest<T extends z.ZodType>(
+  platform: Platform,
+  request: PlatformRequest,
+  schema: T
+): Promise<z.infer<T>> {
+  const response =
+    PUBLISHERS_CONFIG.mode === 'fixture' ? await replay(platform, request) : await send(platform, request);
+
+  if (PUBLISHERS_CONFIG.mode === 'record') {
+    await record(platform, request, response);
+  }
+
+  if (response.status >= 300) {
+    const message = `${platform} ${request.method} ${urlPath(request.url)} failed (${response.status}): ${errorMessage(response)}`;
+    throw new PublisherError(
+      message,
+      response.status === 401 || response.status === 403 ? 'credentials' : 'platform',
+      response.status
+    );
+  }
+
+  const parsed = schema.safeParse(response.body);
+  if (!parsed.success) {
+    throw new PublisherError(`${platform} returned an unexpected response: ${parsed.error.message}`, 'platform');
+  }
+  return parsed.data;
+}
+
+async function send(platform: Platform, request: PlatformRequest): Promise<RecordedExchange['response']> {
+  try {
+    await assertPublicHost(request.url);
+
+    const response = await fetch(request.url, {
+      method: request.method,
+      headers: {
+        Accept: 'application/json',
+        ...(request.body !== undefined && { 'Content-Type': 'application/json' }),
+        ...request.headers,
+      },
+      body: request.body === undefined ? undefined : JSON.stringify(request.body),
+      signal: AbortSignal.timeout(PUBLISHERS_CONFIG.requestTimeoutMs),
+      // A redirect could lead anywhere, including our own network
+      redirect: 'manual',
+    });
+
+    if (response.status >= 300 && response.status < 400) {
+      await response.body?.cancel();
+      return { status: response.status, body: null };
+    }
+
+    const text = await response.text();
+    let body: unknown = text || null;
+    try {
+      body = text ? JSON.parse(text) : null;
+    } catch {
+      // Not JSON (an HTML error page) - kept for recording, never shown
+    }
+
+    if (request.responseHeaders && response.ok) {
+      const headers = Object.fromEntries(
+        request.responseHeaders.map((name) => [name, response.headers.get(name)])
+      );
+      body = { ...(body && typeof body === 'object' ? body : {}), headers };
+    }
+
+    return { status: response.status, body };
+  } catch (error) {
+    throw new PublisherError(
+      `${platform} request failed: ${error instanceof Error ? error.message : 'network error'}`,
+      'platform'
+    );
+  }
+}
+
+async function replay(platform: Platform, request: PlatformRequest): Promise<RecordedExchange['response']> {
+  const fixture = await loadFixture(platform);
+  const requestPath = urlPath(request.url);
+
+  const matching = fixture.file.exchanges
+    .map((exchange, index) => ({ exchange, index }))
+    .filter(({ exchange }) => exchange.request.method === request.method && exchange.request.path === requestPath);
+
+  const next = matching.find(({ index }) => !fixture.replayed.has(index)) ?? matching.at(-1);
+  if (!next) {
+    throw new PublisherError(`No recorded ${platform} response for ${request.method} ${requestPath}`, 'fixture');
+  }
+
+  fixture.replayed.add(next.index);
+  fixture.requests.push(request);
+  return next.exchange.response;
+}
+
+/**
+ * Fixture mode: the requests replayed for a platform so far, in order
+ */
+export function replayedRequests(platform: Platform): PlatformRequest[] {
+  return fixtures.get(platform)?.requests ?? [];
+}
+
+async function record(
+  platform: Platform,
+  request: PlatformRequest,
+  response: RecordedExchange['response']
+): Promise<void> {
+  const file = fixturePath(platform);
+  let fixture: FixtureFile = { platform, exchanges: [] };
+  try {
+    fixture = JSON.parse(await fs.readFile(file, 'utf8'));
+  } catch {
+    // First recording for this platform
+  }
+
+  // Headers carry the credentials - only the method, path and body are kept
+  fixture.exchanges.push({
+    request: { method: request.method, path: urlPath(request.url), body: request.body ?? null },
+    response,
+  });
+
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, `${JSON.stringify(fixture, null, 2)}\n`);
+}
+
+async function loadFixture(platform: Platform) {
+  let fixture = fixtures.get(platform);
+  if (!fixture) {
+    try {
+      fixture = {
+        file: JSON.parse(await fs.readFile(fixturePath(platform), 'utf8')),
+        replayed: new Set(),
+        requests: [],
+      };
+    } catch (error) {
+      throw new PublisherError(
+        `No ${platform} fixtures (${error instanceof Error ? error.message : 'unreadable'})`,
+        'fixture'
+      );
+    }
+    fixtures.set(platform, fixture);
+  }
+  return fixture;
+}
+
+function fixturePath(platform: Platform): string {
+  return path.resolve(process.cwd(), PUBLISHERS_CONFIG.fixturesDir, `${platform}.json`);
+}
+
+function urlPath(url: string): string {
+  return new URL(url).pathname;
+}
+
+/**
+ * The platform's error message, from the shapes the platforms' APIs use
+ *
+ * Only a string message field is passed on (truncated): the body itself may
+ * be an HTML page or anything else the host answers with.
+ */
+function errorMessage(response: RecordedExchange['response']): string {
+  if (response.status < 400) return 'redirects are not followed, check the site URL';
+
+  const body = response.body;
+  if (!body || typeof body !== 'object') return 'no details';
+
+  const error = body as {
+    error?: unknown;
+    message?: unknown;
+    detail?: unknown; // X
+    errors?: { message?: unknown; context?: unknown }[];
+  };
+  const first = Array.isArray(error.errors) ? error.errors[0] : undefined;
+  const message = first?.context ?? first?.message ?? error.detail ?? error.message ?? error.error;
+  return typeof message === 'string' ? message.slice(0, 200) : 'no details';
+}
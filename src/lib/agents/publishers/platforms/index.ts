@@ -0,0 +1,30 @@
+/**
+ * BLOG PLATFORM PUBLISHERS
+ *
+ * One adapter per platform, all implementing Publisher (see types.ts).
+ * To add a platform, create its adapter here, add its id to BLOG_PLATFORMS
+ * and to the credentials provider check (scripts/setup-db.sql).
+ */
+
+import { devtoPublisher } from './devto';
+import { ghostPublisher } from './ghost';
+import { wordpressPublisher } from './wordpress';
+import { mediumPublisher } from './medium';
+import { BLOG_PLATFORMS, type BlogPlatform, type Publisher } from './types';
+
+const PUBLISHERS: Record<BlogPlatform, Publisher> = {
+  devto: devtoPublisher,
+  ghost: ghostPublisher,
+  wordpress: wordpressPublisher,
+  medium: mediumPublisher,
+};
+
+export function isBlogPlatform(value: string): value is BlogPlatform {
+  return (BLOG_PLATFORMS as readonly string[]).includes(value);
+}
+
+export function getPublisher(platform: BlogPlatform): Publisher {
+  return PUBLISHERS[platform];
+}
+
+export * from './types';
@@ -0,0 +1,115 @@
+import { z } from 'zod';
+import { platformRequest } from './http';
+import { PublisherError, type PlatformPublication, type PublishablePost, type Publisher, type PublishOptions } from './types';
+
+/**
+ * Medium (API v1)
+ *
+ * - Credentials: an integration token (Medium no longer issues new ones,
+ *   existing tokens keep working)
+ * - Tags: at most 3, up to 25 characters each
+ * - The API can only create posts: update and unpublish are unsupported -
+ *   edit or delete the post on medium.com
+ */
+
+const API_URL = 'https://api.medium.com/v1';
+
+const MAX_TAGS = 3;
+const MAX_TAG_LENGTH = 25;
+
+const MediumCredentialsSchema = z.object({
+  integrationToken: z.string().min(1),
+});
+
+type MediumCredentials = z.infer<typeof MediumCredentialsSchema>;
+
+const MeSchema = z.object({
+  data: z.object({ id: z.string(), username: z.string() }),
+});
+
+const PostSchema = z.object({
+  data: z.object({
+    id: z.string(),
+    url: z.string(),
+    publishStatus: z.string(),
+    publishedAt: z.number().optional(), // Milliseconds
+  }),
+});
+
+export const mediumPublisher: Publisher<MediumCredentials> = {
+  platform: 'medium',
+  label: 'Medium',
+  credentialsSchema: MediumCredentialsSchema,
+
+  async publish(post, credentials, options = {}) {
+    const me = await platformRequest(
+      'medium',
+      { method: 'GET', url: `${API_URL}/me`, headers: headers(credentials) },
+      MeSchema
+    );
+
+    const { data } = await platformRequest(
+      'medium',
+      {
+        method: 'POST',
+        url: `${API_URL}/users/${me.data.id}/posts`,
+        headers: headers(credentials),
+        body: postBody(post, options),
+      },
+      PostSchema
+    );
+
+    const publishedAt = new Date(data.publishedAt ?? Date.now()).toISOString();
+    return {
+      id: data.id,
+      url: data.url,
+      status: data.publishStatus === 'public' ? 'published' : 'draft',
+      publishedAt,
+      updatedAt: publishedAt,
+    } satisfies PlatformPublication;
+  },
+
+  async update() {
+    throw new PublisherError('Medium posts cannot be updated through the API - edit the post on medium.com', 'unsupported');
+  },
+
+  async unpublish() {
+    throw new PublisherError('Medium posts cannot be unpublished through the API - delete the post on medium.com', 'unsupported');
+  },
+
+  // The author id comes from /me on publish
+  async dryRun(post, credentials, options = {}) {
+    const warnings: string[] = ['Medium posts cannot be updated or unpublished through the API'];
+
+    const tags = mediumTags(post.tags);
+    const dropped = post.tags.filter((tag) => !tags.includes(tag));
+    if (dropped.length > 0) {
+      warnings.push(`Medium allows ${MAX_TAGS} tags of up to ${MAX_TAG_LENGTH} characters - dropped: ${dropped.join(', ')}`);
+    }
+
+    return {
+      platform: 'medium',
+      request: { method: 'POST', url: `${API_URL}/users/{authorId}/posts`, body: postBody(post, options) },
+      warnings,
+    };
+  },
+};
+
+function headers(credentials: MediumCredentials): Record<string, string> {
+  return { Authorization: `Bearer ${credentials.integrationToken}` };
+}
+
+function postBody(post: PublishablePost, options: PublishOptions) {
+  return {
+    title: post.title,
+    contentFormat: 'markdown',
+    content: `# ${post.title}\n\n${post.markdown}`, // Medium shows the content's first heading as the title
+    tags: mediumTags(post.tags),
+    canonicalUrl: post.canonicalUrl ?? undefined,
+    publishStatus: options.draft ? 'draft' : 'public',
+  };
+}
+
+function mediumTags(tags: string[]): string[] {
+  return tags.filter((tag) => tag.length <= MAX_TAG_LENGTH).slice(0, MAX_TAGS);
+}
@@ -0,0 +1,227 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { PUBLISHERS_CONFIG } from '../../../config/publishers';
+import { assertPublicHost } from './site-url';
+import { getPublisher, type BlogPlatform, type PlatformPublication, type PublishablePost } from '.';
+
+/**
+ * The adapters against their recorded exchanges (fixtures/<platform>.json),
+ * run with PUBLISHERS_MODE=fixture (npm test). Each exchange is replayed
+ * once, so the tests of a platform run in order: publish, update,
+ * unpublish.
+ */
+
+const POST: PublishablePost = {
+  title: 'How Async/Await Works',
+  markdown: '## Why async/await?\n\nCallbacks nest; promises chain; async/await reads top to bottom.',
+  html: '<h2>Why async/await?</h2>\n<p>Callbacks nest; promises chain; async/await reads top to bottom.</p>',
+  description: 'Callbacks nest; promises chain; async/await reads top to bottom.',
+  tags: ['javascript', 'async'],
+  canonicalUrl: null,
+  coverImageUrl: null,
+};
+
+const CREDENTIALS: Record<BlogPlatform, unknown> = {
+  devto: { apiKey: 'test-api-key' },
+  ghost: { siteUrl: 'https://blog.example.com/', adminApiKey: `${'a'.repeat(24)}:${'b'.repeat(64)}` },
+  wordpress: { siteUrl: 'https://wp.example.com', username: 'demo', applicationPassword: 'abcd efgh ijkl mnop' },
+  medium: { integrationToken: 'test-integration-token' },
+};
+
+function adapter(platform: BlogPlatform) {
+  const publisher = getPublisher(platform);
+  return { publisher, credentials: publisher.credentialsSchema.parse(CREDENTIALS[platform]) };
+}
+
+test('runs in fixture mode', () => {
+  assert.equal(PUBLISHERS_CONFIG.mode, 'fixture', 'set PUBLISHERS_MODE=fixture');
+});
+
+describe('devto', () => {
+  const { publisher, credentials } = adapter('devto');
+  let publication: PlatformPublication;
+
+  test('publish', async () => {
+    publication = await publisher.publish(POST, credentials);
+    assert.deepEqual(publication, {
+      id: '1870213',
+      url: 'https://dev.to/demo/how-asyncawait-works-3k1b',
+      status: 'published',
+      publishedAt: '2026-10-19T09:12:44Z',
+      updatedAt: '2026-10-19T09:12:44Z',
+    });
+  });
+
+  test('update', async () => {
+    const updated = await publisher.update(publication, POST, credentials);
+    assert.equal(updated.id, publication.id);
+    assert.equal(updated.updatedAt, '2026-10-19T09:30:02Z');
+  });
+
+  test('unpublish', async () => {
+    await publisher.unpublish(publication, credentials);
+  });
+
+  test('dry run', async () => {
+    const dryRun = await publisher.dryRun({ ...POST, tags: ['JavaScript', 'async', 'web', 'node', 'promises'] }, credentials);
+    assert.equal(dryRun.request.method, 'POST');
+    assert.equal(dryRun.request.url, 'https://dev.to/api/articles');
+    assert.deepEqual(dryRun.warnings, [
+      'Dev.to allows 4 alphanumeric tags - dropped: promises',
+      'No cover image (the post has no featured image)',
+    ]);
+  });
+});
+
+describe('ghost', () => {
+  const { publisher, credentials } = adapter('ghost');
+  let publication: PlatformPublication;
+
+  test('publish', async () => {
+    publication = await publisher.publish(POST, credentials);
+    assert.deepEqual(publication, {
+      id: '6713a5f2c3b1e40001d2a9c7',
+      url: 'https://blog.example.com/how-async-await-works/',
+      status: 'published',
+      publishedAt: '2026-10-19T09:12:44.000Z',
+      updatedAt: '2026-10-19T09:12:44.000Z',
+    });
+  });
+
+  test('update', async () => {
+    const updated = await publisher.update(publication, POST, credentials);
+    assert.equal(updated.status, 'published');
+    assert.equal(updated.updatedAt, '2026-10-19T09:30:02.000Z');
+  });
+
+  test('unpublish', async () => {
+    await publisher.unpublish(publication, credentials);
+  });
+
+  test('dry run', async () => {
+    const dryRun = await publisher.dryRun(POST, credentials, { draft: true });
+    assert.equal(dryRun.request.url, 'https://blog.example.com/ghost/api/admin/posts/?source=html');
+    assert.deepEqual(dryRun.request.body, {
+      posts: [
+        {
+          title: POST.title,
+          html: POST.html,
+          tags: [{ name: 'javascript' }, { name: 'async' }],
+          custom_excerpt: POST.description,
+          canonical_url: undefined,
+          feature_image: undefined,
+          status: 'draft',
+        },
+      ],
+    });
+    assert.deepEqual(dryRun.warnings, ['No feature image (the post has no featured image)']);
+  });
+});
+
+describe('wordpress', () => {
+  const { publisher, credentials } = adapter('wordpress');
+  let publication: PlatformPublication;
+
+  test('publish', async () => {
+    publication = await publisher.publish(POST, credentials);
+    assert.deepEqual(publication, {
+      id: '4512',
+      url: 'https://wp.example.com/2026/10/19/how-async-await-works/',
+      status: 'published',
+      publishedAt: '2026-10-19T09:12:44Z',
+      updatedAt: '2026-10-19T09:12:44Z',
+    });
+  });
+
+  test('update', async () => {
+    const updated = await publisher.update(publication, POST, credentials);
+    assert.equal(updated.id, publication.id);
+    assert.equal(updated.updatedAt, '2026-10-19T09:30:02Z');
+  });
+
+  test('unpublish', async () => {
+    await publisher.unpublish(publication, credentials);
+  });
+
+  test('dry run', async () => {
+    const dryRun = await publisher.dryRun({ ...POST, coverImageUrl: 'https://example.com/cover.png' }, credentials);
+    assert.equal(dryRun.request.url, 'https://wp.example.com/wp-json/wp/v2/posts');
+    assert.deepEqual(dryRun.request.body, {
+      title: POST.title,
+      content: POST.html,
+      excerpt: POST.description,
+      status: 'publish',
+      tags: ['javascript', 'async'],
+    });
+    assert.deepEqual(dryRun.warnings, ['Featured image not set (WordPress needs it uploaded to the media library)']);
+  });
+});
+
+describe('medium', () => {
+  const { publisher, credentials } = adapter('medium');
+  let publication: PlatformPublication;
+
+  test('publish', async () => {
+    publication = await publisher.publish(POST, credentials);
+    assert.deepEqual(publication, {
+      id: 'e6f36a',
+      url: 'https://medium.com/@demo/how-async-await-works-e6f36a',
+      status: 'published',
+      publishedAt: new Date(1792401164000).toISOString(),
+      updatedAt: new Date(1792401164000).toISOString(),
+    });
+  });
+
+  test('update is unsupported', async () => {
+    await assert.rejects(publisher.update(publication, POST, credentials), { name: 'PublisherError', kind: 'unsupported' });
+  });
+
+  test('unpublish is unsupported', async () => {
+    await assert.rejects(publisher.unpublish(publication, credentials), { name: 'PublisherError', kind: 'unsupported' });
+  });
+
+  test('dry run', async () => {
+    const dryRun = await publisher.dryRun({ ...POST, tags: ['javascript', 'async', 'web', 'node'] }, credentials);
+    assert.equal(dryRun.request.url, 'https://api.medium.com/v1/users/{authorId}/posts');
+    assert.deepEqual(dryRun.warnings, [
+      'Medium posts cannot be updated or unpublished through the API',
+      'Medium allows 3 tags of up to 25 characters - dropped: node',
+    ]);
+  });
+});
+
+describe('site URLs', () => {
+  const { publisher } = adapter('ghost');
+  const adminApiKey = (CREDENTIALS.ghost as { adminApiKey: string }).adminApiKey;
+
+  for (const siteUrl of [
+    'http://blog.example.com',
+    'https://localhost',
+    'https://blog.localhost',
+    'https://intranet',
+    'https://db.internal',
+    'https://127.0.0.1',
+    'https://2130706433', // 127.0.0.1
+    'https://10.0.0.5',
+    'https://172.16.1.1',
+    'https://192.168.1.1',
+    'https://169.254.169.254',
+    'https://[::1]',
+    'https://[::ffff:127.0.0.1]',
+    'https://[fd00::1]',
+    'https://[fe80::1]',
+  ]) {
+    test(`rejects ${siteUrl}`, () => {
+      assert.equal(publisher.credentialsSchema.safeParse({ siteUrl, adminApiKey }).success, false);
+    });
+  }
+
+  test('accepts a public https site', () => {
+    assert.equal(publisher.credentialsSchema.safeParse({ siteUrl: 'https://203.0.113.10', adminApiKey }).success, true);
+  });
+
+  test('requests to internal hosts are refused before any lookup', async () => {
+    await assert.rejects(assertPublicHost('https://localhost./ghost/api/admin/posts/'), /not a public host/);
+    await assert.rejects(assertPublicHost('https://[::1]/wp-json/wp/v2/posts'), /not a public host/);
+  });
+});
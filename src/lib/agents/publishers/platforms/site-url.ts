@@ -0,0 +1,89 @@
+import { promises as dns } from 'dns';
+import { BlockList, isIP } from 'net';
+import { z } from 'zod';
+
+/**
+ * USER-SUPPLIED SITE URLS
+ *
+ * Ghost and WordPress sites (and Mastodon / Bluesky servers) are URLs the
+ * user types in, and the server sends requests there with the user's
+ * credentials. So they can't point back into our own network:
+ * - siteUrlSchema: https only; no localhost, single-label or .local /
+ *   .internal names, no loopback, private or link-local address
+ * - assertPublicHost: right before a request, the host's DNS answers are
+ *   checked too (a public name can resolve to 10.0.0.1)
+ */
+
+const PRIVATE_RANGES: [address: string, prefix: number, type: 'ipv4' | 'ipv6'][] = [
+  ['0.0.0.0', 8, 'ipv4'], // "This" network
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'], // Carrier-grade NAT
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'], // Link-local (cloud metadata endpoints)
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'], // Benchmarking
+  ['224.0.0.0', 3, 'ipv4'], // Multicast and reserved, up to 255.255.255.255
+  ['::', 127, 'ipv6'], // Unspecified and loopback (IPv4-mapped addresses are checked as IPv4)
+  ['64:ff9b::', 96, 'ipv6'], // NAT64
+  ['fc00::', 7, 'ipv6'], // Unique local
+  ['fe80::', 10, 'ipv6'], // Link-local
+  ['ff00::', 8, 'ipv6'], // Multicast
+];
+
+const privateAddresses = new BlockList();
+for (const [address, prefix, type] of PRIVATE_RANGES) {
+  privateAddresses.addSubnet(address, prefix, type);
+}
+
+const INTERNAL_NAME = /(^|\.)(localhost|local|internal)$/i;
+
+/**
+ * A site's base URL (without trailing slash)
+ */
+export const siteUrlSchema = z
+  .url({ protocol: /^https$/, error: 'Expected an https:// URL' })
+  .refine((url) => isPublicHostname(new URL(url).hostname), 'Expected a public site, not a local or private address')
+  .transform((url) => url.replace(/\/+$/, ''));
+
+/**
+ * Whether an address is loopback, private, link-local or otherwise not on
+ * the public internet
+ */
+export function isPrivateAddress(address: string): boolean {
+  const type = isIP(address);
+  return type !== 0 && privateAddresses.check(address, type === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Check that a URL's host resolves to public addresses only
+ *
+ * The connection resolves the name again; this catches names that point
+ * inside our network, not a DNS server answering differently the second
+ * time.
+ *
+ * @throws Error if the host is internal, resolves to a private address or
+ *   can't be resolved
+ */
+export async function assertPublicHost(url: string): Promise<void> {
+  const { hostname } = new URL(url);
+  if (!isPublicHostname(hostname)) {
+    throw new Error(`${hostname} is not a public host`);
+  }
+
+  const host = hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host)) return;
+
+  const addresses = await dns.lookup(host, { all: true, verbatim: true });
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new Error(`${hostname} resolves to a private address`);
+  }
+}
+
+function isPublicHostname(hostname: string): boolean {
+  // IPv6 literals keep their brackets in URL.hostname
+  const host = hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host)) return !isPrivateAddress(host);
+  return host.includes('.') && !INTERNAL_NAME.test(host.replace(/\.$/, ''));
+}
@@ -0,0 +1,85 @@
+import type { z } from 'zod';
+
+/**
+ * Types shared by the blog platform publishers
+ */
+
+export const BLOG_PLATFORMS = ['devto', 'ghost', 'wordpress', 'medium'] as const;
+
+export type BlogPlatform = (typeof BLOG_PLATFORMS)[number];
+
+/**
+ * A blog post, ready for any platform
+ */
+export interface PublishablePost {
+  title: string;
+  markdown: string; // Body without the title
+  html: string; // Body without the title
+  description: string | null;
+  tags: string[]; // Without "#"; each platform applies its own limits
+  canonicalUrl: string | null; // The post on the public blog, if published there
+  coverImageUrl: string | null; // The featured image (http(s) only)
+}
+
+/**
+ * Where a post lives on a platform (saved in outputs.publication_metadata)
+ */
+export interface PlatformPublication {
+  url: string;
+  publishedAt: string;
+  id: string; // The platform's post id (update / unpublish use it)
+  status: 'published' | 'draft';
+  updatedAt: string; // Ghost needs it to update (collision detection)
+}
+
+/**
+ * What a publish would send, without sending it
+ */
+export interface PublisherDryRun {
+  platform: BlogPlatform;
+  request: { method: string; url: string; body: unknown };
+  warnings: string[]; // What the platform will drop or change (tag limits, missing cover, ...)
+}
+
+export interface PublishOptions {
+  draft?: boolean; // Create as a draft instead of publishing
+}
+
+/**
+ * A blog platform adapter
+ *
+ * Adapters only talk to the platform; credentials come in decrypted and
+ * the caller records the publication (see platform-publisher.ts).
+ */
+export interface Publisher<TCredentials = unknown> {
+  platform: BlogPlatform;
+  label: string; // "Dev.to"
+  credentialsSchema: z.ZodType<TCredentials>;
+  publish(post: PublishablePost, credentials: TCredentials, options?: PublishOptions): Promise<PlatformPublication>;
+  update(
+    publication: PlatformPublication,
+    post: PublishablePost,
+    credentials: TCredentials
+  ): Promise<PlatformPublication>;
+  unpublish(publication: PlatformPublication, credentials: TCredentials): Promise<void>;
+  dryRun(post: PublishablePost, credentials: TCredentials, options?: PublishOptions): Promise<PublisherDryRun>;
+}
+
+/**
+ * A platform refused the request, or the adapter can't do it
+ *
+ * - credentials: the platform rejected the credentials (401 / 403)
+ * - unsupported: the platform's API has no such operation (Medium can't update)
+ * - platform: any other failure (the message carries the platform's error)
+ * - fixture: fixture mode has no recorded response for the request
+ */
+export class PublisherError extends Error {
+  constructor(
+    message: string,
+    readonly kind: 'credentials' | 'unsupported' | 'platform' | 'fixture',
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = 'PublisherError';
+  }
+}
@@ -0,0 +1,163 @@
+import { z } from 'zod';
+import { platformRequest } from './http';
+import { siteUrlSchema } from './site-url';
+import type { PlatformPublication, PublishablePost, Publisher, PublishOptions } from './types';
+
+/**
+ * WordPress (REST API, self-hosted or any site with application passwords)
+ *
+ * - Credentials: the site's https URL, a username and an application password
+ *   (Users → Profile → Application Passwords), sent as Basic auth
+ * - Posts are sent as HTML; tags are looked up by name and created if
+ *   missing (the API takes term ids)
+ * - Featured images and canonical URLs need plugins / a media upload, so
+ *   they are not sent
+ * - Unpublish: the post moves to the trash (restorable for 30 days)
+ */
+
+const WordPressCredentialsSchema = z.object({
+  siteUrl: siteUrlSchema,
+  username: z.string().min(1),
+  applicationPassword: z.string().min(1),
+});
+
+type WordPressCredentials = z.infer<typeof WordPressCredentialsSchema>;
+
+const PostSchema = z.object({
+  id: z.number(),
+  link: z.string(),
+  status: z.string(),
+  date_gmt: z.string(),
+  modified_gmt: z.string(),
+});
+
+const TagsSchema = z.array(z.object({ id: z.number(), name: z.string() }));
+
+const TagSchema = z.object({ id: z.number() });
+
+export const wordpressPublisher: Publisher<WordPressCredentials> = {
+  platform: 'wordpress',
+  label: 'WordPress',
+  credentialsSchema: WordPressCredentialsSchema,
+
+  async publish(post, credentials, options = {}) {
+    const created = await platformRequest(
+      'wordpress',
+      {
+        method: 'POST',
+        url: apiUrl(credentials, 'posts'),
+        headers: headers(credentials),
+        body: { ...postBody(post, options), tags: await resolveTags(post.tags, credentials) },
+      },
+      PostSchema
+    );
+    return toPublication(created);
+  },
+
+  async update(publication, post, credentials) {
+    const updated = await platformRequest(
+      'wordpress',
+      {
+        method: 'POST',
+        url: apiUrl(credentials, `posts/${publication.id}`),
+        headers: headers(credentials),
+        body: {
+          ...postBody(post, { draft: publication.status === 'draft' }),
+          tags: await resolveTags(post.tags, credentials),
+        },
+      },
+      PostSchema
+    );
+    return toPublication(updated);
+  },
+
+  async unpublish(publication, credentials) {
+    await platformRequest(
+      'wordpress',
+      { method: 'DELETE', url: apiUrl(credentials, `posts/${publication.id}`), headers: headers(credentials) },
+      PostSchema
+    );
+  },
+
+  // Tag ids are resolved on publish - the dry run shows the names
+  async dryRun(post, credentials, options = {}) {
+    const warnings: string[] = [];
+
+    if (post.coverImageUrl) {
+      warnings.push('Featured image not set (WordPress needs it uploaded to the media library)');
+    }
+    if (post.canonicalUrl) {
+      warnings.push('Canonical URL not set (needs an SEO plugin)');
+    }
+
+    return {
+      platform: 'wordpress',
+      request: {
+        method: 'POST',
+        url: apiUrl(credentials, 'posts'),
+        body: { ...postBody(post, options), tags: post.tags },
+      },
+      warnings,
+    };
+  },
+};
+
+function apiUrl(credentials: WordPressCredentials, route: string): string {
+  return `${credentials.siteUrl}/wp-json/wp/v2/${route}`;
+}
+
+function headers(credentials: WordPressCredentials): Record<string, string> {
+  const basic = Buffer.from(`${credentials.username}:${credentials.applicationPassword}`).toString('base64');
+  return { Authorization: `Basic ${basic}` };
+}
+
+function postBody(post: PublishablePost, options: PublishOptions) {
+  return {
+    title: post.title,
+    content: post.html,
+    excerpt: post.description ?? undefined,
+    status: options.draft ? 'draft' : 'publish',
+  };
+}
+
+/**
+ * Tag names → term ids (existing tags are reused, case-insensitively)
+ */
+async function resolveTags(names: string[], credentials: WordPressCredentials): Promise<number[]> {
+  const ids: number[] = [];
+
+  for (const name of names) {
+    const matches = await platformRequest(
+      'wordpress',
+      {
+        method: 'GET',
+        url: `${apiUrl(credentials, 'tags')}?search=${encodeURIComponent(name)}`,
+        headers: headers(credentials),
+      },
+      TagsSchema
+    );
+    const existing = matches.find((tag) => tag.name.toLowerCase() === name.toLowerCase());
+
+    const tag =
+      existing ??
+      (await platformRequest(
+        'wordpress',
+        { method: 'POST', url: apiUrl(credentials, 'tags'), headers: headers(credentials), body: { name } },
+        TagSchema
+      ));
+    ids.push(tag.id);
+  }
+
+  return ids;
+}
+
+function toPublication(post: z.infer<typeof PostSchema>): PlatformPublication {
+  // WordPress GMT dates have no zone designator
+  return {
+    id: String(post.id),
+    url: post.link,
+    status: post.status === 'publish' ? 'published' : 'draft',
+    publishedAt: `${post.date_gmt}Z`,
+    updatedAt: `${post.modified_gmt}Z`,
+  };
+}
@@ -0,0 +1,83 @@
+/**
+ * Publication record - where an output is published
+ *
+ * An output can be published to several places at once (the public blog,
+ * Dev.to, Ghost, ...). Each one keeps an entry in
+ * `outputs.publication_metadata`, keyed by destination:
+ *
+ * ```json
+ * {
+ *   "blog":  { "url": "https://site/blog/u/my-post", "publishedAt": "...", "slug": "my-post", "isPublic": true },
+ *   "devto": { "url": "https://dev.to/me/my-post-1k2j", "publishedAt": "...", "id": "1234", ... }
+ * }
+ * ```
+ *
+ * `publication_url` is the URL of the most recently added destination;
+ * removing that destination falls back to another one, and removing the
+ * last marks the output unpublished.
+ */
+
+import { updateOutputPublication } from '../../db/queries';
+import type { Output } from '../../db/types';
+
+/**
+ * One destination's entry in publication_metadata
+ */
+export interface PublicationEntry {
+  url: string;
+  publishedAt: string;
+  [key: string]: unknown;
+}
+
+/**
+ * The destination's entry, if the output is published there
+ */
+export function getPublication<T extends Pick<PublicationEntry, 'url' | 'publishedAt'> = PublicationEntry>(
+  output: Output,
+  destination: string
+): T | null {
+  const entry = output.publication_metadata?.[destination];
+  return entry && typeof entry.url === 'string' ? (entry as T) : null;
+}
+
+/**
+ * Add, replace or (entry = null) remove a destination's entry
+ *
+ * @returns The updated output
+ */
+export async function recordPublication(
+  output: Output,
+  destination: string,
+  entry: PublicationEntry | null
+): Promise<Output> {
+  const previous = getPublication(output, destination);
+  const metadata: Record<string, unknown> = { ...output.publication_metadata };
+  if (entry) {
+    metadata[destination] = entry;
+  } else {
+    delete metadata[destination];
+  }
+
+  const remaining = Object.keys(metadata)
+    .map((key) => getPublication({ ...output, publication_metadata: metadata }, key))
+    .filter((publication): publication is PublicationEntry => publication !== null);
+
+  let url = output.publication_url;
+  if (entry) {
+    if (!url || entry.url !== previous?.url) url = entry.url;
+  } else if (!url || url === previous?.url) {
+    url = remaining.at(-1)?.url ?? null;
+  }
+
+  // Outputs published outside publication_metadata (a GitHub repo) keep their URL
+  const published = url !== null;
+
+  return updateOutputPublication(output.id, output.user_id, {
+    published,
+    publication_url: url,
+    publication_metadata: metadata,
+    published_at: published
+      ? (output.published_at ?? entry?.publishedAt ?? remaining[0]?.publishedAt ?? new Date().toISOString())
+      : null,
+  });
+}
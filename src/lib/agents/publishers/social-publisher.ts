@@ -0,0 +1,239 @@
+/**
+ * Social Publisher - Shares blog outputs on X, LinkedIn, Mastodon and Bluesky
+ *
+ * Each blog output has at most one social post per network (social_posts):
+ * 1. generateSocialPosts() writes a draft per network (social-writer.ts),
+ *    fitted to the network's rules and keeping the [BLOG_URL] placeholder
+ * 2. editSocialPost() / scheduleSocialPost() - the user adjusts it and picks
+ *    a time; scheduling needs the blog post to be published
+ * 3. The social scheduler (jobs/social-scheduler.ts) claims it when due and
+ *    calls sendSocialPost(), which substitutes the published URL and posts
+ *    it (a thread post by post) with the user's credentials
+ *
+ * The clients live in social/; PUBLISHERS_MODE=fixture runs them against
+ * recorded responses (see config/publishers.ts).
+ */
+
+import type { Logger } from '../../logging/logger';
+import { BlogContentSchema } from '../formats/blog-post';
+import { socialWriter } from '../social-writer';
+import { getPublication } from './publication';
+import { loadConnectorCredentials, saveConnectorCredentials, withValidation } from './credentials';
+import { PublisherError } from './platforms/types';
+import {
+  applyRules,
+  BLOG_URL_PLACEHOLDER,
+  getSocialClient,
+  renderPosts,
+  type RemotePost,
+  type SocialNetwork,
+  type SocialPostDraft,
+} from './social';
+import { getOutputById, getSocialPosts, saveSocialPostDraft, updateSocialPost } from '../../db/queries';
+import type { Output, SocialPost } from '../../db/types';
+
+// A draft can be edited or (re)scheduled in these statuses
+const EDITABLE_STATUSES: SocialPost['status'][] = ['draft', 'scheduled', 'failed', 'cancelled'];
+
+/**
+ * A social post as the API returns it: the texts to be sent, with the
+ * published URL substituted (the placeholder stays until it is published)
+ */
+export interface SocialPostView extends SocialPost {
+  preview: string[];
+  warnings: string[];
+}
+
+/**
+ * What sending a social post did
+ */
+export interface SocialDelivery {
+  sent: RemotePost[]; // In thread order; may be partial if error is set
+  error: unknown;
+}
+
+/**
+ * Validate and store a network's credentials (encrypted)
+ *
+ * @throws PublisherError (credentials) if they don't match the network's schema
+ */
+export async function saveSocialCredentials(
+  userId: string,
+  network: SocialNetwork,
+  credentials: unknown
+): Promise<void> {
+  await saveConnectorCredentials(userId, network, getSocialClient(network), credentials);
+}
+
+/**
+ * The URL social posts link to: the public blog post, or wherever the
+ * output was last published (null if it isn't)
+ */
+export function getShareUrl(output: Output): string | null {
+  const blog = getPublication<{ url: string; publishedAt: string; isPublic?: boolean }>(output, 'blog');
+  if (blog?.isPublic) return blog.url;
+  return output.published ? output.publication_url : null;
+}
+
+/**
+ * Write drafts for the given networks, replacing existing drafts
+ *
+ * Networks with a post that is scheduled, being posted or posted are left
+ * alone (cancel or delete it first).
+ *
+ * @returns The output's social posts, and the networks that were skipped
+ */
+export async function generateSocialPosts(
+  output: Output,
+  networks: SocialNetwork[],
+  logger?: Logger
+): Promise<{ posts: SocialPostView[]; skipped: SocialNetwork[] }> {
+  const content = getBlogContent(output);
+  const existing = await getSocialPosts(output.id, output.user_id);
+
+  const skipped = networks.filter((network) =>
+    existing.some((post) => post.network === network && !EDITABLE_STATUSES.includes(post.status))
+  );
+  const toWrite = networks.filter((network) => !skipped.includes(network));
+
+  const warnings = new Map<SocialNetwork, string[]>();
+  if (toWrite.length > 0) {
+    const drafts = await socialWriter(content, toWrite, logger);
+    const url = getShareUrl(output);
+
+    for (const network of toWrite) {
+      const draft = url ? applyRules(drafts[network], getSocialClient(network).rules, url) : drafts[network];
+      await saveSocialPostDraft({
+        output_id: output.id,
+        user_id: output.user_id,
+        network,
+        posts: draft.posts,
+        hashtags: draft.hashtags,
+      });
+      warnings.set(network, [...drafts[network].warnings, ...(url ? [] : ['Publish the blog post to schedule it'])]);
+    }
+  }
+
+  const posts = await getSocialPosts(output.id, output.user_id);
+  return {
+    posts: posts.map((post) => toView(post, output, warnings.get(post.network) ?? [])),
+    skipped,
+  };
+}
+
+/**
+ * Replace a draft's text (fitted to the network's rules again)
+ *
+ * @returns The updated post, or null if it isn't editable (posting / posted)
+ */
+export async function editSocialPost(
+  output: Output,
+  post: SocialPost,
+  draft: SocialPostDraft
+): Promise<SocialPostView | null> {
+  const fitted = applyRules(draft, getSocialClient(post.network).rules, getShareUrl(output));
+  const updated = await updateSocialPost(
+    post.id,
+    output.user_id,
+    { posts: fitted.posts, hashtags: fitted.hashtags },
+    EDITABLE_STATUSES
+  );
+  return updated && toView(updated, output, fitted.warnings);
+}
+
+/**
+ * Schedule a post (a time in the past sends it on the scheduler's next poll)
+ *
+ * Re-fits the text with the published URL, which may be longer than the
+ * stand-in it was written with.
+ *
+ * @returns The updated post, or null if it can't be scheduled (posting / posted)
+ * @throws PublisherError (unsupported) if the blog post isn't published
+ */
+export async function scheduleSocialPost(
+  output: Output,
+  post: SocialPost,
+  scheduledFor: Date
+): Promise<SocialPostView | null> {
+  const url = getShareUrl(output);
+  if (!url) {
+    throw new PublisherError('Publish the blog post before scheduling social posts - they link to it', 'unsupported');
+  }
+
+  const fitted = applyRules(post, getSocialClient(post.network).rules, url);
+  const updated = await updateSocialPost(
+    post.id,
+    output.user_id,
+    {
+      posts: fitted.posts,
+      hashtags: fitted.hashtags,
+      status: 'scheduled',
+      scheduled_for: scheduledFor.toISOString(),
+      attempts: 0,
+      error_message: null,
+    },
+    EDITABLE_STATUSES
+  );
+  return updated && toView(updated, output, fitted.warnings);
+}
+
+/**
+ * Cancel a scheduled post
+ *
+ * @returns The updated post, or null if it isn't scheduled
+ */
+export async function cancelSocialPost(output: Output, post: SocialPost): Promise<SocialPostView | null> {
+  const updated = await updateSocialPost(post.id, output.user_id, { status: 'cancelled' }, ['scheduled']);
+  return updated && toView(updated, output, []);
+}
+
+/**
+ * Send a claimed post to its network (called by the social scheduler)
+ *
+ * Never throws: a failure comes back as `error`, with the posts of a thread
+ * that were sent before it.
+ */
+export async function sendSocialPost(post: SocialPost): Promise<SocialDelivery> {
+  const sent: RemotePost[] = [];
+
+  try {
+    const output = await getOutputById(post.output_id, post.user_id);
+    const url = output && getShareUrl(output);
+    if (!url) {
+      throw new PublisherError('The blog post is no longer published', 'unsupported');
+    }
+
+    const client = getSocialClient(post.network);
+    const credentials = await loadConnectorCredentials(post.user_id, post.network, client);
+
+    await withValidation(post.user_id, post.network, async () => {
+      const session = await client.connect(credentials);
+      for (const text of renderPosts(post, url)) {
+        sent.push(await session.post(text, sent));
+      }
+    });
+
+    return { sent, error: null };
+  } catch (error) {
+    return { sent, error };
+  }
+}
+
+/**
+ * SocialPost → SocialPostView
+ */
+export function toView(post: SocialPost, output: Output, warnings: string[]): SocialPostView {
+  return {
+    ...post,
+    preview: renderPosts(post, getShareUrl(output) ?? BLOG_URL_PLACEHOLDER),
+    warnings,
+  };
+}
+
+function getBlogContent(output: Output) {
+  const parsed = BlogContentSchema.safeParse(output.content);
+  if (output.format !== 'blog_post' || !parsed.success) {
+    throw new PublisherError('Only blog posts have social posts', 'unsupported');
+  }
+  return parsed.data;
+}
@@ -0,0 +1,122 @@
+import { z } from 'zod';
+import { platformRequest } from '../platforms/http';
+import { siteUrlSchema } from '../platforms/site-url';
+import type { SocialClient } from './types';
+
+/**
+ * Bluesky (AT Protocol)
+ *
+ * - Credentials: the handle and an app password (Settings → App passwords);
+ *   serviceUrl only for accounts hosted outside bsky.social
+ * - 300 graphemes, and the link counts in full
+ * - Links and hashtags are plain text to Bluesky: each one gets a facet
+ *   (UTF-8 byte range) so it is clickable
+ */
+
+const BlueskyCredentialsSchema = z.object({
+  handle: z.string().min(1).transform((handle) => handle.replace(/^@/, '')),
+  appPassword: z.string().min(1),
+  serviceUrl: siteUrlSchema.default('https://bsky.social'),
+});
+
+type BlueskyCredentials = z.infer<typeof BlueskyCredentialsSchema>;
+
+const SessionSchema = z.object({
+  accessJwt: z.string(),
+  did: z.string(),
+  handle: z.string(),
+});
+
+const RecordSchema = z.object({
+  uri: z.string(), // at://did/app.bsky.feed.post/<rkey>
+  cid: z.string(),
+});
+
+export const blueskyClient: SocialClient<BlueskyCredentials> = {
+  network: 'bluesky',
+  label: 'Bluesky',
+  rules: {
+    maxLength: 300,
+    countGraphemes: true,
+    urlLength: null,
+    minHashtags: 0,
+    maxHashtags: 2,
+    camelCaseHashtags: false,
+    maxPosts: 1,
+  },
+  credentialsSchema: BlueskyCredentialsSchema,
+
+  async connect(credentials) {
+    const session = await platformRequest(
+      'bluesky',
+      {
+        method: 'POST',
+        url: `${credentials.serviceUrl}/xrpc/com.atproto.server.createSession`,
+        body: { identifier: credentials.handle, password: credentials.appPassword },
+      },
+      SessionSchema
+    );
+
+    return {
+      async post(text, thread) {
+        const [root, parent] = [thread[0], thread.at(-1)];
+        const record = await platformRequest(
+          'bluesky',
+          {
+            method: 'POST',
+            url: `${credentials.serviceUrl}/xrpc/com.atproto.repo.createRecord`,
+            headers: { Authorization: `Bearer ${session.accessJwt}` },
+            body: {
+              repo: session.did,
+              collection: 'app.bsky.feed.post',
+              record: {
+                $type: 'app.bsky.feed.post',
+                text,
+                facets: facets(text),
+                createdAt: new Date().toISOString(),
+                ...(root &&
+                  parent && {
+                    reply: {
+                      root: { uri: root.id, cid: root.cid },
+                      parent: { uri: parent.id, cid: parent.cid },
+                    },
+                  }),
+              },
+            },
+          },
+          RecordSchema
+        );
+
+        const rkey = record.uri.split('/').pop();
+        return {
+          id: record.uri,
+          cid: record.cid,
+          url: `https://bsky.app/profile/${session.handle}/post/${rkey}`,
+        };
+      },
+    };
+  },
+};
+
+/**
+ * Link and hashtag facets (byte offsets into the UTF-8 text)
+ */
+function facets(text: string) {
+  const encoder = new TextEncoder();
+  const byteRange = (index: number, match: string) => {
+    const byteStart = encoder.encode(text.slice(0, index)).length;
+    return { byteStart, byteEnd: byteStart + encoder.encode(match).length };
+  };
+
+  const links = Array.from(text.matchAll(/https?:\/\/[^\s]+[^\s.,;:!?)]/g), (match) => ({
+    index: byteRange(match.index, match[0]),
+    features: [{ $type: 'app.bsky.richtext.facet#link', uri: match[0] }],
+  }));
+
+  const tags = Array.from(text.matchAll(/(^|\s)(#[\p{L}\p{N}_]*\p{L}[\p{L}\p{N}_]*)/gu), (match) => ({
+    index: byteRange(match.index + match[1].length, match[2]),
+    features: [{ $type: 'app.bsky.richtext.facet#tag', tag: match[2].slice(1) }],
+  }));
+
+  return [...links, ...tags];
+}
@@ -0,0 +1,32 @@
+/**
+ * SOCIAL NETWORK CLIENTS
+ *
+ * One client per network, all implementing SocialClient (see types.ts).
+ * To add a network, create its client here, add its id to SOCIAL_NETWORKS,
+ * to the credentials provider check and to the social_posts network check
+ * (scripts/setup-db.sql).
+ */
+
+import { xClient } from './x';
+import { linkedinClient } from './linkedin';
+import { mastodonClient } from './mastodon';
+import { blueskyClient } from './bluesky';
+import { SOCIAL_NETWORKS, type SocialClient, type SocialNetwork } from './types';
+
+const CLIENTS: Record<SocialNetwork, SocialClient> = {
+  x: xClient,
+  linkedin: linkedinClient,
+  mastodon: mastodonClient,
+  bluesky: blueskyClient,
+};
+
+export function isSocialNetwork(value: string): value is SocialNetwork {
+  return (SOCIAL_NETWORKS as readonly string[]).includes(value);
+}
+
+export function getSocialClient(network: SocialNetwork): SocialClient {
+  return CLIENTS[network];
+}
+
+export * from './types';
+export * from './rules';
@@ -0,0 +1,91 @@
+import { z } from 'zod';
+import { platformRequest } from '../platforms/http';
+import type { SocialClient } from './types';
+
+/**
+ * LinkedIn (Posts API)
+ *
+ * - Credentials: a member access token with openid, profile and
+ *   w_member_social (the author is read from /v2/userinfo)
+ * - 3000 characters, posted publicly to the member's feed
+ * - No threads: the variant is a single post
+ */
+
+const API_URL = 'https://api.linkedin.com';
+
+// LinkedIn's versioned APIs want the version as YYYYMM
+const LINKEDIN_VERSION = '202405';
+
+const LinkedInCredentialsSchema = z.object({
+  accessToken: z.string().min(1),
+});
+
+type LinkedInCredentials = z.infer<typeof LinkedInCredentialsSchema>;
+
+const UserInfoSchema = z.object({
+  sub: z.string(),
+});
+
+// The new post's URN comes back in a header, not the body
+const CreatedPostSchema = z.object({
+  headers: z.object({ 'x-restli-id': z.string() }),
+});
+
+export const linkedinClient: SocialClient<LinkedInCredentials> = {
+  network: 'linkedin',
+  label: 'LinkedIn',
+  rules: {
+    maxLength: 3000,
+    countGraphemes: false,
+    urlLength: null,
+    minHashtags: 3,
+    maxHashtags: 5,
+    camelCaseHashtags: false,
+    maxPosts: 1,
+  },
+  credentialsSchema: LinkedInCredentialsSchema,
+
+  async connect(credentials) {
+    const headers = { Authorization: `Bearer ${credentials.accessToken}` };
+    const { sub } = await platformRequest(
+      'linkedin',
+      { method: 'GET', url: `${API_URL}/v2/userinfo`, headers },
+      UserInfoSchema
+    );
+
+    return {
+      async post(text) {
+        const created = await platformRequest(
+          'linkedin',
+          {
+            method: 'POST',
+            url: `${API_URL}/rest/posts`,
+            headers: { ...headers, 'LinkedIn-Version': LINKEDIN_VERSION, 'X-Restli-Protocol-Version': '2.0.0' },
+            body: {
+              author: `urn:li:person:${sub}`,
+              commentary: escapeCommentary(text),
+              visibility: 'PUBLIC',
+              distribution: { feedDistribution: 'MAIN_FEED', targetEntities: [], thirdPartyDistributionChannels: [] },
+              lifecycleState: 'PUBLISHED',
+              isReshareDisabledByAuthor: false,
+            },
+            responseHeaders: ['x-restli-id'],
+          },
+          CreatedPostSchema
+        );
+
+        const urn = created.headers['x-restli-id'];
+        return { id: urn, url: `https://www.linkedin.com/feed/update/${urn}/` };
+      },
+    };
+  },
+};
+
+/**
+ * Commentary is "little text" - these characters are markup and must be
+ * escaped, or LinkedIn drops the rest of the post. "#" stays unescaped in
+ * front of a word so hashtags are still linked.
+ */
+function escapeCommentary(text: string): string {
+  return text.replace(/[\\|{}@[\]()<>#*_~]/g, (char) => `\\${char}`).replace(/\\#(?=[\p{L}\p{N}])/gu, '#');
+}
@@ -0,0 +1,61 @@
+import { z } from 'zod';
+import { platformRequest } from '../platforms/http';
+import { siteUrlSchema } from '../platforms/site-url';
+import type { SocialClient } from './types';
+
+/**
+ * Mastodon (any instance)
+ *
+ * - Credentials: the instance's https URL and an access token with write:statuses
+ *   (Preferences → Development → New application)
+ * - 500 characters (the default - some instances allow more); every link
+ *   counts as 23
+ * - Hashtags in CamelCase, so screen readers can read them
+ */
+
+const MastodonCredentialsSchema = z.object({
+  instanceUrl: siteUrlSchema,
+  accessToken: z.string().min(1),
+});
+
+type MastodonCredentials = z.infer<typeof MastodonCredentialsSchema>;
+
+const StatusSchema = z.object({
+  id: z.string(),
+  url: z.string().nullable(),
+  uri: z.string(),
+});
+
+export const mastodonClient: SocialClient<MastodonCredentials> = {
+  network: 'mastodon',
+  label: 'Mastodon',
+  rules: {
+    maxLength: 500,
+    countGraphemes: false,
+    urlLength: 23,
+    minHashtags: 2,
+    maxHashtags: 4,
+    camelCaseHashtags: true,
+    maxPosts: 1,
+  },
+  credentialsSchema: MastodonCredentialsSchema,
+
+  async connect(credentials) {
+    return {
+      async post(text, thread) {
+        const previous = thread.at(-1);
+        const status = await platformRequest(
+          'mastodon',
+          {
+            method: 'POST',
+            url: `${credentials.instanceUrl}/api/v1/statuses`,
+            headers: { Authorization: `Bearer ${credentials.accessToken}` },
+            body: { status: text, visibility: 'public', ...(previous && { in_reply_to_id: previous.id }) },
+          },
+          StatusSchema
+        );
+        return { id: status.id, url: status.url ?? status.uri };
+      },
+    };
+  },
+};
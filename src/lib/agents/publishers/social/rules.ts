@@ -0,0 +1,163 @@
+import { BLOG_URL_PLACEHOLDER, type SocialNetworkRules } from './types';
+
+/**
+ * SOCIAL POST RULES
+ *
+ * Fits generated posts to a network's rules: every post within the length
+ * limit (measured the way the network measures it), hashtags normalized and
+ * capped, and the blog URL placeholder exactly once, in the last post.
+ *
+ * Posts keep the [BLOG_URL] placeholder; renderPosts() substitutes the real
+ * URL and appends the hashtags right before sending. Until the blog post is
+ * published, networks that count a URL's real length are fitted with a
+ * stand-in of ESTIMATED_URL_LENGTH characters.
+ */
+
+const ESTIMATED_URL_LENGTH = 100;
+
+const URL_PATTERN = /https?:\/\/\S+/g;
+
+const ELLIPSIS = '…';
+
+/**
+ * A variant's posts and hashtags (hashtags without "#")
+ */
+export interface SocialPostDraft {
+  posts: string[];
+  hashtags: string[];
+}
+
+/**
+ * Length of a text as the network counts it
+ */
+export function measure(text: string, rules: SocialNetworkRules): number {
+  const counted = rules.urlLength === null ? text : text.replace(URL_PATTERN, 'x'.repeat(rules.urlLength));
+  if (rules.countGraphemes) {
+    return Array.from(new Intl.Segmenter(undefined, { granularity: 'grapheme' }).segment(counted)).length;
+  }
+  return Array.from(counted).length;
+}
+
+/**
+ * Normalize hashtags: no "#", letters and digits only, no duplicates,
+ * multi-word tags joined ("machine learning" → MachineLearning), capped at
+ * the network's maximum
+ */
+export function normalizeHashtags(hashtags: string[], rules: SocialNetworkRules): string[] {
+  const seen = new Set<string>();
+  const normalized: string[] = [];
+
+  for (const hashtag of hashtags) {
+    const words = hashtag.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+    const tag =
+      words.length > 1 || rules.camelCaseHashtags
+        ? words.map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join('')
+        : (words[0] ?? '');
+
+    // A tag needs at least one letter (#2024 isn't linked)
+    if (!/\p{L}/u.test(tag) || seen.has(tag.toLowerCase())) continue;
+    seen.add(tag.toLowerCase());
+    normalized.push(tag);
+  }
+
+  return normalized.slice(0, rules.maxHashtags);
+}
+
+/**
+ * Fit a draft to the network's rules
+ *
+ * @param url - The published blog URL, if known (used to measure only)
+ * @returns The fitted draft, and what had to change
+ */
+export function applyRules(
+  draft: SocialPostDraft,
+  rules: SocialNetworkRules,
+  url: string | null = null
+): SocialPostDraft & { warnings: string[] } {
+  const warnings: string[] = [];
+
+  let posts = draft.posts
+    .map((post) => post.trim())
+    .filter((post) => post.replaceAll(BLOG_URL_PLACEHOLDER, '').trim().length > 0);
+  if (posts.length === 0) {
+    posts = [BLOG_URL_PLACEHOLDER];
+  }
+
+  if (posts.length > rules.maxPosts) {
+    if (rules.maxPosts === 1) {
+      posts = [posts.join('\n\n')];
+    } else {
+      warnings.push(`Thread cut to ${rules.maxPosts} posts (had ${posts.length})`);
+      posts = [...posts.slice(0, rules.maxPosts - 1), posts[posts.length - 1]];
+    }
+  }
+
+  // The link goes once, in the last post
+  posts = posts.map((post, index) =>
+    index === posts.length - 1 ? post : post.replaceAll(BLOG_URL_PLACEHOLDER, '').replace(/ {2,}/g, ' ').trim()
+  );
+  const last = posts.length - 1;
+  const [firstPart, ...rest] = posts[last].split(BLOG_URL_PLACEHOLDER);
+  posts[last] =
+    rest.length === 0
+      ? `${firstPart}\n\n${BLOG_URL_PLACEHOLDER}`
+      : `${firstPart}${BLOG_URL_PLACEHOLDER}${rest.join('').replace(/\s+$/, '')}`;
+
+  const hashtags = normalizeHashtags(draft.hashtags, rules);
+  if (hashtags.length < rules.minHashtags) {
+    warnings.push(`${hashtags.length} hashtags - ${rules.minHashtags} to ${rules.maxHashtags} recommended`);
+  }
+  if (draft.hashtags.length > hashtags.length && hashtags.length === rules.maxHashtags) {
+    warnings.push(`Hashtags cut to ${rules.maxHashtags}`);
+  }
+
+  const urlStandIn = url ?? `https://${'x'.repeat(ESTIMATED_URL_LENGTH - 'https://'.length)}`;
+  const fitted = posts.map((post, index) => {
+    const suffix = index === last ? hashtagLine(hashtags) : '';
+    const result = fit(post, suffix, urlStandIn, rules);
+    if (result !== post) {
+      warnings.push(`Post ${index + 1} shortened to fit ${rules.maxLength} characters`);
+    }
+    return result;
+  });
+
+  return { posts: fitted, hashtags, warnings };
+}
+
+/**
+ * The texts to send: the URL substituted and the hashtags appended to the
+ * last post
+ */
+export function renderPosts(draft: SocialPostDraft, url: string): string[] {
+  return draft.posts.map((post, index) => {
+    const text = post.replaceAll(BLOG_URL_PLACEHOLDER, url);
+    return index === draft.posts.length - 1 ? `${text}${hashtagLine(draft.hashtags)}` : text;
+  });
+}
+
+function hashtagLine(hashtags: string[]): string {
+  return hashtags.length > 0 ? `\n\n${hashtags.map((tag) => `#${tag}`).join(' ')}` : '';
+}
+
+/**
+ * Shorten the text before the URL, word by word, until the post fits
+ */
+function fit(post: string, suffix: string, url: string, rules: SocialNetworkRules): string {
+  const length = (text: string) => measure(`${text.replaceAll(BLOG_URL_PLACEHOLDER, url)}${suffix}`, rules);
+  if (length(post) <= rules.maxLength) return post;
+
+  const split = post.indexOf(BLOG_URL_PLACEHOLDER);
+  const lead = split === -1 ? post : post.slice(0, split);
+  const tail = split === -1 ? '' : post.slice(split);
+
+  const words = lead.trimEnd().split(' ');
+  while (words.length > 1) {
+    words.pop();
+    const candidate = `${words.join(' ').replace(/[\s,;:.!?-]+$/, '')}${ELLIPSIS}${tail ? ' ' : ''}${tail}`;
+    if (length(candidate) <= rules.maxLength) return candidate;
+  }
+
+  // A single word that doesn't fit: cut it
+  const budget = Math.max(0, rules.maxLength - length(tail) - 2);
+  return `${Array.from(lead).slice(0, budget).join('').trimEnd()}${ELLIPSIS}${tail ? ' ' : ''}${tail}`;
+}
@@ -0,0 +1,208 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { replayedRequests } from '../platforms/http';
+import {
+  applyRules,
+  BLOG_URL_PLACEHOLDER,
+  getSocialClient,
+  measure,
+  normalizeHashtags,
+  renderPosts,
+  type RemotePost,
+  type SocialNetwork,
+} from '.';
+
+/**
+ * The social clients against their recorded exchanges
+ * (platforms/fixtures/<network>.json, PUBLISHERS_MODE=fixture - npm test),
+ * and the length and hashtag rules. What a client sent is read back with
+ * replayedRequests.
+ */
+
+const BLOG_URL = 'https://ideaforge.example/blog/3f0b7c2e-8a41-4c55-9d7e-1b2a6c9e0f11/how-asyncawait-works';
+
+const CREDENTIALS: Record<SocialNetwork, unknown> = {
+  x: { accessToken: 'test-access-token' },
+  linkedin: { accessToken: 'test-access-token' },
+  mastodon: { instanceUrl: 'https://mastodon.social/', accessToken: 'test-access-token' },
+  bluesky: { handle: '@demo.bsky.social', appPassword: 'xxxx-xxxx-xxxx-xxxx' },
+};
+
+async function connect(network: SocialNetwork) {
+  const client = getSocialClient(network);
+  return client.connect(client.credentialsSchema.parse(CREDENTIALS[network]));
+}
+
+/**
+ * Body of the nth request replayed for a network
+ */
+function sentBody(network: SocialNetwork, index: number) {
+  const request = replayedRequests(network)[index];
+  assert.ok(request, `no request ${index} for ${network}`);
+  return request.body as Record<string, unknown>;
+}
+
+describe('x', () => {
+  test('a thread replies to the previous post', async () => {
+    const session = await connect('x');
+
+    const first = await session.post('Callbacks nest. Promises chain.', []);
+    const second = await session.post(`Every await is a pause.\n\n${BLOG_URL}`, [first]);
+
+    assert.deepEqual(first, { id: '1848312456789012481', url: 'https://x.com/i/web/status/1848312456789012481' });
+    assert.equal(second.id, '1848312460123456002');
+    assert.equal(sentBody('x', 0).reply, undefined);
+    assert.deepEqual(sentBody('x', 1).reply, { in_reply_to_tweet_id: first.id });
+  });
+});
+
+describe('linkedin', () => {
+  test('posts as the member, with markup escaped and hashtags kept', async () => {
+    const session = await connect('linkedin');
+
+    const post = await session.post('Promises (not callbacks) @work_now #JavaScript', []);
+
+    assert.deepEqual(post, {
+      id: 'urn:li:share:7254318924211245056',
+      url: 'https://www.linkedin.com/feed/update/urn:li:share:7254318924211245056/',
+    });
+    const body = sentBody('linkedin', 1);
+    assert.equal(body.author, 'urn:li:person:782bbtaQ');
+    assert.equal(body.commentary, 'Promises \\(not callbacks\\) \\@work\\_now #JavaScript');
+  });
+});
+
+describe('mastodon', () => {
+  test('posts to the instance, replies with in_reply_to_id', async () => {
+    const session = await connect('mastodon');
+
+    const first = await session.post(`async/await is still promises.\n\n${BLOG_URL}`, []);
+    await session.post('A reply', [first]);
+
+    assert.deepEqual(first, { id: '113347720935117834', url: 'https://mastodon.social/@demo/113347720935117834' });
+    const [request] = replayedRequests('mastodon');
+    assert.equal(request.url, 'https://mastodon.social/api/v1/statuses');
+    assert.equal(sentBody('mastodon', 0).in_reply_to_id, undefined);
+    assert.equal(sentBody('mastodon', 1).in_reply_to_id, first.id);
+  });
+});
+
+describe('bluesky', () => {
+  let thread: RemotePost[] = [];
+
+  test('links and hashtags get facets with UTF-8 byte offsets', async () => {
+    const session = await connect('bluesky');
+
+    // "é" and "ï" are 2 bytes, "☕" 3
+    const text = 'Café ☕ explained\n\nhttps://example.com/post.\n\n#naïve #js #2024';
+    const post = await session.post(text, []);
+    thread = [post];
+
+    assert.deepEqual(post, {
+      id: 'at://did:plc:z72i7hdynmk6r22z27h6tvur/app.bsky.feed.post/3l6oveex3ii2l',
+      cid: 'bafyreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku',
+      url: 'https://bsky.app/profile/demo.bsky.social/post/3l6oveex3ii2l',
+    });
+
+    const { record } = sentBody('bluesky', 1) as { record: { text: string; facets: unknown[]; reply?: unknown } };
+    assert.equal(record.text, text);
+    assert.equal(record.reply, undefined);
+    assert.deepEqual(record.facets, [
+      {
+        index: { byteStart: 21, byteEnd: 45 }, // Without the trailing "."
+        features: [{ $type: 'app.bsky.richtext.facet#link', uri: 'https://example.com/post' }],
+      },
+      { index: { byteStart: 48, byteEnd: 55 }, features: [{ $type: 'app.bsky.richtext.facet#tag', tag: 'naïve' }] },
+      { index: { byteStart: 56, byteEnd: 59 }, features: [{ $type: 'app.bsky.richtext.facet#tag', tag: 'js' }] },
+    ]);
+  });
+
+  test('replies point at the thread root and the previous post', async () => {
+    const session = await connect('bluesky');
+    const parent: RemotePost = { id: 'at://did:plc:z72i7hdynmk6r22z27h6tvur/app.bsky.feed.post/parent', url: '', cid: 'parent-cid' };
+
+    await session.post('Second', [...thread, parent]);
+
+    // createSession, createRecord, createSession, createRecord
+    const { record } = sentBody('bluesky', 3) as { record: { reply: unknown } };
+    assert.deepEqual(record.reply, {
+      root: { uri: thread[0].id, cid: thread[0].cid },
+      parent: { uri: parent.id, cid: parent.cid },
+    });
+  });
+});
+
+describe('credentials', () => {
+  test('the Bluesky handle loses its "@" and the service defaults to bsky.social', () => {
+    assert.deepEqual(getSocialClient('bluesky').credentialsSchema.parse(CREDENTIALS.bluesky), {
+      handle: 'demo.bsky.social',
+      appPassword: 'xxxx-xxxx-xxxx-xxxx',
+      serviceUrl: 'https://bsky.social',
+    });
+  });
+
+  for (const url of ['http://mastodon.social', 'https://localhost', 'https://10.0.0.5', 'https://169.254.169.254', 'https://[::1]']) {
+    test(`rejects the Mastodon instance ${url}`, () => {
+      const result = getSocialClient('mastodon').credentialsSchema.safeParse({ instanceUrl: url, accessToken: 'token' });
+      assert.equal(result.success, false);
+    });
+
+    test(`rejects the Bluesky service ${url}`, () => {
+      const result = getSocialClient('bluesky').credentialsSchema.safeParse({ ...(CREDENTIALS.bluesky as object), serviceUrl: url });
+      assert.equal(result.success, false);
+    });
+  }
+});
+
+describe('rules', () => {
+  const rules = (network: SocialNetwork) => getSocialClient(network).rules;
+
+  test('length is measured the way each network counts it', () => {
+    // X: every link counts as 23
+    assert.equal(measure('Read https://example.com/a/very/long/path/to/a/post', rules('x')), 5 + 23);
+    // Bluesky: graphemes (the emoji is one); LinkedIn: code points (three)
+    assert.equal(measure('👩‍💻 ok', rules('bluesky')), 4);
+    assert.equal(measure('👩‍💻 ok', rules('linkedin')), 6);
+  });
+
+  test('hashtags are normalized, deduplicated and capped', () => {
+    const hashtags = ['#machine learning', 'javascript', 'JavaScript', '2024', 'web', 'node', 'extra'];
+    assert.deepEqual(normalizeHashtags(hashtags, rules('mastodon')), ['MachineLearning', 'Javascript', 'Web', 'Node']);
+    assert.deepEqual(normalizeHashtags(hashtags, rules('x')), ['MachineLearning', 'javascript']);
+  });
+
+  test('the link goes once, at the end of the last post', () => {
+    const fitted = applyRules({ posts: [`First ${BLOG_URL_PLACEHOLDER} post`, 'Second'], hashtags: ['js'] }, rules('x'));
+    assert.deepEqual(fitted, { posts: ['First post', `Second\n\n${BLOG_URL_PLACEHOLDER}`], hashtags: ['js'], warnings: [] });
+  });
+
+  test('single-post networks merge a thread', () => {
+    const fitted = applyRules({ posts: ['One', 'Two'], hashtags: ['js'] }, rules('linkedin'));
+    assert.deepEqual(fitted.posts, [`One\n\nTwo\n\n${BLOG_URL_PLACEHOLDER}`]);
+    assert.deepEqual(fitted.warnings, ['1 hashtags - 3 to 5 recommended']);
+  });
+
+  test('threads are cut to the network maximum, keeping the last post', () => {
+    const posts = Array.from({ length: 8 }, (_, index) => `Post ${index + 1}`);
+    const fitted = applyRules({ posts, hashtags: ['js'] }, rules('x'));
+    assert.equal(fitted.posts.length, 6);
+    assert.equal(fitted.posts[5], `Post 8\n\n${BLOG_URL_PLACEHOLDER}`);
+    assert.deepEqual(fitted.warnings, ['Thread cut to 6 posts (had 8)']);
+  });
+
+  test('a long post is shortened before the link, to fit with the hashtags', () => {
+    const draft = { posts: [`${'word '.repeat(100)}${BLOG_URL_PLACEHOLDER}`], hashtags: ['JavaScript', 'async'] };
+    const fitted = applyRules(draft, rules('bluesky'), BLOG_URL);
+    const [text] = renderPosts(fitted, BLOG_URL);
+
+    assert.ok(fitted.posts[0].endsWith(`… ${BLOG_URL_PLACEHOLDER}`));
+    assert.ok(text.endsWith(`${BLOG_URL}\n\n#JavaScript #async`));
+    assert.ok(measure(text, rules('bluesky')) <= 300);
+    assert.deepEqual(fitted.warnings, ['Post 1 shortened to fit 300 characters']);
+  });
+
+  test('rendering substitutes the URL and appends the hashtags to the last post', () => {
+    const texts = renderPosts({ posts: ['One', `Two ${BLOG_URL_PLACEHOLDER}`], hashtags: ['js', 'web'] }, BLOG_URL);
+    assert.deepEqual(texts, ['One', `Two ${BLOG_URL}\n\n#js #web`]);
+  });
+});
@@ -0,0 +1,62 @@
+import type { z } from 'zod';
+
+/**
+ * Types shared by the social network clients
+ */
+
+export const SOCIAL_NETWORKS = ['x', 'linkedin', 'mastodon', 'bluesky'] as const;
+
+export type SocialNetwork = (typeof SOCIAL_NETWORKS)[number];
+
+/**
+ * Where the blog post's URL goes until it is published
+ */
+export const BLOG_URL_PLACEHOLDER = '[BLOG_URL]';
+
+/**
+ * A network's length and hashtag rules (see rules.ts)
+ */
+export interface SocialNetworkRules {
+  maxLength: number; // Per post
+  countGraphemes: boolean; // Bluesky counts user-perceived characters, the others code points
+  urlLength: number | null; // Length every URL counts as (X / Mastodon shorten links), null = its real length
+  minHashtags: number;
+  maxHashtags: number;
+  camelCaseHashtags: boolean; // #MachineLearning - screen readers (Mastodon convention)
+  maxPosts: number; // > 1: the variant is a thread
+}
+
+/**
+ * A post as it exists on the network, once sent
+ */
+export interface RemotePost {
+  id: string;
+  url: string;
+  cid?: string; // Bluesky: content hash, needed to reply
+}
+
+/**
+ * A logged-in connection to a network, for one thread
+ */
+export interface SocialSession {
+  /**
+   * Send one post
+   *
+   * @param thread - The posts already sent in this thread (replies to the last one)
+   */
+  post(text: string, thread: RemotePost[]): Promise<RemotePost>;
+}
+
+/**
+ * A social network client
+ *
+ * Clients only talk to the network; credentials come in decrypted and the
+ * caller tracks the post's status (see social-publisher.ts).
+ */
+export interface SocialClient<TCredentials = unknown> {
+  network: SocialNetwork;
+  label: string; // "LinkedIn"
+  rules: SocialNetworkRules;
+  credentialsSchema: z.ZodType<TCredentials>;
+  connect(credentials: TCredentials): Promise<SocialSession>;
+}
@@ -0,0 +1,58 @@
+import { z } from 'zod';
+import { platformRequest } from '../platforms/http';
+import type { SocialClient } from './types';
+
+/**
+ * X (API v2)
+ *
+ * - Credentials: an OAuth 2.0 user access token with tweet.write
+ *   (developer.x.com → your app → user authentication)
+ * - 280 characters; every link counts as 23 (t.co)
+ * - Threads: each post replies to the previous one
+ */
+
+const API_URL = 'https://api.x.com/2';
+
+const XCredentialsSchema = z.object({
+  accessToken: z.string().min(1),
+});
+
+type XCredentials = z.infer<typeof XCredentialsSchema>;
+
+const TweetSchema = z.object({
+  data: z.object({ id: z.string(), text: z.string() }),
+});
+
+export const xClient: SocialClient<XCredentials> = {
+  network: 'x',
+  label: 'X',
+  rules: {
+    maxLength: 280,
+    countGraphemes: false,
+    urlLength: 23,
+    minHashtags: 1,
+    maxHashtags: 2,
+    camelCaseHashtags: false,
+    maxPosts: 6,
+  },
+  credentialsSchema: XCredentialsSchema,
+
+  async connect(credentials) {
+    return {
+      async post(text, thread) {
+        const previous = thread.at(-1);
+        const { data } = await platformRequest(
+          'x',
+          {
+            method: 'POST',
+            url: `${API_URL}/tweets`,
+            headers: { Authorization: `Bearer ${credentials.accessToken}` },
+            body: { text, ...(previous && { reply: { in_reply_to_tweet_id: previous.id } }) },
+          },
+          TweetSchema
+        );
+        return { id: data.id, url: `https://x.com/i/web/status/${data.id}` };
+      },
+    };
+  },
+};
@@ -0,0 +1,280 @@
+/**
+ * Static-Site Export - Turns a blog output into a bundle for a static site
+ *
+ * The bundle (a .tar.gz, extracted into the site's root) contains:
+ * 1. The post as markdown with the target's front-matter (title, date,
+ *    description, tags from socialPost.hashtags)
+ * 2. The post's images, downloaded into an `assets/` folder next to the
+ *    post (or the site's `assets/` folder for Jekyll) - from public hosts
+ *    only, without following redirects
+ * 3. manifest.json - what was exported, and any images that couldn't be
+ *    downloaded
+ *
+ * Adapters cover the front-matter and layout conventions of Hugo (page
+ * bundle), Jekyll (_posts) and Astro (content collection).
+ *
+ * The slug is the published post's slug (see blog-publisher.ts), so an
+ * exported post keeps its public URL path.
+ */
+
+import { BlogContentSchema } from '../formats/blog-post';
+import { renderBlogToMarkdown, type BlogCell, type ImageCell } from '../creators/blog/blog-schemas';
+import { describeBlogPost, slugify } from './blog-publisher';
+import { getBlogPostByOutputId } from '../../db/queries';
+import type { Output } from '../../db/types';
+import { BLOG_CONFIG } from '../../config/blog';
+import { createTarGz, type TarEntry } from '../../utils/tar';
+import { readBodyWithLimit } from '../../utils/read-body';
+import { assertPublicHost } from './platforms/site-url';
+
+export const STATIC_SITE_TARGETS = ['hugo', 'jekyll', 'astro'] as const;
+
+export type StaticSiteTarget = (typeof STATIC_SITE_TARGETS)[number];
+
+/**
+ * manifest.json
+ */
+export interface StaticSiteManifest {
+  target: StaticSiteTarget;
+  outputId: string;
+  title: string;
+  slug: string;
+  date: string;
+  exportedAt: string;
+  post: string; // Path of the markdown file
+  images: { path: string; source: string; placement: ImageCell['placement']; contentType: string; bytes: number }[];
+  skippedImages: { source: string; reason: string }[]; // Kept as remote URLs in the post
+}
+
+export interface StaticSiteExport {
+  filename: string; // e.g. "my-post-hugo.tar.gz"
+  archive: Buffer;
+  manifest: StaticSiteManifest;
+}
+
+/**
+ * What an adapter needs to know about the post
+ */
+interface ExportPost {
+  title: string;
+  slug: string;
+  date: Date;
+  description: string | null;
+  tags: string[];
+}
+
+interface StaticSiteAdapter {
+  postPath(post: ExportPost): string;
+  assetDir(post: ExportPost): string;
+  // How the post refers to an exported image
+  assetLink(post: ExportPost, file: string): string;
+  // images: featured first; relative to the post's folder, or site-absolute ("/assets/...")
+  frontMatter(post: ExportPost, images: string[]): Record<string, FrontMatterValue>;
+}
+
+type FrontMatterValue = string | boolean | Date | string[] | undefined;
+
+const ADAPTERS: Record<StaticSiteTarget, StaticSiteAdapter> = {
+  // Leaf bundle: content/posts/<slug>/index.md with its images beside it
+  hugo: {
+    postPath: (post) => `content/posts/${post.slug}/index.md`,
+    assetDir: (post) => `content/posts/${post.slug}/assets`,
+    assetLink: (post, file) => `assets/${file}`,
+    frontMatter: (post, images) => ({
+      title: post.title,
+      date: post.date,
+      description: post.description ?? undefined,
+      tags: post.tags,
+      images: images.length > 0 ? images : undefined, // OpenGraph / Twitter cards
+      draft: false,
+    }),
+  },
+
+  // _posts/YYYY-MM-DD-<slug>.md, images under the site's assets/ folder
+  jekyll: {
+    postPath: (post) => `_posts/${post.date.toISOString().slice(0, 10)}-${post.slug}.md`,
+    assetDir: (post) => `assets/images/${post.slug}`,
+    assetLink: (post, file) => `{{ '/assets/images/${post.slug}/${file}' | relative_url }}`,
+    frontMatter: (post, images) => ({
+      layout: 'post',
+      title: post.title,
+      date: post.date,
+      description: post.description ?? undefined,
+      tags: post.tags,
+      image: images[0], // jekyll-seo-tag
+    }),
+  },
+
+  // Content collection entry: src/content/blog/<slug>/index.md (the blog template's schema)
+  astro: {
+    postPath: (post) => `src/content/blog/${post.slug}/index.md`,
+    assetDir: (post) => `src/content/blog/${post.slug}/assets`,
+    assetLink: (post, file) => `./assets/${file}`,
+    frontMatter: (post, images) => ({
+      title: post.title,
+      description: post.description ?? '',
+      pubDate: post.date,
+      tags: post.tags,
+      heroImage: images.length > 0 ? `./${images[0]}` : undefined,
+    }),
+  },
+};
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+  'image/avif': 'avif',
+};
+
+export function isStaticSiteTarget(value: string): value is StaticSiteTarget {
+  return (STATIC_SITE_TARGETS as readonly string[]).includes(value);
+}
+
+/**
+ * Export a blog output as a static-site bundle
+ *
+ * An image that can't be downloaded doesn't fail the export: the post keeps
+ * its remote URL and the manifest lists it under skippedImages.
+ *
+ * @param output - A blog_post output owned by the user
+ * @param target - Static site generator whose conventions to follow
+ * @throws Error if the output is not a valid blog post
+ */
+export async function exportBlogToStaticSite(output: Output, target: StaticSiteTarget): Promise<StaticSiteExport> {
+  const parsed = BlogContentSchema.safeParse(output.content);
+  if (output.format !== 'blog_post' || !parsed.success) {
+    throw new Error('Only blog posts can be exported to a static site');
+  }
+  const content = parsed.data;
+  const adapter = ADAPTERS[target];
+
+  const published = await getBlogPostByOutputId(output.id, output.user_id);
+  const post: ExportPost = {
+    title: content.title,
+    slug: published?.slug ?? slugify(content.title),
+    date: new Date(published?.published_at ?? output.created_at),
+    description: describeBlogPost(content.cells),
+    tags: content.socialPost.hashtags,
+  };
+
+  const entries: TarEntry[] = [];
+  const manifest: StaticSiteManifest = {
+    target,
+    outputId: output.id,
+    title: post.title,
+    slug: post.slug,
+    date: post.date.toISOString(),
+    exportedAt: new Date().toISOString(),
+    post: adapter.postPath(post),
+    images: [],
+    skippedImages: [],
+  };
+
+  const cells: BlogCell[] = [];
+  for (const cell of content.cells) {
+    if (cell.cellType !== 'image') {
+      cells.push(cell);
+      continue;
+    }
+    // Unfilled placeholders never made it into the post
+    if (cell.imageUrl === '' || cell.imageUrl.includes('PLACEHOLDER')) continue;
+
+    const source = cell.imageUrl.startsWith('data:') ? 'data URL' : cell.imageUrl;
+    const image = await loadImage(cell.imageUrl);
+    if ('reason' in image) {
+      manifest.skippedImages.push({ source, reason: image.reason });
+      cells.push(cell);
+      continue;
+    }
+
+    const file = `image-${manifest.images.length + 1}.${IMAGE_EXTENSIONS[image.contentType]}`;
+    const path = `${adapter.assetDir(post)}/${file}`;
+    entries.push({ path, data: image.data });
+    manifest.images.push({ path, source, placement: cell.placement, contentType: image.contentType, bytes: image.data.length });
+    cells.push({ ...cell, imageUrl: adapter.assetLink(post, file) });
+  }
+
+  // The featured (hero) image leads, for the targets' cover / social image fields
+  const postDir = manifest.post.slice(0, manifest.post.lastIndexOf('/') + 1);
+  const imagePaths = [...manifest.images]
+    .sort((a, b) => Number(b.placement === 'featured') - Number(a.placement === 'featured'))
+    .map((image) => (image.path.startsWith(postDir) ? image.path.slice(postDir.length) : `/${image.path}`));
+
+  const markdown = `${toFrontMatter(adapter.frontMatter(post, imagePaths))}\n${renderBlogToMarkdown(cells)}\n`;
+  entries.unshift({ path: manifest.post, data: markdown });
+  entries.push({ path: 'manifest.json', data: `${JSON.stringify(manifest, null, 2)}\n` });
+
+  return {
+    filename: `${post.slug}-${target}.tar.gz`,
+    archive: createTarGz(entries),
+    manifest,
+  };
+}
+
+/**
+ * Download (or decode) an image
+ *
+ * @returns The image, or why it was skipped
+ */
+async function loadImage(url: string): Promise<{ data: Buffer; contentType: string } | { reason: string }> {
+  const dataUrl = url.match(/^data:(image\/[\w.+-]+);base64,(.+)$/);
+  if (dataUrl) {
+    return checkImage(Buffer.from(dataUrl[2], 'base64'), dataUrl[1]);
+  }
+  if (!/^https?:\/\//.test(url)) {
+    return { reason: 'Not an http(s) or data URL' };
+  }
+
+  try {
+    // Image URLs come from the post, so they can point into our own network
+    await assertPublicHost(url);
+    const response = await fetch(url, {
+      signal: AbortSignal.timeout(BLOG_CONFIG.exportImageTimeoutMs),
+      // A redirect would skip the host check
+      redirect: 'manual',
+    });
+    if (response.status >= 300 && response.status < 400) {
+      await response.body?.cancel();
+      return { reason: `Redirected (HTTP ${response.status}) - redirects are not followed` };
+    }
+    if (!response.ok) {
+      return { reason: `HTTP ${response.status}` };
+    }
+
+    const contentType = (response.headers.get('content-type') ?? '').split(';')[0].trim().toLowerCase();
+    if (!IMAGE_EXTENSIONS[contentType]) {
+      await response.body?.cancel();
+      return { reason: `Unsupported content type: ${contentType || 'none'}` };
+    }
+
+    return checkImage(await readBodyWithLimit(response, BLOG_CONFIG.exportImageMaxBytes), contentType);
+  } catch (error) {
+    return { reason: error instanceof Error ? error.message : 'Download failed' };
+  }
+}
+
+function checkImage(data: Buffer, contentType: string): { data: Buffer; contentType: string } | { reason: string } {
+  if (!IMAGE_EXTENSIONS[contentType]) {
+    return { reason: `Unsupported content type: ${contentType || 'none'}` };
+  }
+  if (data.length > BLOG_CONFIG.exportImageMaxBytes) {
+    return { reason: `Larger than ${BLOG_CONFIG.exportImageMaxBytes} bytes` };
+  }
+  return { data, contentType };
+}
+
+/**
+ * YAML front-matter block (strings are JSON-quoted, which is valid YAML)
+ */
+function toFrontMatter(fields: Record<string, FrontMatterValue>): string {
+  const lines = Object.entries(fields).flatMap(([key, value]) => {
+    if (value === undefined) return [];
+    if (value instanceof Date) return [`${key}: ${value.toISOString()}`];
+    if (Array.isArray(value)) return [`${key}: [${value.map((item) => JSON.stringify(item)).join(', ')}]`];
+    return [`${key}: ${JSON.stringify(value)}`];
+  });
+  return `---\n${lines.join('\n')}\n---\n`;
+}
@@ -2,12 +2,19 @@ import type { AgentStateType } from './types';
 import type { Logger } from '../logging/logger';
 import { z } from 'zod';
 import { callLLMStructured } from '../llm/llm-service';
+import { isCancellation } from '../utils/cancellation';
 import { MODEL_USE_CASES, MODEL_REGISTRY } from '@/lib/config/models';
+import { getFormatIds, listFormats } from './formats';
 
-const RouterResponseSchema = z.object({
-  format: z.enum(['blog_post', 'github_repo']),
-  reasoning: z.string().min(1),
-});
+/**
+ * The router may only answer with a registered format
+ */
+function buildRouterResponseSchema() {
+  return z.object({
+    format: z.enum(getFormatIds()),
+    reasoning: z.string().min(1),
+  });
+}
 
 /**
  * ROUTER AGENT
@@ -17,13 +24,15 @@ const RouterResponseSchema = z.object({
  * How it works:
  * 1. Receives the idea selected by the user
  * 2. Analyzes the idea's content and characteristics
- * 3. Decides which format would work best:
+ * 3. Decides which registered format would work best (see formats/):
  *    - Blog: Written content (explanations, tutorials, tips) with optional images and social share
  *    - Code: Technical demos, implementations, tools
  * 4. Returns format choice with reasoning
  *
+ * The prompt and response schema are built from the format registry,
+ * so a newly registered format is offered to the router automatically.
+ *
  * Note: Images and social media posts are COMPONENTS of blogs, not standalone formats.
- * The router only chooses between: blog_post, github_repo
  *
  * Models used: GPT-4o-mini (primary) or Claude Haiku (fallback)
  */
@@ -50,7 +59,7 @@ export async function routerAgent(
   try {
     const result = await callLLMStructured(
       buildRoutingPrompt(selectedIdea),
-      RouterResponseSchema,
+      buildRouterResponseSchema(),
       {
         primary: {
           provider: 'openai',
@@ -76,6 +85,9 @@ export async function routerAgent(
       formatReasoning: result.reasoning,
     };
   } catch (error) {
+    // Let cancellation stop the graph instead of recording a failure
+    if (isCancellation(error)) throw error;
+
     routerLogger?.error('Router failed', error instanceof Error ? error : { message: String(error) });
 
     return {
@@ -87,20 +99,15 @@ export async function routerAgent(
 }
 
 function buildRoutingPrompt(idea: any): string {
+  const formatList = listFormats()
+    .map((format, index) => `${index + 1}. **${format.id}**: ${format.routerDescription}`)
+    .join('\n\n');
+
   return `You are a content format strategist. Determine the BEST format for this idea.
 
 Available formats:
 
-1. **blog_post**: Deep explanations, tutorials, thought pieces, and analyses
-   - Best for: Conceptual understanding, step-by-step guides, in-depth explorations
-   - Examples: "Understanding depth perception", "How async/await works", "5 Python tips for beginners"
-   - Features: 1000-2000 words, optional images, auto-generated social media post
-   - Use for: Both long-form content AND bite-sized tips/insights
-
-2. **github_repo**: Code demonstrations, technical experiments, interactive examples
-   - Best for: Working implementations, algorithms, tools, hands-on demos
-   - Examples: "Fibonacci visualizer", "Neural network from scratch", "CLI tool for X"
-   - Output: Jupyter notebook, CLI app, or demo script with full code
+${formatList}
 
 Idea:
 Title: ${idea.title}
@@ -109,11 +116,9 @@ Description: ${idea.description || 'No description'}
 Choose the format that provides MAXIMUM VALUE for this specific idea.
 
 Decision criteria:
-- Would this idea benefit most from **written explanation** (blog) or **hands-on code** (repo)?
+- Which format's strengths match this idea best?
 - What would an audience find most valuable?
-- Is the core insight conceptual/educational (blog) or technical/implementation-focused (code)?
-
-Note: Blog posts now include auto-generated social media posts for sharing, so they work well for both long and short content.
+- Is the core insight conceptual/educational or technical/implementation-focused?
 
 Respond with your format choice and clear reasoning.`;
 }
@@ -0,0 +1,145 @@
+import type { Logger } from '../logging/logger';
+import { z } from 'zod';
+import { callLLMStructured } from '../llm/llm-service';
+import { MODEL_USE_CASES, MODEL_REGISTRY } from '@/lib/config/models';
+import { renderBlogToMarkdown } from './creators/blog/blog-schemas';
+import type { BlogContent } from './formats/blog-post';
+import {
+  applyRules,
+  BLOG_URL_PLACEHOLDER,
+  getSocialClient,
+  SOCIAL_NETWORKS,
+  type SocialNetwork,
+  type SocialPostDraft,
+} from './publishers/social';
+
+// The blog text the writer sees (long posts are cut)
+const MAX_SOURCE_LENGTH = 12_000;
+
+export const SocialVariantsSchema = z.object({
+  variants: z
+    .array(
+      z.object({
+        network: z.enum(SOCIAL_NETWORKS),
+        posts: z
+          .array(z.string())
+          .min(1)
+          .describe('The post, or for a thread each post in order. The last one contains [BLOG_URL]'),
+        hashtags: z.array(z.string()).describe('Hashtags without # prefix'),
+      })
+    )
+    .describe('One variant per requested network'),
+});
+
+export type SocialVariants = z.infer<typeof SocialVariantsSchema>;
+
+/**
+ * SOCIAL WRITER AGENT
+ *
+ * Purpose: Write a blog post's share posts, one variant per social network
+ *
+ * How it works:
+ * 1. Reads the blog's cells (as markdown) and its existing tweet
+ * 2. Writes each network's variant in one call, following that network's
+ *    length, hashtag and thread rules
+ * 3. Fits every variant to its network's rules (see publishers/social/rules.ts)
+ * 4. A network the model skipped falls back to the blog's tweet
+ *
+ * Variants keep the [BLOG_URL] placeholder - the published URL is
+ * substituted when they are sent.
+ */
+export async function socialWriter(
+  content: BlogContent,
+  networks: SocialNetwork[],
+  logger?: Logger
+): Promise<Record<SocialNetwork, SocialPostDraft & { warnings: string[] }>> {
+  const writerLogger = logger?.child({ stage: 'social-writer' });
+
+  if (networks.length === 0) {
+    throw new Error('At least one network is required');
+  }
+
+  writerLogger?.info('📣 Writing social variants', { networks });
+
+  try {
+    const result = await callLLMStructured(
+      buildSocialPrompt(content, networks),
+      SocialVariantsSchema,
+      {
+        primary: {
+          provider: 'anthropic',
+          model: MODEL_USE_CASES.socialVariants,
+          options: { temperature: 0.7 },
+        },
+        fallback: {
+          provider: 'openai',
+          model: MODEL_REGISTRY.openai.mini,
+          options: { temperature: 0.7 },
+        },
+      },
+      writerLogger
+    );
+
+    const drafts = {} as Record<SocialNetwork, SocialPostDraft & { warnings: string[] }>;
+    for (const network of networks) {
+      const variant = result.variants.find((candidate) => candidate.network === network);
+      const draft = variant ?? { posts: [content.socialPost.content], hashtags: content.socialPost.hashtags };
+      drafts[network] = applyRules(draft, getSocialClient(network).rules);
+      if (!variant) {
+        drafts[network].warnings.unshift('Not written by the model - adapted from the blog post\'s tweet');
+      }
+    }
+
+    writerLogger?.info('✅ Social variants written', {
+      networks: networks.map((network) => `${network}: ${drafts[network].posts.length} post(s)`),
+    });
+
+    return drafts;
+  } catch (error) {
+    writerLogger?.error('Social writer failed', error instanceof Error ? error : { message: String(error) });
+    throw error;
+  }
+}
+
+function buildSocialPrompt(content: BlogContent, networks: SocialNetwork[]): string {
+  const source = renderBlogToMarkdown(content.cells);
+  const networkRules = networks
+    .map((network) => {
+      const { label, rules } = getSocialClient(network);
+      const lines = [
+        `- ${network} (${label}):`,
+        rules.maxPosts > 1
+          ? `  - A thread of 2-${rules.maxPosts} posts, each at most ${rules.maxLength} characters`
+          : `  - One post, at most ${rules.maxLength} characters`,
+        rules.urlLength === null
+          ? '  - The link counts with its full length - leave room for about 100 characters'
+          : `  - The link counts as ${rules.urlLength} characters`,
+        `  - ${rules.minHashtags}-${rules.maxHashtags} hashtags${rules.camelCaseHashtags ? ' in CamelCase' : ''}`,
+      ];
+      return lines.join('\n');
+    })
+    .join('\n');
+
+  return `You are a social media editor. Write the posts that share this blog post on each network below.
+
+BLOG POST: "${content.title}"
+"""
+${source.length > MAX_SOURCE_LENGTH ? `${source.slice(0, MAX_SOURCE_LENGTH)}\n...` : source}
+"""
+
+EXISTING TWEET (for tone):
+"${content.socialPost.content}"
+
+NETWORKS:
+${networkRules}
+
+RULES:
+- Write for each network's audience: X is punchy, LinkedIn is professional with a takeaway and room for a few short paragraphs, Mastodon is conversational and plain, Bluesky is casual
+- An X thread opens with a hook, then gives one concrete insight per post
+- Use the post's actual content - specific facts, numbers, examples - not generic teasers
+- Put ${BLOG_URL_PLACEHOLDER} exactly once, in the last post (it becomes the link to the blog post)
+- Hashtags go in the hashtags list, without # - never in the post text
+- No "🧵" or "1/" numbering, no "Click here", no emoji walls
+
+Write one variant for each network: ${networks.join(', ')}.`;
+}
@@ -1,7 +1,17 @@
 import { Annotation } from '@langchain/langgraph';
+import { z } from 'zod';
+import { CodePlanSchema } from './creators/code/types';
 import type { Idea } from '../db/types';
 import type { IdeaForCreator } from '../db/schemas';
 import type { Logger } from '../logging/logger';
+import type { ProgressReporter } from '../progress/progress-reporter';
+import type { CheckpointStore } from '../checkpoints/checkpoint-store';
+import type { OutputFormat } from './formats/registry';
+import type { BlogContent } from './formats/blog-post';
+import type { BlogPostPlan, BlogPostReview } from './creators/blog/blog-creator';
+import type { BlogGeneration } from './creators/blog/blog-schemas';
+import type { BlogVersion } from './creators/blog/blog-revision';
+import { DEFAULT_QUALITY_POLICY, type QualityPolicy } from '../quality/quality-policy';
 
 /**
  * Agent State - The shared "memory" that all agents read from and write to
@@ -21,12 +31,32 @@ export const AgentState = Annotation.Root({
   // The idea to expand (user-selected)
   selectedIdea: Annotation<Idea | null>,
 
+  // single: one output | bundle: GitHub repo + companion blog post
+  mode: Annotation<ExpansionMode>({
+    reducer: (_current, update) => update,
+    default: () => 'single',
+  }),
+
+  // User constraints for the creators (language, output type, tone, ...)
+  constraints: Annotation<ExpansionConstraints>({
+    reducer: (_current, update) => update,
+    default: () => ({}),
+  }),
+
+  // Quality gates the creators enforce (defaults ← user settings ← request)
+  qualityPolicy: Annotation<QualityPolicy>({
+    reducer: (_current, update) => update,
+    default: () => DEFAULT_QUALITY_POLICY,
+  }),
+
   // ============================================================
   // ROUTER AGENT OUTPUTS
   // ============================================================
 
-  // Output format: blog_post (with images + social share) | github_repo
-  chosenFormat: Annotation<'blog_post' | 'github_repo' | null>,
+  // Output format: id of a registered format (see formats/), e.g.
+  // blog_post (with images + social share) | github_repo
+  // Set up front when the user forces a format - the router is then skipped
+  chosenFormat: Annotation<OutputFormat | null>,
 
   // Why this format was chosen
   formatReasoning: Annotation<string>,
@@ -38,6 +68,16 @@ export const AgentState = Annotation.Root({
   // The generated content (structure varies by format)
   generatedContent: Annotation<any>,
 
+  // ============================================================
+  // BUNDLE OUTPUTS (mode: 'bundle' only)
+  // ============================================================
+
+  // Companion blog plan (made in parallel with the code)
+  companionPlan: Annotation<BlogPostPlan | null>,
+
+  // Companion blog post, grounded on generatedContent (the code)
+  companionContent: Annotation<(BlogContent & { format: 'blog_post' }) | null>,
+
   // ============================================================
   // PUBLISHER OUTPUTS
   // ============================================================
@@ -58,6 +98,13 @@ export const AgentState = Annotation.Root({
   // Logger instance for consistent logging across all agents
   logger: Annotation<Logger | undefined>(),
 
+  // Progress reporter (stage-level events for /api/expand/status)
+  // Each graph node receives a reporter scoped to its own range
+  progress: Annotation<ProgressReporter | undefined>(),
+
+  // Checkpoints for resuming a failed run (scoped per node like progress)
+  checkpoints: Annotation<CheckpointStore | undefined>(),
+
   // Any errors that occurred (agents append to this)
   errors: Annotation<string[]>({
     reducer: (current, update) => [...current, ...update],
@@ -70,6 +117,35 @@ export const AgentState = Annotation.Root({
  */
 export type AgentStateType = typeof AgentState.State;
 
+/**
+ * EXPANSION CONSTRAINTS
+ *
+ * Optional user preferences sent with POST /api/expand. Every field is
+ * optional; creators only apply the ones that make sense for their format:
+ * - language, outputType → code planning
+ * - tone, targetWordCount → blog planning
+ * - allowImages → blog and slide images
+ */
+export const ExpansionConstraintsSchema = z.object({
+  language: CodePlanSchema.shape.language.optional(),
+  outputType: CodePlanSchema.shape.outputType.optional(),
+  tone: z.string().min(1).max(100).optional(), // e.g. "casual", "technical"
+  targetWordCount: z.number().int().min(300).max(5000).optional(),
+  allowImages: z.boolean().optional(),
+}).strict();
+
+export type ExpansionConstraints = z.infer<typeof ExpansionConstraintsSchema>;
+
+/**
+ * EXPANSION MODE
+ *
+ * - single: one output in one format (chosen by the router or the user)
+ * - bundle: a GitHub repo plus a companion blog post that explains it
+ */
+export const ExpansionModeSchema = z.enum(['single', 'bundle']);
+
+export type ExpansionMode = z.infer<typeof ExpansionModeSchema>;
+
 // ===== ENHANCED CONTENT PIPELINE SCHEMAS =====
 
 /**
@@ -85,13 +161,15 @@ export interface ImageSpec {
 }
 
 export interface GeneratedImage {
-  imageUrl: string; // URL or data URL
+  imageUrl: string; // Images bucket URL (provider URL or data URL if it couldn't be stored)
   caption: string; // Image caption/alt text
   prompt: string; // Prompt used to generate
   placement: string; // Where it goes in content
   model: string; // Which model generated it
-  width: number;
+  width: number; // Actual size once stored (requested size otherwise)
   height: number;
+  storagePath?: string; // Object in the images bucket ({userId}/{sha256}.{ext})
+  contentHash?: string; // sha256 of the image bytes
 }
 
 /**
@@ -161,10 +239,11 @@ export interface BlogQualityRubric {
 
 export interface BlogCreationState {
   idea: IdeaForCreator;
-  plan: BlogPlan | null;
-  draft: BlogDraft | null;
-  review: BlogReview | null;
+  plan: BlogPostPlan | null;
+  draft: BlogGeneration | null; // Current draft (cells carry generated image URLs)
+  review: BlogPostReview | null;
   attempts: number;
   maxAttempts: number;
+  versions: BlogVersion[]; // Every reviewed draft - the best one is returned
   errors: string[];
 }
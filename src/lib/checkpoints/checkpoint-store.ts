@@ -0,0 +1,173 @@
+/**
+ * CHECKPOINT STORE
+ *
+ * Per-execution snapshots of pipeline work, so a failed or partial run can
+ * be resumed from its last good stage instead of starting over.
+ *
+ * Checkpoints are keyed by dotted stage name, e.g.:
+ * - "router"                 (graph node output)
+ * - "creator.code.plan"      (code plan)
+ * - "creator.code.review.2"  (second review of the code)
+ * - "creator.blog.images"    (blog cells with generated images)
+ *
+ * Like the ProgressReporter, scoped() gives nested stages their own prefix.
+ *
+ * Why not a LangGraph checkpointer?
+ * AgentState carries live objects (logger, progress reporter) that can't be
+ * serialized, and we also need checkpoints INSIDE the creator nodes. So nodes
+ * save their own JSON-serializable results here instead.
+ *
+ * ```typescript
+ * const checkpoints = await CheckpointStore.load(executionId, logger);
+ * const code = checkpoints.scoped('creator').scoped('code');
+ * const plan = await code.getOrRun('plan', () => planCodeProject(idea));
+ * ```
+ *
+ * Saving never throws: a failed write is logged and the pipeline continues.
+ */
+
+import { supabaseAdmin } from '../db/supabase';
+import type { Logger } from '../logging/logger';
+
+/**
+ * A saved checkpoint
+ */
+export interface Checkpoint<T = unknown> {
+  stage: string;
+  data: T;
+  savedAt: string;
+}
+
+/**
+ * State shared by a store and all of its scoped children
+ */
+interface CheckpointState {
+  executionId: string | null; // null = in-memory only
+  checkpoints: Map<string, Checkpoint>;
+  logger?: Logger;
+}
+
+export class CheckpointStore {
+  private constructor(
+    private state: CheckpointState,
+    private prefix = ''
+  ) {}
+
+  /**
+   * Load all checkpoints saved for an execution
+   */
+  static async load(executionId: string, logger?: Logger): Promise<CheckpointStore> {
+    const { data, error } = await supabaseAdmin
+      .from('execution_checkpoints')
+      .select('stage, data, updated_at')
+      .eq('execution_id', executionId)
+      .order('updated_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load checkpoints: ${error.message}`);
+    }
+
+    const checkpoints = new Map<string, Checkpoint>();
+    for (const row of data || []) {
+      checkpoints.set(row.stage, { stage: row.stage, data: row.data, savedAt: row.updated_at });
+    }
+
+    return new CheckpointStore({ executionId, checkpoints, logger });
+  }
+
+  /**
+   * A store that only keeps checkpoints in memory (nothing to resume from)
+   */
+  static memory(): CheckpointStore {
+    return new CheckpointStore({ executionId: null, checkpoints: new Map() });
+  }
+
+  /**
+   * Create a child store for a nested stage
+   */
+  scoped(name: string): CheckpointStore {
+    return new CheckpointStore(this.state, this.qualify(name));
+  }
+
+  /**
+   * Number of checkpoints under this store's prefix
+   */
+  get size(): number {
+    return this.entries().length;
+  }
+
+  get<T>(stage: string): T | undefined {
+    return this.state.checkpoints.get(this.qualify(stage))?.data as T | undefined;
+  }
+
+  /**
+   * The most recently saved checkpoint under this store's prefix
+   */
+  latest<T>(): Checkpoint<T> | undefined {
+    const entries = this.entries();
+    return entries[entries.length - 1] as Checkpoint<T> | undefined;
+  }
+
+  async save<T>(stage: string, data: T): Promise<void> {
+    const checkpoint: Checkpoint = {
+      stage: this.qualify(stage),
+      data,
+      savedAt: new Date().toISOString(),
+    };
+
+    // Re-insert so Map order stays "oldest saved first"
+    this.state.checkpoints.delete(checkpoint.stage);
+    this.state.checkpoints.set(checkpoint.stage, checkpoint);
+
+    if (!this.state.executionId) return;
+
+    try {
+      const { error } = await supabaseAdmin.from('execution_checkpoints').upsert(
+        {
+          execution_id: this.state.executionId,
+          stage: checkpoint.stage,
+          data: checkpoint.data,
+          updated_at: checkpoint.savedAt,
+        },
+        { onConflict: 'execution_id,stage' }
+      );
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      this.state.logger?.debug('💾 Checkpoint saved', { stage: checkpoint.stage });
+    } catch (error) {
+      this.state.logger?.warn('Failed to save checkpoint', {
+        stage: checkpoint.stage,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Return the checkpointed result of a stage, or run it and checkpoint the result
+   */
+  async getOrRun<T>(stage: string, run: () => Promise<T>): Promise<T> {
+    const saved = this.get<T>(stage);
+    if (saved !== undefined) {
+      this.state.logger?.info('♻️ Restored from checkpoint', { stage: this.qualify(stage) });
+      return saved;
+    }
+
+    const result = await run();
+    await this.save(stage, result);
+    return result;
+  }
+
+  private qualify(stage: string): string {
+    return this.prefix ? `${this.prefix}.${stage}` : stage;
+  }
+
+  private entries(): Checkpoint[] {
+    const prefix = this.prefix ? `${this.prefix}.` : '';
+    return Array.from(this.state.checkpoints.values()).filter((checkpoint) =>
+      checkpoint.stage.startsWith(prefix)
+    );
+  }
+}
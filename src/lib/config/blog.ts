@@ -0,0 +1,29 @@
+/**
+ * PUBLIC BLOG
+ *
+ * Blog outputs can be published to the app's own public blog:
+ * - /blog/[user]/[slug]   one post (user = the author's user id)
+ * - /blog/[user]          the author's index
+ * - /blog/[user]/feed.xml the author's Atom feed
+ *
+ * Only posts with is_public = true are served (see publishers/blog-publisher.ts).
+ *
+ * They can also be exported as a static-site bundle (Hugo, Jekyll, Astro -
+ * see publishers/static-site-export.ts).
+ */
+
+export const BLOG_CONFIG = {
+  // Absolute base for publication URLs and feed links
+  siteUrl: (process.env.NEXT_PUBLIC_URL || 'http://localhost:3000').replace(/\/+$/, ''),
+
+  // Posts listed on an index page and in a feed
+  pageSize: 50,
+
+  // meta_description length (search snippets cut off around here)
+  descriptionLength: 160,
+
+  // Static-site export: per-image download limits (an image over a limit
+  // keeps its remote URL and is listed in the manifest's skippedImages)
+  exportImageTimeoutMs: 15_000,
+  exportImageMaxBytes: 10 * 1024 * 1024,
+} as const;
@@ -0,0 +1,26 @@
+/**
+ * BEST-OF-N CODE GENERATION
+ *
+ * Optionally generate several candidate projects in parallel and keep the one
+ * the critic scores highest (see creators/code/candidate-selector.ts).
+ *
+ * Every candidate costs a full generation, static analysis, sandbox run and
+ * review, so this is off (1 candidate) unless CODE_CANDIDATES is set.
+ */
+
+import { isModelName, type ModelName } from './models';
+
+// More candidates than this costs more than it helps
+const MAX_CANDIDATES = 5;
+
+export const CANDIDATE_CONFIG = {
+  // Candidates generated per project (1 = one generation, no selection)
+  count: Math.min(MAX_CANDIDATES, Math.max(1, Math.floor(Number(process.env.CODE_CANDIDATES || 1)) || 1)),
+
+  // Generation models, assigned to candidates in turn (comma-separated names
+  // from MODEL_REGISTRY); empty = every candidate uses the plan's model tier
+  models: (process.env.CODE_CANDIDATE_MODELS || '')
+    .split(',')
+    .map((name) => name.trim())
+    .filter((name): name is ModelName => isModelName(name)),
+} as const;
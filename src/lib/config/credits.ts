@@ -0,0 +1,26 @@
+/**
+ * CREDIT CONFIGURATION
+ *
+ * How many credits an expansion costs, by expansion mode:
+ * - single: one output (the router's or the user's format)
+ * - bundle: GitHub repo + companion blog post (see agents/bundle-agent.ts)
+ *
+ * Credits are charged once per execution, only when it completes.
+ */
+
+import type { ExpansionMode } from '../agents/types';
+
+export const CREDIT_CONFIG = {
+  // Credits charged for a single-format expansion
+  singleCost: 1,
+
+  // Credits charged for a bundle (two creators, two outputs)
+  bundleCost: Number(process.env.BUNDLE_CREDIT_COST || 2),
+} as const;
+
+/**
+ * Credits charged for an expansion in the given mode
+ */
+export function getCreditCost(mode: ExpansionMode = 'single'): number {
+  return mode === 'bundle' ? CREDIT_CONFIG.bundleCost : CREDIT_CONFIG.singleCost;
+}
@@ -0,0 +1,20 @@
+/**
+ * IMAGE STORAGE
+ *
+ * Generated images are re-hosted in the Supabase Storage `images` bucket
+ * (see creators/image-storage.ts), because provider URLs expire. The bucket
+ * and its policies are created by scripts/setup-db.sql; existing outputs are
+ * moved over by scripts/backfill-images.ts.
+ */
+
+export const IMAGE_STORAGE_CONFIG = {
+  // Public bucket, objects named {userId}/{sha256}.{ext}
+  bucket: 'images',
+
+  // Per-image download limits (an image over a limit keeps its provider URL)
+  downloadTimeoutMs: 30_000,
+  maxBytes: 20 * 1024 * 1024,
+
+  // Objects are content-addressed, so they never change
+  cacheControlSeconds: 365 * 24 * 60 * 60,
+} as const;
@@ -0,0 +1,37 @@
+/**
+ * JOB QUEUE CONFIGURATION
+ *
+ * Tuning knobs for the expansion job queue (see src/lib/jobs).
+ *
+ * Lease/heartbeat relationship:
+ * - A worker holds a lease on every job it runs
+ * - It renews the lease every HEARTBEAT_INTERVAL_MS
+ * - If the lease expires (process crashed, deploy restarted it), the job is
+ *   handed to another worker or failed once it runs out of attempts
+ *
+ * Keep LEASE_SECONDS comfortably above the heartbeat interval so a slow
+ * heartbeat round-trip doesn't lose the lease.
+ */
+
+export const JOB_CONFIG = {
+  // Which driver runs jobs: 'local' (in the Next.js process) or 'external' (scripts/run-worker.ts)
+  driver: (process.env.JOB_DRIVER || 'local') as 'local' | 'external',
+
+  // How long a claimed job stays owned without a heartbeat
+  leaseSeconds: Number(process.env.JOB_LEASE_SECONDS || 90),
+
+  // How often a running job renews its lease
+  heartbeatIntervalMs: 20_000,
+
+  // How often a running job checks whether it was cancelled
+  cancelPollIntervalMs: 2_000,
+
+  // How long an idle worker waits before polling for new jobs
+  pollIntervalMs: Number(process.env.JOB_POLL_INTERVAL_MS || 5_000),
+
+  // Jobs run at most this many times before being marked failed
+  maxAttempts: 3,
+
+  // Jobs processed at the same time by a single worker
+  concurrency: Number(process.env.JOB_CONCURRENCY || 1),
+} as const;
@@ -62,6 +62,9 @@ export const MODEL_USE_CASES = {
   // Code fixing
   codeFix: MODEL_REGISTRY.anthropic.sonnet,
 
+  // Test suite generation
+  testGeneration: MODEL_REGISTRY.anthropic.sonnet,
+
   // Blog content generation
   blogGeneration: MODEL_REGISTRY.anthropic.sonnet,
 
@@ -71,12 +74,30 @@ export const MODEL_USE_CASES = {
   // Blog review
   blogReview: MODEL_REGISTRY.openai.mini,
 
+  // Slide deck planning
+  slidesPlanning: MODEL_REGISTRY.openai.nano,
+
+  // Slide deck generation
+  slidesGeneration: MODEL_REGISTRY.anthropic.sonnet,
+
+  // Research brief planning
+  researchPlanning: MODEL_REGISTRY.openai.nano,
+
+  // Research brief drafting
+  researchDrafting: MODEL_REGISTRY.anthropic.sonnet,
+
+  // Research brief review
+  researchReview: MODEL_REGISTRY.openai.mini,
+
   // Image prompt generation
   imagePrompt: MODEL_REGISTRY.openai.mini,
 
   // Idea summarization
   ideaSummary: MODEL_REGISTRY.anthropic.haiku,
 
+  // Social post variants (X thread, LinkedIn, Mastodon, Bluesky)
+  socialVariants: MODEL_REGISTRY.anthropic.haiku,
+
   // Format routing (blog vs code)
   routing: MODEL_REGISTRY.openai.mini,
 
@@ -105,3 +126,14 @@ export const MODEL_USE_CASES = {
 export type OpenAIModel = typeof MODEL_REGISTRY.openai[keyof typeof MODEL_REGISTRY.openai];
 export type AnthropicModel = typeof MODEL_REGISTRY.anthropic[keyof typeof MODEL_REGISTRY.anthropic];
 export type ModelName = OpenAIModel | AnthropicModel;
+
+const ANTHROPIC_MODELS: readonly string[] = Object.values(MODEL_REGISTRY.anthropic);
+const ALL_MODELS: readonly string[] = [...Object.values(MODEL_REGISTRY.openai), ...ANTHROPIC_MODELS];
+
+export function isModelName(name: string): name is ModelName {
+  return ALL_MODELS.includes(name);
+}
+
+export function isAnthropicModel(name: ModelName): name is AnthropicModel {
+  return ANTHROPIC_MODELS.includes(name);
+}
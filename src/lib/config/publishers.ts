@@ -0,0 +1,30 @@
+/**
+ * BLOG PLATFORM PUBLISHERS
+ *
+ * Blog outputs can be published to Dev.to, Ghost, WordPress and Medium with
+ * the user's own credentials (see publishers/platforms/).
+ *
+ * PUBLISHERS_MODE switches how the adapters talk to the platforms:
+ * - live:    real HTTP requests (default)
+ * - record:  real HTTP requests, and every exchange is appended to the
+ *            platform's fixture file (request bodies and responses only -
+ *            never headers, so no secrets are recorded)
+ * - fixture: no network; responses are replayed from the fixture files, so
+ *            the adapters can be exercised offline with any credentials
+ */
+
+const MODES = ['live', 'record', 'fixture'] as const;
+
+export type PublishersMode = (typeof MODES)[number];
+
+const mode = process.env.PUBLISHERS_MODE as PublishersMode | undefined;
+
+export const PUBLISHERS_CONFIG = {
+  mode: mode && MODES.includes(mode) ? mode : 'live',
+
+  // Recorded exchanges, one JSON file per platform or social network (devto.json, x.json, ...)
+  fixturesDir: process.env.PUBLISHERS_FIXTURES_DIR || 'src/lib/agents/publishers/platforms/fixtures',
+
+  // Per request to a platform's API
+  requestTimeoutMs: Number(process.env.PUBLISHERS_TIMEOUT_MS || 30_000),
+} as const;
@@ -0,0 +1,43 @@
+/**
+ * CODE SANDBOX CONFIGURATION
+ *
+ * Limits for running generated code (see creators/code/sandbox-runner.ts).
+ *
+ * The sandbox is a throwaway directory with its own venv / node_modules,
+ * a minimal environment (no API keys) and time and memory limits. It is not
+ * a security boundary like a container: the code (and the build scripts of
+ * the packages it installs) runs as the server's user, with network access.
+ * So it is off unless CODE_SANDBOX=on - set that only where generated code
+ * may run, e.g. a worker (JOB_DRIVER=external, npm run worker) in a
+ * container without network access to anything it shouldn't reach.
+ */
+
+export const SANDBOX_CONFIG = {
+  // Run generated code after generation and after every fix (opt-in)
+  enabled: process.env.CODE_SANDBOX === 'on',
+
+  // Installing dependencies (venv + pip, npm install, cargo build)
+  installTimeoutMs: Number(process.env.CODE_SANDBOX_INSTALL_TIMEOUT_MS || 180_000),
+
+  // Running the program itself
+  runTimeoutMs: Number(process.env.CODE_SANDBOX_RUN_TIMEOUT_MS || 30_000),
+
+  // Running the generated test suite (cargo test compiles first)
+  testTimeoutMs: Number(process.env.CODE_SANDBOX_TEST_TIMEOUT_MS || 120_000),
+
+  // Execute generated notebooks on a local Jupyter kernel (nbclient + ipykernel)
+  notebooks: process.env.CODE_SANDBOX_NOTEBOOKS !== 'off',
+
+  // Per notebook cell, and for the whole notebook
+  notebookCellTimeoutMs: Number(process.env.CODE_SANDBOX_NOTEBOOK_CELL_TIMEOUT_MS || 120_000),
+  notebookTimeoutMs: Number(process.env.CODE_SANDBOX_NOTEBOOK_TIMEOUT_MS || 600_000),
+
+  // Executed notebooks larger than this (images are base64) keep no outputs
+  maxNotebookBytes: 5_000_000,
+
+  // Address space limit for the program (Node: V8 heap limit)
+  memoryMb: Number(process.env.CODE_SANDBOX_MEMORY_MB || 512),
+
+  // stdout / stderr kept per run (the tail - that's where errors are)
+  maxOutputChars: 8_000,
+} as const;
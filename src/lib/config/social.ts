@@ -0,0 +1,28 @@
+/**
+ * SOCIAL POSTS
+ *
+ * Blog outputs get share posts for X (a thread), LinkedIn, Mastodon and
+ * Bluesky (see publishers/social/). Scheduled posts are sent by the social
+ * scheduler (src/lib/jobs/social-scheduler.ts), which runs wherever the job
+ * driver runs jobs: in the Next.js process (JOB_DRIVER=local) or in
+ * scripts/run-worker.ts (JOB_DRIVER=external).
+ *
+ * Network requests follow PUBLISHERS_MODE (see config/publishers.ts).
+ */
+
+export const SOCIAL_CONFIG = {
+  // How often the scheduler looks for due posts
+  pollIntervalMs: Number(process.env.SOCIAL_POLL_INTERVAL_MS || 30_000),
+
+  // Due posts claimed per poll
+  batchSize: 5,
+
+  // How long a claimed post stays owned; one that runs out is failed (a
+  // thread may be half posted, so it isn't retried)
+  leaseSeconds: 120,
+
+  // A post the network failed (5xx, timeout) is retried this many times in
+  // total, waiting retryDelayMs, then twice that, ...
+  maxAttempts: 3,
+  retryDelayMs: 60_000,
+} as const;
@@ -1,6 +1,17 @@
 import { supabaseAdmin } from './supabase';
-import type { Idea, CreateIdeaInput, UpdateIdeaInput, Credential } from './types';
+import type {
+  Idea,
+  CreateIdeaInput,
+  UpdateIdeaInput,
+  Credential,
+  Output,
+  BlogPost,
+  UpsertBlogPostInput,
+  SocialPost,
+  SaveSocialPostDraftInput,
+} from './types';
 import { encryptToJSON, decryptFromJSON } from '../crypto/encryption';
+import { QualityPolicyOverridesSchema, type QualityPolicyOverrides } from '../quality/quality-policy';
 
 // ============================================================
 // IDEAS QUERIES
@@ -142,6 +153,493 @@ export async function deleteIdea(ideaId: string, userId: string): Promise<void>
   }
 }
 
+// ============================================================
+// USER SETTINGS QUERIES
+// ============================================================
+
+/**
+ * Get a user's quality policy overrides ({} = defaults)
+ */
+export async function getUserQualityPolicy(userId: string): Promise<QualityPolicyOverrides> {
+  const { data, error } = await supabaseAdmin
+    .from('users')
+    .select('quality_policy')
+    .eq('id', userId)
+    .single();
+
+  if (error) {
+    console.error('Error fetching quality policy:', error);
+    throw new Error(`Failed to fetch quality policy: ${error.message}`);
+  }
+
+  // Saved by an older policy shape - fall back to the defaults, not a failed expansion
+  const parsed = QualityPolicyOverridesSchema.safeParse(data?.quality_policy ?? {});
+  if (!parsed.success) {
+    console.warn('⚠️ Stored quality policy is invalid, ignoring it', { userId, error: parsed.error.message });
+    return {};
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Replace a user's quality policy overrides (validated by the caller)
+ */
+export async function updateUserQualityPolicy(
+  userId: string,
+  overrides: QualityPolicyOverrides
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('users')
+    .update({ quality_policy: overrides, updated_at: new Date().toISOString() })
+    .eq('id', userId);
+
+  if (error) {
+    console.error('Error updating quality policy:', error);
+    throw new Error(`Failed to update quality policy: ${error.message}`);
+  }
+}
+
+// ============================================================
+// OUTPUT & BLOG POST QUERIES
+// ============================================================
+
+/**
+ * Get a single output (only if it belongs to the user)
+ */
+export async function getOutputById(outputId: string, userId: string): Promise<Output | null> {
+  const { data, error } = await supabaseAdmin
+    .from('outputs')
+    .select('*')
+    .eq('id', outputId)
+    .eq('user_id', userId)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') return null; // Not found
+    console.error('Error fetching output:', error);
+    throw new Error(`Failed to fetch output: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Record where an output is published (or clear it with published: false)
+ */
+export async function updateOutputPublication(
+  outputId: string,
+  userId: string,
+  publication: Pick<Output, 'published' | 'publication_url' | 'publication_metadata' | 'published_at'>
+): Promise<Output> {
+  const { data, error } = await supabaseAdmin
+    .from('outputs')
+    .update(publication)
+    .eq('id', outputId)
+    .eq('user_id', userId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error updating output publication:', error);
+    throw new Error(`Failed to update output publication: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Get the blog post published from an output
+ */
+export async function getBlogPostByOutputId(outputId: string, userId: string): Promise<BlogPost | null> {
+  const { data, error } = await supabaseAdmin
+    .from('blog_posts')
+    .select('*')
+    .eq('output_id', outputId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching blog post:', error);
+    throw new Error(`Failed to fetch blog post: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Slugs a user already has that start with the given base (for unique slugs)
+ */
+export async function getBlogSlugsLike(userId: string, base: string): Promise<string[]> {
+  const { data, error } = await supabaseAdmin
+    .from('blog_posts')
+    .select('slug')
+    .eq('user_id', userId)
+    .like('slug', `${base}%`);
+
+  if (error) {
+    console.error('Error fetching blog slugs:', error);
+    throw new Error(`Failed to fetch blog slugs: ${error.message}`);
+  }
+
+  return (data || []).map((row) => row.slug);
+}
+
+/**
+ * Create or update the blog post of an output (one post per output)
+ */
+export async function upsertBlogPost(input: UpsertBlogPostInput): Promise<BlogPost> {
+  const { data, error } = await supabaseAdmin
+    .from('blog_posts')
+    .upsert({ ...input, updated_at: new Date().toISOString() }, { onConflict: 'output_id' })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error saving blog post:', error);
+    throw new Error(`Failed to save blog post: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Show or hide a published blog post
+ */
+export async function updateBlogPostVisibility(
+  outputId: string,
+  userId: string,
+  isPublic: boolean
+): Promise<BlogPost | null> {
+  const { data, error } = await supabaseAdmin
+    .from('blog_posts')
+    .update({ is_public: isPublic, updated_at: new Date().toISOString() })
+    .eq('output_id', outputId)
+    .eq('user_id', userId)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error updating blog post visibility:', error);
+    throw new Error(`Failed to update blog post visibility: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Delete the blog post of an output
+ */
+export async function deleteBlogPostByOutputId(outputId: string, userId: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('blog_posts')
+    .delete()
+    .eq('output_id', outputId)
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Error deleting blog post:', error);
+    throw new Error(`Failed to delete blog post: ${error.message}`);
+  }
+}
+
+/**
+ * Get a public blog post by its author and slug (no authentication)
+ */
+export async function getPublicBlogPost(userId: string, slug: string): Promise<BlogPost | null> {
+  const { data, error } = await supabaseAdmin
+    .from('blog_posts')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('slug', slug)
+    .eq('is_public', true)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching public blog post:', error);
+    throw new Error(`Failed to fetch blog post: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * An author's public blog posts, newest first (no authentication)
+ */
+export async function getPublicBlogPosts(userId: string, limit: number): Promise<BlogPost[]> {
+  const { data, error } = await supabaseAdmin
+    .from('blog_posts')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('is_public', true)
+    .order('published_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching public blog posts:', error);
+    throw new Error(`Failed to fetch blog posts: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * Public name of a blog author (null if the user doesn't exist)
+ */
+export async function getBlogAuthor(userId: string): Promise<{ id: string; name: string | null } | null> {
+  const { data, error } = await supabaseAdmin
+    .from('users')
+    .select('id, name')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching blog author:', error);
+    throw new Error(`Failed to fetch blog author: ${error.message}`);
+  }
+
+  return data;
+}
+
+// ============================================================
+// SOCIAL POST QUERIES
+// ============================================================
+
+/**
+ * Get an output's social posts (one per network)
+ */
+export async function getSocialPosts(outputId: string, userId: string): Promise<SocialPost[]> {
+  const { data, error } = await supabaseAdmin
+    .from('social_posts')
+    .select('*')
+    .eq('output_id', outputId)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching social posts:', error);
+    throw new Error(`Failed to fetch social posts: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * Get a social post by ID
+ */
+export async function getSocialPostById(postId: string, userId: string): Promise<SocialPost | null> {
+  const { data, error } = await supabaseAdmin
+    .from('social_posts')
+    .select('*')
+    .eq('id', postId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching social post:', error);
+    throw new Error(`Failed to fetch social post: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Create or replace a network's draft for an output (one per network)
+ *
+ * Resets the schedule and delivery state - callers must not replace a
+ * post that is scheduled, posting or posted.
+ */
+export async function saveSocialPostDraft(input: SaveSocialPostDraftInput): Promise<SocialPost> {
+  const { data, error } = await supabaseAdmin
+    .from('social_posts')
+    .upsert(
+      {
+        ...input,
+        status: 'draft',
+        scheduled_for: null,
+        attempts: 0,
+        lease_expires_at: null,
+        post_url: null,
+        remote_ids: [],
+        error_message: null,
+        posted_at: null,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'output_id,network' }
+    )
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error saving social post:', error);
+    throw new Error(`Failed to save social post: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Update a social post, only if it is in one of the given statuses
+ *
+ * @returns The updated post, or null if it wasn't found in those statuses
+ */
+export async function updateSocialPost(
+  postId: string,
+  userId: string,
+  fields: Partial<Pick<SocialPost, 'posts' | 'hashtags' | 'status' | 'scheduled_for' | 'attempts' | 'error_message'>>,
+  statuses: SocialPost['status'][]
+): Promise<SocialPost | null> {
+  const { data, error } = await supabaseAdmin
+    .from('social_posts')
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq('id', postId)
+    .eq('user_id', userId)
+    .in('status', statuses)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error updating social post:', error);
+    throw new Error(`Failed to update social post: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Delete a social post (not while it is being posted)
+ *
+ * @returns false if it wasn't found, or is being posted
+ */
+export async function deleteSocialPost(postId: string, userId: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('social_posts')
+    .delete()
+    .eq('id', postId)
+    .eq('user_id', userId)
+    .neq('status', 'posting')
+    .select('id');
+
+  if (error) {
+    console.error('Error deleting social post:', error);
+    throw new Error(`Failed to delete social post: ${error.message}`);
+  }
+
+  return (data || []).length > 0;
+}
+
+// ============================================================
+// CREDENTIAL QUERIES
+// ============================================================
+
+/**
+ * Store a credential for a provider, encrypted (replaces the existing one)
+ *
+ * @param value - Plaintext secret (a token, or JSON for multi-field credentials)
+ */
+export async function saveCredential(
+  userId: string,
+  provider: Credential['provider'],
+  value: string
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('credentials')
+    .upsert(
+      {
+        user_id: userId,
+        provider,
+        encrypted_value: encryptToJSON(value),
+        is_active: true,
+        validation_status: 'not_checked',
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'user_id,provider' }
+    );
+
+  if (error) {
+    console.error('Error saving credential:', error);
+    throw new Error(`Failed to save credential: ${error.message}`);
+  }
+}
+
+/**
+ * Get a provider's decrypted credential (null if not connected or inactive)
+ */
+export async function getCredentialValue(
+  userId: string,
+  provider: Credential['provider']
+): Promise<string | null> {
+  const { data, error } = await supabaseAdmin
+    .from('credentials')
+    .select('encrypted_value')
+    .eq('user_id', userId)
+    .eq('provider', provider)
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching credential:', error);
+    throw new Error(`Failed to fetch credential: ${error.message}`);
+  }
+
+  return data ? decryptFromJSON(data.encrypted_value) : null;
+}
+
+/**
+ * A user's connected providers, without their secrets
+ */
+export async function getCredentialStatuses(
+  userId: string
+): Promise<Pick<Credential, 'provider' | 'is_active' | 'validation_status' | 'updated_at'>[]> {
+  const { data, error } = await supabaseAdmin
+    .from('credentials')
+    .select('provider, is_active, validation_status, updated_at')
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Error fetching credentials:', error);
+    throw new Error(`Failed to fetch credentials: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * Record whether a credential worked the last time it was used
+ */
+export async function updateCredentialValidation(
+  userId: string,
+  provider: Credential['provider'],
+  validationStatus: Credential['validation_status']
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('credentials')
+    .update({ validation_status: validationStatus, updated_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .eq('provider', provider);
+
+  if (error) {
+    console.error('Error updating credential validation:', error);
+    throw new Error(`Failed to update credential validation: ${error.message}`);
+  }
+}
+
+/**
+ * Remove a provider's credential
+ */
+export async function deleteCredential(userId: string, provider: Credential['provider']): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('credentials')
+    .delete()
+    .eq('user_id', userId)
+    .eq('provider', provider);
+
+  if (error) {
+    console.error('Error deleting credential:', error);
+    throw new Error(`Failed to delete credential: ${error.message}`);
+  }
+}
+
 // ============================================================
 // CONFIG QUERIES (Database metadata)
 // ============================================================
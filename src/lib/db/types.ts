@@ -1,10 +1,13 @@
 // Database types for Supabase tables
 
+import type { QualityPolicyOverrides } from '../quality/quality-policy';
+
 export interface User {
   id: string;
   email: string;
   name: string | null;
   timezone: string;
+  quality_policy: QualityPolicyOverrides; // Overrides on DEFAULT_QUALITY_POLICY
   created_at: string;
   updated_at: string;
 }
@@ -23,7 +26,7 @@ export interface Idea {
 export interface Credential {
   id: string;
   user_id: string;
-  provider: 'openai' | 'anthropic' | 'github';
+  provider: 'openai' | 'anthropic' | 'github' | 'twitter' | 'replicate' | 'devto' | 'ghost' | 'wordpress' | 'medium' | 'x' | 'linkedin' | 'mastodon' | 'bluesky';
   encrypted_value: string;
   is_active: boolean;
   validation_status: 'valid' | 'invalid' | 'not_checked';
@@ -37,24 +40,69 @@ export interface Execution {
   selected_idea_id: string | null;
   judge_reasoning: string | null;
   judge_score: number | null;
-  format_chosen: 'blog_post' | 'github_repo' | null;
+  format_chosen: string | null; // Registered output format id (see lib/agents/formats)
   format_reasoning: string | null;
-  status: 'running' | 'completed' | 'failed' | 'partial';
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'partial' | 'cancelled';
   error_message: string | null;
   error_step: string | null;
   tokens_used: number;
   duration_seconds: number | null;
+  // Job queue bookkeeping (see src/lib/jobs/job-queue.ts)
+  job_payload: Record<string, unknown>;
+  attempts: number;
+  max_attempts: number;
+  lease_owner: string | null;
+  lease_expires_at: string | null;
+  heartbeat_at: string | null;
+  cancel_requested_at: string | null;
+  queued_at: string;
+  // Latest progress (see src/lib/progress/progress-reporter.ts)
+  current_stage: string | null;
+  progress: number;
+  credit_consumed: boolean;
   started_at: string;
   completed_at: string | null;
 }
 
+export interface ExecutionEvent {
+  id: number;
+  execution_id: string;
+  stage: string;
+  status: 'started' | 'completed' | 'failed';
+  attempt: number;
+  percent: number;
+  message: string | null;
+  data: Record<string, unknown>;
+  created_at: string;
+}
+
+export interface ExecutionLog {
+  id: number;
+  execution_id: string;
+  level: 'DEBUG' | 'INFO' | 'WARN' | 'ERROR';
+  stage: string | null;
+  message: string;
+  data: Record<string, unknown> | null;
+  created_at: string;
+}
+
+export interface ExecutionCheckpoint {
+  id: number;
+  execution_id: string;
+  stage: string;
+  data: unknown;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface Output {
   id: string;
   execution_id: string;
   user_id: string;
   idea_id: string | null;
-  format: 'blog_post' | 'github_repo';
+  format: string; // Registered output format id (see lib/agents/formats)
   content: any; // JSONB
+  parent_output_id: string | null; // Bundle: the companion post points at its repo output
   published: boolean;
   publication_url: string | null;
   publication_metadata: any; // JSONB
@@ -78,7 +126,30 @@ export interface BlogPost {
   updated_at: string;
 }
 
+export interface SocialPost {
+  id: string;
+  output_id: string;
+  user_id: string;
+  network: 'x' | 'linkedin' | 'mastodon' | 'bluesky';
+  posts: string[]; // One per post (X threads have several); the last contains [BLOG_URL]
+  hashtags: string[]; // Without "#"
+  status: 'draft' | 'scheduled' | 'posting' | 'posted' | 'failed' | 'cancelled';
+  scheduled_for: string | null;
+  attempts: number;
+  lease_expires_at: string | null;
+  post_url: string | null;
+  remote_ids: string[];
+  error_message: string | null;
+  posted_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 // Input types for creating/updating records
+export type UpsertBlogPostInput = Omit<BlogPost, 'id' | 'created_at' | 'updated_at'>;
+
+export type SaveSocialPostDraftInput = Pick<SocialPost, 'output_id' | 'user_id' | 'network' | 'posts' | 'hashtags'>;
+
 export interface CreateIdeaInput {
   content: string; // The raw idea - just what the user types
   title?: string;  // Optional - will be generated by AI if not provided
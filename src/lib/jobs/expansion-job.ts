@@ -0,0 +1,363 @@
+/**
+ * EXPANSION JOB HANDLER
+ *
+ * Runs one claimed expansion job end-to-end:
+ * 1. Load the idea (and the forced format / constraints / mode / quality policy from the job payload)
+ * 2. Run the agent pipeline (with lease heartbeats in the background)
+ * 3. Save the output(s) and mark the idea expanded
+ *    A bundle saves two linked rows: the repo, and the companion blog post
+ *    pointing at it through parent_output_id
+ * 4. Consume the credits (only on full success, once everything is saved;
+ *    a bundle costs more)
+ * 5. Complete the job with the final status
+ *
+ * Progress: the pipeline reports 0-95, finalizing (save + credit) is 95-100.
+ * Logs: every Logger line inside the job is captured to `execution_logs`
+ * for GET /api/expand/stream.
+ * Resume: stage checkpoints from earlier runs of the same execution are
+ * loaded, so a retried or resumed job continues from its last good stage.
+ * A credit is charged at most once per execution.
+ * Cancel: the job polls for a cancel request and aborts the pipeline through
+ * the ambient cancellation signal; cancelled jobs never consume a credit.
+ * Lease lost: a failed heartbeat aborts the pipeline the same way, and the
+ * lease is checked again before saving and before charging the credit, so a
+ * job another worker took over never runs its side effects twice.
+ *
+ * This used to live inline in POST /api/expand as a fire-and-forget promise.
+ */
+
+import crypto from 'crypto';
+import { runAgentPipeline } from '../agents/graph';
+import { getIdeaById } from '../db/queries';
+import { supabaseAdmin } from '../db/supabase';
+import type { Logger } from '../logging/logger';
+import { runWithLogCapture } from '../logging/log-capture';
+import { ExecutionLogWriter } from '../logging/execution-logs';
+import { consumeExpansion } from '../usage/check-usage';
+import { getErrorMessage } from '../utils/error-handler';
+import { CancelledError, runWithCancellation, throwIfCancelled } from '../utils/cancellation';
+import { ProgressReporter } from '../progress/progress-reporter';
+import { CheckpointStore } from '../checkpoints/checkpoint-store';
+import { JOB_CONFIG } from '../config/jobs';
+import { getCreditCost } from '../config/credits';
+import {
+  claimExecutionCredit,
+  completeJob,
+  heartbeatJob,
+  isCancelRequested,
+  releaseExecutionCredit,
+  ExpansionPayloadSchema,
+  type ExpansionJob,
+} from './job-queue';
+
+export async function runExpansionJob(
+  job: ExpansionJob,
+  workerId: string,
+  parentLogger: Logger
+): Promise<void> {
+  const logWriter = new ExecutionLogWriter(job.executionId);
+
+  try {
+    await runWithLogCapture(logWriter.write, () => processJob(job, workerId, parentLogger));
+  } finally {
+    await logWriter.close();
+  }
+}
+
+async function processJob(
+  job: ExpansionJob,
+  workerId: string,
+  parentLogger: Logger
+): Promise<void> {
+  const { executionId, userId, ideaId } = job;
+  const logger = parentLogger.child({ executionId, userId, ideaId, stage: 'expansion-job' });
+  const startTime = new Date();
+  const progress = new ProgressReporter(executionId, logger);
+
+  logger.info('🏁 Job started', {
+    attempt: job.attempt,
+    maxAttempts: job.maxAttempts,
+    queuedAt: job.queuedAt,
+  });
+
+  // Keep the lease alive while the pipeline runs; once it is lost another
+  // worker may take over, so this run stops
+  const leaseLost = new AbortController();
+  const onLeaseLost = () => {
+    if (!leaseLost.signal.aborted) {
+      logger.warn('Lease lost - stopping pipeline, another worker may take over this job');
+      leaseLost.abort();
+    }
+  };
+  const heartbeat = setInterval(() => {
+    heartbeatJob(executionId, workerId)
+      .then((stillOwned) => {
+        if (!stillOwned) onLeaseLost();
+      })
+      .catch((error) => {
+        logger.warn('Heartbeat failed', { error: getErrorMessage(error) });
+      });
+  }, JOB_CONFIG.heartbeatIntervalMs);
+
+  // Watch for POST /api/expand/cancel (may come from another process)
+  const cancellation = new AbortController();
+  const checkCancelled = () => {
+    isCancelRequested(executionId)
+      .then((requested) => {
+        if (requested && !cancellation.signal.aborted) {
+          logger.warn('🛑 Cancellation requested, stopping pipeline');
+          cancellation.abort();
+        }
+      })
+      .catch((error) => {
+        logger.warn('Cancellation check failed', { error: getErrorMessage(error) });
+      });
+  };
+  checkCancelled();
+  const cancelWatch = setInterval(checkCancelled, JOB_CONFIG.cancelPollIntervalMs);
+
+  const pipelineSignal = AbortSignal.any([cancellation.signal, leaseLost.signal]);
+
+  // Before a side effect that must happen once (credit, output rows)
+  const ensureLeaseOwned = async () => {
+    if (leaseLost.signal.aborted || !(await heartbeatJob(executionId, workerId))) {
+      onLeaseLost();
+      throw new CancelledError('Lease lost');
+    }
+  };
+
+  try {
+    const selectedIdea = await getIdeaById(ideaId, userId);
+    if (!selectedIdea) {
+      await progress.failed('load-idea', `Idea not found: ${ideaId}`);
+      await completeJob(executionId, workerId, {
+        status: 'failed',
+        errorMessage: `Idea not found: ${ideaId}`,
+      });
+      logger.error('Idea not found, job failed');
+      return;
+    }
+
+    const payload = ExpansionPayloadSchema.safeParse(job.payload);
+    if (!payload.success) {
+      await progress.failed('load-idea', `Invalid job payload: ${payload.error.message}`);
+      await completeJob(executionId, workerId, {
+        status: 'failed',
+        errorMessage: `Invalid job payload: ${payload.error.message}`,
+      });
+      logger.error('Invalid job payload, job failed', { payload: job.payload });
+      return;
+    }
+
+    const { format, constraints, mode = 'single', qualityPolicy } = payload.data;
+    if (format || constraints || mode !== 'single') {
+      logger.info('🎛️ User overrides', { format, constraints, mode });
+    }
+    if (qualityPolicy) {
+      logger.info('Quality policy', { qualityPolicy });
+    }
+
+    const checkpoints = await CheckpointStore.load(executionId, logger);
+    if (checkpoints.size > 0) {
+      logger.info('♻️ Found checkpoints from a previous run', {
+        count: checkpoints.size,
+        latest: checkpoints.latest()?.stage,
+      });
+    }
+
+    const result = await runWithCancellation(pipelineSignal, () =>
+      runAgentPipeline({
+        userId,
+        selectedIdea,
+        executionId,
+        logger,
+        progress,
+        checkpoints,
+        format,
+        constraints,
+        qualityPolicy,
+        mode,
+      })
+    );
+
+    // Agents may swallow an aborted call and carry on - cancel wins regardless
+    throwIfCancelled(pipelineSignal);
+
+    await progress.started('finalize', { percent: 95 });
+
+    const endTime = new Date();
+    const durationSeconds = Math.floor((endTime.getTime() - startTime.getTime()) / 1000);
+
+    const errors = [...result.errors];
+
+    // SAVE OUTPUT(S) (a resumed execution replaces the outputs of its earlier run)
+    let outputId: string | null = null;
+    let companionOutputId: string | null = null;
+    if (result.generatedContent && result.selectedIdea) {
+      await ensureLeaseOwned();
+      outputId = await saveOutput(logger, {
+        executionId,
+        userId,
+        ideaId: result.selectedIdea.id,
+        format: result.chosenFormat!,
+        content: result.generatedContent,
+      });
+
+      // Bundle: the companion post links to the repo it explains
+      if (outputId && result.companionContent) {
+        companionOutputId = await saveOutput(logger, {
+          executionId,
+          userId,
+          ideaId: result.selectedIdea.id,
+          format: result.companionContent.format,
+          content: result.companionContent,
+          parentOutputId: outputId,
+        });
+      }
+
+      if (!outputId || (result.companionContent && !companionOutputId)) {
+        errors.push('Failed to save output');
+      }
+
+      if (outputId) {
+        // Mark idea as expanded
+        await supabaseAdmin
+          .from('ideas')
+          .update({ status: 'expanded' })
+          .eq('id', result.selectedIdea.id);
+      }
+    }
+
+    // Determine status (an output that wasn't saved counts as missing)
+    const hasErrors = errors.length > 0;
+    const status = hasErrors ? (outputId ? 'partial' : 'failed') : 'completed';
+
+    // CONSUME CREDIT (only if everything was created and saved, and only once per execution)
+    let creditType: 'free' | 'paid' | null = null;
+
+    if (status === 'completed' && outputId) {
+      await ensureLeaseOwned();
+      const firstCharge = await claimExecutionCredit(executionId);
+
+      if (!firstCharge) {
+        logger.info('💳 Credit already consumed for this execution, not charging again');
+      } else {
+        try {
+          const credits = getCreditCost(mode);
+          creditType = await consumeExpansion(userId, credits);
+          logger.info('💳 Credit consumed', { creditType, credits });
+        } catch (error) {
+          logger.error('❌ Failed to consume credit', { error: getErrorMessage(error) });
+          await releaseExecutionCredit(executionId);
+          // Don't fail the whole job if credit consumption fails
+          // Admin can manually adjust later
+        }
+      }
+    }
+
+    await progress.completed('finalize', {
+      percent: 100,
+      data: { status, outputId, ...(companionOutputId && { companionOutputId }) },
+    });
+
+    // COMPLETE JOB
+    const stillOwned = await completeJob(executionId, workerId, {
+      status,
+      errorMessage: errors.join('; ') || null,
+      durationSeconds,
+      fields: {
+        selected_idea_id: result.selectedIdea?.id || null,
+        format_chosen: result.chosenFormat,
+        format_reasoning: result.formatReasoning,
+      },
+    });
+
+    if (!stillOwned) {
+      logger.warn('Job finished after its lease was lost; final status not written');
+    }
+
+    logger.info('✅ Expansion complete', {
+      status,
+      chosenFormat: result.chosenFormat,
+      durationSeconds,
+      outputId,
+      companionOutputId,
+      creditType,
+    });
+  } catch (error) {
+    if (leaseLost.signal.aborted && !cancellation.signal.aborted) {
+      // The job belongs to whichever worker took it over - leave its row alone
+      logger.warn('🛑 Stopped after losing the lease', { error: getErrorMessage(error) });
+      return;
+    }
+
+    if (cancellation.signal.aborted) {
+      // No credit, no output - checkpoints are kept
+      await progress.failed('job', 'Cancelled by user', { attempt: job.attempt });
+      await completeJob(executionId, workerId, {
+        status: 'cancelled',
+        errorMessage: 'Cancelled by user',
+        durationSeconds: Math.floor((Date.now() - startTime.getTime()) / 1000),
+      });
+      logger.info('🛑 Expansion cancelled');
+      return;
+    }
+
+    await progress.failed('job', error, { attempt: job.attempt });
+    throw error;
+  } finally {
+    clearInterval(heartbeat);
+    clearInterval(cancelWatch);
+  }
+}
+
+/**
+ * Save one output of an execution (upsert keyed on execution + format)
+ *
+ * @returns The output ID, or null if saving failed
+ */
+async function saveOutput(
+  logger: Logger,
+  params: {
+    executionId: string;
+    userId: string;
+    ideaId: string;
+    format: string;
+    content: unknown;
+    parentOutputId?: string;
+  }
+): Promise<string | null> {
+  const { data: existingOutput } = await supabaseAdmin
+    .from('outputs')
+    .select('id')
+    .eq('execution_id', params.executionId)
+    .eq('format', params.format)
+    .maybeSingle();
+
+  const outputId = existingOutput?.id || crypto.randomUUID();
+
+  const { error: outputError } = await supabaseAdmin
+    .from('outputs')
+    .upsert({
+      id: outputId,
+      execution_id: params.executionId,
+      user_id: params.userId,
+      idea_id: params.ideaId,
+      format: params.format,
+      content: params.content,
+      published: false,
+      parent_output_id: params.parentOutputId ?? null,
+    });
+
+  if (outputError) {
+    logger.error('❌ Failed to save output', { format: params.format, error: outputError.message });
+    return null;
+  }
+
+  logger.info('💾 Output saved', {
+    outputId,
+    format: params.format,
+    ...(params.parentOutputId && { parentOutputId: params.parentOutputId }),
+  });
+  return outputId;
+}
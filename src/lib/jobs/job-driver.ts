@@ -0,0 +1,96 @@
+/**
+ * JOB DRIVERS
+ *
+ * A driver decides WHERE queued jobs run:
+ * - local:    an in-process JobWorker inside the Next.js server (no extra services)
+ * - external: a separate worker process (scripts/run-worker.ts) polls the queue;
+ *             the web process only enqueues
+ *
+ * Select with JOB_DRIVER=local|external (default: local). Scheduled social
+ * posts are sent by a SocialScheduler running alongside the job worker.
+ *
+ * The driver is a process-wide singleton stored on globalThis so that
+ * Next.js hot reloads in development don't start a second worker.
+ */
+
+import { createLogger } from '../logging/logger';
+import { getErrorMessage } from '../utils/error-handler';
+import { JOB_CONFIG } from '../config/jobs';
+import { recoverOrphanedJobs } from './job-queue';
+import { JobWorker } from './worker';
+import { SocialScheduler } from './social-scheduler';
+
+export interface JobDriver {
+  readonly name: 'local' | 'external';
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  /** Hint that a job was just enqueued, or a social post scheduled */
+  notify(): void;
+}
+
+/**
+ * Runs jobs inside the current Node.js process
+ */
+export class LocalJobDriver implements JobDriver {
+  readonly name = 'local' as const;
+  private worker: JobWorker | null = null;
+  private scheduler: SocialScheduler | null = null;
+
+  async start(): Promise<void> {
+    if (this.worker) return;
+
+    const logger = createLogger({ stage: 'job-driver' });
+
+    // Recover rows left 'running' by a previous process before claiming anything
+    try {
+      const recovered = await recoverOrphanedJobs();
+      logger.info('♻️ Recovered orphaned executions', recovered);
+    } catch (error) {
+      logger.error('Orphan recovery failed', { error: getErrorMessage(error) });
+    }
+
+    this.worker = new JobWorker('local');
+    this.worker.start();
+
+    this.scheduler = new SocialScheduler('local');
+    this.scheduler.start();
+  }
+
+  async stop(): Promise<void> {
+    await Promise.all([this.worker?.stop(), this.scheduler?.stop()]);
+    this.worker = null;
+    this.scheduler = null;
+  }
+
+  notify(): void {
+    this.worker?.wake();
+    this.scheduler?.wake();
+  }
+}
+
+/**
+ * Jobs and social posts are handled by a separate worker process; nothing
+ * to do here
+ */
+export class ExternalJobDriver implements JobDriver {
+  readonly name = 'external' as const;
+
+  async start(): Promise<void> {}
+
+  async stop(): Promise<void> {}
+
+  notify(): void {}
+}
+
+const globalForJobs = globalThis as unknown as { jobDriver?: JobDriver };
+
+/**
+ * Get the process-wide job driver (created on first use)
+ */
+export function getJobDriver(): JobDriver {
+  if (!globalForJobs.jobDriver) {
+    globalForJobs.jobDriver =
+      JOB_CONFIG.driver === 'external' ? new ExternalJobDriver() : new LocalJobDriver();
+  }
+  return globalForJobs.jobDriver;
+}
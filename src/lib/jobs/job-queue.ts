@@ -0,0 +1,385 @@
+/**
+ * EXPANSION JOB QUEUE
+ *
+ * Durable queue backed by the `executions` table.
+ *
+ * Lifecycle of a job:
+ * 1. enqueueExpansion()   - API route inserts an execution with status 'queued'
+ * 2. claimNextJob()       - A worker atomically claims it (status → 'running', lease set)
+ * 3. heartbeatJob()       - The worker extends its lease while the pipeline runs
+ * 4. completeJob()        - The worker writes the final status and releases the lease
+ * 5. resumeJob()          - A failed/partial execution goes back to 'queued' (keeps checkpoints)
+ *
+ * cancelJob() cancels a queued job outright, or flags a running one; the
+ * worker polls isCancelRequested() and aborts the pipeline.
+ *
+ * If a worker dies mid-job, its lease expires. The job is then either claimed
+ * again by another worker or, once it has used all of its attempts, failed by
+ * the next claim (or recoverOrphanedJobs() at worker start).
+ *
+ * Claiming and recovery are done by database functions (see scripts/setup-db.sql)
+ * so that they are atomic even with several workers polling at once.
+ */
+
+import { z } from 'zod';
+import { supabaseAdmin } from '../db/supabase';
+import type { Execution } from '../db/types';
+import { ExpansionConstraintsSchema, ExpansionModeSchema } from '../agents/types';
+import { QualityPolicySchema } from '../quality/quality-policy';
+import { JOB_CONFIG } from '../config/jobs';
+
+/**
+ * Pipeline options stored in `executions.job_payload` (sent with POST /api/expand)
+ */
+export const ExpansionPayloadSchema = z.object({
+  format: z.string().optional(), // Forced output format - skips the router
+  constraints: ExpansionConstraintsSchema.optional(),
+  mode: ExpansionModeSchema.optional(), // 'bundle' = GitHub repo + companion blog post
+  qualityPolicy: QualityPolicySchema.optional(), // Resolved at enqueue time (defaults ← user ← request)
+});
+
+export type ExpansionPayload = z.infer<typeof ExpansionPayloadSchema>;
+
+/**
+ * A claimed job, as seen by a worker
+ */
+export interface ExpansionJob {
+  executionId: string;
+  userId: string;
+  ideaId: string;
+  attempt: number;
+  maxAttempts: number;
+  payload: Record<string, unknown>;
+  queuedAt: string;
+}
+
+/**
+ * Final state written when a job finishes
+ */
+export interface JobCompletion {
+  status: 'completed' | 'failed' | 'partial' | 'cancelled';
+  errorMessage?: string | null;
+  durationSeconds?: number;
+  fields?: Partial<Execution>;
+}
+
+/**
+ * Queue a new expansion
+ *
+ * @returns The execution ID (doubles as the job ID)
+ */
+export async function enqueueExpansion(params: {
+  executionId: string;
+  userId: string;
+  ideaId: string;
+  payload?: ExpansionPayload;
+}): Promise<string> {
+  const now = new Date().toISOString();
+
+  const { error } = await supabaseAdmin.from('executions').insert({
+    id: params.executionId,
+    user_id: params.userId,
+    selected_idea_id: params.ideaId,
+    status: 'queued',
+    job_payload: params.payload || {},
+    attempts: 0,
+    max_attempts: JOB_CONFIG.maxAttempts,
+    queued_at: now,
+    started_at: now,
+  });
+
+  if (error) {
+    console.error('Error enqueueing expansion:', error);
+    throw new Error(`Failed to enqueue expansion: ${error.message}`);
+  }
+
+  return params.executionId;
+}
+
+/**
+ * Claim the oldest queued job (or one whose lease expired)
+ *
+ * @param workerId - Unique ID of the claiming worker
+ * @returns The claimed job, or null if the queue is empty
+ */
+export async function claimNextJob(workerId: string): Promise<ExpansionJob | null> {
+  const { data, error } = await supabaseAdmin.rpc('claim_next_execution', {
+    p_worker_id: workerId,
+    p_lease_seconds: JOB_CONFIG.leaseSeconds,
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim job: ${error.message}`);
+  }
+
+  const row = (Array.isArray(data) ? data[0] : data) as Execution | undefined;
+  if (!row) {
+    return null;
+  }
+
+  if (!row.selected_idea_id) {
+    // Cannot run without an idea - fail it instead of leaving it claimed
+    await completeJob(row.id, workerId, {
+      status: 'failed',
+      errorMessage: 'Queued execution has no idea attached',
+    });
+    return null;
+  }
+
+  return {
+    executionId: row.id,
+    userId: row.user_id,
+    ideaId: row.selected_idea_id,
+    attempt: row.attempts,
+    maxAttempts: row.max_attempts,
+    payload: row.job_payload || {},
+    queuedAt: row.queued_at,
+  };
+}
+
+/**
+ * Extend the lease on a running job
+ *
+ * @returns false if the worker no longer owns the job (lease was lost)
+ */
+export async function heartbeatJob(executionId: string, workerId: string): Promise<boolean> {
+  const now = new Date();
+  const leaseExpiresAt = new Date(now.getTime() + JOB_CONFIG.leaseSeconds * 1000);
+
+  const { data, error } = await supabaseAdmin
+    .from('executions')
+    .update({
+      heartbeat_at: now.toISOString(),
+      lease_expires_at: leaseExpiresAt.toISOString(),
+    })
+    .eq('id', executionId)
+    .eq('lease_owner', workerId)
+    .eq('status', 'running')
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to heartbeat job: ${error.message}`);
+  }
+
+  return (data || []).length > 0;
+}
+
+/**
+ * Write the final status of a job and release its lease
+ *
+ * Only succeeds if the worker still owns the lease, so a worker that lost
+ * its lease can't overwrite the result of the worker that took over.
+ *
+ * @returns false if the lease was lost before completion
+ */
+export async function completeJob(
+  executionId: string,
+  workerId: string,
+  completion: JobCompletion
+): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('executions')
+    .update({
+      ...completion.fields,
+      status: completion.status,
+      error_message: completion.errorMessage ?? null,
+      duration_seconds: completion.durationSeconds ?? null,
+      completed_at: new Date().toISOString(),
+      lease_owner: null,
+      lease_expires_at: null,
+    })
+    .eq('id', executionId)
+    .eq('lease_owner', workerId)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to complete job: ${error.message}`);
+  }
+
+  return (data || []).length > 0;
+}
+
+/**
+ * Put a job back in the queue after a retryable failure
+ *
+ * If the job has used all of its attempts it is marked failed instead.
+ */
+export async function releaseJob(
+  job: ExpansionJob,
+  workerId: string,
+  errorMessage: string
+): Promise<'requeued' | 'failed'> {
+  if (job.attempt >= job.maxAttempts) {
+    await completeJob(job.executionId, workerId, {
+      status: 'failed',
+      errorMessage,
+    });
+    return 'failed';
+  }
+
+  const { error } = await supabaseAdmin
+    .from('executions')
+    .update({
+      status: 'queued',
+      error_message: errorMessage,
+      lease_owner: null,
+      lease_expires_at: null,
+    })
+    .eq('id', job.executionId)
+    .eq('lease_owner', workerId);
+
+  if (error) {
+    throw new Error(`Failed to release job: ${error.message}`);
+  }
+
+  return 'requeued';
+}
+
+/**
+ * Requeue a failed or partial execution so it resumes from its checkpoints
+ *
+ * Attempts are reset so the resumed run gets a full set of retries.
+ *
+ * @returns false if the execution was not in a resumable state
+ */
+export async function resumeJob(executionId: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('executions')
+    .update({
+      status: 'queued',
+      error_message: null,
+      cancel_requested_at: null,
+      attempts: 0,
+      queued_at: new Date().toISOString(),
+      completed_at: null,
+      lease_owner: null,
+      lease_expires_at: null,
+    })
+    .eq('id', executionId)
+    .in('status', ['failed', 'partial'])
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to resume job: ${error.message}`);
+  }
+
+  return (data || []).length > 0;
+}
+
+/**
+ * Cancel a job
+ *
+ * - queued:  marked 'cancelled' immediately (no worker will claim it)
+ * - running: cancel_requested_at is set; the worker stops the job and marks it 'cancelled'
+ *
+ * @returns 'cancelled' or 'cancelling', or null if the job already finished
+ */
+export async function cancelJob(executionId: string): Promise<'cancelled' | 'cancelling' | null> {
+  const now = new Date().toISOString();
+
+  const { data: cancelled, error: queuedError } = await supabaseAdmin
+    .from('executions')
+    .update({
+      status: 'cancelled',
+      cancel_requested_at: now,
+      completed_at: now,
+    })
+    .eq('id', executionId)
+    .eq('status', 'queued')
+    .select('id');
+
+  if (queuedError) {
+    throw new Error(`Failed to cancel job: ${queuedError.message}`);
+  }
+
+  if ((cancelled || []).length > 0) {
+    return 'cancelled';
+  }
+
+  // Not queued (anymore) - ask the worker running it to stop
+  const { data: flagged, error: runningError } = await supabaseAdmin
+    .from('executions')
+    .update({ cancel_requested_at: now })
+    .eq('id', executionId)
+    .eq('status', 'running')
+    .select('id');
+
+  if (runningError) {
+    throw new Error(`Failed to cancel job: ${runningError.message}`);
+  }
+
+  return (flagged || []).length > 0 ? 'cancelling' : null;
+}
+
+/**
+ * Whether cancellation was requested for a running job
+ */
+export async function isCancelRequested(executionId: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('executions')
+    .select('cancel_requested_at')
+    .eq('id', executionId)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to check cancellation: ${error.message}`);
+  }
+
+  return !!data?.cancel_requested_at;
+}
+
+/**
+ * Mark the execution's credit as consumed
+ *
+ * @returns true if this call set the flag (the caller should charge the credit),
+ *          false if a credit was already charged for this execution
+ */
+export async function claimExecutionCredit(executionId: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('executions')
+    .update({ credit_consumed: true })
+    .eq('id', executionId)
+    .eq('credit_consumed', false)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to claim execution credit: ${error.message}`);
+  }
+
+  return (data || []).length > 0;
+}
+
+/**
+ * Undo claimExecutionCredit() when charging the credit failed
+ */
+export async function releaseExecutionCredit(executionId: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('executions')
+    .update({ credit_consumed: false })
+    .eq('id', executionId);
+
+  if (error) {
+    throw new Error(`Failed to release execution credit: ${error.message}`);
+  }
+}
+
+/**
+ * Recover executions orphaned by a crashed or restarted process
+ *
+ * Run once on startup (before the worker starts claiming):
+ * - 'running' rows whose lease expired go back to 'queued'
+ * - 'running' rows with no lease at all, or out of attempts, are marked 'failed'
+ */
+export async function recoverOrphanedJobs(): Promise<{ requeued: number; failed: number }> {
+  const { data, error } = await supabaseAdmin.rpc('recover_orphaned_executions');
+
+  if (error) {
+    throw new Error(`Failed to recover orphaned jobs: ${error.message}`);
+  }
+
+  const row = Array.isArray(data) ? data[0] : data;
+  return {
+    requeued: row?.requeued ?? 0,
+    failed: row?.failed ?? 0,
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * SOCIAL POST QUEUE
+ *
+ * Scheduled social posts (the `social_posts` table) as a queue.
+ *
+ * Lifecycle of a post:
+ * 1. draft       - written by the social writer, edited by the user
+ * 2. scheduled   - the user picked a time (see publishers/social-publisher.ts)
+ * 3. posting     - claimDueSocialPosts() claimed it once due (lease set)
+ * 4. posted      - completeSocialPost(): every post of the thread was sent
+ *    failed      - failSocialPost(): rejected, out of attempts, or cut off
+ *                  mid-thread; retrySocialPost() schedules it again instead
+ *                  while the network's failure looks temporary
+ *
+ * cancelled is set by the user on a scheduled post.
+ *
+ * Claiming is done by a database function (see scripts/setup-db.sql) so it
+ * is atomic with several schedulers polling at once.
+ */
+
+import { supabaseAdmin } from '../db/supabase';
+import type { SocialPost } from '../db/types';
+import type { RemotePost } from '../agents/publishers/social';
+import { SOCIAL_CONFIG } from '../config/social';
+
+/**
+ * Claim the posts that are due (oldest first)
+ */
+export async function claimDueSocialPosts(): Promise<SocialPost[]> {
+  const { data, error } = await supabaseAdmin.rpc('claim_due_social_posts', {
+    p_limit: SOCIAL_CONFIG.batchSize,
+    p_lease_seconds: SOCIAL_CONFIG.leaseSeconds,
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim social posts: ${error.message}`);
+  }
+
+  return (data || []) as SocialPost[];
+}
+
+/**
+ * Mark a post as posted
+ */
+export async function completeSocialPost(postId: string, sent: RemotePost[]): Promise<void> {
+  await finish(postId, {
+    status: 'posted',
+    post_url: sent[0]?.url ?? null,
+    remote_ids: sent.map((post) => post.id),
+    error_message: null,
+    posted_at: new Date().toISOString(),
+  });
+}
+
+/**
+ * Mark a post as failed, keeping whatever part of a thread was sent
+ */
+export async function failSocialPost(postId: string, errorMessage: string, sent: RemotePost[]): Promise<void> {
+  await finish(postId, {
+    status: 'failed',
+    post_url: sent[0]?.url ?? null,
+    remote_ids: sent.map((post) => post.id),
+    error_message: sent.length > 0 ? `Stopped after ${sent.length} post(s): ${errorMessage}` : errorMessage,
+  });
+}
+
+/**
+ * Schedule a post again after a temporary failure (nothing was sent)
+ *
+ * The delay doubles with every attempt.
+ */
+export async function retrySocialPost(post: SocialPost, errorMessage: string): Promise<void> {
+  const delayMs = SOCIAL_CONFIG.retryDelayMs * 2 ** (post.attempts - 1);
+
+  await finish(post.id, {
+    status: 'scheduled',
+    scheduled_for: new Date(Date.now() + delayMs).toISOString(),
+    error_message: errorMessage,
+  });
+}
+
+/**
+ * Write a claimed post's outcome and release its lease
+ *
+ * Only applies while it is still 'posting' - a post whose lease ran out was
+ * already failed by the claim function.
+ */
+async function finish(postId: string, fields: Partial<SocialPost>): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('social_posts')
+    .update({ ...fields, lease_expires_at: null, updated_at: new Date().toISOString() })
+    .eq('id', postId)
+    .eq('status', 'posting');
+
+  if (error) {
+    throw new Error(`Failed to update social post: ${error.message}`);
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * SOCIAL SCHEDULER
+ *
+ * Polls social_posts for scheduled posts that are due and sends them.
+ *
+ * - Claims up to SOCIAL_CONFIG.batchSize posts per poll and sends them one
+ *   at a time
+ * - Sleeps for pollIntervalMs when nothing is due
+ * - wake() skips the sleep (called right after a post is scheduled)
+ * - stop() stops polling and waits for the current batch
+ *
+ * A post the network failed temporarily (5xx, rate limit) before anything
+ * was sent is scheduled again until it runs out of attempts; any other
+ * failure marks it failed.
+ */
+
+import { randomUUID } from 'crypto';
+import { createLogger, type Logger } from '../logging/logger';
+import { getErrorMessage } from '../utils/error-handler';
+import { SOCIAL_CONFIG } from '../config/social';
+import type { SocialPost } from '../db/types';
+import { PublisherError } from '../agents/publishers/platforms/types';
+import { sendSocialPost, type SocialDelivery } from '../agents/publishers/social-publisher';
+import { claimDueSocialPosts, completeSocialPost, failSocialPost, retrySocialPost } from './social-queue';
+
+export class SocialScheduler {
+  readonly schedulerId: string;
+  private logger: Logger;
+  private running = false;
+  private wakeUp: (() => void) | null = null;
+  private loop: Promise<void> | null = null;
+
+  constructor(name = 'social') {
+    this.schedulerId = `${name}-${randomUUID().slice(0, 8)}`;
+    this.logger = createLogger({ stage: 'social-scheduler', executionId: this.schedulerId });
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.logger.info('📣 Social scheduler started', {
+      pollIntervalMs: SOCIAL_CONFIG.pollIntervalMs,
+      batchSize: SOCIAL_CONFIG.batchSize,
+    });
+    this.loop = this.run();
+  }
+
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this.running = false;
+    this.wake();
+    await this.loop;
+    this.logger.info('📣 Social scheduler stopped');
+  }
+
+  /**
+   * Poll immediately instead of waiting for the next interval
+   */
+  wake(): void {
+    this.wakeUp?.();
+  }
+
+  private async run(): Promise<void> {
+    while (this.running) {
+      let claimed = 0;
+
+      try {
+        const posts = await claimDueSocialPosts();
+        claimed = posts.length;
+        for (const post of posts) {
+          await this.process(post);
+        }
+      } catch (error) {
+        this.logger.error('Failed to poll social posts', { error: getErrorMessage(error) });
+      }
+
+      // A full batch means more may be due
+      if (claimed < SOCIAL_CONFIG.batchSize) {
+        await this.sleep();
+      }
+    }
+  }
+
+  private async process(post: SocialPost): Promise<void> {
+    const delivery = await sendSocialPost(post);
+
+    try {
+      if (!delivery.error) {
+        await completeSocialPost(post.id, delivery.sent);
+        this.logger.info('📣 Social post sent', { postId: post.id, network: post.network, url: delivery.sent[0]?.url });
+        return;
+      }
+
+      const message = getErrorMessage(delivery.error);
+      if (isTemporary(delivery) && post.attempts < SOCIAL_CONFIG.maxAttempts) {
+        await retrySocialPost(post, message);
+        this.logger.warn('Social post will be retried', {
+          postId: post.id,
+          network: post.network,
+          attempt: post.attempts,
+          error: message,
+        });
+      } else {
+        await failSocialPost(post.id, message, delivery.sent);
+        this.logger.error('Social post failed', { postId: post.id, network: post.network, error: message });
+      }
+    } catch (error) {
+      // Lease will expire and the claim function will fail the post
+      this.logger.error('Failed to record social post outcome', { postId: post.id, error: getErrorMessage(error) });
+    }
+  }
+
+  private sleep(): Promise<void> {
+    return new Promise((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        this.wakeUp = null;
+        resolve();
+      };
+      const timer = setTimeout(done, SOCIAL_CONFIG.pollIntervalMs);
+      this.wakeUp = done;
+    });
+  }
+}
+
+/**
+ * Worth another try: nothing was sent and the network answered that it is
+ * busy or broken. Timeouts and unexpected responses are not retried - the
+ * post may have gone through.
+ */
+function isTemporary({ sent, error }: SocialDelivery): boolean {
+  if (sent.length > 0 || !(error instanceof PublisherError) || error.status === undefined) return false;
+  return error.status === 429 || error.status >= 500;
+}
@@ -0,0 +1,125 @@
+/**
+ * JOB WORKER
+ *
+ * Polls the executions queue, claims jobs and runs them.
+ *
+ * - Claims up to `concurrency` jobs at a time
+ * - Sleeps for `pollIntervalMs` when the queue is empty
+ * - wake() skips the sleep (called right after a job is enqueued)
+ * - stop() stops claiming new jobs and waits for running ones to finish
+ *
+ * A job that throws is released back to the queue until it runs out of
+ * attempts, then marked failed.
+ */
+
+import { randomUUID } from 'crypto';
+import { createLogger, type Logger } from '../logging/logger';
+import { getErrorMessage } from '../utils/error-handler';
+import { JOB_CONFIG } from '../config/jobs';
+import { claimNextJob, releaseJob, type ExpansionJob } from './job-queue';
+import { runExpansionJob } from './expansion-job';
+
+export class JobWorker {
+  readonly workerId: string;
+  private logger: Logger;
+  private running = false;
+  private active = new Set<Promise<void>>();
+  private wakeUp: (() => void) | null = null;
+  private loop: Promise<void> | null = null;
+
+  constructor(name = 'worker') {
+    this.workerId = `${name}-${randomUUID().slice(0, 8)}`;
+    this.logger = createLogger({ stage: 'job-worker', executionId: this.workerId });
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.logger.info('👷 Worker started', {
+      concurrency: JOB_CONFIG.concurrency,
+      pollIntervalMs: JOB_CONFIG.pollIntervalMs,
+      leaseSeconds: JOB_CONFIG.leaseSeconds,
+    });
+    this.loop = this.run();
+  }
+
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this.running = false;
+    this.wake();
+    await this.loop;
+    await Promise.allSettled(Array.from(this.active));
+    this.logger.info('👷 Worker stopped');
+  }
+
+  /**
+   * Poll immediately instead of waiting for the next interval
+   */
+  wake(): void {
+    this.wakeUp?.();
+  }
+
+  private async run(): Promise<void> {
+    while (this.running) {
+      let claimed = false;
+
+      if (this.active.size < JOB_CONFIG.concurrency) {
+        try {
+          const job = await claimNextJob(this.workerId);
+          if (job) {
+            claimed = true;
+            this.track(this.process(job));
+          }
+        } catch (error) {
+          this.logger.error('Failed to poll queue', { error: getErrorMessage(error) });
+        }
+      }
+
+      // Keep claiming while there is work and capacity, otherwise sleep
+      if (!claimed || this.active.size >= JOB_CONFIG.concurrency) {
+        await this.sleep();
+      }
+    }
+  }
+
+  private async process(job: ExpansionJob): Promise<void> {
+    try {
+      await runExpansionJob(job, this.workerId, this.logger);
+    } catch (error) {
+      const message = getErrorMessage(error);
+      this.logger.error('Job threw', { executionId: job.executionId, error: message });
+
+      try {
+        const outcome = await releaseJob(job, this.workerId, message);
+        this.logger.warn(`Job ${outcome}`, {
+          executionId: job.executionId,
+          attempt: job.attempt,
+          maxAttempts: job.maxAttempts,
+        });
+      } catch (releaseError) {
+        // Lease will expire and the job will be recovered
+        this.logger.error('Failed to release job', { error: getErrorMessage(releaseError) });
+      }
+    }
+  }
+
+  private track(task: Promise<void>): void {
+    this.active.add(task);
+    task.finally(() => {
+      this.active.delete(task);
+      this.wake(); // Capacity freed up
+    });
+  }
+
+  private sleep(): Promise<void> {
+    return new Promise((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        this.wakeUp = null;
+        resolve();
+      };
+      const timer = setTimeout(done, JOB_CONFIG.pollIntervalMs);
+      this.wakeUp = done;
+    });
+  }
+}
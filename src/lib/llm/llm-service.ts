@@ -2,10 +2,12 @@ import { ChatOpenAI } from '@langchain/openai';
 import { ChatAnthropic } from '@langchain/anthropic';
 import { ZodType } from 'zod';
 import type { Logger } from '../logging/logger';
+import { CancelledError, getCancellationSignal, isCancellation, throwIfCancelled } from '../utils/cancellation';
 
 export interface LLMCallOptions {
   temperature?: number;
   logger?: Logger;
+  signal?: AbortSignal; // Defaults to the job's cancellation signal
 }
 
 export interface LLMFallbackConfig {
@@ -28,6 +30,7 @@ export interface LLMFallbackConfig {
  * - Primary LLM call with structured output schema
  * - Automatic fallback to secondary provider if primary fails
  * - Logging of success/failure at each step
+ * - Cancellation: aborts the in-flight request and skips the fallback
  *
  * Usage:
  * ```typescript
@@ -48,6 +51,8 @@ export async function callLLMStructured<T>(
   config: LLMFallbackConfig,
   logger?: Logger
 ): Promise<T> {
+  throwIfCancelled();
+
   try {
     logger?.debug('Calling LLM (primary)', {
       provider: config.primary.provider,
@@ -65,6 +70,10 @@ export async function callLLMStructured<T>(
     logger?.debug('LLM call successful (primary)');
     return result;
   } catch (primaryError) {
+    if (isCancellation(primaryError)) {
+      throw new CancelledError();
+    }
+
     logger?.warn('Primary LLM failed, trying fallback', {
       error: primaryError instanceof Error ? primaryError.message : String(primaryError),
     });
@@ -81,6 +90,10 @@ export async function callLLMStructured<T>(
       logger?.debug('LLM call successful (fallback)');
       return result;
     } catch (fallbackError) {
+      if (isCancellation(fallbackError)) {
+        throw new CancelledError();
+      }
+
       throw new Error(
         `Both LLMs failed. Primary (${config.primary.provider}): ${primaryError}. Fallback (${config.fallback.provider}): ${fallbackError}`
       );
@@ -99,6 +112,7 @@ async function callLLM<T>(
   options?: LLMCallOptions
 ): Promise<T> {
   const temperature = options?.temperature ?? 0.7;
+  const signal = options?.signal ?? getCancellationSignal();
 
   if (provider === 'openai') {
     const model = new ChatOpenAI({
@@ -107,7 +121,7 @@ async function callLLM<T>(
       apiKey: process.env.OPENAI_API_KEY,
     });
     const structuredModel = model.withStructuredOutput(schema);
-    return (await structuredModel.invoke(prompt)) as T;
+    return (await structuredModel.invoke(prompt, { signal })) as T;
   } else {
     const model = new ChatAnthropic({
       modelName,
@@ -115,6 +129,6 @@ async function callLLM<T>(
       apiKey: process.env.ANTHROPIC_API_KEY,
     });
     const structuredModel = model.withStructuredOutput(schema);
-    return (await structuredModel.invoke(prompt)) as T;
+    return (await structuredModel.invoke(prompt, { signal })) as T;
   }
 }
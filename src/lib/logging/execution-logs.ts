@@ -0,0 +1,142 @@
+/**
+ * EXECUTION LOGS
+ *
+ * Persists captured log lines to the `execution_logs` table so that
+ * GET /api/expand/stream can tail them - whether the job runs in the
+ * Next.js process (local driver) or in `npm run worker` (external driver).
+ *
+ * Lines are buffered and written in batches to keep the pipeline fast;
+ * call close() when the execution is done to flush the rest.
+ */
+
+import { supabaseAdmin } from '../db/supabase';
+import type { LogEntry } from './log-capture';
+
+const FLUSH_INTERVAL_MS = 500;
+const MAX_BATCH_SIZE = 100;
+
+// Keep rows small - the stream is for humans, not for debugging payloads
+const MAX_DATA_LENGTH = 4000;
+
+/**
+ * A persisted log line
+ */
+export interface ExecutionLogLine {
+  id: number;
+  level: LogEntry['level'];
+  stage: string | null;
+  message: string;
+  data: Record<string, unknown> | null;
+  timestamp: string;
+}
+
+export class ExecutionLogWriter {
+  private pending: LogEntry[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> = Promise.resolve();
+
+  constructor(private executionId: string) {}
+
+  /**
+   * Queue a line for writing (use as the runWithLogCapture handler)
+   */
+  write = (entry: LogEntry): void => {
+    this.pending.push(entry);
+
+    if (this.pending.length >= MAX_BATCH_SIZE) {
+      this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => this.flush(), FLUSH_INTERVAL_MS);
+    }
+  };
+
+  /**
+   * Write all pending lines (batches are written in order)
+   */
+  flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const batch = this.pending.splice(0);
+    if (batch.length === 0) {
+      return this.flushing;
+    }
+
+    this.flushing = this.flushing.then(() => this.insert(batch));
+    return this.flushing;
+  }
+
+  async close(): Promise<void> {
+    await this.flush();
+  }
+
+  private async insert(batch: LogEntry[]): Promise<void> {
+    try {
+      const { error } = await supabaseAdmin.from('execution_logs').insert(
+        batch.map((entry) => ({
+          execution_id: this.executionId,
+          level: entry.level,
+          stage: entry.stage,
+          message: entry.message,
+          data: truncateData(entry.data),
+          created_at: entry.timestamp,
+        }))
+      );
+
+      if (error) {
+        throw new Error(error.message);
+      }
+    } catch (error) {
+      // Use console directly: logging through Logger here would be captured again
+      console.warn(
+        `⚠️  Failed to persist ${batch.length} log lines: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+}
+
+function truncateData(data: LogEntry['data']): Record<string, unknown> | null {
+  if (!data) return null;
+
+  try {
+    const json = JSON.stringify(data);
+    if (json.length <= MAX_DATA_LENGTH) {
+      return data;
+    }
+    return { truncated: true, preview: json.slice(0, MAX_DATA_LENGTH) };
+  } catch {
+    return { truncated: true };
+  }
+}
+
+/**
+ * Load log lines for an execution written after `afterId` (oldest first)
+ */
+export async function getExecutionLogs(
+  executionId: string,
+  afterId = 0,
+  limit = 200
+): Promise<ExecutionLogLine[]> {
+  const { data, error } = await supabaseAdmin
+    .from('execution_logs')
+    .select('id, level, stage, message, data, created_at')
+    .eq('execution_id', executionId)
+    .gt('id', afterId)
+    .order('id', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to fetch execution logs: ${error.message}`);
+  }
+
+  return (data || []).map((row) => ({
+    id: row.id,
+    level: row.level,
+    stage: row.stage,
+    message: row.message,
+    data: row.data,
+    timestamp: row.created_at,
+  }));
+}
@@ -0,0 +1,46 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { LogData, LogLevel } from './logger';
+
+/**
+ * LOG CAPTURE
+ *
+ * Collects every Logger call made inside runWithLogCapture(), including
+ * loggers created deep in the creators with createLogger() that don't know
+ * which execution they belong to.
+ *
+ * Uses AsyncLocalStorage, so concurrent jobs in the same worker each only
+ * see their own log lines.
+ */
+
+export interface LogEntry {
+  level: LogLevel;
+  message: string;
+  stage: string | null;
+  data: LogData | null;
+  timestamp: string;
+}
+
+export type LogEntryHandler = (entry: LogEntry) => void;
+
+const captureStorage = new AsyncLocalStorage<LogEntryHandler>();
+
+/**
+ * Run fn with every log line inside it forwarded to onEntry
+ */
+export function runWithLogCapture<T>(onEntry: LogEntryHandler, fn: () => Promise<T>): Promise<T> {
+  return captureStorage.run(onEntry, fn);
+}
+
+/**
+ * Forward a log line to the active capture (no-op outside runWithLogCapture)
+ */
+export function captureLogEntry(entry: LogEntry): void {
+  const onEntry = captureStorage.getStore();
+  if (!onEntry) return;
+
+  try {
+    onEntry(entry);
+  } catch {
+    // Capturing must never break logging
+  }
+}
@@ -1,4 +1,5 @@
 import { randomUUID } from 'crypto';
+import { captureLogEntry } from './log-capture';
 
 export type LogLevel = 'DEBUG' | 'INFO' | 'WARN' | 'ERROR';
 
@@ -21,6 +22,7 @@ export interface LogData {
  * - Stage context propagation
  * - Child loggers for sub-stages
  * - Duration measurement
+ * - Live capture per execution (see log-capture.ts)
  */
 export class Logger {
   private context: LogContext;
@@ -86,6 +88,14 @@ export class Logger {
     if (data) {
       console.log(JSON.stringify(data, null, 2));
     }
+
+    captureLogEntry({
+      level,
+      message,
+      stage: stage || null,
+      data: data || null,
+      timestamp,
+    });
   }
 }
 
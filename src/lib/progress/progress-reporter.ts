@@ -0,0 +1,251 @@
+/**
+ * PROGRESS REPORTER
+ *
+ * Structured, persisted progress events for an execution.
+ *
+ * Every stage of the pipeline reports:
+ * - stage:   dotted name, e.g. "creator.code.review"
+ * - status:  started | completed | failed
+ * - attempt: which attempt of the stage this is (iteration loops, retries)
+ * - percent: overall completion of the execution (0-100)
+ *
+ * Events go to the `execution_events` table and the latest stage/percent is
+ * mirrored onto `executions.current_stage` / `executions.progress` so the
+ * status route can answer with a single query.
+ *
+ * Scoping:
+ * Nested stages report percent in their OWN 0-100 range. scoped() maps that
+ * range into a slice of the parent's range, so the code creator can say
+ * "review is 50% done" without knowing it runs between 10% and 95% overall.
+ *
+ * ```typescript
+ * const progress = new ProgressReporter(executionId);
+ * const creatorProgress = progress.scoped('creator', 10, 95);
+ * await creatorProgress.started('planning', { percent: 0 });   // overall 10%
+ * await creatorProgress.completed('planning', { percent: 20 }); // overall 27%
+ * ```
+ *
+ * Reporting never throws: a failed write is logged and the pipeline continues.
+ */
+
+import { supabaseAdmin } from '../db/supabase';
+import type { Logger } from '../logging/logger';
+
+export type StageStatus = 'started' | 'completed' | 'failed';
+
+export interface StageOptions {
+  attempt?: number;
+  percent?: number; // Local percent (0-100) within this reporter's range
+  message?: string;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * A single persisted progress event
+ */
+export interface ProgressEvent {
+  executionId: string;
+  stage: string;
+  status: StageStatus;
+  attempt: number;
+  percent: number; // Overall percent (0-100)
+  message: string | null;
+  data: Record<string, unknown>;
+  createdAt: string;
+}
+
+/**
+ * State shared by a reporter and all of its scoped children
+ */
+interface ProgressSink {
+  executionId: string;
+  lastPercent: number;
+  logger?: Logger;
+  listeners: Set<(event: ProgressEvent) => void>;
+}
+
+/**
+ * Where a scoped reporter sits inside its parent (internal)
+ */
+interface ProgressScope {
+  sink: ProgressSink;
+  prefix: string;
+  start: number;
+  end: number;
+}
+
+export class ProgressReporter {
+  private sink: ProgressSink;
+  private prefix: string;
+  private start: number;
+  private end: number;
+
+  constructor(executionId: string, logger?: Logger, scope?: ProgressScope) {
+    this.sink = scope?.sink ?? { executionId, lastPercent: 0, logger, listeners: new Set() };
+    this.prefix = scope?.prefix ?? '';
+    this.start = scope?.start ?? 0;
+    this.end = scope?.end ?? 100;
+  }
+
+  /**
+   * Create a child reporter for a nested stage
+   *
+   * @param name - Stage name prefix for the child's events
+   * @param start - Local percent where the child's range starts
+   * @param end - Local percent where the child's range ends
+   */
+  scoped(name: string, start: number, end: number): ProgressReporter {
+    return new ProgressReporter(this.sink.executionId, this.sink.logger, {
+      sink: this.sink,
+      prefix: this.qualify(name),
+      start: this.toOverall(start),
+      end: this.toOverall(end),
+    });
+  }
+
+  /**
+   * Subscribe to events as they are emitted (in-process only)
+   *
+   * @returns Unsubscribe function
+   */
+  onEvent(listener: (event: ProgressEvent) => void): () => void {
+    this.sink.listeners.add(listener);
+    return () => this.sink.listeners.delete(listener);
+  }
+
+  get executionId(): string {
+    return this.sink.executionId;
+  }
+
+  started(stage: string, options: StageOptions = {}): Promise<void> {
+    return this.emit(stage, 'started', options);
+  }
+
+  completed(stage: string, options: StageOptions = {}): Promise<void> {
+    return this.emit(stage, 'completed', options);
+  }
+
+  failed(stage: string, error: unknown, options: StageOptions = {}): Promise<void> {
+    return this.emit(stage, 'failed', {
+      ...options,
+      message: options.message || (error instanceof Error ? error.message : String(error)),
+    });
+  }
+
+  private qualify(stage: string): string {
+    return this.prefix ? `${this.prefix}.${stage}` : stage;
+  }
+
+  private toOverall(localPercent: number): number {
+    const clamped = Math.min(Math.max(localPercent, 0), 100);
+    return this.start + ((this.end - this.start) * clamped) / 100;
+  }
+
+  private async emit(stage: string, status: StageStatus, options: StageOptions): Promise<void> {
+    // Progress never goes backwards (a re-review doesn't "undo" percent)
+    const percent = Math.round(
+      Math.max(
+        this.sink.lastPercent,
+        options.percent !== undefined
+          ? this.toOverall(options.percent)
+          : status === 'completed'
+            ? this.end
+            : this.start
+      )
+    );
+    this.sink.lastPercent = percent;
+
+    const event: ProgressEvent = {
+      executionId: this.sink.executionId,
+      stage: this.qualify(stage),
+      status,
+      attempt: options.attempt ?? 1,
+      percent,
+      message: options.message ?? null,
+      data: options.data ?? {},
+      createdAt: new Date().toISOString(),
+    };
+
+    this.sink.logger?.debug('Progress', {
+      stage: event.stage,
+      status: event.status,
+      attempt: event.attempt,
+      percent: event.percent,
+    });
+
+    for (const listener of this.sink.listeners) {
+      try {
+        listener(event);
+      } catch {
+        // Listeners must not break the pipeline
+      }
+    }
+
+    await persistProgressEvent(event, this.sink.logger);
+  }
+}
+
+/**
+ * Write an event and mirror the current stage onto the execution row
+ */
+async function persistProgressEvent(event: ProgressEvent, logger?: Logger): Promise<void> {
+  try {
+    const { error: insertError } = await supabaseAdmin.from('execution_events').insert({
+      execution_id: event.executionId,
+      stage: event.stage,
+      status: event.status,
+      attempt: event.attempt,
+      percent: event.percent,
+      message: event.message,
+      data: event.data,
+      created_at: event.createdAt,
+    });
+
+    if (insertError) {
+      throw new Error(insertError.message);
+    }
+
+    const { error: updateError } = await supabaseAdmin
+      .from('executions')
+      .update({
+        current_stage: event.stage,
+        progress: event.percent,
+      })
+      .eq('id', event.executionId);
+
+    if (updateError) {
+      throw new Error(updateError.message);
+    }
+  } catch (error) {
+    logger?.warn('Failed to persist progress event', {
+      stage: event.stage,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Load all progress events for an execution (oldest first)
+ */
+export async function getProgressEvents(executionId: string): Promise<ProgressEvent[]> {
+  const { data, error } = await supabaseAdmin
+    .from('execution_events')
+    .select('execution_id, stage, status, attempt, percent, message, data, created_at')
+    .eq('execution_id', executionId)
+    .order('id', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch progress events: ${error.message}`);
+  }
+
+  return (data || []).map((row) => ({
+    executionId: row.execution_id,
+    stage: row.stage,
+    status: row.status,
+    attempt: row.attempt,
+    percent: row.percent,
+    message: row.message,
+    data: row.data || {},
+    createdAt: row.created_at,
+  }));
+}
@@ -0,0 +1,135 @@
+import { z } from 'zod';
+
+/**
+ * QUALITY POLICY
+ *
+ * The quality gates the creators enforce: score thresholds, iteration
+ * budget, per-category minimums and cost ceilings.
+ *
+ * Resolved once per expansion, in this order (later wins):
+ * 1. DEFAULT_QUALITY_POLICY
+ * 2. The user's settings (users.quality_policy, see /api/settings)
+ * 3. The expand request (POST /api/expand body.qualityPolicy)
+ *
+ * The resolved policy travels in the job payload, so a resumed execution
+ * keeps the policy it started with.
+ *
+ * Category minimums apply to the creators that score that category (code:
+ * correctness, security, codeQuality, completeness, documentation; blog:
+ * clarity, accuracy, engagement, structure).
+ *
+ * Cost ceilings cap the operations that drive cost - there is no token
+ * metering, so they limit what the pipeline may do, not dollars.
+ */
+
+export const QUALITY_CATEGORIES = [
+  'correctness',
+  'security',
+  'codeQuality',
+  'completeness',
+  'documentation',
+  'clarity',
+  'accuracy',
+  'engagement',
+  'structure',
+] as const;
+
+export type QualityCategory = (typeof QUALITY_CATEGORIES)[number];
+
+const Score = z.number().int().min(0).max(100);
+
+const CostCeilingsSchema = z.object({
+  maxCandidates: z.number().int().min(1).max(5).describe('Best-of-N code candidates (caps CODE_CANDIDATES)'),
+  maxRegenerations: z.number().int().min(0).max(5).describe('Full regenerations (as expensive as the first draft)'),
+  maxImages: z.number().int().min(0).max(10).describe('Generated images per blog post'),
+});
+
+const QualityPolicyShape = z.object({
+  approveThreshold: Score.describe('Minimum overall score to accept without more fixes'),
+  regenerateThreshold: Score.describe('Below this the draft is regenerated instead of revised'),
+  maxIterations: z.number().int().min(0).max(5).describe('Fix / revise rounds after the first review'),
+  categoryMinimums: z.partialRecord(z.enum(QUALITY_CATEGORIES), Score).describe('e.g. { security: 80 }'),
+  costCeilings: CostCeilingsSchema,
+});
+
+export const QualityPolicySchema = QualityPolicyShape.refine(
+  (policy) => policy.regenerateThreshold <= policy.approveThreshold,
+  { message: 'regenerateThreshold must not be above approveThreshold', path: ['regenerateThreshold'] }
+);
+
+export type QualityPolicy = z.infer<typeof QualityPolicySchema>;
+
+/**
+ * Partial policy (user settings, expand request) - every field optional
+ */
+export const QualityPolicyOverridesSchema = QualityPolicyShape.extend({
+  costCeilings: CostCeilingsSchema.partial().strict(),
+}).partial().strict();
+
+export type QualityPolicyOverrides = z.infer<typeof QualityPolicyOverridesSchema>;
+
+/**
+ * The policy before user settings and the request (the previous constants)
+ */
+export const DEFAULT_QUALITY_POLICY: QualityPolicy = {
+  approveThreshold: 75,
+  regenerateThreshold: 60,
+  maxIterations: 3,
+  categoryMinimums: {},
+  costCeilings: {
+    maxCandidates: 5,
+    maxRegenerations: 2,
+    maxImages: 10,
+  },
+};
+
+/**
+ * Merge overrides onto the defaults (later layers win) and validate
+ */
+export function resolveQualityPolicy(...layers: (QualityPolicyOverrides | null | undefined)[]) {
+  const merged = layers.reduce<QualityPolicy>(
+    (policy, layer) => ({
+      ...policy,
+      ...layer,
+      categoryMinimums: { ...policy.categoryMinimums, ...layer?.categoryMinimums },
+      costCeilings: { ...policy.costCeilings, ...layer?.costCeilings },
+    }),
+    DEFAULT_QUALITY_POLICY
+  );
+  return QualityPolicySchema.safeParse(merged);
+}
+
+/**
+ * Does a review pass the policy?
+ *
+ * `recommendation` follows from the thresholds alone; creators combine it
+ * with their reviewer's own verdict.
+ */
+export function evaluateQuality(
+  review: { overallScore: number; categoryScores: Partial<Record<string, number>> },
+  policy: QualityPolicy
+): {
+  passed: boolean;
+  failures: string[];
+  recommendation: 'approve' | 'revise' | 'regenerate';
+} {
+  const failures: string[] = [];
+
+  if (review.overallScore < policy.approveThreshold) {
+    failures.push(`Overall score ${review.overallScore} is below ${policy.approveThreshold}`);
+  }
+
+  for (const [category, minimum] of Object.entries(policy.categoryMinimums)) {
+    const score = review.categoryScores[category];
+    if (score !== undefined && minimum !== undefined && score < minimum) {
+      failures.push(`${category} score ${score} is below ${minimum}`);
+    }
+  }
+
+  return {
+    passed: failures.length === 0,
+    failures,
+    recommendation:
+      review.overallScore < policy.regenerateThreshold ? 'regenerate' : failures.length > 0 ? 'revise' : 'approve',
+  };
+}
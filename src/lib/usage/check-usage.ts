@@ -8,7 +8,9 @@
  *
  * Usage flow:
  * 1. Before expansion: checkUsageLimit() - Is user allowed?
- * 2. After expansion: consumeExpansion() - Deduct credit
+ * 2. After expansion: consumeExpansion() - Deduct credit(s)
+ *
+ * Most expansions cost 1 credit; a bundle costs more (see config/credits.ts).
  * 3. When user pays: addPaidCredits() - Admin grants credits
  */
 
@@ -29,6 +31,7 @@ export interface UsageStatus {
  * Check if user has available credits for expansion
  *
  * @param userId - Database user ID (from session)
+ * @param credits - Credits the expansion will cost (default 1)
  * @returns UsageStatus object
  *
  * @example
@@ -42,7 +45,7 @@ export interface UsageStatus {
  * }
  * ```
  */
-export async function checkUsageLimit(userId: string): Promise<UsageStatus> {
+export async function checkUsageLimit(userId: string, credits = 1): Promise<UsageStatus> {
   try {
     // Fetch user's usage tracking record
     const { data: usage, error } = await supabaseAdmin
@@ -60,8 +63,8 @@ export async function checkUsageLimit(userId: string): Promise<UsageStatus> {
     const paidRemaining = usage.paid_credits_remaining;
     const totalUsed = usage.total_expansions_used;
 
-    // User has credits if either free or paid > 0
-    const hasCredits = freeRemaining > 0 || paidRemaining > 0;
+    // Free and paid credits add up (a bundle may use some of each)
+    const hasCredits = freeRemaining + paidRemaining >= credits;
 
     if (hasCredits) {
       return {
@@ -73,10 +76,12 @@ export async function checkUsageLimit(userId: string): Promise<UsageStatus> {
     } else {
       return {
         allowed: false,
-        freeRemaining: 0,
-        paidRemaining: 0,
+        freeRemaining,
+        paidRemaining,
         totalUsed,
-        reason: 'No free expansions or paid credits remaining. Purchase more credits to continue.',
+        reason: credits > 1
+          ? `This expansion costs ${credits} credits, but only ${freeRemaining + paidRemaining} remain. Purchase more credits to continue.`
+          : 'No free expansions or paid credits remaining. Purchase more credits to continue.',
       };
     }
   } catch (error) {
@@ -88,10 +93,11 @@ export async function checkUsageLimit(userId: string): Promise<UsageStatus> {
 /**
  * Consume an expansion credit
  *
- * Deducts 1 credit from user's account. Prioritizes free expansions over paid credits.
+ * Deducts credits from user's account. Prioritizes free expansions over paid credits.
  *
  * @param userId - Database user ID
- * @returns The type of credit consumed ('free' | 'paid')
+ * @param credits - Credits to deduct (default 1)
+ * @returns The type of credit consumed ('free' | 'paid' - 'paid' if any paid credit was used)
  *
  * @throws Error if user has no credits remaining
  *
@@ -101,11 +107,12 @@ export async function checkUsageLimit(userId: string): Promise<UsageStatus> {
  * console.log(`Used ${creditType} credit`);
  * ```
  */
-export async function consumeExpansion(userId: string): Promise<'free' | 'paid'> {
+export async function consumeExpansion(userId: string, credits = 1): Promise<'free' | 'paid'> {
   try {
     // Use database function to atomically consume credit
     const { data, error } = await supabaseAdmin.rpc('consume_expansion_credit', {
       p_user_id: userId,
+      p_credits: credits,
     });
 
     if (error) {
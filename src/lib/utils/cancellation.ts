@@ -0,0 +1,62 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * CANCELLATION
+ *
+ * Makes an AbortSignal available to everything running inside a job,
+ * without threading it through every agent signature:
+ *
+ * ```typescript
+ * await runWithCancellation(controller.signal, () => runAgentPipeline(...));
+ *
+ * // Deep inside an agent:
+ * await model.invoke(prompt, { signal: getCancellationSignal() });
+ * throwIfCancelled(); // between steps that can't take a signal
+ * ```
+ *
+ * Outside runWithCancellation() the signal is undefined and nothing is cancelled.
+ */
+
+export class CancelledError extends Error {
+  constructor(message = 'Expansion was cancelled') {
+    super(message);
+    this.name = 'CancelledError';
+  }
+}
+
+const signalStorage = new AsyncLocalStorage<AbortSignal>();
+
+/**
+ * Run fn with `signal` as the ambient cancellation signal
+ */
+export function runWithCancellation<T>(signal: AbortSignal, fn: () => Promise<T>): Promise<T> {
+  return signalStorage.run(signal, fn);
+}
+
+/**
+ * The ambient cancellation signal (undefined outside runWithCancellation)
+ */
+export function getCancellationSignal(): AbortSignal | undefined {
+  return signalStorage.getStore();
+}
+
+/**
+ * Throw a CancelledError if the ambient (or given) signal was aborted
+ */
+export function throwIfCancelled(signal: AbortSignal | undefined = getCancellationSignal()): void {
+  if (signal?.aborted) {
+    throw new CancelledError();
+  }
+}
+
+/**
+ * Whether an error was caused by cancellation
+ *
+ * Also true for errors thrown while the ambient signal is aborted, because
+ * libraries report an aborted request with their own error types.
+ */
+export function isCancellation(error: unknown): boolean {
+  if (error instanceof CancelledError) return true;
+  if (error instanceof Error && error.name === 'AbortError') return true;
+  return !!getCancellationSignal()?.aborted;
+}
@@ -0,0 +1,92 @@
+/**
+ * Image format and dimensions, read from the file's own header
+ *
+ * Covers what the image providers return (PNG, JPEG, WebP) plus GIF.
+ * Provider content types aren't trusted: some answer with
+ * application/octet-stream, and a data URL's declared type may be wrong.
+ */
+
+export interface ImageInfo {
+  contentType: 'image/png' | 'image/jpeg' | 'image/webp' | 'image/gif';
+  extension: 'png' | 'jpg' | 'webp' | 'gif';
+  width: number;
+  height: number;
+}
+
+/**
+ * Identify an image
+ *
+ * @returns The format and dimensions, or null if the data isn't a
+ *   supported (or well-formed) image
+ */
+export function readImageInfo(data: Buffer): ImageInfo | null {
+  if (isPng(data)) {
+    if (data.length < 24) return null;
+    return { contentType: 'image/png', extension: 'png', width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+
+  if (data.length >= 10 && data.toString('latin1', 0, 4) === 'GIF8') {
+    return { contentType: 'image/gif', extension: 'gif', width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+  }
+
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    const size = jpegSize(data);
+    return size && { contentType: 'image/jpeg', extension: 'jpg', ...size };
+  }
+
+  if (data.length >= 12 && data.toString('latin1', 0, 4) === 'RIFF' && data.toString('latin1', 8, 12) === 'WEBP') {
+    const size = webpSize(data);
+    return size && { contentType: 'image/webp', extension: 'webp', ...size };
+  }
+
+  return null;
+}
+
+function isPng(data: Buffer): boolean {
+  return data.length >= 8 && data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+}
+
+/**
+ * Walk the JPEG segments to the first start-of-frame marker
+ */
+function jpegSize(data: Buffer): { width: number; height: number } | null {
+  let offset = 2;
+  while (offset + 9 <= data.length) {
+    if (data[offset] !== 0xff) return null;
+
+    const marker = data[offset + 1];
+    // Fill bytes before a marker
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { height: data.readUInt16BE(offset + 5), width: data.readUInt16BE(offset + 7) };
+    }
+
+    offset += 2 + data.readUInt16BE(offset + 2);
+  }
+  return null;
+}
+
+function webpSize(data: Buffer): { width: number; height: number } | null {
+  if (data.length < 30) return null;
+
+  switch (data.toString('latin1', 12, 16)) {
+    // Lossy: 14-bit sizes after the frame tag and start code
+    case 'VP8 ':
+      return { width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff };
+    // Lossless: 14-bit sizes (minus one) packed after the signature byte
+    case 'VP8L': {
+      const bits = data.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    // Extended: 24-bit canvas sizes (minus one)
+    case 'VP8X':
+      return { width: data.readUIntLE(24, 3) + 1, height: data.readUIntLE(27, 3) + 1 };
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Read a fetch response body, at most maxBytes of it
+ *
+ * The body is streamed and the download stops as soon as it grows past the
+ * limit, so a response without (or with a wrong) content-length can't make
+ * us buffer more than maxBytes.
+ *
+ * @throws Error if the body is larger than maxBytes
+ */
+export async function readBodyWithLimit(response: Response, maxBytes: number): Promise<Buffer> {
+  if (Number(response.headers.get('content-length')) > maxBytes) {
+    await response.body?.cancel();
+    throw new Error(`Larger than ${maxBytes} bytes`);
+  }
+  if (!response.body) return Buffer.alloc(0);
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel();
+      throw new Error(`Larger than ${maxBytes} bytes`);
+    }
+    chunks.push(value);
+  }
+
+  return Buffer.concat(chunks, total);
+}
@@ -0,0 +1,82 @@
+import { gzipSync } from 'zlib';
+
+/**
+ * Minimal tar.gz writer (POSIX ustar) for downloadable bundles
+ *
+ * Regular files only; directories are implied by the paths, which every
+ * tar implementation accepts. Paths longer than 100 bytes use the ustar
+ * prefix field (up to 255 bytes in total).
+ */
+
+export interface TarEntry {
+  path: string; // Relative, forward slashes (e.g. "assets/cover.png")
+  data: Buffer | string;
+}
+
+const BLOCK_SIZE = 512;
+
+/**
+ * Pack entries into a gzipped tar archive
+ *
+ * @throws Error if a path is absolute, escapes the archive or is too long
+ */
+export function createTarGz(entries: TarEntry[], mtime: Date = new Date()): Buffer {
+  const blocks: Buffer[] = [];
+
+  for (const entry of entries) {
+    const data = typeof entry.data === 'string' ? Buffer.from(entry.data, 'utf8') : entry.data;
+    blocks.push(header(entry.path, data.length, mtime), data);
+
+    const padding = (BLOCK_SIZE - (data.length % BLOCK_SIZE)) % BLOCK_SIZE;
+    if (padding > 0) blocks.push(Buffer.alloc(padding));
+  }
+
+  // End of archive: two zero blocks
+  blocks.push(Buffer.alloc(BLOCK_SIZE * 2));
+
+  return gzipSync(Buffer.concat(blocks));
+}
+
+function header(path: string, size: number, mtime: Date): Buffer {
+  if (path.startsWith('/') || path.split('/').includes('..')) {
+    throw new Error(`Invalid archive path: ${path}`);
+  }
+
+  const [prefix, name] = splitPath(path);
+  const block = Buffer.alloc(BLOCK_SIZE);
+
+  block.write(name, 0, 100, 'utf8');
+  writeOctal(block, 0o644, 100, 8); // mode
+  writeOctal(block, 0, 108, 8); // uid
+  writeOctal(block, 0, 116, 8); // gid
+  writeOctal(block, size, 124, 12);
+  writeOctal(block, Math.floor(mtime.getTime() / 1000), 136, 12);
+  block.fill(' ', 148, 156); // checksum is computed with this field as spaces
+  block.write('0', 156, 1, 'ascii'); // regular file
+  block.write('ustar\u000000', 257, 8, 'ascii');
+  block.write(prefix, 345, 155, 'utf8');
+
+  const checksum = block.reduce((sum, byte) => sum + byte, 0);
+  block.write(`${checksum.toString(8).padStart(6, '0')}\u0000 `, 148, 8, 'ascii');
+
+  return block;
+}
+
+/**
+ * Split a path into ustar (prefix, name) - name max 100 bytes, prefix max 155
+ */
+function splitPath(path: string): [string, string] {
+  if (Buffer.byteLength(path) <= 100) return ['', path];
+
+  for (let i = path.indexOf('/'); i !== -1; i = path.indexOf('/', i + 1)) {
+    const prefix = path.slice(0, i);
+    const name = path.slice(i + 1);
+    if (Buffer.byteLength(prefix) <= 155 && Buffer.byteLength(name) <= 100) return [prefix, name];
+  }
+
+  throw new Error(`Archive path too long: ${path}`);
+}
+
+function writeOctal(block: Buffer, value: number, offset: number, length: number): void {
+  block.write(`${value.toString(8).padStart(length - 1, '0')}\u0000`, offset, length, 'ascii');
+}